@@ -1,6 +1,7 @@
 import "dotenv/config";
 import { createContext } from "@cyop/api/context";
 import { appRouter } from "@cyop/api/routers/index";
+import { handleLocalStorageRequest } from "@cyop/api/services/storage/local";
 import { auth } from "@cyop/auth";
 import { trpcServer } from "@hono/trpc-server";
 import { Hono } from "hono";
@@ -18,14 +19,21 @@ app.use(
 	"/*",
 	cors({
 		origin: env.CORS_ORIGIN || "",
-		allowMethods: ["GET", "POST", "OPTIONS"],
+		allowMethods: ["GET", "POST", "PUT", "OPTIONS"],
 		allowHeaders: ["Content-Type", "Authorization"],
+		// Multipart uploads read each part's ETag from the local storage route.
+		exposeHeaders: ["ETag"],
 		credentials: true,
 	}),
 );
 
 app.on(["POST", "GET"], "/api/auth/*", (c) => auth.handler(c.req.raw));
 
+// Signed URLs issued by the local storage driver; the signature is the auth.
+app.on(["GET", "HEAD", "PUT"], "/storage/*", (c) =>
+	handleLocalStorageRequest(c.req.raw),
+);
+
 app.use(
 	"/trpc/*",
 	trpcServer({
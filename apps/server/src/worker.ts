@@ -0,0 +1,84 @@
+import "dotenv/config";
+import { createCaptionWorker } from "@cyop/api/services/queueWorker";
+import { reconcileStorage } from "@cyop/api/services/reconcile";
+import { purgeTrash } from "@cyop/api/services/trash";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+function readNumber(value: string | undefined) {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+const worker = createCaptionWorker({
+	workerId: env.CAPTION_WORKER_ID || undefined,
+	concurrency: readNumber(env.CAPTION_WORKER_CONCURRENCY),
+	pollIntervalMs: readNumber(env.CAPTION_WORKER_POLL_INTERVAL_MS),
+	leaseMs: readNumber(env.CAPTION_WORKER_LEASE_MS),
+});
+
+// Enable on a single worker: the pass is safe to repeat but does not lock.
+const reconcileIntervalHours = readNumber(env.STORAGE_RECONCILE_INTERVAL_HOURS);
+const reconcileTimer = reconcileIntervalHours
+	? setInterval(() => {
+			reconcileStorage({
+				dryRun: false,
+				deleteOrphans: env.STORAGE_RECONCILE_DELETE_ORPHANS === "true",
+				requestedBy: "system:reconcile",
+			}).then(
+				(result) => {
+					const changed = result.datasets.filter(
+						(report) =>
+							report.finalized.length ||
+							report.markedFailed.length ||
+							report.orphanCount,
+					);
+					console.info("Storage reconciliation finished", changed);
+				},
+				(error) => console.error("Storage reconciliation failed", error),
+			);
+		}, reconcileIntervalHours * 3_600_000)
+	: null;
+
+// Purging only deletes rows already past retention, so every worker may run it.
+const purgeTimer = setInterval(
+	() => {
+		purgeTrash().then(
+			(result) => {
+				if (result.datasets || result.assets) {
+					console.info("Trash purge finished", result);
+				}
+			},
+			(error) => console.error("Trash purge failed", error),
+		);
+	},
+	(readNumber(env.TRASH_PURGE_INTERVAL_HOURS) ?? 1) * 3_600_000,
+);
+
+let shuttingDown = false;
+
+async function shutdown(signal: string) {
+	if (shuttingDown) {
+		return;
+	}
+	shuttingDown = true;
+	if (reconcileTimer) {
+		clearInterval(reconcileTimer);
+	}
+	clearInterval(purgeTimer);
+	console.info(`Received ${signal}, draining caption worker...`);
+	try {
+		await worker.stop();
+		process.exit(0);
+	} catch (error) {
+		console.error("Caption worker failed to stop cleanly", error);
+		process.exit(1);
+	}
+}
+
+process.once("SIGINT", () => void shutdown("SIGINT"));
+process.once("SIGTERM", () => void shutdown("SIGTERM"));
+
+worker.start();
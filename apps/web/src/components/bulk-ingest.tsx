@@ -0,0 +1,281 @@
+import { Badge } from "@cyop/ui/components/badge";
+import { Button } from "@cyop/ui/components/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@cyop/ui/components/card";
+import { Progress } from "@cyop/ui/components/progress";
+import { Textarea } from "@cyop/ui/components/textarea";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import FileArchive from "lucide-react/icons/file-archive";
+import Link from "lucide-react/icons/link";
+import Loader2 from "lucide-react/icons/loader-2";
+import {
+	type ChangeEvent,
+	type FormEvent,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+import { toast } from "sonner";
+
+import { trpc } from "@/utils/trpc";
+
+type IngestSummary = {
+	total?: number;
+	created?: number;
+	skipped?: number;
+	failed?: number;
+	captions?: number;
+	errors?: Array<{ entry: string; message: string }>;
+	source?: { fileName: string };
+};
+
+const statusCopy: Record<string, string> = {
+	queued: "排队中",
+	running: "导入中",
+	succeeded: "已完成",
+	failed: "失败",
+	paused: "已暂停",
+	blocked: "阻塞",
+};
+
+/**
+ * Uploads a ZIP/TAR archive or CSV/JSONL manifest and tracks the `ingest`
+ * task that expands it into the dataset.
+ */
+export default function BulkIngest({
+	datasetId,
+	onImported,
+}: {
+	datasetId: string;
+	onImported: () => void;
+}) {
+	const [uploading, setUploading] = useState(false);
+	const fileInput = useRef<HTMLInputElement>(null);
+	const [urlText, setUrlText] = useState("");
+	const [urlFailures, setUrlFailures] = useState<
+		Array<{ url: string; error: string }>
+	>([]);
+
+	const tasksQuery = useQuery({
+		...trpc.ingest.list.queryOptions({
+			datasetId: datasetId ? Number(datasetId) : undefined,
+		}),
+		refetchInterval: (query) =>
+			query.state.data?.some(
+				(task) => task.status === "queued" || task.status === "running",
+			)
+				? 3000
+				: false,
+	});
+	const tasks = tasksQuery.data ?? [];
+	const finished = tasks.filter((task) => task.status === "succeeded").length;
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: refresh the library whenever another import finishes
+	useEffect(() => {
+		if (finished) {
+			onImported();
+		}
+	}, [finished]);
+
+	const requestUpload = useMutation(
+		trpc.ingest.requestUpload.mutationOptions(),
+	);
+	const startIngest = useMutation(trpc.ingest.start.mutationOptions());
+	const importFromUrls = useMutation(
+		trpc.media.importFromUrls.mutationOptions({
+			onSuccess: (result) => {
+				const failures = result.results.flatMap((item) =>
+					item.ok ? [] : [{ url: item.url, error: item.error }],
+				);
+				setUrlFailures(failures);
+				setUrlText(failures.map((item) => item.url).join("\n"));
+				if (result.imported) {
+					toast.success(`已导入 ${result.imported} 个链接`);
+					onImported();
+				}
+				if (result.failed) {
+					toast.error(`${result.failed} 个链接导入失败`);
+				}
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	const handleUrlImport = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const urls = urlText
+			.split(/\s+/)
+			.map((url) => url.trim())
+			.filter(Boolean);
+		if (!urls.length || !datasetId) {
+			return;
+		}
+		if (urls.length > 100) {
+			toast.error("一次最多导入 100 个链接");
+			return;
+		}
+		importFromUrls.mutate({ datasetId: Number(datasetId), urls });
+	};
+
+	const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (!file || !datasetId) {
+			return;
+		}
+		setUploading(true);
+		try {
+			const { storageKey, upload } = await requestUpload.mutateAsync({
+				datasetId: Number(datasetId),
+				fileName: file.name,
+				size: file.size,
+			});
+			const response = await fetch(upload.url, {
+				method: "PUT",
+				headers: upload.headers,
+				body: file,
+			});
+			if (!response.ok) {
+				throw new Error("上传失败，请稍后重试");
+			}
+			await startIngest.mutateAsync({
+				datasetId: Number(datasetId),
+				storageKey,
+				fileName: file.name,
+			});
+			toast.success(`${file.name} 已上传，正在后台导入`);
+			tasksQuery.refetch();
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : "导入失败");
+		} finally {
+			setUploading(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>批量导入</CardTitle>
+				<CardDescription>
+					上传 ZIP / TAR 压缩包，或包含
+					file_name、source_url、caption、tags、metadata 列的 CSV / JSONL
+					清单，由服务端展开为素材；已有的 caption 会作为人工描述导入。
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				<div className="flex items-center gap-3">
+					<input
+						ref={fileInput}
+						type="file"
+						accept=".zip,.tar,.tgz,.tar.gz,.csv,.jsonl,.ndjson"
+						className="hidden"
+						onChange={handleFile}
+						disabled={!datasetId || uploading}
+					/>
+					<Button
+						type="button"
+						variant="outline"
+						disabled={!datasetId || uploading}
+						onClick={() => fileInput.current?.click()}
+					>
+						{uploading ? (
+							<Loader2 className="mr-2 size-4 animate-spin" />
+						) : (
+							<FileArchive className="mr-2 size-4" />
+						)}
+						选择压缩包或清单
+					</Button>
+					{datasetId ? null : (
+						<span className="text-muted-foreground text-sm">
+							请先在上方选择数据集
+						</span>
+					)}
+				</div>
+
+				<form onSubmit={handleUrlImport} className="space-y-2">
+					<Textarea
+						rows={3}
+						value={urlText}
+						onChange={(event) => setUrlText(event.target.value)}
+						placeholder="或粘贴图片 / 视频链接，每行一个（最多 100 个）"
+						disabled={!datasetId || importFromUrls.isPending}
+					/>
+					<Button
+						type="submit"
+						variant="outline"
+						disabled={!datasetId || !urlText.trim() || importFromUrls.isPending}
+					>
+						{importFromUrls.isPending ? (
+							<Loader2 className="mr-2 size-4 animate-spin" />
+						) : (
+							<Link className="mr-2 size-4" />
+						)}
+						从链接导入
+					</Button>
+					{urlFailures.slice(0, 5).map((failure) => (
+						<p
+							key={failure.url}
+							className="truncate text-destructive text-xs"
+							title={failure.url}
+						>
+							{failure.url}：{failure.error}
+						</p>
+					))}
+				</form>
+
+				{tasks.slice(0, 5).map((task) => {
+					const summary = task.metadata as IngestSummary;
+					return (
+						<div
+							key={task.id}
+							className="space-y-2 rounded-lg border bg-card/80 px-3 py-2 text-sm"
+						>
+							<div className="flex items-center justify-between gap-2">
+								<span className="truncate font-medium">
+									{summary.source?.fileName ?? `任务 #${task.id}`}
+								</span>
+								<Badge
+									variant={
+										task.status === "failed"
+											? "destructive"
+											: task.status === "succeeded"
+												? "default"
+												: "secondary"
+									}
+								>
+									{statusCopy[task.status] ?? task.status}
+								</Badge>
+							</div>
+							{task.status === "running" || task.status === "queued" ? (
+								<Progress value={task.progress} />
+							) : null}
+							<p className="text-muted-foreground text-xs">
+								{task.datasetName ?? "未知数据集"} · 新增 {summary.created ?? 0}
+								/{summary.total ?? 0}，caption {summary.captions ?? 0}
+								，失败 {summary.failed ?? 0}，跳过 {summary.skipped ?? 0}
+							</p>
+							{task.failureReason ? (
+								<p className="text-destructive text-xs">{task.failureReason}</p>
+							) : null}
+							{summary.errors?.slice(0, 3).map((error) => (
+								<p
+									key={error.entry}
+									className="truncate text-destructive text-xs"
+								>
+									{error.entry}：{error.message}
+								</p>
+							))}
+						</div>
+					);
+				})}
+			</CardContent>
+		</Card>
+	);
+}
@@ -8,6 +8,9 @@ const links = [
 	{ to: "/", label: "概览" },
 	{ to: "/dashboard", label: "控制塔" },
 	{ to: "/media", label: "素材库" },
+	{ to: "/duplicates", label: "素材查重" },
+	{ to: "/prompts", label: "Prompt 模板" },
+	{ to: "/tags", label: "标签词表" },
 	{ to: "/todos", label: "AI模型与批处理" },
 ] as const;
 
@@ -0,0 +1,170 @@
+import { Button } from "@cyop/ui/components/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@cyop/ui/components/card";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import Images from "lucide-react/icons/images";
+import RotateCcw from "lucide-react/icons/rotate-ccw";
+import { toast } from "sonner";
+
+import { useAssetUrls } from "@/utils/asset-urls";
+import { trpc } from "@/utils/trpc";
+
+/**
+ * Trashed assets of the selected dataset plus trashed datasets. Both can be
+ * restored until their retention window runs out.
+ */
+export default function MediaTrash({
+	datasetId,
+	onRestored,
+}: {
+	datasetId: string;
+	onRestored: () => void;
+}) {
+	const assetTrashQuery = useQuery({
+		...trpc.media.trash.queryOptions({ datasetId: Number(datasetId) }),
+		enabled: Boolean(datasetId),
+	});
+	const datasetTrashQuery = useQuery(trpc.dataset.trash.queryOptions());
+	const assets = datasetId ? (assetTrashQuery.data ?? []) : [];
+	const trashedDatasets = datasetTrashQuery.data ?? [];
+	const assetUrl = useAssetUrls(assets);
+
+	const restoreAssets = useMutation(
+		trpc.media.restore.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(`已恢复 ${result.restored.length} 个素材`);
+				assetTrashQuery.refetch();
+				onRestored();
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+	const restoreDataset = useMutation(
+		trpc.dataset.restore.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(
+					`已恢复数据集「${result.dataset.name}」及 ${result.restoredAssets} 个素材`,
+				);
+				datasetTrashQuery.refetch();
+				onRestored();
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	if (!assets.length && !trashedDatasets.length) {
+		return null;
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>回收站</CardTitle>
+				<CardDescription>
+					删除的素材与数据集会在保留期内保留原图、描述与标签，可随时恢复；过期后由后台任务彻底清理。
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{trashedDatasets.length ? (
+					<div className="space-y-2">
+						<p className="font-medium text-sm">已删除的数据集</p>
+						{trashedDatasets.map((dataset) => (
+							<div
+								key={dataset.id}
+								className="flex items-center justify-between gap-2 rounded-lg border px-3 py-2 text-sm"
+							>
+								<span className="truncate">
+									{dataset.name}
+									<span className="ml-2 text-muted-foreground text-xs">
+										{new Date(dataset.expiresAt).toLocaleString()} 后清理
+									</span>
+								</span>
+								<Button
+									size="sm"
+									variant="outline"
+									disabled={restoreDataset.isPending}
+									onClick={() => restoreDataset.mutate({ id: dataset.id })}
+								>
+									<RotateCcw className="mr-2 size-4" />
+									恢复
+								</Button>
+							</div>
+						))}
+					</div>
+				) : null}
+				{assets.length ? (
+					<div className="space-y-2">
+						<div className="flex items-center justify-between gap-2">
+							<p className="font-medium text-sm">
+								当前数据集已删除的素材（{assets.length}）
+							</p>
+							<Button
+								size="sm"
+								variant="outline"
+								disabled={restoreAssets.isPending}
+								onClick={() =>
+									restoreAssets.mutate({
+										assetIds: assets.slice(0, 200).map((asset) => asset.id),
+									})
+								}
+							>
+								<RotateCcw className="mr-2 size-4" />
+								全部恢复
+							</Button>
+						</div>
+						<div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+							{assets.map((asset) => (
+								<div
+									key={asset.id}
+									className="space-y-2 rounded-lg border p-2 text-sm"
+								>
+									{assetUrl(asset, "sm") ? (
+										<img
+											src={assetUrl(asset, "sm")}
+											alt={asset.originalName}
+											className="aspect-video w-full rounded object-cover opacity-60"
+											loading="lazy"
+										/>
+									) : (
+										<div className="flex aspect-video items-center justify-center rounded bg-muted">
+											<Images className="size-6 text-muted-foreground" />
+										</div>
+									)}
+									<p
+										className="truncate font-medium"
+										title={asset.originalName}
+									>
+										{asset.originalName}
+									</p>
+									<p className="text-muted-foreground text-xs">
+										{new Date(asset.expiresAt).toLocaleString()} 后清理
+									</p>
+									<Button
+										size="sm"
+										variant="outline"
+										className="w-full"
+										disabled={restoreAssets.isPending}
+										onClick={() =>
+											restoreAssets.mutate({ assetIds: [asset.id] })
+										}
+									>
+										恢复
+									</Button>
+								</div>
+							))}
+						</div>
+					</div>
+				) : null}
+			</CardContent>
+		</Card>
+	);
+}
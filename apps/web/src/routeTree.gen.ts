@@ -10,9 +10,12 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as TodosRouteImport } from './routes/todos'
+import { Route as TagsRouteImport } from './routes/tags'
+import { Route as PromptsRouteImport } from './routes/prompts'
 import { Route as MediaRouteImport } from './routes/media'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as EditorRouteImport } from './routes/editor'
+import { Route as DuplicatesRouteImport } from './routes/duplicates'
 import { Route as DashboardRouteImport } from './routes/dashboard'
 import { Route as IndexRouteImport } from './routes/index'
 
@@ -21,6 +24,16 @@ const TodosRoute = TodosRouteImport.update({
   path: '/todos',
   getParentRoute: () => rootRouteImport,
 } as any).lazy(() => import('./routes/todos.lazy').then((d) => d.Route))
+const TagsRoute = TagsRouteImport.update({
+  id: '/tags',
+  path: '/tags',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/tags.lazy').then((d) => d.Route))
+const PromptsRoute = PromptsRouteImport.update({
+  id: '/prompts',
+  path: '/prompts',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/prompts.lazy').then((d) => d.Route))
 const MediaRoute = MediaRouteImport.update({
   id: '/media',
   path: '/media',
@@ -36,6 +49,11 @@ const EditorRoute = EditorRouteImport.update({
   path: '/editor',
   getParentRoute: () => rootRouteImport,
 } as any).lazy(() => import('./routes/editor.lazy').then((d) => d.Route))
+const DuplicatesRoute = DuplicatesRouteImport.update({
+  id: '/duplicates',
+  path: '/duplicates',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/duplicates.lazy').then((d) => d.Route))
 const DashboardRoute = DashboardRouteImport.update({
   id: '/dashboard',
   path: '/dashboard',
@@ -50,49 +68,82 @@ const IndexRoute = IndexRouteImport.update({
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/dashboard': typeof DashboardRoute
+  '/duplicates': typeof DuplicatesRoute
   '/editor': typeof EditorRoute
   '/login': typeof LoginRoute
   '/media': typeof MediaRoute
+  '/prompts': typeof PromptsRoute
+  '/tags': typeof TagsRoute
   '/todos': typeof TodosRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/dashboard': typeof DashboardRoute
+  '/duplicates': typeof DuplicatesRoute
   '/editor': typeof EditorRoute
   '/login': typeof LoginRoute
   '/media': typeof MediaRoute
+  '/prompts': typeof PromptsRoute
+  '/tags': typeof TagsRoute
   '/todos': typeof TodosRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/dashboard': typeof DashboardRoute
+  '/duplicates': typeof DuplicatesRoute
   '/editor': typeof EditorRoute
   '/login': typeof LoginRoute
   '/media': typeof MediaRoute
+  '/prompts': typeof PromptsRoute
+  '/tags': typeof TagsRoute
   '/todos': typeof TodosRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/dashboard' | '/editor' | '/login' | '/media' | '/todos'
+  fullPaths:
+    | '/'
+    | '/dashboard'
+    | '/duplicates'
+    | '/editor'
+    | '/login'
+    | '/media'
+    | '/prompts'
+    | '/tags'
+    | '/todos'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/dashboard' | '/editor' | '/login' | '/media' | '/todos'
+  to:
+    | '/'
+    | '/dashboard'
+    | '/duplicates'
+    | '/editor'
+    | '/login'
+    | '/media'
+    | '/prompts'
+    | '/tags'
+    | '/todos'
   id:
     | '__root__'
     | '/'
     | '/dashboard'
+    | '/duplicates'
     | '/editor'
     | '/login'
     | '/media'
+    | '/prompts'
+    | '/tags'
     | '/todos'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   DashboardRoute: typeof DashboardRoute
+  DuplicatesRoute: typeof DuplicatesRoute
   EditorRoute: typeof EditorRoute
   LoginRoute: typeof LoginRoute
   MediaRoute: typeof MediaRoute
+  PromptsRoute: typeof PromptsRoute
+  TagsRoute: typeof TagsRoute
   TodosRoute: typeof TodosRoute
 }
 
@@ -105,6 +156,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof TodosRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/tags': {
+      id: '/tags'
+      path: '/tags'
+      fullPath: '/tags'
+      preLoaderRoute: typeof TagsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/prompts': {
+      id: '/prompts'
+      path: '/prompts'
+      fullPath: '/prompts'
+      preLoaderRoute: typeof PromptsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/media': {
       id: '/media'
       path: '/media'
@@ -126,6 +191,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof EditorRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/duplicates': {
+      id: '/duplicates'
+      path: '/duplicates'
+      fullPath: '/duplicates'
+      preLoaderRoute: typeof DuplicatesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/dashboard': {
       id: '/dashboard'
       path: '/dashboard'
@@ -146,9 +218,12 @@ declare module '@tanstack/react-router' {
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   DashboardRoute: DashboardRoute,
+  DuplicatesRoute: DuplicatesRoute,
   EditorRoute: EditorRoute,
   LoginRoute: LoginRoute,
   MediaRoute: MediaRoute,
+  PromptsRoute: PromptsRoute,
+  TagsRoute: TagsRoute,
   TodosRoute: TodosRoute,
 }
 export const routeTree = rootRouteImport
@@ -0,0 +1,293 @@
+import { Badge } from "@cyop/ui/components/badge";
+import { Button } from "@cyop/ui/components/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@cyop/ui/components/card";
+import { Input } from "@cyop/ui/components/input";
+import { Label } from "@cyop/ui/components/label";
+import { Select } from "@cyop/ui/components/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createLazyFileRoute } from "@tanstack/react-router";
+import Images from "lucide-react/icons/images";
+import Link from "lucide-react/icons/link";
+import Loader2 from "lucide-react/icons/loader-2";
+import Trash2 from "lucide-react/icons/trash-2";
+import { type ChangeEvent, useState } from "react";
+import { toast } from "sonner";
+
+import { useAssetUrls } from "@/utils/asset-urls";
+import { trpc } from "@/utils/trpc";
+
+export const Route = createLazyFileRoute("/duplicates")({
+	component: DuplicateReport,
+});
+
+type ResolveAction = "delete" | "relink";
+
+const actionCopy: Record<ResolveAction, string> = {
+	delete: "删除其余素材（caption 与标签一并删除）",
+	relink: "其余素材改为引用保留素材的文件，并删除多余的存储对象",
+};
+
+function DuplicateReport() {
+	const datasetQuery = useQuery(trpc.dataset.list.queryOptions());
+	const [datasetId, setDatasetId] = useState("");
+	const [crossDataset, setCrossDataset] = useState(false);
+	const [maxDistance, setMaxDistance] = useState(6);
+	const [keepers, setKeepers] = useState<Record<string, number>>({});
+
+	const report = useQuery({
+		...trpc.media.duplicates.queryOptions({
+			datasetId: Number(datasetId),
+			crossDataset,
+			maxDistance,
+		}),
+		enabled: Boolean(datasetId),
+	});
+	const groups = (report.data?.groups ?? []).map((group) => {
+		const key = group.assets.map((asset) => asset.id).join("-");
+		return {
+			...group,
+			key,
+			keepId: keepers[key] ?? group.suggestedKeepId,
+		};
+	});
+	const assetUrl = useAssetUrls(groups.flatMap((group) => group.assets));
+
+	const resolve = useMutation(
+		trpc.media.resolveDuplicates.mutationOptions({
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	const resolveGroups = async (
+		targets: typeof groups,
+		action: ResolveAction,
+	) => {
+		if (!window.confirm(`${actionCopy[action]}，确定继续吗？`)) {
+			return;
+		}
+		let resolved = 0;
+		try {
+			for (const group of targets) {
+				if (!group.keepId) {
+					continue;
+				}
+				const result = await resolve.mutateAsync({
+					keepAssetId: group.keepId,
+					assetIds: group.assets
+						.map((asset) => asset.id)
+						.filter((id) => id !== group.keepId),
+					action,
+				});
+				resolved += result.resolved;
+			}
+			toast.success(`已处理 ${resolved} 个重复素材`);
+		} catch {
+			// onError already reported the failing group; stop at it.
+		}
+		setKeepers({});
+		report.refetch();
+	};
+
+	return (
+		<div className="mx-auto flex max-w-6xl flex-col gap-6 px-6 py-8">
+			<section className="space-y-2">
+				<h1 className="font-semibold text-3xl">素材查重</h1>
+				<p className="text-muted-foreground text-sm">
+					按文件校验和查找完全相同的素材，按感知哈希查找近似图片。每组选择要保留的素材，其余删除或改为引用同一个文件。
+				</p>
+			</section>
+
+			<div className="flex flex-wrap items-end gap-3 rounded-lg border bg-background p-4">
+				<div className="space-y-1">
+					<Label htmlFor="duplicates-dataset">数据集</Label>
+					<Select
+						id="duplicates-dataset"
+						value={datasetId}
+						onChange={(event: ChangeEvent<HTMLSelectElement>) => {
+							setDatasetId(event.target.value);
+							setKeepers({});
+						}}
+						className="w-56"
+					>
+						<option value="">选择数据集</option>
+						{(datasetQuery.data ?? []).map((dataset) => (
+							<option key={dataset.id} value={dataset.id}>
+								{dataset.name}
+							</option>
+						))}
+					</Select>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="duplicates-distance">近似阈值（位）</Label>
+					<Input
+						id="duplicates-distance"
+						type="number"
+						min={0}
+						max={32}
+						value={maxDistance}
+						onChange={(event) =>
+							setMaxDistance(
+								Math.min(32, Math.max(0, Number(event.target.value) || 0)),
+							)
+						}
+						className="w-28"
+					/>
+				</div>
+				<label className="flex h-9 items-center gap-2 text-sm">
+					<input
+						type="checkbox"
+						checked={crossDataset}
+						onChange={(event) => setCrossDataset(event.target.checked)}
+					/>
+					包含其他数据集
+				</label>
+				<Button
+					variant="outline"
+					onClick={() => report.refetch()}
+					disabled={!datasetId || report.isFetching}
+				>
+					<Loader2
+						className={`mr-2 size-4 ${report.isFetching ? "animate-spin" : ""}`}
+					/>
+					刷新
+				</Button>
+				{groups.length ? (
+					<div className="ml-auto flex gap-2">
+						<Button
+							variant="outline"
+							disabled={resolve.isPending}
+							onClick={() => resolveGroups(groups, "relink")}
+						>
+							<Link className="mr-2 size-4" />
+							全部重新关联
+						</Button>
+						<Button
+							variant="destructive"
+							disabled={resolve.isPending}
+							onClick={() => resolveGroups(groups, "delete")}
+						>
+							<Trash2 className="mr-2 size-4" />
+							全部删除其余
+						</Button>
+					</div>
+				) : null}
+			</div>
+
+			{!datasetId ? (
+				<p className="text-muted-foreground text-sm">
+					选择数据集后生成查重报告
+				</p>
+			) : report.isLoading ? (
+				<Loader2 className="size-5 animate-spin" />
+			) : groups.length === 0 ? (
+				<Card>
+					<CardContent className="py-12 text-center text-muted-foreground">
+						没有发现重复素材
+					</CardContent>
+				</Card>
+			) : (
+				<div className="space-y-4">
+					{report.data?.truncated ? (
+						<p className="text-amber-600 text-sm">
+							匹配数量过多，只显示了部分结果，可以降低近似阈值后重试。
+						</p>
+					) : null}
+					{groups.map((group) => (
+						<Card key={group.key}>
+							<CardHeader className="flex flex-row items-center justify-between">
+								<div className="space-y-1">
+									<CardTitle className="flex items-center gap-2 text-base">
+										<Badge
+											variant={group.kind === "exact" ? "default" : "secondary"}
+										>
+											{group.kind === "exact" ? "完全相同" : "近似"}
+										</Badge>
+										{group.assets.length} 个素材
+									</CardTitle>
+									<CardDescription>选择要保留的素材</CardDescription>
+								</div>
+								<div className="flex gap-2">
+									<Button
+										size="sm"
+										variant="outline"
+										disabled={resolve.isPending}
+										onClick={() => resolveGroups([group], "relink")}
+									>
+										重新关联其余
+									</Button>
+									<Button
+										size="sm"
+										variant="destructive"
+										disabled={resolve.isPending}
+										onClick={() => resolveGroups([group], "delete")}
+									>
+										删除其余
+									</Button>
+								</div>
+							</CardHeader>
+							<CardContent className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+								{group.assets.map((asset) => (
+									<label
+										key={asset.id}
+										className={`cursor-pointer overflow-hidden rounded-md border text-sm ${
+											asset.id === group.keepId ? "border-primary" : ""
+										}`}
+									>
+										<div className="h-32 w-full bg-muted">
+											{asset.mimeType.startsWith("image/") &&
+											assetUrl(asset, "sm") ? (
+												<img
+													src={assetUrl(asset, "sm")}
+													alt={asset.originalName}
+													className="h-full w-full object-cover"
+													loading="lazy"
+													decoding="async"
+												/>
+											) : (
+												<div className="flex h-full w-full items-center justify-center text-muted-foreground">
+													<Images className="size-6" />
+												</div>
+											)}
+										</div>
+										<div className="space-y-1 p-2">
+											<div className="flex items-center gap-2">
+												<input
+													type="radio"
+													name={`keep-${group.key}`}
+													checked={asset.id === group.keepId}
+													onChange={() =>
+														setKeepers((prev) => ({
+															...prev,
+															[group.key]: asset.id,
+														}))
+													}
+												/>
+												<span className="truncate font-medium">
+													{asset.originalName}
+												</span>
+											</div>
+											<p className="text-muted-foreground text-xs">
+												{asset.datasetName ?? "未知数据集"}
+												{asset.width != null && asset.height != null
+													? ` · ${asset.width} × ${asset.height}`
+													: ""}
+											</p>
+										</div>
+									</label>
+								))}
+							</CardContent>
+						</Card>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
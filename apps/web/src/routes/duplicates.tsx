@@ -0,0 +1,6 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { requireSession } from "@/lib/require-session";
+
+export const Route = createFileRoute("/duplicates")({
+	beforeLoad: requireSession,
+});
@@ -10,20 +10,35 @@ import ChevronLeft from "lucide-react/icons/chevron-left";
 import ChevronRight from "lucide-react/icons/chevron-right";
 import Download from "lucide-react/icons/download";
 import Filter from "lucide-react/icons/filter";
+import FlaskConical from "lucide-react/icons/flask-conical";
 import ImageIcon from "lucide-react/icons/image";
 import Loader2 from "lucide-react/icons/loader-2";
 import RefreshCw from "lucide-react/icons/refresh-cw";
 import RotateCcw from "lucide-react/icons/rotate-ccw";
+import ShieldCheck from "lucide-react/icons/shield-check";
 import ThumbsDown from "lucide-react/icons/thumbs-down";
 import ThumbsUp from "lucide-react/icons/thumbs-up";
 import type React from "react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useAssetUrls } from "@/utils/asset-urls";
 import { trpc, trpcClient } from "@/utils/trpc";
 
 export const Route = createLazyFileRoute("/editor")({
 	component: EditorView,
 });
 
+function confidenceStrategyLabel(metadata: Record<string, unknown>) {
+	const confidence = metadata.confidence as { strategy?: string } | undefined;
+	return confidence?.strategy ? ` · ${confidence.strategy}` : "";
+}
+
+function structuredTags(metadata: Record<string, unknown>) {
+	const structured = metadata.structured as { tags?: unknown } | undefined;
+	return Array.isArray(structured?.tags)
+		? structured.tags.filter((tag): tag is string => typeof tag === "string")
+		: [];
+}
+
 const statusLabels: Record<string, string> = {
 	pending: "待处理",
 	processing: "生成中",
@@ -37,8 +52,16 @@ function EditorView() {
 	const [statusFilter, setStatusFilter] = useState<string>("");
 	const [selectedId, setSelectedId] = useState<number | null>(null);
 	const [editValue, setEditValue] = useState("");
+	const [showRules, setShowRules] = useState(false);
+	const [experimentId, setExperimentId] = useState("");
 
 	const datasetsQuery = useQuery(trpc.dataset.list.queryOptions());
+	const experimentsQuery = useQuery(
+		trpc.experiment.list.queryOptions({
+			datasetId: datasetId ? Number(datasetId) : undefined,
+			status: "running",
+		}),
+	);
 	const statsQuery = useQuery(
 		trpc.caption.stats.queryOptions({
 			datasetId: datasetId ? Number(datasetId) : undefined,
@@ -161,6 +184,7 @@ function EditorView() {
 
 	const captions = captionsQuery.data ?? [];
 	const selectedCaption = captions.find((caption) => caption.id === selectedId);
+	const assetUrl = useAssetUrls(captions.map((caption) => caption.mediaAsset));
 	const rejectedCaptionIds = captions
 		.filter((caption) => caption.status === "rejected")
 		.map((caption) => caption.id);
@@ -265,6 +289,7 @@ function EditorView() {
 								value={datasetId}
 								onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
 									resetSelection();
+									setExperimentId("");
 									setDatasetId(e.target.value);
 								}}
 								className="h-9 w-[180px] border-slate-200 bg-white text-sm focus:ring-2 focus:ring-blue-100 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200 dark:focus:ring-blue-900"
@@ -346,6 +371,35 @@ function EditorView() {
 								重试驳回
 							</Button>
 
+							<Button
+								size="sm"
+								variant="outline"
+								onClick={() => setShowRules((prev) => !prev)}
+								disabled={!datasetId}
+								className="h-9 border-slate-200 text-slate-600 hover:bg-slate-50 dark:border-slate-800 dark:text-slate-400 dark:hover:bg-slate-800"
+							>
+								<ShieldCheck className="mr-2 size-4" />
+								自动通过规则
+							</Button>
+
+							<div className="relative">
+								<Select
+									value={experimentId}
+									onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+										setExperimentId(e.target.value)
+									}
+									className="h-9 w-[150px] border-slate-200 bg-white pl-9 text-sm dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200"
+								>
+									<option value="">A/B 盲评</option>
+									{experimentsQuery.data?.map((experiment) => (
+										<option key={experiment.id} value={experiment.id}>
+											{experiment.name}
+										</option>
+									))}
+								</Select>
+								<FlaskConical className="pointer-events-none absolute top-1/2 left-3 size-4 -translate-y-1/2 text-slate-400 dark:text-slate-500" />
+							</div>
+
 							<div className="relative">
 								<Select
 									value=""
@@ -394,280 +448,304 @@ function EditorView() {
 						<span>总计: {statsQuery.data?.total ?? 0}</span>
 					</div>
 				</div>
+
+				{showRules && datasetId ? (
+					<AutoApprovalPanel datasetId={Number(datasetId)} />
+				) : null}
 			</header>
 
-			<main className="flex flex-1 gap-6 overflow-hidden px-4 pb-4">
-				<aside className="flex w-80 flex-col overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
-					<div className="flex-1 overflow-y-auto p-3">
-						<div className="space-y-2">
-							{captions.length === 0 ? (
-								<div className="flex h-40 flex-col items-center justify-center gap-2 text-slate-400 dark:text-slate-600">
-									<Filter className="size-8 opacity-20" />
-									<span className="text-sm">没有找到相关条目</span>
-								</div>
-							) : (
-								captions.map((caption) => (
-									<button
-										type="button"
-										key={caption.id}
-										onClick={() => selectCaption(caption.id)}
-										className={`group relative flex w-full cursor-pointer gap-3 rounded-xl border p-3 text-left transition-all duration-200 ${
-											selectedId === caption.id
-												? "border-blue-200 bg-blue-50/50 shadow-sm ring-1 ring-blue-100 dark:border-blue-800 dark:bg-blue-900/20 dark:ring-blue-900/30"
-												: "border-transparent hover:border-slate-100 hover:bg-slate-50 dark:hover:border-slate-800 dark:hover:bg-slate-800/50"
-										}`}
-									>
-										<div className="relative size-16 flex-none overflow-hidden rounded-lg border border-slate-100 bg-slate-100 dark:border-slate-800 dark:bg-slate-800">
-											{caption.mediaAsset?.publicUrl ? (
+			{experimentId ? (
+				<ExperimentReview experimentId={Number(experimentId)} />
+			) : (
+				<main className="flex flex-1 gap-6 overflow-hidden px-4 pb-4">
+					<aside className="flex w-80 flex-col overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+						<div className="flex-1 overflow-y-auto p-3">
+							<div className="space-y-2">
+								{captions.length === 0 ? (
+									<div className="flex h-40 flex-col items-center justify-center gap-2 text-slate-400 dark:text-slate-600">
+										<Filter className="size-8 opacity-20" />
+										<span className="text-sm">没有找到相关条目</span>
+									</div>
+								) : (
+									captions.map((caption) => (
+										<button
+											type="button"
+											key={caption.id}
+											onClick={() => selectCaption(caption.id)}
+											className={`group relative flex w-full cursor-pointer gap-3 rounded-xl border p-3 text-left transition-all duration-200 ${
+												selectedId === caption.id
+													? "border-blue-200 bg-blue-50/50 shadow-sm ring-1 ring-blue-100 dark:border-blue-800 dark:bg-blue-900/20 dark:ring-blue-900/30"
+													: "border-transparent hover:border-slate-100 hover:bg-slate-50 dark:hover:border-slate-800 dark:hover:bg-slate-800/50"
+											}`}
+										>
+											<div className="relative size-16 flex-none overflow-hidden rounded-lg border border-slate-100 bg-slate-100 dark:border-slate-800 dark:bg-slate-800">
+												{caption.mediaAsset &&
+												assetUrl(caption.mediaAsset, "sm") ? (
+													<img
+														src={assetUrl(caption.mediaAsset, "sm")}
+														alt=""
+														className="size-full object-cover transition-transform duration-500 group-hover:scale-105"
+														loading="lazy"
+													/>
+												) : (
+													<div className="flex size-full items-center justify-center">
+														<ImageIcon className="size-6 text-slate-300 dark:text-slate-600" />
+													</div>
+												)}
+											</div>
+											<div className="flex min-w-0 flex-1 flex-col justify-between py-0.5">
+												<div className="flex items-center justify-between gap-2">
+													<span className="font-semibold text-slate-700 text-xs dark:text-slate-300">
+														#{caption.id}
+													</span>
+													<div
+														className={`size-2 rounded-full ${getStatusDotColor(
+															caption.status,
+														)}`}
+													/>
+												</div>
+												<p className="line-clamp-2 text-slate-500 text-xs leading-relaxed dark:text-slate-400">
+													{caption.manualCaption ||
+														caption.aiCaption ||
+														"暂无描述..."}
+												</p>
+												<time
+													className="mt-1 text-[10px] text-slate-400 dark:text-slate-500"
+													dateTime={new Date(caption.updatedAt).toISOString()}
+													suppressHydrationWarning
+												>
+													{new Date(caption.updatedAt).toLocaleDateString()}
+												</time>
+											</div>
+										</button>
+									))
+								)}
+							</div>
+						</div>
+					</aside>
+
+					<section className="flex flex-1 flex-col overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+						{selectedCaption ? (
+							<div className="flex h-full flex-col lg:flex-row">
+								<div className="flex flex-1 flex-col border-slate-100 border-b bg-slate-50/50 lg:w-1/2 lg:border-r lg:border-b-0 dark:border-slate-800 dark:bg-slate-950/50">
+									<div className="flex flex-1 items-center justify-center p-6">
+										<div className="relative flex size-full items-center justify-center">
+											{selectedCaption.mediaAsset &&
+											assetUrl(selectedCaption.mediaAsset) ? (
 												<img
-													src={caption.mediaAsset.publicUrl}
-													alt=""
-													className="size-full object-cover transition-transform duration-500 group-hover:scale-105"
-													loading="lazy"
+													src={assetUrl(selectedCaption.mediaAsset)}
+													alt="Target"
+													className="max-h-full max-w-full rounded-lg object-contain shadow-sm"
 												/>
 											) : (
-												<div className="flex size-full items-center justify-center">
-													<ImageIcon className="size-6 text-slate-300 dark:text-slate-600" />
+												<div className="flex flex-col items-center gap-2 text-slate-400 dark:text-slate-600">
+													<ImageIcon className="size-16 opacity-20" />
+													<span className="text-sm">无法加载预览图</span>
 												</div>
 											)}
 										</div>
-										<div className="flex min-w-0 flex-1 flex-col justify-between py-0.5">
-											<div className="flex items-center justify-between gap-2">
-												<span className="font-semibold text-slate-700 text-xs dark:text-slate-300">
-													#{caption.id}
+									</div>
+
+									<div className="border-slate-200 border-t bg-white p-6 dark:border-slate-800 dark:bg-slate-900">
+										<h3 className="mb-4 font-semibold text-slate-900 text-sm dark:text-slate-100">
+											Metadata
+										</h3>
+										<div className="grid grid-cols-2 gap-x-8 gap-y-4 text-xs">
+											<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
+												<span className="text-slate-500 dark:text-slate-400">
+													模型
+												</span>
+												<span className="font-medium text-slate-700 dark:text-slate-300">
+													{selectedCaption.model ?? "Unknown"}
+												</span>
+											</div>
+											<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
+												<span className="text-slate-500 dark:text-slate-400">
+													置信度
+												</span>
+												<span className="font-medium text-slate-700 dark:text-slate-300">
+													{selectedCaption.confidence != null
+														? `${selectedCaption.confidence}%${confidenceStrategyLabel(selectedCaption.metadata)}`
+														: "N/A"}
+												</span>
+											</div>
+											<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
+												<span className="text-slate-500 dark:text-slate-400">
+													尺寸
+												</span>
+												<span className="font-medium text-slate-700 dark:text-slate-300">
+													{selectedCaption.mediaAsset?.width} x{" "}
+													{selectedCaption.mediaAsset?.height}
+												</span>
+											</div>
+											<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
+												<span className="text-slate-500 dark:text-slate-400">
+													Prompt
+												</span>
+												<span
+													className="max-w-[120px] truncate font-medium text-slate-700 dark:text-slate-300"
+													title={
+														selectedCaption.promptRevision
+															?.userPromptTemplate ??
+														selectedCaption.promptTemplate?.userPromptTemplate
+													}
+												>
+													{selectedCaption.promptTemplate?.name ?? "Default"}
+													{selectedCaption.promptRevision
+														? ` · v${selectedCaption.promptRevision.revision}`
+														: ""}
 												</span>
-												<div
-													className={`size-2 rounded-full ${getStatusDotColor(
-														caption.status,
-													)}`}
-												/>
 											</div>
-											<p className="line-clamp-2 text-slate-500 text-xs leading-relaxed dark:text-slate-400">
-												{caption.manualCaption ||
-													caption.aiCaption ||
-													"暂无描述..."}
-											</p>
-											<time
-												className="mt-1 text-[10px] text-slate-400 dark:text-slate-500"
-												dateTime={new Date(caption.updatedAt).toISOString()}
-												suppressHydrationWarning
-											>
-												{new Date(caption.updatedAt).toLocaleDateString()}
-											</time>
 										</div>
-									</button>
-								))
-							)}
-						</div>
-					</div>
-				</aside>
-
-				<section className="flex flex-1 flex-col overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
-					{selectedCaption ? (
-						<div className="flex h-full flex-col lg:flex-row">
-							<div className="flex flex-1 flex-col border-slate-100 border-b bg-slate-50/50 lg:w-1/2 lg:border-r lg:border-b-0 dark:border-slate-800 dark:bg-slate-950/50">
-								<div className="flex flex-1 items-center justify-center p-6">
-									<div className="relative flex size-full items-center justify-center">
-										{selectedCaption.mediaAsset?.publicUrl ? (
-											<img
-												src={selectedCaption.mediaAsset.publicUrl}
-												alt="Target"
-												className="max-h-full max-w-full rounded-lg object-contain shadow-sm"
-											/>
-										) : (
-											<div className="flex flex-col items-center gap-2 text-slate-400 dark:text-slate-600">
-												<ImageIcon className="size-16 opacity-20" />
-												<span className="text-sm">无法加载预览图</span>
+										{structuredTags(selectedCaption.metadata).length ? (
+											<div className="mt-4 flex flex-wrap gap-1.5">
+												{structuredTags(selectedCaption.metadata).map((tag) => (
+													<Badge key={tag} variant="secondary">
+														{tag}
+													</Badge>
+												))}
 											</div>
-										)}
+										) : null}
 									</div>
 								</div>
 
-								<div className="border-slate-200 border-t bg-white p-6 dark:border-slate-800 dark:bg-slate-900">
-									<h3 className="mb-4 font-semibold text-slate-900 text-sm dark:text-slate-100">
-										Metadata
-									</h3>
-									<div className="grid grid-cols-2 gap-x-8 gap-y-4 text-xs">
-										<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
-											<span className="text-slate-500 dark:text-slate-400">
-												模型
-											</span>
-											<span className="font-medium text-slate-700 dark:text-slate-300">
-												{selectedCaption.model ?? "Unknown"}
-											</span>
-										</div>
-										<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
-											<span className="text-slate-500 dark:text-slate-400">
-												置信度
-											</span>
-											<span className="font-medium text-slate-700 dark:text-slate-300">
-												{selectedCaption.confidence != null
-													? `${Math.round(selectedCaption.confidence * 100)}%`
-													: "N/A"}
-											</span>
-										</div>
-										<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
-											<span className="text-slate-500 dark:text-slate-400">
-												尺寸
-											</span>
-											<span className="font-medium text-slate-700 dark:text-slate-300">
-												{selectedCaption.mediaAsset?.width} x{" "}
-												{selectedCaption.mediaAsset?.height}
-											</span>
-										</div>
-										<div className="flex justify-between border-slate-50 border-b pb-2 dark:border-slate-800">
-											<span className="text-slate-500 dark:text-slate-400">
-												Prompt
-											</span>
-											<span
-												className="max-w-[120px] truncate font-medium text-slate-700 dark:text-slate-300"
-												title={
-													selectedCaption.promptTemplate?.userPromptTemplate
-												}
-											>
-												{selectedCaption.promptTemplate?.name ?? "Default"}
-											</span>
+								<div className="flex flex-1 flex-col bg-white lg:w-1/2 dark:bg-slate-900">
+									<div className="flex items-center justify-between border-slate-100 border-b px-6 py-4 dark:border-slate-800">
+										<div>
+											<h2 className="font-semibold text-lg text-slate-900 dark:text-slate-50">
+												编辑描述
+											</h2>
+											<p className="text-slate-500 text-xs dark:text-slate-400">
+												AI 生成结果可能需要人工微调
+											</p>
 										</div>
-									</div>
-								</div>
-							</div>
-
-							<div className="flex flex-1 flex-col bg-white lg:w-1/2 dark:bg-slate-900">
-								<div className="flex items-center justify-between border-slate-100 border-b px-6 py-4 dark:border-slate-800">
-									<div>
-										<h2 className="font-semibold text-lg text-slate-900 dark:text-slate-50">
-											编辑描述
-										</h2>
-										<p className="text-slate-500 text-xs dark:text-slate-400">
-											AI 生成结果可能需要人工微调
-										</p>
-									</div>
-									<Badge
-										className={`px-3 py-1 font-medium ${getStatusBadgeStyle(
-											selectedCaption.status,
-										)}`}
-									>
-										{statusLabels[selectedCaption.status]}
-									</Badge>
-								</div>
-
-								<div className="flex flex-1 flex-col gap-4 p-6">
-									<div className="relative flex-1">
-										<Textarea
-											className="h-full w-full resize-none border-slate-200 bg-slate-50 p-4 text-base text-slate-800 leading-relaxed placeholder:text-slate-400 focus:border-blue-500 focus:ring-blue-500/20 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200 dark:focus:ring-blue-500/30 dark:placeholder:text-slate-600"
-											placeholder="请输入图片描述..."
-											value={editValue}
-											onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-												setEditValue(e.target.value)
-											}
-										/>
+										<Badge
+											className={`px-3 py-1 font-medium ${getStatusBadgeStyle(
+												selectedCaption.status,
+											)}`}
+										>
+											{statusLabels[selectedCaption.status]}
+										</Badge>
 									</div>
 
-									<div className="space-y-2 rounded-lg border border-slate-100 bg-slate-50 p-4 dark:border-slate-800 dark:bg-slate-950/50">
-										<div className="mb-2 flex items-center gap-2">
-											<span className="font-semibold text-slate-500 text-xs uppercase tracking-wider dark:text-slate-400">
-												AI 参考
-											</span>
+									<div className="flex flex-1 flex-col gap-4 p-6">
+										<div className="relative flex-1">
+											<Textarea
+												className="h-full w-full resize-none border-slate-200 bg-slate-50 p-4 text-base text-slate-800 leading-relaxed placeholder:text-slate-400 focus:border-blue-500 focus:ring-blue-500/20 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200 dark:focus:ring-blue-500/30 dark:placeholder:text-slate-600"
+												placeholder="请输入图片描述..."
+												value={editValue}
+												onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+													setEditValue(e.target.value)
+												}
+											/>
 										</div>
-										<p className="text-slate-600 text-xs italic leading-relaxed dark:text-slate-400">
-											{selectedCaption.aiCaption || "无 AI 生成内容"}
-										</p>
-									</div>
-								</div>
 
-								<div className="border-slate-100 border-t bg-slate-50/50 px-6 py-4 dark:border-slate-800 dark:bg-slate-950/50">
-									<div className="flex flex-col gap-4">
-										<div className="grid grid-cols-2 gap-4">
-											<Button
-												variant="outline"
-												className="h-10 border-red-200 text-red-600 transition-colors hover:border-red-300 hover:bg-red-50 dark:border-red-900/50 dark:text-red-400 dark:hover:border-red-800 dark:hover:bg-red-900/20"
-												onClick={handleReject}
-												disabled={rejectMutation.isPending}
-											>
-												<ThumbsDown className="mr-2 size-4" />
-												驳回
-											</Button>
-											<Button
-												className="h-10 bg-emerald-600 text-white shadow-emerald-600/20 shadow-sm transition-all hover:bg-emerald-700 hover:shadow-emerald-600/30 dark:bg-emerald-600 dark:hover:bg-emerald-500"
-												onClick={handleApprove}
-												disabled={approveMutation.isPending}
-											>
-												<ThumbsUp className="mr-2 size-4" />
-												通过
-											</Button>
+										<div className="space-y-2 rounded-lg border border-slate-100 bg-slate-50 p-4 dark:border-slate-800 dark:bg-slate-950/50">
+											<div className="mb-2 flex items-center gap-2">
+												<span className="font-semibold text-slate-500 text-xs uppercase tracking-wider dark:text-slate-400">
+													AI 参考
+												</span>
+											</div>
+											<p className="text-slate-600 text-xs italic leading-relaxed dark:text-slate-400">
+												{selectedCaption.aiCaption || "无 AI 生成内容"}
+											</p>
 										</div>
+									</div>
 
-										<Button
-											variant="secondary"
-											className="h-10 w-full bg-blue-600 text-white shadow-blue-600/20 shadow-sm hover:bg-blue-700 dark:bg-blue-600 dark:hover:bg-blue-500"
-											onClick={handleSave}
-											disabled={updateMutation.isPending}
-										>
-											{updateMutation.isPending ? (
-												<Loader2 className="mr-2 size-4 animate-spin" />
-											) : (
-												<Check className="mr-2 size-4" />
-											)}
-											保存修改
-										</Button>
+									<div className="border-slate-100 border-t bg-slate-50/50 px-6 py-4 dark:border-slate-800 dark:bg-slate-950/50">
+										<div className="flex flex-col gap-4">
+											<div className="grid grid-cols-2 gap-4">
+												<Button
+													variant="outline"
+													className="h-10 border-red-200 text-red-600 transition-colors hover:border-red-300 hover:bg-red-50 dark:border-red-900/50 dark:text-red-400 dark:hover:border-red-800 dark:hover:bg-red-900/20"
+													onClick={handleReject}
+													disabled={rejectMutation.isPending}
+												>
+													<ThumbsDown className="mr-2 size-4" />
+													驳回
+												</Button>
+												<Button
+													className="h-10 bg-emerald-600 text-white shadow-emerald-600/20 shadow-sm transition-all hover:bg-emerald-700 hover:shadow-emerald-600/30 dark:bg-emerald-600 dark:hover:bg-emerald-500"
+													onClick={handleApprove}
+													disabled={approveMutation.isPending}
+												>
+													<ThumbsUp className="mr-2 size-4" />
+													通过
+												</Button>
+											</div>
 
-										<div className="flex items-center justify-between gap-4 pt-2">
 											<Button
-												variant="ghost"
-												size="sm"
-												className="text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
-												onClick={handleRegenerate}
-												disabled={regenerateMutation.isPending}
+												variant="secondary"
+												className="h-10 w-full bg-blue-600 text-white shadow-blue-600/20 shadow-sm hover:bg-blue-700 dark:bg-blue-600 dark:hover:bg-blue-500"
+												onClick={handleSave}
+												disabled={updateMutation.isPending}
 											>
-												<RefreshCw
-													className={`mr-2 size-3 ${regenerateMutation.isPending ? "animate-spin" : ""}`}
-												/>
-												重新生成
+												{updateMutation.isPending ? (
+													<Loader2 className="mr-2 size-4 animate-spin" />
+												) : (
+													<Check className="mr-2 size-4" />
+												)}
+												保存修改
 											</Button>
 
-											<div className="flex items-center gap-2">
-												<Button
-													variant="ghost"
-													size="icon"
-													className="size-8 rounded-full border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-900 dark:text-slate-400 dark:hover:bg-slate-800"
-													onClick={selectPrevious}
-													disabled={selectedIndex <= 0}
-												>
-													<ChevronLeft className="size-4" />
-												</Button>
+											<div className="flex items-center justify-between gap-4 pt-2">
 												<Button
 													variant="ghost"
-													size="icon"
-													className="size-8 rounded-full border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-900 dark:text-slate-400 dark:hover:bg-slate-800"
-													onClick={selectNext}
-													disabled={
-														selectedIndex === -1 ||
-														selectedIndex >= captions.length - 1
-													}
+													size="sm"
+													className="text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
+													onClick={handleRegenerate}
+													disabled={regenerateMutation.isPending}
 												>
-													<ChevronRight className="size-4" />
+													<RefreshCw
+														className={`mr-2 size-3 ${regenerateMutation.isPending ? "animate-spin" : ""}`}
+													/>
+													重新生成
 												</Button>
+
+												<div className="flex items-center gap-2">
+													<Button
+														variant="ghost"
+														size="icon"
+														className="size-8 rounded-full border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-900 dark:text-slate-400 dark:hover:bg-slate-800"
+														onClick={selectPrevious}
+														disabled={selectedIndex <= 0}
+													>
+														<ChevronLeft className="size-4" />
+													</Button>
+													<Button
+														variant="ghost"
+														size="icon"
+														className="size-8 rounded-full border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-900 dark:text-slate-400 dark:hover:bg-slate-800"
+														onClick={selectNext}
+														disabled={
+															selectedIndex === -1 ||
+															selectedIndex >= captions.length - 1
+														}
+													>
+														<ChevronRight className="size-4" />
+													</Button>
+												</div>
 											</div>
 										</div>
 									</div>
 								</div>
 							</div>
-						</div>
-					) : (
-						<div className="flex h-full flex-col items-center justify-center bg-slate-50/50 text-slate-400 dark:bg-slate-950/50 dark:text-slate-600">
-							<div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-100 dark:bg-slate-900 dark:ring-slate-800">
-								<Filter className="size-10 text-slate-300 dark:text-slate-700" />
+						) : (
+							<div className="flex h-full flex-col items-center justify-center bg-slate-50/50 text-slate-400 dark:bg-slate-950/50 dark:text-slate-600">
+								<div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-100 dark:bg-slate-900 dark:ring-slate-800">
+									<Filter className="size-10 text-slate-300 dark:text-slate-700" />
+								</div>
+								<h3 className="mt-6 font-semibold text-slate-700 dark:text-slate-300">
+									请选择一个 Caption
+								</h3>
+								<p className="mt-2 text-slate-500 text-sm dark:text-slate-400">
+									从左侧列表中点击任意项目开始审核
+								</p>
 							</div>
-							<h3 className="mt-6 font-semibold text-slate-700 dark:text-slate-300">
-								请选择一个 Caption
-							</h3>
-							<p className="mt-2 text-slate-500 text-sm dark:text-slate-400">
-								从左侧列表中点击任意项目开始审核
-							</p>
-						</div>
-					)}
-				</section>
-			</main>
+						)}
+					</section>
+				</main>
+			)}
 		</div>
 	);
 }
@@ -733,3 +811,318 @@ function getStatusBadgeStyle(status: string) {
 			return "bg-slate-100 text-slate-700 hover:bg-slate-100 border-transparent dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-800/80";
 	}
 }
+
+type RuleForm = {
+	enabled: boolean;
+	minConfidence: string;
+	maxLength: string;
+	requireFocusTags: boolean;
+	bannedWords: string;
+};
+
+const failureLabels: Record<string, string> = {
+	low_confidence: "置信度不足",
+	too_long: "超出长度",
+	missing_focus_tags: "缺少重点标签",
+	banned_words: "包含禁用词",
+};
+
+function toOptionalInt(value: string) {
+	const parsed = Number(value);
+	return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function AutoApprovalPanel({ datasetId }: { datasetId: number }) {
+	const [form, setForm] = useState<RuleForm>({
+		enabled: false,
+		minConfidence: "80",
+		maxLength: "",
+		requireFocusTags: false,
+		bannedWords: "",
+	});
+	const ruleQuery = useQuery(trpc.autoApproval.get.queryOptions({ datasetId }));
+
+	useEffect(() => {
+		const rule = ruleQuery.data;
+		if (!rule) return;
+		setForm({
+			enabled: rule.enabled,
+			minConfidence: rule.minConfidence?.toString() ?? "",
+			maxLength: rule.maxLength?.toString() ?? "",
+			requireFocusTags: rule.requireFocusTags,
+			bannedWords: rule.bannedWords.join(", "),
+		});
+	}, [ruleQuery.data]);
+
+	const rule = {
+		minConfidence: toOptionalInt(form.minConfidence),
+		maxLength: toOptionalInt(form.maxLength) || null,
+		requireFocusTags: form.requireFocusTags,
+		bannedWords: form.bannedWords
+			.split(/[,，\n]/)
+			.map((word) => word.trim())
+			.filter(Boolean),
+	};
+
+	const dryRun = useMutation({
+		mutationFn: () => trpcClient.autoApproval.dryRun.query({ datasetId, rule }),
+	});
+	const saveMutation = useMutation(
+		trpc.autoApproval.upsert.mutationOptions({
+			onSuccess: () => ruleQuery.refetch(),
+		}),
+	);
+
+	const inputClass =
+		"h-8 w-24 rounded-md border border-slate-200 bg-white px-2 text-sm dark:border-slate-800 dark:bg-slate-950";
+
+	return (
+		<div className="mt-4 flex flex-wrap items-center gap-4 border-slate-100 border-t pt-4 text-xs dark:border-slate-800">
+			<label className="flex items-center gap-2">
+				<input
+					type="checkbox"
+					checked={form.enabled}
+					onChange={(e) =>
+						setForm((prev) => ({ ...prev, enabled: e.target.checked }))
+					}
+				/>
+				启用
+			</label>
+			<label className="flex items-center gap-2">
+				最低置信度
+				<input
+					type="number"
+					min={0}
+					max={100}
+					className={inputClass}
+					value={form.minConfidence}
+					onChange={(e) =>
+						setForm((prev) => ({ ...prev, minConfidence: e.target.value }))
+					}
+				/>
+			</label>
+			<label className="flex items-center gap-2">
+				最大长度
+				<input
+					type="number"
+					min={1}
+					placeholder="不限"
+					className={inputClass}
+					value={form.maxLength}
+					onChange={(e) =>
+						setForm((prev) => ({ ...prev, maxLength: e.target.value }))
+					}
+				/>
+			</label>
+			<label className="flex items-center gap-2">
+				<input
+					type="checkbox"
+					checked={form.requireFocusTags}
+					onChange={(e) =>
+						setForm((prev) => ({
+							...prev,
+							requireFocusTags: e.target.checked,
+						}))
+					}
+				/>
+				必须提及重点标签
+			</label>
+			<label className="flex flex-1 items-center gap-2">
+				禁用词
+				<input
+					className={`${inputClass} w-full min-w-40`}
+					placeholder="逗号分隔"
+					value={form.bannedWords}
+					onChange={(e) =>
+						setForm((prev) => ({ ...prev, bannedWords: e.target.value }))
+					}
+				/>
+			</label>
+			<div className="flex items-center gap-2">
+				<Button
+					size="sm"
+					variant="outline"
+					className="h-8"
+					onClick={() => dryRun.mutate()}
+					disabled={dryRun.isPending}
+				>
+					{dryRun.isPending ? (
+						<Loader2 className="mr-2 size-4 animate-spin" />
+					) : null}
+					试运行
+				</Button>
+				<Button
+					size="sm"
+					className="h-8"
+					onClick={() =>
+						saveMutation.mutate({ datasetId, enabled: form.enabled, ...rule })
+					}
+					disabled={saveMutation.isPending}
+				>
+					保存规则
+				</Button>
+			</div>
+			{dryRun.data ? (
+				<p className="w-full text-slate-500 dark:text-slate-400">
+					待审核 {dryRun.data.total} 条中 {dryRun.data.passed} 条会自动通过
+					{Object.entries(dryRun.data.failures)
+						.filter(([, count]) => count > 0)
+						.map(
+							([reason, count]) =>
+								` · ${failureLabels[reason] ?? reason} ${count}`,
+						)
+						.join("")}
+				</p>
+			) : null}
+		</div>
+	);
+}
+
+function ExperimentReview({ experimentId }: { experimentId: number }) {
+	const [winnerId, setWinnerId] = useState<number | null>(null);
+	const [approvedIds, setApprovedIds] = useState<number[]>([]);
+
+	const reviewQuery = useQuery(
+		trpc.experiment.nextReview.queryOptions({ experimentId }),
+	);
+	const voteMutation = useMutation(
+		trpc.experiment.vote.mutationOptions({
+			onSuccess: () => {
+				setWinnerId(null);
+				setApprovedIds([]);
+				reviewQuery.refetch();
+			},
+		}),
+	);
+
+	const review = reviewQuery.data;
+	const item = review?.item;
+
+	const toggleApproved = (captionId: number) => {
+		setApprovedIds((prev) =>
+			prev.includes(captionId)
+				? prev.filter((id) => id !== captionId)
+				: [...prev, captionId],
+		);
+	};
+
+	const submit = (winnerCaptionId: number | null) => {
+		if (!item?.asset) return;
+		voteMutation.mutate({
+			experimentId,
+			mediaAssetId: item.asset.id,
+			winnerCaptionId,
+			approvedCaptionIds: approvedIds,
+		});
+	};
+
+	return (
+		<main className="flex flex-1 gap-6 overflow-hidden px-4 pb-4">
+			<div className="flex flex-1 flex-col overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm lg:flex-row dark:border-slate-800 dark:bg-slate-900">
+				{reviewQuery.isLoading ? (
+					<div className="flex flex-1 items-center justify-center">
+						<Loader2 className="size-6 animate-spin text-slate-400" />
+					</div>
+				) : !item ? (
+					<div className="flex flex-1 flex-col items-center justify-center gap-2 text-slate-400 dark:text-slate-600">
+						<FlaskConical className="size-8 opacity-20" />
+						<span className="text-sm">
+							{review?.pendingGeneration
+								? `还有 ${review.pendingGeneration} 张素材在生成中，请稍后刷新`
+								: "该实验已全部评审完毕"}
+						</span>
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={() => reviewQuery.refetch()}
+						>
+							<RotateCcw className="mr-2 size-4" />
+							刷新
+						</Button>
+					</div>
+				) : (
+					<>
+						<div className="flex items-center justify-center bg-slate-50/50 p-6 lg:w-1/2 dark:bg-slate-950/50">
+							{item.asset ? (
+								<img
+									src={item.asset.url}
+									alt={item.asset.originalName}
+									className="max-h-[70vh] max-w-full rounded-lg object-contain shadow-sm"
+								/>
+							) : (
+								<ImageIcon className="size-12 text-slate-300 dark:text-slate-600" />
+							)}
+						</div>
+						<div className="flex flex-1 flex-col gap-4 overflow-y-auto p-6">
+							<div className="flex items-center justify-between">
+								<h2 className="font-semibold text-lg text-slate-900 dark:text-slate-50">
+									选出最好的描述
+								</h2>
+								<span className="text-slate-500 text-xs dark:text-slate-400">
+									剩余 {review?.remaining ?? 0} · 可评 {review?.ready ?? 0}
+								</span>
+							</div>
+							{item.candidates.map((candidate, index) => (
+								<div
+									key={candidate.captionId}
+									className={`space-y-3 rounded-xl border p-4 transition ${
+										winnerId === candidate.captionId
+											? "border-blue-300 bg-blue-50/50 ring-1 ring-blue-100 dark:border-blue-800 dark:bg-blue-900/20 dark:ring-blue-900/30"
+											: "border-slate-200 dark:border-slate-800"
+									}`}
+								>
+									<div className="flex items-center justify-between">
+										<span className="font-medium text-slate-500 text-xs dark:text-slate-400">
+											候选 {index + 1}
+										</span>
+										<label className="flex items-center gap-2 text-slate-600 text-xs dark:text-slate-400">
+											<input
+												type="checkbox"
+												checked={approvedIds.includes(candidate.captionId)}
+												onChange={() => toggleApproved(candidate.captionId)}
+											/>
+											可直接使用
+										</label>
+									</div>
+									<p className="whitespace-pre-wrap text-slate-700 text-sm leading-relaxed dark:text-slate-300">
+										{candidate.text}
+									</p>
+									<Button
+										size="sm"
+										variant={
+											winnerId === candidate.captionId ? "default" : "outline"
+										}
+										onClick={() => setWinnerId(candidate.captionId)}
+									>
+										<ThumbsUp className="mr-2 size-4" />
+										最佳
+									</Button>
+								</div>
+							))}
+							<div className="mt-auto flex justify-end gap-2">
+								<Button
+									variant="outline"
+									onClick={() => submit(null)}
+									disabled={voteMutation.isPending}
+								>
+									不分伯仲
+								</Button>
+								<Button
+									onClick={() => submit(winnerId)}
+									disabled={voteMutation.isPending || winnerId === null}
+								>
+									{voteMutation.isPending ? (
+										<Loader2 className="mr-2 size-4 animate-spin" />
+									) : (
+										<Check className="mr-2 size-4" />
+									)}
+									提交
+								</Button>
+							</div>
+						</div>
+					</>
+				)}
+			</div>
+		</main>
+	);
+}
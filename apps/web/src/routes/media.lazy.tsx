@@ -15,19 +15,47 @@ import CheckCircle2 from "lucide-react/icons/check-circle-2";
 import Clipboard from "lucide-react/icons/clipboard";
 import Images from "lucide-react/icons/images";
 import Loader2 from "lucide-react/icons/loader-2";
+import ScanSearch from "lucide-react/icons/scan-search";
+import Search from "lucide-react/icons/search";
+import Sparkles from "lucide-react/icons/sparkles";
+import Tags from "lucide-react/icons/tags";
 import Trash2 from "lucide-react/icons/trash-2";
 import Upload from "lucide-react/icons/upload";
-import { type ChangeEvent, useState } from "react";
+import { type ChangeEvent, type FormEvent, useEffect, useState } from "react";
 import { toast } from "sonner";
-import { trpc } from "@/utils/trpc";
+import BulkIngest from "@/components/bulk-ingest";
+import MediaTrash from "@/components/media-trash";
+import { useAssetUrls } from "@/utils/asset-urls";
+import { queryClient, trpc, trpcClient } from "@/utils/trpc";
+
+type SearchTarget = "both" | "image" | "caption";
+
+type ActiveSearch =
+	| { query: string; assetId?: undefined; label: string }
+	| { query?: undefined; assetId: number; label: string };
 
 type UploadEntry = {
 	id: string;
 	name: string;
 	status: "signing" | "uploading" | "finalizing" | "done" | "error";
+	progress?: number;
 	error?: string;
 };
 
+/** Files above this size go through S3 multipart upload. */
+const MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+const PART_CONCURRENCY = 3;
+const PART_ATTEMPTS = 4;
+const PART_SIGN_BATCH = 5;
+const RESUME_KEY_PREFIX = "cyop:multipart:";
+
+type ResumableUpload = {
+	key: string;
+	assetId: number;
+	fileName: string;
+	size: number;
+};
+
 export const Route = createLazyFileRoute("/media")({
 	component: MediaLibrary,
 });
@@ -35,11 +63,34 @@ export const Route = createLazyFileRoute("/media")({
 function MediaLibrary() {
 	const datasetQuery = useQuery(trpc.dataset.list.queryOptions());
 	const [filterDataset, setFilterDataset] = useState("");
+	const [tagFilter, setTagFilter] = useState<string[]>([]);
+	const [tagMatch, setTagMatch] = useState<"all" | "any">("all");
+	const [untagged, setUntagged] = useState(false);
 	const mediaQuery = useQuery(
-		trpc.media.list.queryOptions(
-			filterDataset ? { datasetId: Number(filterDataset) } : undefined,
-		),
+		trpc.media.list.queryOptions({
+			datasetId: filterDataset ? Number(filterDataset) : undefined,
+			tags: tagFilter.length ? tagFilter : undefined,
+			tagMatch,
+			untagged: untagged || undefined,
+		}),
 	);
+	const [searchText, setSearchText] = useState("");
+	const [searchTarget, setSearchTarget] = useState<SearchTarget>("both");
+	const [activeSearch, setActiveSearch] = useState<ActiveSearch | null>(null);
+	const searchQuery = useQuery({
+		...trpc.media.search.queryOptions({
+			query: activeSearch?.query,
+			assetId: activeSearch?.assetId,
+			datasetId: filterDataset ? Number(filterDataset) : undefined,
+			target: searchTarget,
+		}),
+		enabled: Boolean(activeSearch),
+		retry: false,
+	});
+	const datasetTagQuery = useQuery({
+		...trpc.tag.list.queryOptions({ datasetId: Number(filterDataset) }),
+		enabled: Boolean(filterDataset),
+	});
 
 	const requestUpload = useMutation(
 		trpc.media.requestUpload.mutationOptions({
@@ -58,7 +109,65 @@ function MediaLibrary() {
 	const deleteMedia = useMutation(
 		trpc.media.delete.mutationOptions({
 			onSuccess: () => {
-				toast.success("素材已删除");
+				toast.success("素材已移入回收站");
+				mediaQuery.refetch();
+				queryClient.invalidateQueries(trpc.media.trash.pathFilter());
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	const deleteDataset = useMutation(
+		trpc.dataset.delete.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(
+					`数据集「${result.dataset.name}」及 ${result.trashedAssets} 个素材已移入回收站`,
+				);
+				setFilterDataset("");
+				setTagFilter([]);
+				setSelectedAssetIds([]);
+				datasetQuery.refetch();
+				mediaQuery.refetch();
+				queryClient.invalidateQueries(trpc.dataset.trash.pathFilter());
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	const runTagging = useMutation(
+		trpc.tag.runTagging.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(
+					`已创建 ${result.count} 个打标任务${result.skippedActive ? `，${result.skippedActive} 个已在队列中` : ""}`,
+				);
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	const runEmbedding = useMutation(
+		trpc.media.embed.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(
+					`已创建 ${result.count} 个向量任务${result.skippedActive ? `，${result.skippedActive} 个已在队列中` : ""}`,
+				);
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
+	const reprocess = useMutation(
+		trpc.media.reprocess.mutationOptions({
+			onSuccess: () => {
+				toast.success("已重新加入处理队列");
 				mediaQuery.refetch();
 			},
 			onError: (error) => {
@@ -67,11 +176,67 @@ function MediaLibrary() {
 		}),
 	);
 
+	const [selectedAssetIds, setSelectedAssetIds] = useState<number[]>([]);
+	const [bulkLabels, setBulkLabels] = useState("");
+	const onTagsChanged = () => {
+		mediaQuery.refetch();
+		datasetTagQuery.refetch();
+	};
+	const assignTags = useMutation(
+		trpc.tag.assign.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(`已为 ${result.assets} 个素材添加标签`);
+				setBulkLabels("");
+				onTagsChanged();
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+	const unassignTags = useMutation(
+		trpc.tag.unassign.mutationOptions({
+			onSuccess: () => {
+				onTagsChanged();
+			},
+			onError: (error) => {
+				toast.error(error.message);
+			},
+		}),
+	);
+
 	const [selectedDataset, setSelectedDataset] = useState("");
 	const [uploads, setUploads] = useState<UploadEntry[]>([]);
+	const [resumable, setResumable] = useState<ResumableUpload[]>([]);
+
+	useEffect(() => {
+		setResumable(readResumableUploads());
+	}, []);
+
+	const createMultipartUpload = useMutation(
+		trpc.media.createMultipartUpload.mutationOptions(),
+	);
+	const signUploadParts = useMutation(
+		trpc.media.signUploadParts.mutationOptions(),
+	);
+	const completeMultipartUpload = useMutation(
+		trpc.media.completeMultipartUpload.mutationOptions(),
+	);
+	const abortMultipartUpload = useMutation(
+		trpc.media.abortMultipartUpload.mutationOptions(),
+	);
 
 	const datasets = datasetQuery.data ?? [];
-	const assets = mediaQuery.data ?? [];
+	const assets = activeSearch
+		? (searchQuery.data ?? [])
+		: (mediaQuery.data ?? []);
+	const assetUrl = useAssetUrls(assets);
+
+	const handleSearch = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const query = searchText.trim();
+		setActiveSearch(query ? { query, label: query } : null);
+	};
 
 	const handleFileChange = async (
 		event: React.ChangeEvent<HTMLInputElement>,
@@ -90,9 +255,148 @@ function MediaLibrary() {
 			Array.from(files).map((file) => processUpload(file, datasetId)),
 		);
 		await mediaQuery.refetch();
+		setResumable(readResumableUploads());
 		event.target.value = "";
 	};
 
+	const uploadSingle = async (
+		file: File,
+		datasetId: number,
+		entryId: string,
+	) => {
+		const uploadRequest = await requestUpload.mutateAsync({
+			datasetId,
+			fileName: file.name,
+			mimeType: file.type,
+			size: file.size,
+		});
+		updateUpload(entryId, "uploading");
+
+		const response = await fetch(uploadRequest.upload.url, {
+			method: "PUT",
+			headers: uploadRequest.upload.headers,
+			body: file,
+		});
+		if (!response.ok) {
+			throw new Error("上传失败，请稍后重试");
+		}
+		return uploadRequest.asset.id;
+	};
+
+	// Parts already in the bucket are skipped when the same file is picked
+	// again, so an interrupted upload continues after a reload.
+	const uploadMultipart = async (
+		file: File,
+		datasetId: number,
+		entryId: string,
+	) => {
+		const key = resumeKey(datasetId, file);
+		const etags = new Map<number, string>();
+		let session:
+			| { assetId: number; partSize: number; partCount: number }
+			| undefined;
+
+		const saved = readResumableUploads().find((upload) => upload.key === key);
+		if (saved) {
+			try {
+				const existing = await trpcClient.media.listUploadParts.query({
+					assetId: saved.assetId,
+				});
+				session = {
+					assetId: existing.asset.id,
+					partSize: existing.partSize,
+					partCount: existing.partCount,
+				};
+				for (const part of existing.parts) {
+					const expected = Math.min(
+						existing.partSize,
+						file.size - (part.partNumber - 1) * existing.partSize,
+					);
+					if (part.size === expected) {
+						etags.set(part.partNumber, part.etag);
+					}
+				}
+			} catch {
+				localStorage.removeItem(key);
+			}
+		}
+		if (!session) {
+			const created = await createMultipartUpload.mutateAsync({
+				datasetId,
+				fileName: file.name,
+				mimeType: file.type,
+				size: file.size,
+			});
+			session = {
+				assetId: created.asset.id,
+				partSize: created.partSize,
+				partCount: created.partCount,
+			};
+			localStorage.setItem(
+				key,
+				JSON.stringify({
+					assetId: session.assetId,
+					fileName: file.name,
+					size: file.size,
+				}),
+			);
+		}
+
+		const { assetId, partSize, partCount } = session;
+		updateUpload(entryId, "uploading", undefined, etags.size / partCount);
+		const pending = Array.from(
+			{ length: partCount },
+			(_, index) => index + 1,
+		).filter((partNumber) => !etags.has(partNumber));
+
+		const worker = async () => {
+			while (pending.length) {
+				// Sign a few parts at a time so URLs do not expire while queued.
+				const batch = pending.splice(0, PART_SIGN_BATCH);
+				const signed = await signUploadParts.mutateAsync({
+					assetId,
+					partNumbers: batch,
+				});
+				for (const part of signed) {
+					const start = (part.partNumber - 1) * partSize;
+					const etag = await uploadPart(
+						part.url,
+						part.headers,
+						file.slice(start, start + partSize),
+					);
+					etags.set(part.partNumber, etag);
+					updateUpload(entryId, "uploading", undefined, etags.size / partCount);
+				}
+			}
+		};
+		await Promise.all(
+			Array.from({ length: Math.min(PART_CONCURRENCY, partCount) }, worker),
+		);
+
+		await completeMultipartUpload.mutateAsync({
+			assetId,
+			parts: [...etags]
+				.sort(([a], [b]) => a - b)
+				.map(([partNumber, etag]) => ({ partNumber, etag })),
+		});
+		localStorage.removeItem(key);
+		return assetId;
+	};
+
+	const handleAbortResumable = async (upload: ResumableUpload) => {
+		if (!window.confirm(`放弃未完成的上传「${upload.fileName}」吗？`)) {
+			return;
+		}
+		try {
+			await abortMultipartUpload.mutateAsync({ assetId: upload.assetId });
+		} catch {
+			// The session may already be gone; forget it either way.
+		}
+		localStorage.removeItem(upload.key);
+		setResumable(readResumableUploads());
+		mediaQuery.refetch();
+	};
+
 	const processUpload = async (file: File, datasetId: number) => {
 		const entryId = crypto.randomUUID();
 		setUploads((prev) => [
@@ -103,45 +407,51 @@ function MediaLibrary() {
 			},
 			...prev,
 		]);
+		const multipart = file.size > MULTIPART_THRESHOLD;
 		try {
-			const uploadRequest = await requestUpload.mutateAsync({
-				datasetId,
-				fileName: file.name,
-				mimeType: file.type,
-				size: file.size,
-			});
-			updateUpload(entryId, "uploading");
-
-			const dimensionsPromise = readImageDimensions(file);
-			const response = await fetch(uploadRequest.upload.url, {
-				method: "PUT",
-				headers: uploadRequest.upload.headers,
-				body: file,
-			});
-			if (!response.ok) {
-				throw new Error("上传失败，请稍后重试");
-			}
+			const imageInfoPromise = readImageInfo(file);
+			// Hashing reads the whole file into memory; the server checksums
+			// large images while processing them instead.
+			const checksumPromise = multipart
+				? Promise.resolve(undefined)
+				: hashFile(file);
+			const assetId = multipart
+				? await uploadMultipart(file, datasetId, entryId)
+				: await uploadSingle(file, datasetId, entryId);
 
 			updateUpload(entryId, "finalizing");
 
-			const dimensions = await dimensionsPromise;
+			const [imageInfo, checksum] = await Promise.all([
+				imageInfoPromise,
+				checksumPromise,
+			]);
 
-			await finalizeUpload.mutateAsync({
-				assetId: uploadRequest.asset.id,
+			const finalized = await finalizeUpload.mutateAsync({
+				assetId,
 				size: file.size,
-				width: dimensions?.width,
-				height: dimensions?.height,
+				width: imageInfo?.width,
+				height: imageInfo?.height,
+				checksum,
+				perceptualHash: imageInfo?.perceptualHash,
 				status: "uploaded",
 			});
 
 			updateUpload(entryId, "done");
-			toast.success(`${file.name} 上传完成`);
+			const [duplicate] = finalized.duplicates;
+			if (duplicate) {
+				toast.warning(
+					`${file.name} 与已有素材「${duplicate.originalName}」（${duplicate.datasetName ?? "未知数据集"}）完全相同`,
+				);
+			} else {
+				toast.success(`${file.name} 上传完成`);
+			}
 		} catch (error) {
 			console.error(error);
+			const message = error instanceof Error ? error.message : "上传失败";
 			updateUpload(
 				entryId,
 				"error",
-				error instanceof Error ? error.message : "上传失败",
+				multipart ? `${message}。上传中断，重新选择同一文件可继续` : message,
 			);
 			toast.error(`${file.name} 上传失败`);
 		}
@@ -151,6 +461,7 @@ function MediaLibrary() {
 		id: string,
 		status: UploadEntry["status"],
 		error?: string,
+		progress?: number,
 	) => {
 		setUploads((prev) =>
 			prev.map((upload) =>
@@ -159,6 +470,7 @@ function MediaLibrary() {
 							...upload,
 							status,
 							error,
+							progress,
 						}
 					: upload,
 			),
@@ -166,10 +478,56 @@ function MediaLibrary() {
 	};
 
 	const handleDelete = (assetId: number, name: string) => {
-		if (!window.confirm(`确定删除素材「${name}」吗？`)) {
+		if (
+			!window.confirm(
+				`确定将素材「${name}」移入回收站吗？保留期内可在回收站恢复。`,
+			)
+		) {
+			return;
+		}
+		deleteMedia.mutate({ assetId });
+	};
+
+	const handleDeleteDataset = () => {
+		const dataset = datasets.find((item) => String(item.id) === filterDataset);
+		if (
+			!dataset ||
+			!window.confirm(
+				`确定将数据集「${dataset.name}」及其全部素材移入回收站吗？保留期内可在回收站恢复。`,
+			)
+		) {
 			return;
 		}
-		deleteMedia.mutate({ assetId, removeFromStorage: true });
+		deleteDataset.mutate({ id: dataset.id });
+	};
+
+	const toggleTagFilter = (label: string) => {
+		setUntagged(false);
+		setTagFilter((prev) =>
+			prev.includes(label)
+				? prev.filter((item) => item !== label)
+				: [...prev, label],
+		);
+	};
+
+	const toggleAssetSelection = (assetId: number) => {
+		setSelectedAssetIds((prev) =>
+			prev.includes(assetId)
+				? prev.filter((id) => id !== assetId)
+				: [...prev, assetId],
+		);
+	};
+
+	const handleBulkTags = (action: "assign" | "unassign") => {
+		const labels = bulkLabels
+			.split(",")
+			.map((label) => label.trim())
+			.filter(Boolean);
+		if (!labels.length || !selectedAssetIds.length) {
+			return;
+		}
+		const mutation = action === "assign" ? assignTags : unassignTags;
+		mutation.mutate({ assetIds: selectedAssetIds, labels });
 	};
 
 	const isUploading = uploads.some(
@@ -254,6 +612,35 @@ function MediaLibrary() {
 							<CardDescription>实时查看签名、上传与入库状态</CardDescription>
 						</CardHeader>
 						<CardContent className="space-y-3">
+							{resumable.length ? (
+								<div className="space-y-2 rounded-lg border border-amber-500/40 bg-amber-500/5 px-3 py-2 text-sm">
+									<p className="text-amber-600 text-xs">
+										有 {resumable.length}{" "}
+										个未完成的上传，重新选择同一文件即可从断点继续
+									</p>
+									{resumable.map((upload) => (
+										<div
+											key={upload.key}
+											className="flex items-center justify-between gap-2"
+										>
+											<span className="truncate">
+												{upload.fileName}
+												<span className="ml-1 text-muted-foreground text-xs">
+													{formatBytes(upload.size)}
+												</span>
+											</span>
+											<Button
+												size="sm"
+												variant="ghost"
+												disabled={abortMultipartUpload.isPending}
+												onClick={() => handleAbortResumable(upload)}
+											>
+												放弃
+											</Button>
+										</div>
+									))}
+								</div>
+							) : null}
 							{uploads.length === 0 ? (
 								<p className="text-muted-foreground text-sm">尚无上传任务</p>
 							) : (
@@ -265,6 +652,10 @@ function MediaLibrary() {
 										<p className="font-medium">{upload.name}</p>
 										<p className="text-muted-foreground text-xs">
 											{statusLabel(upload.status)}
+											{upload.status === "uploading" &&
+											upload.progress !== undefined
+												? ` ${Math.round(upload.progress * 100)}%`
+												: ""}
 										</p>
 										{upload.error ? (
 											<p className="text-destructive text-xs">{upload.error}</p>
@@ -276,6 +667,11 @@ function MediaLibrary() {
 					</Card>
 				</section>
 
+				<BulkIngest
+					datasetId={selectedDataset}
+					onImported={() => mediaQuery.refetch()}
+				/>
+
 				<section className="space-y-4">
 					<div className="flex flex-wrap items-center justify-between gap-3">
 						<div>
@@ -287,9 +683,11 @@ function MediaLibrary() {
 						<div className="flex flex-wrap items-center gap-2">
 							<Select
 								value={filterDataset}
-								onChange={(event: ChangeEvent<HTMLSelectElement>) =>
-									setFilterDataset(event.target.value)
-								}
+								onChange={(event: ChangeEvent<HTMLSelectElement>) => {
+									setFilterDataset(event.target.value);
+									setTagFilter([]);
+									setSelectedAssetIds([]);
+								}}
 								className="w-48"
 							>
 								<option value="">全部数据集</option>
@@ -299,6 +697,40 @@ function MediaLibrary() {
 									</option>
 								))}
 							</Select>
+							{filterDataset ? (
+								<Button
+									variant="outline"
+									onClick={() =>
+										runTagging.mutate({ datasetId: Number(filterDataset) })
+									}
+									disabled={runTagging.isPending}
+								>
+									<Tags className="mr-2 size-4" />
+									自动打标
+								</Button>
+							) : null}
+							{filterDataset ? (
+								<Button
+									variant="outline"
+									onClick={() =>
+										runEmbedding.mutate({ datasetId: Number(filterDataset) })
+									}
+									disabled={runEmbedding.isPending}
+								>
+									<Sparkles className="mr-2 size-4" />
+									生成向量
+								</Button>
+							) : null}
+							{filterDataset ? (
+								<Button
+									variant="outline"
+									onClick={handleDeleteDataset}
+									disabled={deleteDataset.isPending}
+								>
+									<Trash2 className="mr-2 size-4" />
+									删除数据集
+								</Button>
+							) : null}
 							<Button variant="outline" onClick={() => mediaQuery.refetch()}>
 								<Loader2
 									className={`mr-2 size-4 ${mediaQuery.isRefetching ? "animate-spin" : ""}`}
@@ -307,20 +739,156 @@ function MediaLibrary() {
 							</Button>
 						</div>
 					</div>
+					<form
+						onSubmit={handleSearch}
+						className="flex flex-wrap items-center gap-2 rounded-lg border bg-background p-3"
+					>
+						<Input
+							value={searchText}
+							onChange={(event) => setSearchText(event.target.value)}
+							placeholder="语义搜索：描述想找的画面或 caption 内容"
+							className="h-8 min-w-64 flex-1"
+						/>
+						<Select
+							value={searchTarget}
+							onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+								setSearchTarget(event.target.value as SearchTarget)
+							}
+							className="h-8 w-32 text-xs"
+						>
+							<option value="both">图片 + caption</option>
+							<option value="image">仅图片</option>
+							<option value="caption">仅 caption</option>
+						</Select>
+						<Button type="submit" size="sm" disabled={searchQuery.isFetching}>
+							{searchQuery.isFetching ? (
+								<Loader2 className="mr-2 size-4 animate-spin" />
+							) : (
+								<Search className="mr-2 size-4" />
+							)}
+							搜索
+						</Button>
+						{activeSearch ? (
+							<>
+								<span className="text-muted-foreground text-xs">
+									{activeSearch.assetId
+										? `以图搜图：${activeSearch.label}`
+										: `搜索：${activeSearch.label}`}
+									{searchQuery.error ? ` · ${searchQuery.error.message}` : ""}
+								</span>
+								<Button
+									type="button"
+									size="sm"
+									variant="ghost"
+									onClick={() => {
+										setActiveSearch(null);
+										setSearchText("");
+									}}
+								>
+									退出搜索
+								</Button>
+							</>
+						) : null}
+					</form>
+					<div className="flex flex-wrap items-center gap-2 rounded-lg border bg-background p-3">
+						<span className="text-muted-foreground text-xs">标签筛选</span>
+						<Select
+							value={tagMatch}
+							onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+								setTagMatch(event.target.value as "all" | "any")
+							}
+							className="h-8 w-28 text-xs"
+						>
+							<option value="all">包含全部</option>
+							<option value="any">包含任一</option>
+						</Select>
+						<Button
+							variant={untagged ? "default" : "outline"}
+							size="sm"
+							onClick={() => {
+								setUntagged((prev) => !prev);
+								setTagFilter([]);
+							}}
+						>
+							未打标
+						</Button>
+						{filterDataset ? (
+							(datasetTagQuery.data ?? []).map((tag) => (
+								<button
+									key={tag.id}
+									type="button"
+									onClick={() => toggleTagFilter(tag.label)}
+								>
+									<Badge
+										variant={
+											tagFilter.includes(tag.label) ? "default" : "outline"
+										}
+									>
+										{tag.label}
+										<span className="ml-1 opacity-60">{tag.usageCount}</span>
+									</Badge>
+								</button>
+							))
+						) : (
+							<span className="text-muted-foreground text-xs">
+								选择数据集后可按标签筛选
+							</span>
+						)}
+					</div>
+					{selectedAssetIds.length ? (
+						<div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 p-3">
+							<span className="text-sm">
+								已选 {selectedAssetIds.length} 个素材
+							</span>
+							<Input
+								value={bulkLabels}
+								onChange={(event) => setBulkLabels(event.target.value)}
+								placeholder="标签 (逗号分隔)"
+								className="h-8 w-64"
+							/>
+							<Button
+								size="sm"
+								onClick={() => handleBulkTags("assign")}
+								disabled={assignTags.isPending}
+							>
+								添加标签
+							</Button>
+							<Button
+								size="sm"
+								variant="outline"
+								onClick={() => handleBulkTags("unassign")}
+								disabled={unassignTags.isPending}
+							>
+								移除标签
+							</Button>
+							<Button
+								size="sm"
+								variant="ghost"
+								onClick={() => setSelectedAssetIds([])}
+							>
+								清除选择
+							</Button>
+						</div>
+					) : null}
 					<div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
 						{assets.length === 0 ? (
 							<Card className="sm:col-span-2 lg:col-span-3">
 								<CardContent className="py-12 text-center text-muted-foreground">
-									暂无素材，先上传一个文件吧。
+									{activeSearch
+										? searchQuery.isFetching
+											? "搜索中…"
+											: "没有找到相似素材，确认已为数据集生成向量。"
+										: "暂无素材，先上传一个文件吧。"}
 								</CardContent>
 							</Card>
 						) : (
 							assets.map((asset) => (
 								<Card key={asset.id} className="overflow-hidden">
 									<div className="relative h-48 w-full bg-muted">
-										{asset.publicUrl && asset.mimeType.startsWith("image/") ? (
+										{asset.mimeType.startsWith("image/") &&
+										assetUrl(asset, "md") ? (
 											<img
-												src={asset.publicUrl}
+												src={assetUrl(asset, "md")}
 												alt={asset.originalName}
 												className="h-full w-full object-cover"
 												loading="lazy"
@@ -331,9 +899,20 @@ function MediaLibrary() {
 												<Images className="size-8" />
 											</div>
 										)}
-										<div className="absolute top-3 right-3">
+										<div className="absolute top-3 right-3 flex gap-1">
+											{"score" in asset && typeof asset.score === "number" ? (
+												<Badge>相似度 {Math.round(asset.score * 100)}%</Badge>
+											) : null}
 											<Badge variant="secondary">{asset.status}</Badge>
 										</div>
+										<label className="absolute top-3 left-3 flex size-6 cursor-pointer items-center justify-center rounded bg-background/80">
+											<input
+												type="checkbox"
+												checked={selectedAssetIds.includes(asset.id)}
+												onChange={() => toggleAssetSelection(asset.id)}
+												aria-label={`选择 ${asset.originalName}`}
+											/>
+										</label>
 									</div>
 									<CardContent className="space-y-2 py-4 text-sm">
 										<div className="flex items-center justify-between">
@@ -356,15 +935,75 @@ function MediaLibrary() {
 											<span>·</span>
 											<span>{asset.mimeType}</span>
 										</div>
-										<div className="grid grid-cols-2 gap-2">
+										{asset.status === "failed" ? (
+											<div className="flex items-center justify-between gap-2 text-destructive text-xs">
+												<span>
+													{String(asset.metadata.processingError ?? "处理失败")}
+												</span>
+												<Button
+													size="sm"
+													variant="outline"
+													disabled={reprocess.isPending}
+													onClick={() =>
+														reprocess.mutate({ assetIds: [asset.id] })
+													}
+												>
+													重试处理
+												</Button>
+											</div>
+										) : null}
+										{asset.tags.length ? (
+											<div className="flex flex-wrap gap-1">
+												{asset.tags.map((tag) => (
+													<Badge
+														key={tag.label}
+														variant={
+															tag.sources.includes("manual")
+																? "default"
+																: "secondary"
+														}
+														title={`${tag.sources.join(" / ")}${tag.score != null ? ` · ${tag.score}%` : ""}`}
+													>
+														{tag.label}
+														<button
+															type="button"
+															className="ml-1 opacity-60 hover:opacity-100"
+															onClick={() =>
+																unassignTags.mutate({
+																	assetIds: [asset.id],
+																	labels: [tag.label],
+																})
+															}
+															aria-label={`移除标签 ${tag.label}`}
+														>
+															×
+														</button>
+													</Badge>
+												))}
+											</div>
+										) : null}
+										<div className="grid grid-cols-3 gap-2">
 											<Button
 												variant="outline"
 												size="sm"
-												onClick={() => copyLink(asset.publicUrl)}
-												disabled={!asset.publicUrl}
+												onClick={() => copyLink(assetUrl(asset))}
+												disabled={!assetUrl(asset)}
 											>
 												<Clipboard className="mr-2 size-4" />
-												复制链接
+												链接
+											</Button>
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() =>
+													setActiveSearch({
+														assetId: asset.id,
+														label: asset.originalName,
+													})
+												}
+											>
+												<ScanSearch className="mr-2 size-4" />
+												相似
 											</Button>
 											<Button
 												variant="destructive"
@@ -384,6 +1023,14 @@ function MediaLibrary() {
 						)}
 					</div>
 				</section>
+
+				<MediaTrash
+					datasetId={filterDataset}
+					onRestored={() => {
+						datasetQuery.refetch();
+						mediaQuery.refetch();
+					}}
+				/>
 			</div>
 		</div>
 	);
@@ -422,28 +1069,137 @@ function formatBytes(bytes?: number | null) {
 	return `${size.toFixed(1)} ${units[unit]}`;
 }
 
-async function readImageDimensions(file: File) {
+function resumeKey(datasetId: number, file: File) {
+	return `${RESUME_KEY_PREFIX}${datasetId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readResumableUploads() {
+	const uploads: ResumableUpload[] = [];
+	const keys = Array.from({ length: localStorage.length }, (_, index) =>
+		localStorage.key(index),
+	);
+	for (const key of keys) {
+		if (!key?.startsWith(RESUME_KEY_PREFIX)) {
+			continue;
+		}
+		try {
+			const saved = JSON.parse(localStorage.getItem(key) ?? "");
+			uploads.push({ ...saved, key });
+		} catch {
+			localStorage.removeItem(key);
+		}
+	}
+	return uploads;
+}
+
+/** PUTs one part, retrying with backoff, and returns the ETag S3 assigned it. */
+async function uploadPart(
+	url: string,
+	headers: Record<string, string>,
+	body: Blob,
+) {
+	let lastError: unknown;
+	for (let attempt = 0; attempt < PART_ATTEMPTS; attempt++) {
+		if (attempt) {
+			await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+		}
+		let response: Response;
+		try {
+			response = await fetch(url, { method: "PUT", headers, body });
+		} catch (error) {
+			lastError = error;
+			continue;
+		}
+		if (!response.ok) {
+			lastError = new Error(`分片上传失败（HTTP ${response.status}）`);
+			continue;
+		}
+		// Retrying will not help if CORS hides the header.
+		const etag = response.headers.get("ETag");
+		if (!etag) {
+			throw new Error("存储未返回 ETag，请在存储桶 CORS 中暴露 ETag 响应头");
+		}
+		return etag;
+	}
+	throw lastError;
+}
+
+async function hashFile(file: File) {
+	try {
+		const digest = await crypto.subtle.digest(
+			"SHA-256",
+			await file.arrayBuffer(),
+		);
+		return Array.from(new Uint8Array(digest), (byte) =>
+			byte.toString(16).padStart(2, "0"),
+		).join("");
+	} catch {
+		return undefined;
+	}
+}
+
+// 64-bit difference hash: shrink to 9×8 grayscale and compare neighbours.
+function differenceHash(image: HTMLImageElement) {
+	const canvas = document.createElement("canvas");
+	canvas.width = 9;
+	canvas.height = 8;
+	const context = canvas.getContext("2d", { willReadFrequently: true });
+	if (!context) {
+		return undefined;
+	}
+	context.drawImage(image, 0, 0, 9, 8);
+	const { data } = context.getImageData(0, 0, 9, 8);
+	const gray = (x: number, y: number) => {
+		const offset = (y * 9 + x) * 4;
+		return (
+			(data[offset] ?? 0) * 0.299 +
+			(data[offset + 1] ?? 0) * 0.587 +
+			(data[offset + 2] ?? 0) * 0.114
+		);
+	};
+	let hash = "";
+	for (let y = 0; y < 8; y++) {
+		for (let nibble = 0; nibble < 2; nibble++) {
+			let value = 0;
+			for (let bit = 0; bit < 4; bit++) {
+				const x = nibble * 4 + bit;
+				value = (value << 1) | (gray(x, y) < gray(x + 1, y) ? 1 : 0);
+			}
+			hash += value.toString(16);
+		}
+	}
+	return hash;
+}
+
+async function readImageInfo(file: File) {
 	if (!file.type.startsWith("image/")) {
 		return undefined;
 	}
-	return await new Promise<{ width: number; height: number } | undefined>(
-		(resolve) => {
-			const image = new Image();
-			const url = URL.createObjectURL(file);
-			image.onload = () => {
-				resolve({
-					width: image.width,
-					height: image.height,
-				});
-				URL.revokeObjectURL(url);
-			};
-			image.onerror = () => {
-				resolve(undefined);
-				URL.revokeObjectURL(url);
-			};
-			image.src = url;
-		},
-	);
+	return await new Promise<
+		{ width: number; height: number; perceptualHash?: string } | undefined
+	>((resolve) => {
+		const image = new Image();
+		const url = URL.createObjectURL(file);
+		image.onload = () => {
+			let perceptualHash: string | undefined;
+			try {
+				perceptualHash = differenceHash(image);
+			} catch {
+				perceptualHash = undefined;
+			}
+			resolve({
+				width: image.width,
+				height: image.height,
+				perceptualHash,
+			});
+			URL.revokeObjectURL(url);
+		};
+		image.onerror = () => {
+			resolve(undefined);
+			URL.revokeObjectURL(url);
+		};
+		image.src = url;
+	});
 }
 
 async function copyLink(url?: string | null) {
@@ -0,0 +1,873 @@
+import { Badge } from "@cyop/ui/components/badge";
+import { Button } from "@cyop/ui/components/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@cyop/ui/components/card";
+import { Input } from "@cyop/ui/components/input";
+import { Label } from "@cyop/ui/components/label";
+import { Select } from "@cyop/ui/components/select";
+import { Textarea } from "@cyop/ui/components/textarea";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createLazyFileRoute } from "@tanstack/react-router";
+import FlaskConical from "lucide-react/icons/flask-conical";
+import History from "lucide-react/icons/history";
+import Loader2 from "lucide-react/icons/loader-2";
+import Plus from "lucide-react/icons/plus";
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+
+import { trpc } from "@/utils/trpc";
+
+export const Route = createLazyFileRoute("/prompts")({
+	component: PromptTemplates,
+});
+
+type TemplateForm = {
+	name: string;
+	systemPrompt: string;
+	userPromptTemplate: string;
+	model: string;
+	outputSchema: string;
+	note: string;
+};
+
+type LineDiff = Array<{
+	type: "equal" | "added" | "removed";
+	text: string;
+	beforeLine: number | null;
+	afterLine: number | null;
+}>;
+
+const EMPTY_FORM: TemplateForm = {
+	name: "",
+	systemPrompt: "你是一名图像标注员，为训练数据撰写准确的描述。",
+	userPromptTemplate:
+		"用简洁中文描述图片，突出主体、场景和动作。需要关注：{{dataset.focusTags}}",
+	model: "gpt-4o",
+	outputSchema: "",
+	note: "",
+};
+
+const SCHEMA_EXAMPLE = JSON.stringify(
+	{
+		type: "object",
+		properties: {
+			caption: { type: "string" },
+			tags: { type: "array", items: { type: "string" } },
+			nsfw: { type: "boolean" },
+			subjects: { type: "array", items: { type: "string" } },
+		},
+		required: ["caption", "tags"],
+	},
+	null,
+	2,
+);
+
+const SETTING_LABELS: Record<string, string> = {
+	model: "模型",
+	temperature: "温度",
+	maxTokens: "最大 Token",
+	confidenceStrategy: "置信度策略",
+	consistencySamples: "一致性采样数",
+};
+
+function PromptTemplates() {
+	const [selectedId, setSelectedId] = useState<number | null>(null);
+	const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+	const [compareRevisionId, setCompareRevisionId] = useState<number | null>(
+		null,
+	);
+
+	const templates = useQuery(trpc.prompt.list.queryOptions());
+	const selected = templates.data?.find(
+		(template) => template.id === selectedId,
+	);
+	const revisions = useQuery({
+		...trpc.prompt.revisions.queryOptions({ templateId: selectedId ?? 0 }),
+		enabled: Boolean(selectedId),
+	});
+	const activeRevisionId = selected?.activeRevisionId ?? null;
+	const diff = useQuery({
+		...trpc.prompt.diff.queryOptions({
+			fromRevisionId: compareRevisionId ?? 0,
+			toRevisionId: activeRevisionId ?? 0,
+		}),
+		enabled: Boolean(
+			compareRevisionId &&
+				activeRevisionId &&
+				compareRevisionId !== activeRevisionId,
+		),
+	});
+
+	const refresh = () => {
+		templates.refetch();
+		revisions.refetch();
+	};
+
+	const createTemplate = useMutation(
+		trpc.prompt.create.mutationOptions({
+			onSuccess: (template) => {
+				toast.success("模板已创建");
+				setSelectedId(template.id);
+				setForm((prev) => ({ ...prev, note: "" }));
+				refresh();
+			},
+			onError: (error) => toast.error(error.message),
+		}),
+	);
+	const updateTemplate = useMutation(
+		trpc.prompt.update.mutationOptions({
+			onSuccess: () => {
+				toast.success("已保存为新版本");
+				setForm((prev) => ({ ...prev, note: "" }));
+				refresh();
+			},
+			onError: (error) => toast.error(error.message),
+		}),
+	);
+	const rollback = useMutation(
+		trpc.prompt.rollback.mutationOptions({
+			onSuccess: (template) => {
+				toast.success("已回滚当前版本");
+				setCompareRevisionId(null);
+				selectTemplate(template);
+				refresh();
+			},
+			onError: (error) => toast.error(error.message),
+		}),
+	);
+
+	const selectTemplate = (template: {
+		id: number;
+		name: string;
+		systemPrompt: string;
+		userPromptTemplate: string;
+		model: string;
+		outputSchema: Record<string, unknown> | null;
+	}) => {
+		setSelectedId(template.id);
+		setCompareRevisionId(null);
+		setForm({
+			name: template.name,
+			systemPrompt: template.systemPrompt,
+			userPromptTemplate: template.userPromptTemplate,
+			model: template.model,
+			outputSchema: template.outputSchema
+				? JSON.stringify(template.outputSchema, null, 2)
+				: "",
+			note: "",
+		});
+	};
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		let outputSchema = null;
+		if (form.outputSchema.trim()) {
+			try {
+				outputSchema = JSON.parse(form.outputSchema);
+			} catch {
+				toast.error("输出 Schema 不是合法的 JSON");
+				return;
+			}
+		}
+		const values = {
+			name: form.name,
+			systemPrompt: form.systemPrompt,
+			userPromptTemplate: form.userPromptTemplate,
+			model: form.model,
+			outputSchema,
+			note: form.note || undefined,
+		};
+		if (selectedId) {
+			updateTemplate.mutate({ id: selectedId, ...values });
+		} else {
+			createTemplate.mutate(values);
+		}
+	};
+
+	const saving = createTemplate.isPending || updateTemplate.isPending;
+
+	return (
+		<div className="mx-auto flex max-w-6xl flex-col gap-6 px-6 py-8">
+			<section className="space-y-2">
+				<h1 className="font-semibold text-3xl">Prompt 模板</h1>
+				<p className="text-muted-foreground text-sm">
+					每次保存都会生成不可修改的版本，Caption
+					和任务会记录实际使用的版本，可随时对比或回滚。
+				</p>
+			</section>
+
+			<div className="grid gap-4 lg:grid-cols-[1fr_2fr]">
+				<Card>
+					<CardHeader className="flex flex-row items-center justify-between">
+						<CardTitle>模板列表</CardTitle>
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={() => {
+								setSelectedId(null);
+								setCompareRevisionId(null);
+								setForm(EMPTY_FORM);
+							}}
+						>
+							<Plus className="mr-1 size-4" />
+							新建
+						</Button>
+					</CardHeader>
+					<CardContent className="space-y-2">
+						{templates.isLoading ? (
+							<Loader2 className="size-4 animate-spin" />
+						) : templates.data?.length ? (
+							templates.data.map((template) => (
+								<button
+									type="button"
+									key={template.id}
+									onClick={() => selectTemplate(template)}
+									className={`w-full rounded-md border px-3 py-2 text-left text-sm transition hover:bg-muted ${
+										template.id === selectedId ? "border-primary" : ""
+									}`}
+								>
+									<div className="flex items-center justify-between gap-2">
+										<span className="truncate font-medium">
+											{template.name}
+										</span>
+										{template.isDefault ? <Badge>默认</Badge> : null}
+									</div>
+									<span className="text-muted-foreground text-xs">
+										{template.model}
+									</span>
+								</button>
+							))
+						) : (
+							<p className="text-muted-foreground text-sm">暂无模板</p>
+						)}
+					</CardContent>
+				</Card>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>
+							{selected ? `编辑：${selected.name}` : "新建模板"}
+						</CardTitle>
+						<CardDescription>
+							支持 {"{{requirement.title}}"}、{"{{dataset.focusTags}}"}、
+							{"{{asset.originalName}}"} 等变量
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<form onSubmit={handleSubmit} className="space-y-3">
+							<div className="grid gap-3 md:grid-cols-2">
+								<div className="space-y-1">
+									<Label htmlFor="prompt-name">名称</Label>
+									<Input
+										id="prompt-name"
+										value={form.name}
+										onChange={(e) =>
+											setForm((prev) => ({ ...prev, name: e.target.value }))
+										}
+										required
+									/>
+								</div>
+								<div className="space-y-1">
+									<Label htmlFor="prompt-model">模型</Label>
+									<Input
+										id="prompt-model"
+										value={form.model}
+										onChange={(e) =>
+											setForm((prev) => ({ ...prev, model: e.target.value }))
+										}
+									/>
+								</div>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor="prompt-system">System Prompt</Label>
+								<Textarea
+									id="prompt-system"
+									rows={3}
+									value={form.systemPrompt}
+									onChange={(e) =>
+										setForm((prev) => ({
+											...prev,
+											systemPrompt: e.target.value,
+										}))
+									}
+									required
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor="prompt-user">User Prompt 模板</Label>
+								<Textarea
+									id="prompt-user"
+									rows={5}
+									value={form.userPromptTemplate}
+									onChange={(e) =>
+										setForm((prev) => ({
+											...prev,
+											userPromptTemplate: e.target.value,
+										}))
+									}
+									required
+								/>
+							</div>
+							<div className="space-y-1">
+								<div className="flex items-center justify-between">
+									<Label htmlFor="prompt-schema">输出 JSON Schema (可选)</Label>
+									<Button
+										type="button"
+										variant="ghost"
+										size="sm"
+										onClick={() =>
+											setForm((prev) => ({
+												...prev,
+												outputSchema: SCHEMA_EXAMPLE,
+											}))
+										}
+									>
+										填入示例
+									</Button>
+								</div>
+								<Textarea
+									id="prompt-schema"
+									rows={form.outputSchema ? 8 : 2}
+									className="font-mono text-xs"
+									placeholder="留空则输出自由文本；填写后按 JSON 模式调用模型，需包含字符串类型的 caption 字段，tags 会计入数据集标签"
+									value={form.outputSchema}
+									onChange={(e) =>
+										setForm((prev) => ({
+											...prev,
+											outputSchema: e.target.value,
+										}))
+									}
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor="prompt-note">修改说明 (可选)</Label>
+								<Input
+									id="prompt-note"
+									value={form.note}
+									onChange={(e) =>
+										setForm((prev) => ({ ...prev, note: e.target.value }))
+									}
+								/>
+							</div>
+							<Button type="submit" disabled={saving}>
+								{saving ? (
+									<Loader2 className="mr-2 size-4 animate-spin" />
+								) : null}
+								{selectedId ? "保存新版本" : "创建模板"}
+							</Button>
+						</form>
+					</CardContent>
+				</Card>
+			</div>
+
+			{selectedId ? (
+				<div className="grid gap-4 lg:grid-cols-[1fr_2fr]">
+					<Card>
+						<CardHeader>
+							<CardTitle className="flex items-center gap-2">
+								<History className="size-4" />
+								版本历史
+							</CardTitle>
+						</CardHeader>
+						<CardContent className="space-y-2">
+							{revisions.data?.length ? (
+								revisions.data.map((revision) => {
+									const isActive = revision.id === activeRevisionId;
+									return (
+										<div
+											key={revision.id}
+											className={`space-y-1 rounded-md border px-3 py-2 text-sm ${
+												revision.id === compareRevisionId
+													? "border-primary"
+													: ""
+											}`}
+										>
+											<div className="flex items-center justify-between gap-2">
+												<span className="font-medium">
+													v{revision.revision}
+												</span>
+												{isActive ? <Badge>当前</Badge> : null}
+											</div>
+											<p className="text-muted-foreground text-xs">
+												{revision.createdBy ?? "system"} ·{" "}
+												{new Date(revision.createdAt).toLocaleString()}
+											</p>
+											{revision.note ? (
+												<p className="text-xs">{revision.note}</p>
+											) : null}
+											{isActive ? null : (
+												<div className="flex gap-2 pt-1">
+													<Button
+														size="sm"
+														variant="outline"
+														onClick={() => setCompareRevisionId(revision.id)}
+													>
+														对比当前
+													</Button>
+													<Button
+														size="sm"
+														variant="outline"
+														disabled={rollback.isPending}
+														onClick={() =>
+															rollback.mutate({
+																templateId: selectedId,
+																revisionId: revision.id,
+															})
+														}
+													>
+														回滚到此版本
+													</Button>
+												</div>
+											)}
+										</div>
+									);
+								})
+							) : (
+								<p className="text-muted-foreground text-sm">暂无版本</p>
+							)}
+						</CardContent>
+					</Card>
+
+					<Card>
+						<CardHeader>
+							<CardTitle>版本对比</CardTitle>
+							<CardDescription>
+								{diff.data
+									? `v${diff.data.from.revision} → v${diff.data.to.revision}（当前）`
+									: "在左侧选择一个历史版本与当前版本对比"}
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							{diff.isFetching ? (
+								<Loader2 className="size-4 animate-spin" />
+							) : diff.data ? (
+								<>
+									{diff.data.changes.settings.length ? (
+										<ul className="space-y-1 text-sm">
+											{diff.data.changes.settings.map((change) => (
+												<li key={change.field}>
+													{SETTING_LABELS[change.field] ?? change.field}：
+													<span className="text-red-600 line-through dark:text-red-400">
+														{String(change.from)}
+													</span>{" "}
+													→{" "}
+													<span className="text-emerald-600 dark:text-emerald-400">
+														{String(change.to)}
+													</span>
+												</li>
+											))}
+										</ul>
+									) : null}
+									<DiffBlock
+										title="System Prompt"
+										lines={diff.data.changes.systemPrompt}
+									/>
+									<DiffBlock
+										title="User Prompt 模板"
+										lines={diff.data.changes.userPromptTemplate}
+									/>
+									{diff.data.changes.outputSchema.some(
+										(line) => line.type !== "equal",
+									) ? (
+										<DiffBlock
+											title="输出 JSON Schema"
+											lines={diff.data.changes.outputSchema}
+										/>
+									) : null}
+								</>
+							) : null}
+						</CardContent>
+					</Card>
+				</div>
+			) : null}
+
+			<ExperimentsCard />
+		</div>
+	);
+}
+
+type ArmForm = { key: string; promptTemplateId: string; modelId: string };
+
+function emptyArm(): ArmForm {
+	return { key: crypto.randomUUID(), promptTemplateId: "", modelId: "" };
+}
+
+const EXPERIMENT_STATUS_LABELS: Record<string, string> = {
+	running: "进行中",
+	completed: "已结束",
+	cancelled: "已取消",
+};
+
+function formatPercent(value: number) {
+	return `${Math.round(value * 100)}%`;
+}
+
+function ExperimentsCard() {
+	const [name, setName] = useState("");
+	const [datasetId, setDatasetId] = useState("");
+	const [sampleSize, setSampleSize] = useState(20);
+	const [arms, setArms] = useState<ArmForm[]>(() => [emptyArm(), emptyArm()]);
+	const [experimentId, setExperimentId] = useState<number | null>(null);
+
+	const templates = useQuery(trpc.prompt.list.queryOptions());
+	const models = useQuery(trpc.model.list.queryOptions({ type: "caption" }));
+	const datasets = useQuery(trpc.dataset.list.queryOptions());
+	const experiments = useQuery(trpc.experiment.list.queryOptions());
+	const detail = useQuery({
+		...trpc.experiment.getById.queryOptions({ id: experimentId ?? 0 }),
+		enabled: Boolean(experimentId),
+		refetchInterval: 10000,
+	});
+
+	const createExperiment = useMutation(
+		trpc.experiment.create.mutationOptions({
+			onSuccess: (experiment) => {
+				toast.success(`实验已创建，抽样 ${experiment.sampleSize} 张素材`);
+				setExperimentId(experiment.id);
+				experiments.refetch();
+			},
+			onError: (error) => toast.error(error.message),
+		}),
+	);
+	const closeExperiment = useMutation(
+		trpc.experiment.close.mutationOptions({
+			onSuccess: () => {
+				experiments.refetch();
+				detail.refetch();
+			},
+			onError: (error) => toast.error(error.message),
+		}),
+	);
+	const setDefault = useMutation(
+		trpc.prompt.setDefault.mutationOptions({
+			onSuccess: (template) => {
+				toast.success(`已将「${template.name}」设为默认模板`);
+				templates.refetch();
+			},
+			onError: (error) => toast.error(error.message),
+		}),
+	);
+
+	const updateArm = (index: number, patch: Partial<ArmForm>) => {
+		setArms((prev) =>
+			prev.map((arm, i) => (i === index ? { ...arm, ...patch } : arm)),
+		);
+	};
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		if (!datasetId) {
+			toast.error("请选择数据集");
+			return;
+		}
+		createExperiment.mutate({
+			name: name || `实验 ${new Date().toLocaleDateString()}`,
+			datasetId: Number(datasetId),
+			sampleSize,
+			arms: arms.map((arm) => ({
+				promptTemplateId: arm.promptTemplateId
+					? Number(arm.promptTemplateId)
+					: undefined,
+				modelId: arm.modelId ? Number(arm.modelId) : undefined,
+			})),
+		});
+	};
+
+	const statsByArm = new Map(
+		detail.data?.stats.arms.map((stat) => [stat.armId, stat]),
+	);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<FlaskConical className="size-4" />
+					A/B 实验
+				</CardTitle>
+				<CardDescription>
+					在同一批抽样素材上对比不同模板或模型，在审核台进行盲评后再决定默认模板
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				<form onSubmit={handleSubmit} className="space-y-3">
+					<div className="grid gap-3 md:grid-cols-3">
+						<div className="space-y-1">
+							<Label htmlFor="experiment-name">名称</Label>
+							<Input
+								id="experiment-name"
+								value={name}
+								placeholder="可选"
+								onChange={(e) => setName(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-1">
+							<Label htmlFor="experiment-dataset">数据集</Label>
+							<Select
+								id="experiment-dataset"
+								value={datasetId}
+								onChange={(e) => setDatasetId(e.target.value)}
+							>
+								<option value="">选择数据集</option>
+								{datasets.data?.map((dataset) => (
+									<option key={dataset.id} value={dataset.id}>
+										{dataset.name}
+									</option>
+								))}
+							</Select>
+						</div>
+						<div className="space-y-1">
+							<Label htmlFor="experiment-sample">抽样数量</Label>
+							<Input
+								id="experiment-sample"
+								type="number"
+								min={1}
+								max={500}
+								value={sampleSize}
+								onChange={(e) => setSampleSize(Number(e.target.value) || 1)}
+							/>
+						</div>
+					</div>
+					{arms.map((arm, index) => (
+						<div
+							key={arm.key}
+							className="grid items-end gap-3 md:grid-cols-[3rem_1fr_1fr]"
+						>
+							<span className="pb-2 font-medium text-sm">
+								{String.fromCharCode(65 + index)}
+							</span>
+							<Select
+								value={arm.promptTemplateId}
+								onChange={(e) =>
+									updateArm(index, { promptTemplateId: e.target.value })
+								}
+							>
+								<option value="">默认模板</option>
+								{templates.data?.map((template) => (
+									<option key={template.id} value={template.id}>
+										{template.name}
+									</option>
+								))}
+							</Select>
+							<Select
+								value={arm.modelId}
+								onChange={(e) => updateArm(index, { modelId: e.target.value })}
+							>
+								<option value="">模板指定的模型</option>
+								{models.data?.map((model) => (
+									<option key={model.id} value={model.id}>
+										{model.name}
+									</option>
+								))}
+							</Select>
+						</div>
+					))}
+					<div className="flex gap-2">
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							disabled={arms.length >= 6}
+							onClick={() => setArms((prev) => [...prev, emptyArm()])}
+						>
+							添加对照组
+						</Button>
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							disabled={arms.length <= 2}
+							onClick={() => setArms((prev) => prev.slice(0, -1))}
+						>
+							移除最后一组
+						</Button>
+						<Button
+							type="submit"
+							size="sm"
+							disabled={createExperiment.isPending}
+						>
+							{createExperiment.isPending ? (
+								<Loader2 className="mr-2 size-4 animate-spin" />
+							) : null}
+							创建实验
+						</Button>
+					</div>
+				</form>
+
+				<div className="grid gap-4 lg:grid-cols-[1fr_2fr]">
+					<div className="space-y-2">
+						{experiments.data?.length ? (
+							experiments.data.map((experiment) => (
+								<button
+									type="button"
+									key={experiment.id}
+									onClick={() => setExperimentId(experiment.id)}
+									className={`w-full rounded-md border px-3 py-2 text-left text-sm transition hover:bg-muted ${
+										experiment.id === experimentId ? "border-primary" : ""
+									}`}
+								>
+									<div className="flex items-center justify-between gap-2">
+										<span className="truncate font-medium">
+											{experiment.name}
+										</span>
+										<Badge variant="outline">
+											{EXPERIMENT_STATUS_LABELS[experiment.status]}
+										</Badge>
+									</div>
+									<span className="text-muted-foreground text-xs">
+										{experiment.sampleSize} 张素材 ·{" "}
+										{new Date(experiment.createdAt).toLocaleString()}
+									</span>
+								</button>
+							))
+						) : (
+							<p className="text-muted-foreground text-sm">暂无实验</p>
+						)}
+					</div>
+
+					{detail.data ? (
+						<div className="space-y-3">
+							<div className="flex items-center justify-between gap-2">
+								<p className="text-muted-foreground text-sm">
+									共 {detail.data.stats.totalVotes} 票，平局{" "}
+									{detail.data.stats.ties} 票
+								</p>
+								{detail.data.status === "running" ? (
+									<div className="flex gap-2">
+										<Button
+											size="sm"
+											variant="outline"
+											disabled={closeExperiment.isPending}
+											onClick={() =>
+												closeExperiment.mutate({
+													id: detail.data.id,
+													status: "completed",
+												})
+											}
+										>
+											结束实验
+										</Button>
+										<Button
+											size="sm"
+											variant="outline"
+											disabled={closeExperiment.isPending}
+											onClick={() =>
+												closeExperiment.mutate({
+													id: detail.data.id,
+													status: "cancelled",
+												})
+											}
+										>
+											取消
+										</Button>
+									</div>
+								) : null}
+							</div>
+							<div className="overflow-x-auto">
+								<table className="w-full text-left text-sm">
+									<thead className="text-muted-foreground text-xs">
+										<tr>
+											<th className="py-2">组</th>
+											<th>模板 / 模型</th>
+											<th>胜率</th>
+											<th>平均长度</th>
+											<th>Token 成本</th>
+											<th>通过率</th>
+											<th />
+										</tr>
+									</thead>
+									<tbody>
+										{detail.data.arms.map((arm) => {
+											const stat = statsByArm.get(arm.id);
+											return (
+												<tr key={arm.id} className="border-t">
+													<td className="py-2 font-medium">{arm.label}</td>
+													<td>
+														{arm.promptTemplateName ?? "默认模板"}
+														{arm.promptRevision
+															? ` v${arm.promptRevision}`
+															: ""}
+														<span className="text-muted-foreground">
+															{" "}
+															· {arm.modelName ?? "环境默认模型"}
+														</span>
+													</td>
+													<td>
+														{formatPercent(stat?.winRate ?? 0)}
+														<span className="text-muted-foreground text-xs">
+															{" "}
+															({stat?.wins ?? 0})
+														</span>
+													</td>
+													<td>{stat?.avgLength ?? 0} 字</td>
+													<td>
+														${((stat?.costMicros ?? 0) / 1_000_000).toFixed(4)}
+														<span className="text-muted-foreground text-xs">
+															{" "}
+															({stat?.tokens ?? 0})
+														</span>
+													</td>
+													<td>{formatPercent(stat?.approvalRate ?? 0)}</td>
+													<td>
+														{arm.promptTemplateId ? (
+															<Button
+																size="sm"
+																variant="ghost"
+																disabled={setDefault.isPending}
+																onClick={() =>
+																	arm.promptTemplateId &&
+																	setDefault.mutate({
+																		id: arm.promptTemplateId,
+																	})
+																}
+															>
+																设为默认
+															</Button>
+														) : null}
+													</td>
+												</tr>
+											);
+										})}
+									</tbody>
+								</table>
+							</div>
+						</div>
+					) : null}
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
+
+function DiffBlock({ title, lines }: { title: string; lines: LineDiff }) {
+	return (
+		<div className="space-y-1">
+			<p className="font-medium text-sm">{title}</p>
+			<pre className="overflow-x-auto rounded-md border bg-muted/40 p-3 text-xs leading-5">
+				{lines.map((line) => (
+					<div
+						key={`${line.beforeLine ?? "-"}:${line.afterLine ?? "-"}`}
+						className={
+							line.type === "added"
+								? "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300"
+								: line.type === "removed"
+									? "bg-red-500/10 text-red-700 dark:text-red-300"
+									: ""
+						}
+					>
+						{line.type === "added"
+							? "+ "
+							: line.type === "removed"
+								? "- "
+								: "  "}
+						{line.text}
+					</div>
+				))}
+			</pre>
+		</div>
+	);
+}
@@ -0,0 +1,416 @@
+import { Badge } from "@cyop/ui/components/badge";
+import { Button } from "@cyop/ui/components/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@cyop/ui/components/card";
+import { Input } from "@cyop/ui/components/input";
+import { Label } from "@cyop/ui/components/label";
+import { Select } from "@cyop/ui/components/select";
+import { Textarea } from "@cyop/ui/components/textarea";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createLazyFileRoute } from "@tanstack/react-router";
+import GitMerge from "lucide-react/icons/git-merge";
+import Loader2 from "lucide-react/icons/loader-2";
+import Plus from "lucide-react/icons/plus";
+import { type FormEvent, useMemo, useState } from "react";
+import { toast } from "sonner";
+
+import { trpc } from "@/utils/trpc";
+
+export const Route = createLazyFileRoute("/tags")({
+	component: TagVocabulary,
+});
+
+type TagForm = {
+	label: string;
+	description: string;
+	parentId: string;
+	aliases: string;
+};
+
+const EMPTY_FORM: TagForm = {
+	label: "",
+	description: "",
+	parentId: "",
+	aliases: "",
+};
+
+function TagVocabulary() {
+	const [selectedId, setSelectedId] = useState<number | null>(null);
+	const [form, setForm] = useState<TagForm>(EMPTY_FORM);
+	const [newAlias, setNewAlias] = useState("");
+	const [mergeTargetId, setMergeTargetId] = useState("");
+
+	const vocabulary = useQuery(trpc.vocabulary.list.queryOptions());
+	const tags = vocabulary.data ?? [];
+	const selected = tags.find((tag) => tag.id === selectedId);
+
+	// Depth-first order so children render under their parent.
+	const tree = useMemo(() => {
+		const ordered: Array<{ tag: (typeof tags)[number]; depth: number }> = [];
+		const visit = (parentId: number | null, depth: number) => {
+			for (const tag of tags.filter((item) => item.parentId === parentId)) {
+				ordered.push({ tag, depth });
+				visit(tag.id, depth + 1);
+			}
+		};
+		visit(null, 0);
+		return ordered;
+	}, [tags]);
+
+	const onError = (error: { message: string }) => toast.error(error.message);
+	const createTag = useMutation(
+		trpc.vocabulary.create.mutationOptions({
+			onSuccess: (tag) => {
+				toast.success(
+					tag.rewritten.assetTags
+						? `已创建，并归一化 ${tag.rewritten.assetTags} 条素材标签`
+						: "标签已创建",
+				);
+				setSelectedId(tag.id);
+				setForm((prev) => ({ ...prev, aliases: "" }));
+				vocabulary.refetch();
+			},
+			onError,
+		}),
+	);
+	const updateTag = useMutation(
+		trpc.vocabulary.update.mutationOptions({
+			onSuccess: () => {
+				toast.success("已保存");
+				vocabulary.refetch();
+			},
+			onError,
+		}),
+	);
+	const addAlias = useMutation(
+		trpc.vocabulary.addAlias.mutationOptions({
+			onSuccess: () => {
+				setNewAlias("");
+				vocabulary.refetch();
+			},
+			onError,
+		}),
+	);
+	const removeAlias = useMutation(
+		trpc.vocabulary.removeAlias.mutationOptions({
+			onSuccess: () => vocabulary.refetch(),
+			onError,
+		}),
+	);
+	const mergeTag = useMutation(
+		trpc.vocabulary.merge.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(
+					`已合并：改写 ${result.assetTags} 条素材标签、${result.requirements} 个需求、${result.datasets} 个数据集`,
+				);
+				setSelectedId(null);
+				setForm(EMPTY_FORM);
+				setMergeTargetId("");
+				vocabulary.refetch();
+			},
+			onError,
+		}),
+	);
+	const deleteTag = useMutation(
+		trpc.vocabulary.delete.mutationOptions({
+			onSuccess: () => {
+				setSelectedId(null);
+				setForm(EMPTY_FORM);
+				vocabulary.refetch();
+			},
+			onError,
+		}),
+	);
+
+	const selectTag = (tag: (typeof tags)[number]) => {
+		setSelectedId(tag.id);
+		setMergeTargetId("");
+		setForm({
+			label: tag.label,
+			description: tag.description ?? "",
+			parentId: tag.parentId ? String(tag.parentId) : "",
+			aliases: "",
+		});
+	};
+
+	const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const parentId = form.parentId ? Number(form.parentId) : undefined;
+		if (selectedId) {
+			updateTag.mutate({
+				id: selectedId,
+				label: form.label,
+				description: form.description || null,
+				parentId: parentId ?? null,
+			});
+		} else {
+			createTag.mutate({
+				label: form.label,
+				description: form.description || undefined,
+				parentId,
+				aliases: form.aliases
+					.split(",")
+					.map((alias) => alias.trim())
+					.filter(Boolean),
+			});
+		}
+	};
+
+	const saving = createTag.isPending || updateTag.isPending;
+
+	return (
+		<div className="mx-auto flex max-w-6xl flex-col gap-6 px-6 py-8">
+			<section className="space-y-2">
+				<h1 className="font-semibold text-3xl">标签词表</h1>
+				<p className="text-muted-foreground text-sm">
+					统一标签的标准写法、同义词和层级。写入需求标签提示、数据集重点标签和素材标签时会自动归一化到标准写法。
+				</p>
+			</section>
+
+			<div className="grid gap-4 lg:grid-cols-[1fr_2fr]">
+				<Card>
+					<CardHeader className="flex flex-row items-center justify-between">
+						<CardTitle>标准标签</CardTitle>
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={() => {
+								setSelectedId(null);
+								setForm(EMPTY_FORM);
+							}}
+						>
+							<Plus className="mr-1 size-4" />
+							新建
+						</Button>
+					</CardHeader>
+					<CardContent className="space-y-1">
+						{vocabulary.isLoading ? (
+							<Loader2 className="size-4 animate-spin" />
+						) : tree.length ? (
+							tree.map(({ tag, depth }) => (
+								<button
+									type="button"
+									key={tag.id}
+									onClick={() => selectTag(tag)}
+									style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+									className={`w-full rounded-md border py-2 pr-3 text-left text-sm transition hover:bg-muted ${
+										tag.id === selectedId ? "border-primary" : ""
+									}`}
+								>
+									<span className="font-medium">{tag.label}</span>
+									{tag.aliases.length ? (
+										<span className="ml-2 text-muted-foreground text-xs">
+											{tag.aliases.map((alias) => alias.alias).join(" / ")}
+										</span>
+									) : null}
+								</button>
+							))
+						) : (
+							<p className="text-muted-foreground text-sm">暂无标签</p>
+						)}
+					</CardContent>
+				</Card>
+
+				<div className="space-y-4">
+					<Card>
+						<CardHeader>
+							<CardTitle>
+								{selected ? `编辑：${selected.label}` : "新建标签"}
+							</CardTitle>
+							<CardDescription>
+								已有的同义写法会在保存后改写为标准写法
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							<form onSubmit={handleSubmit} className="space-y-3">
+								<div className="grid gap-3 md:grid-cols-2">
+									<div className="space-y-1">
+										<Label htmlFor="tag-label">标准写法</Label>
+										<Input
+											id="tag-label"
+											value={form.label}
+											onChange={(e) =>
+												setForm((prev) => ({ ...prev, label: e.target.value }))
+											}
+											required
+										/>
+									</div>
+									<div className="space-y-1">
+										<Label htmlFor="tag-parent">上级标签</Label>
+										<Select
+											id="tag-parent"
+											value={form.parentId}
+											onChange={(e) =>
+												setForm((prev) => ({
+													...prev,
+													parentId: e.target.value,
+												}))
+											}
+										>
+											<option value="">无</option>
+											{tags
+												.filter((tag) => tag.id !== selectedId)
+												.map((tag) => (
+													<option key={tag.id} value={tag.id}>
+														{tag.label}
+													</option>
+												))}
+										</Select>
+									</div>
+								</div>
+								<div className="space-y-1">
+									<Label htmlFor="tag-description">说明</Label>
+									<Textarea
+										id="tag-description"
+										rows={2}
+										value={form.description}
+										onChange={(e) =>
+											setForm((prev) => ({
+												...prev,
+												description: e.target.value,
+											}))
+										}
+									/>
+								</div>
+								{selectedId ? null : (
+									<div className="space-y-1">
+										<Label htmlFor="tag-aliases">同义词 (逗号分隔)</Label>
+										<Input
+											id="tag-aliases"
+											value={form.aliases}
+											onChange={(e) =>
+												setForm((prev) => ({
+													...prev,
+													aliases: e.target.value,
+												}))
+											}
+											placeholder="cats, kitty"
+										/>
+									</div>
+								)}
+								<div className="flex gap-2">
+									<Button type="submit" disabled={saving}>
+										{saving ? (
+											<Loader2 className="mr-2 size-4 animate-spin" />
+										) : null}
+										{selectedId ? "保存" : "创建标签"}
+									</Button>
+									{selectedId ? (
+										<Button
+											type="button"
+											variant="destructive"
+											disabled={deleteTag.isPending}
+											onClick={() => {
+												if (
+													window.confirm(
+														"删除后同义词映射也会移除，已有标签不受影响。确定删除吗？",
+													)
+												) {
+													deleteTag.mutate({ id: selectedId });
+												}
+											}}
+										>
+											删除
+										</Button>
+									) : null}
+								</div>
+							</form>
+						</CardContent>
+					</Card>
+
+					{selected ? (
+						<Card>
+							<CardHeader>
+								<CardTitle>同义词与合并</CardTitle>
+							</CardHeader>
+							<CardContent className="space-y-4">
+								<div className="flex flex-wrap gap-1">
+									{selected.aliases.length ? (
+										selected.aliases.map((alias) => (
+											<Badge key={alias.id} variant="secondary">
+												{alias.alias}
+												<button
+													type="button"
+													className="ml-1 opacity-60 hover:opacity-100"
+													onClick={() => removeAlias.mutate({ id: alias.id })}
+													aria-label={`移除同义词 ${alias.alias}`}
+												>
+													×
+												</button>
+											</Badge>
+										))
+									) : (
+										<span className="text-muted-foreground text-sm">
+											暂无同义词
+										</span>
+									)}
+								</div>
+								<form
+									className="flex gap-2"
+									onSubmit={(event) => {
+										event.preventDefault();
+										if (newAlias.trim()) {
+											addAlias.mutate({ tagId: selected.id, alias: newAlias });
+										}
+									}}
+								>
+									<Input
+										value={newAlias}
+										onChange={(e) => setNewAlias(e.target.value)}
+										placeholder="添加同义词"
+									/>
+									<Button
+										type="submit"
+										variant="outline"
+										disabled={addAlias.isPending}
+									>
+										添加
+									</Button>
+								</form>
+								<div className="flex gap-2">
+									<Select
+										value={mergeTargetId}
+										onChange={(e) => setMergeTargetId(e.target.value)}
+									>
+										<option value="">合并到…</option>
+										{tags
+											.filter((tag) => tag.id !== selected.id)
+											.map((tag) => (
+												<option key={tag.id} value={tag.id}>
+													{tag.label}
+												</option>
+											))}
+									</Select>
+									<Button
+										variant="outline"
+										disabled={!mergeTargetId || mergeTag.isPending}
+										onClick={() => {
+											if (
+												window.confirm(
+													`「${selected.label}」的所有用法都会改写为目标标签，确定合并吗？`,
+												)
+											) {
+												mergeTag.mutate({
+													sourceId: selected.id,
+													targetId: Number(mergeTargetId),
+												});
+											}
+										}}
+									>
+										<GitMerge className="mr-2 size-4" />
+										合并
+									</Button>
+								</div>
+							</CardContent>
+						</Card>
+					) : null}
+				</div>
+			</div>
+		</div>
+	);
+}
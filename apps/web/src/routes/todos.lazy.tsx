@@ -25,6 +25,14 @@ export const Route = createLazyFileRoute("/todos")({
 	component: AiOps,
 });
 
+const PROVIDER_OPTIONS = [
+	"openai-compatible",
+	"anthropic",
+	"gemini",
+	"ollama",
+	"fake",
+];
+
 type ModelForm = {
 	name: string;
 	provider: string;
@@ -32,8 +40,39 @@ type ModelForm = {
 	baseUrl: string;
 	apiKeyEnv: string;
 	defaultModel: boolean;
+	requestsPerMinute: string;
+	tokensPerMinute: string;
+	maxConcurrency: string;
+	inputPrice: string;
+	outputPrice: string;
+};
+
+type UsageGroup = "model" | "dataset" | "requirement" | "user" | "day";
+
+const USAGE_GROUP_LABELS: Record<UsageGroup, string> = {
+	model: "模型",
+	dataset: "数据集",
+	requirement: "需求",
+	user: "用户",
+	day: "日期",
 };
 
+function toLimit(value: string) {
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function toMicros(value: string) {
+	const parsed = Number(value);
+	return value && Number.isFinite(parsed) && parsed >= 0
+		? Math.round(parsed * 1_000_000)
+		: undefined;
+}
+
+function formatMicros(micros: number) {
+	return `$${(micros / 1_000_000).toFixed(4)}`;
+}
+
 function AiOps() {
 	const [modelForm, setModelForm] = useState<ModelForm>({
 		name: "OpenAI GPT-4o-mini",
@@ -42,6 +81,11 @@ function AiOps() {
 		baseUrl: "",
 		apiKeyEnv: "AI_CAPTION_API_KEY",
 		defaultModel: true,
+		requestsPerMinute: "",
+		tokensPerMinute: "",
+		maxConcurrency: "",
+		inputPrice: "",
+		outputPrice: "",
 	});
 	const [testImageUrl, setTestImageUrl] = useState("");
 	const [testPrompt, setTestPrompt] = useState(
@@ -52,9 +96,17 @@ function AiOps() {
 	const [batchLimit, setBatchLimit] = useState(50);
 	const [generatedCaption, setGeneratedCaption] = useState("");
 	const [jobsPage, setJobsPage] = useState(1);
+	const [usageGroup, setUsageGroup] = useState<UsageGroup>("model");
 
 	const models = useQuery(trpc.model.list.queryOptions());
+	const queueStatus = useQuery({
+		...trpc.captionOps.queueStatus.queryOptions(),
+		refetchInterval: 5000,
+	});
 	const datasets = useQuery(trpc.dataset.list.queryOptions());
+	const usage = useQuery(
+		trpc.usage.summary.queryOptions({ groupBy: usageGroup }),
+	);
 	const jobs = useQuery(
 		trpc.captionOps.listJobs.queryOptions({
 			datasetId: batchDataset ? Number(batchDataset) : undefined,
@@ -103,10 +155,14 @@ function AiOps() {
 	const enqueueBatch = useMutation(
 		trpc.captionOps.enqueueBatch.mutationOptions({
 			onSuccess: (res) => {
-				const skipText =
+				const skipped = [
 					res.skippedMissingUrl > 0
-						? `，跳过 ${res.skippedMissingUrl} 条缺少 URL 的素材`
-						: "";
+						? `${res.skippedMissingUrl} 条缺少 URL`
+						: null,
+					res.skippedActive > 0 ? `${res.skippedActive} 条已在队列中` : null,
+					res.skippedApproved > 0 ? `${res.skippedApproved} 条已审核` : null,
+				].filter(Boolean);
+				const skipText = skipped.length ? `，跳过 ${skipped.join("、")}` : "";
 				toast.success(`已创建 ${res.count} 条批处理任务${skipText}`);
 				jobs.refetch();
 			},
@@ -116,10 +172,14 @@ function AiOps() {
 	const processQueued = useMutation(
 		trpc.captionOps.processQueued.mutationOptions({
 			onSuccess: (res) => {
+				const workerText = res.workers.length
+					? `${res.workers.length} 个 worker 在线`
+					: "当前没有在线 worker，请启动 bun run dev:worker";
 				toast.success(
-					`队列执行完成：处理 ${res.processed} 条，成功 ${res.succeeded}，失败 ${res.failed}，跳过锁定 ${res.skippedLocked} 条`,
+					`已唤醒队列：回收超时任务 ${res.requeued} 条，补建任务 ${res.adopted} 条，排队 ${res.jobs.queued} 条，${workerText}`,
 				);
 				jobs.refetch();
+				queueStatus.refetch();
 			},
 			onError: (error) => toast.error(error.message),
 		}),
@@ -127,7 +187,9 @@ function AiOps() {
 	const retryFailed = useMutation(
 		trpc.captionOps.retryFailed.mutationOptions({
 			onSuccess: (res) => {
-				toast.success(`已重试 ${res.retried} 条失败任务`);
+				toast.success(
+					`已重试 ${res.retried} 条失败任务${res.skippedApproved > 0 ? `，跳过 ${res.skippedApproved} 条已审核` : ""}`,
+				);
 				jobs.refetch();
 			},
 			onError: (error) => toast.error(error.message),
@@ -147,6 +209,11 @@ function AiOps() {
 			baseUrl: modelForm.baseUrl || undefined,
 			apiKeyEnv: modelForm.apiKeyEnv || undefined,
 			defaultModel: modelForm.defaultModel,
+			requestsPerMinute: toLimit(modelForm.requestsPerMinute),
+			tokensPerMinute: toLimit(modelForm.tokensPerMinute),
+			maxConcurrency: toLimit(modelForm.maxConcurrency),
+			inputPricePer1kMicros: toMicros(modelForm.inputPrice),
+			outputPricePer1kMicros: toMicros(modelForm.outputPrice),
 			type: "caption",
 			enabled: true,
 			metadata: {},
@@ -192,6 +259,7 @@ function AiOps() {
 									<Label htmlFor="provider">提供方</Label>
 									<Input
 										id="provider"
+										list="provider-options"
 										value={modelForm.provider}
 										onChange={(event: ChangeEvent<HTMLInputElement>) =>
 											setModelForm((prev) => ({
@@ -201,6 +269,11 @@ function AiOps() {
 										}
 										required
 									/>
+									<datalist id="provider-options">
+										{PROVIDER_OPTIONS.map((provider) => (
+											<option key={provider} value={provider} />
+										))}
+									</datalist>
 								</div>
 							</div>
 							<div className="grid gap-3 md:grid-cols-2">
@@ -267,6 +340,92 @@ function AiOps() {
 									</div>
 								</div>
 							</div>
+							<div className="grid gap-3 md:grid-cols-3">
+								<div className="space-y-1.5">
+									<Label htmlFor="requestsPerMinute">每分钟请求数 (RPM)</Label>
+									<Input
+										id="requestsPerMinute"
+										type="number"
+										min={1}
+										placeholder="不限"
+										value={modelForm.requestsPerMinute}
+										onChange={(event: ChangeEvent<HTMLInputElement>) =>
+											setModelForm((prev) => ({
+												...prev,
+												requestsPerMinute: event.target.value,
+											}))
+										}
+									/>
+								</div>
+								<div className="space-y-1.5">
+									<Label htmlFor="tokensPerMinute">每分钟 Token 数 (TPM)</Label>
+									<Input
+										id="tokensPerMinute"
+										type="number"
+										min={1}
+										placeholder="不限"
+										value={modelForm.tokensPerMinute}
+										onChange={(event: ChangeEvent<HTMLInputElement>) =>
+											setModelForm((prev) => ({
+												...prev,
+												tokensPerMinute: event.target.value,
+											}))
+										}
+									/>
+								</div>
+								<div className="space-y-1.5">
+									<Label htmlFor="maxConcurrency">最大并发</Label>
+									<Input
+										id="maxConcurrency"
+										type="number"
+										min={1}
+										placeholder="不限"
+										value={modelForm.maxConcurrency}
+										onChange={(event: ChangeEvent<HTMLInputElement>) =>
+											setModelForm((prev) => ({
+												...prev,
+												maxConcurrency: event.target.value,
+											}))
+										}
+									/>
+								</div>
+							</div>
+							<div className="grid gap-3 md:grid-cols-2">
+								<div className="space-y-1.5">
+									<Label htmlFor="inputPrice">输入价格 ($/1K tokens)</Label>
+									<Input
+										id="inputPrice"
+										type="number"
+										min={0}
+										step="any"
+										placeholder="未设置"
+										value={modelForm.inputPrice}
+										onChange={(event: ChangeEvent<HTMLInputElement>) =>
+											setModelForm((prev) => ({
+												...prev,
+												inputPrice: event.target.value,
+											}))
+										}
+									/>
+								</div>
+								<div className="space-y-1.5">
+									<Label htmlFor="outputPrice">输出价格 ($/1K tokens)</Label>
+									<Input
+										id="outputPrice"
+										type="number"
+										min={0}
+										step="any"
+										placeholder="未设置"
+										value={modelForm.outputPrice}
+										onChange={(event: ChangeEvent<HTMLInputElement>) =>
+											setModelForm((prev) => ({
+												...prev,
+												outputPrice: event.target.value,
+											}))
+										}
+									/>
+								</div>
+							</div>
 							<Button type="submit" disabled={createModel.isPending}>
 								{createModel.isPending ? (
 									<Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -317,6 +476,15 @@ function AiOps() {
 												{model.provider} · {model.modelName} ·{" "}
 												{model.baseUrl || "系统默认 Base URL"}
 											</p>
+											{model.requestsPerMinute ||
+											model.tokensPerMinute ||
+											model.maxConcurrency ? (
+												<p className="text-muted-foreground text-xs">
+													RPM {model.requestsPerMinute ?? "不限"} · TPM{" "}
+													{model.tokensPerMinute ?? "不限"} · 并发{" "}
+													{model.maxConcurrency ?? "不限"}
+												</p>
+											) : null}
 										</div>
 										<div className="flex items-center gap-2">
 											<Button
@@ -466,20 +634,14 @@ function AiOps() {
 							<Button
 								variant="outline"
 								disabled={processQueued.isPending}
-								onClick={() =>
-									processQueued.mutate({
-										limit: batchLimit > 100 ? 100 : batchLimit,
-										modelId: selectedModelId,
-										maxConcurrency: 2,
-									})
-								}
+								onClick={() => processQueued.mutate()}
 							>
 								{processQueued.isPending ? (
 									<Loader2 className="mr-2 h-4 w-4 animate-spin" />
 								) : (
 									<RefreshCw className="mr-2 h-4 w-4" />
 								)}
-								执行队列
+								唤醒队列
 							</Button>
 							<Button
 								variant="outline"
@@ -499,10 +661,73 @@ function AiOps() {
 								重试失败任务
 							</Button>
 						</div>
+						<div className="space-y-1 rounded-md border bg-muted/40 px-3 py-2 text-xs">
+							<p>
+								排队 {queueStatus.data?.jobs.queued ?? 0}（等待重试{" "}
+								{queueStatus.data?.jobs.retrying ?? 0}） · 执行中{" "}
+								{queueStatus.data?.jobs.running ?? 0} · 成功{" "}
+								{queueStatus.data?.jobs.succeeded ?? 0} · 失败{" "}
+								{queueStatus.data?.jobs.failed ?? 0}
+							</p>
+							<p className="text-muted-foreground">
+								{queueStatus.data?.workers.length
+									? queueStatus.data.workers
+											.map(
+												(worker) =>
+													`${worker.hostname ?? worker.id} (${worker.activeCount}/${worker.concurrency})`,
+											)
+											.join("、")
+									: "暂无在线 worker，队列由后台 worker 进程执行"}
+							</p>
+						</div>
 					</CardContent>
 				</Card>
 			</div>
 
+			<Card>
+				<CardHeader className="flex flex-row items-center justify-between">
+					<div>
+						<CardTitle>用量与成本</CardTitle>
+						<CardDescription>
+							合计 {usage.data?.totals.calls ?? 0} 次调用 ·{" "}
+							{usage.data?.totals.totalTokens ?? 0} tokens ·{" "}
+							{formatMicros(usage.data?.totals.costMicros ?? 0)}
+						</CardDescription>
+					</div>
+					<select
+						className="h-9 rounded-md border px-3 text-sm"
+						value={usageGroup}
+						onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+							setUsageGroup(event.target.value as UsageGroup)
+						}
+					>
+						{Object.entries(USAGE_GROUP_LABELS).map(([value, label]) => (
+							<option key={value} value={value}>
+								按{label}
+							</option>
+						))}
+					</select>
+				</CardHeader>
+				<CardContent className="space-y-2">
+					{usage.data?.rows.length ? (
+						usage.data.rows.map((row) => (
+							<div
+								key={row.key}
+								className="flex items-center justify-between rounded-lg border px-3 py-2 text-sm"
+							>
+								<span className="font-medium">{row.label}</span>
+								<span className="text-muted-foreground text-xs">
+									{row.calls} 次 · 输入 {row.promptTokens} · 输出{" "}
+									{row.completionTokens} · {formatMicros(row.costMicros)}
+								</span>
+							</div>
+						))
+					) : (
+						<p className="text-muted-foreground text-sm">暂无用量记录</p>
+					)}
+				</CardContent>
+			</Card>
+
 			<Card>
 				<CardHeader className="flex flex-row items-center justify-between">
 					<div>
@@ -542,6 +767,12 @@ function AiOps() {
 										<span className="font-medium">
 											{job.model?.name ?? "默认模型"}
 										</span>
+										{job.attempts > 1 || job.failureCategory ? (
+											<span className="text-muted-foreground text-xs">
+												尝试 {job.attempts}/{job.maxAttempts}
+												{job.failureCategory ? ` · ${job.failureCategory}` : ""}
+											</span>
+										) : null}
 									</div>
 									<p className="text-muted-foreground">
 										{job.dataset?.name ?? "未关联数据集"} ·{" "}
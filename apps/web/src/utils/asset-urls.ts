@@ -0,0 +1,71 @@
+import { useQueries } from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+
+import { trpc } from "@/utils/trpc";
+
+type AssetLike = {
+	id: number;
+	publicUrl: string | null;
+	thumbnails?: Record<string, { url: string | null }>;
+};
+
+const SIGN_BATCH = 100;
+
+/**
+ * Viewing URLs for assets. Public assets use their stored URLs; assets in a
+ * private bucket are signed in batches via `media.signUrls` and re-signed
+ * before the URLs expire.
+ */
+export function useAssetUrls(assets: Array<AssetLike | null | undefined>) {
+	const unsignedIds = useMemo(
+		() =>
+			[
+				...new Set(
+					assets.flatMap((asset) =>
+						asset && !asset.publicUrl ? [asset.id] : [],
+					),
+				),
+			].sort((a, b) => a - b),
+		[assets],
+	);
+
+	const batches: number[][] = [];
+	for (let index = 0; index < unsignedIds.length; index += SIGN_BATCH) {
+		batches.push(unsignedIds.slice(index, index + SIGN_BATCH));
+	}
+
+	const signed = useQueries({
+		queries: batches.map((assetIds) => ({
+			...trpc.media.signUrls.queryOptions({ assetIds }),
+			staleTime: Number.POSITIVE_INFINITY,
+			refetchInterval: (query: {
+				state: { data?: { refreshAfter: number } };
+			}) => (query.state.data?.refreshAfter ?? 300) * 1000,
+		})),
+		combine: (results) => {
+			const byId = new Map<
+				number,
+				{ url: string; thumbnails: Record<string, string> }
+			>();
+			for (const result of results) {
+				for (const asset of result.data?.assets ?? []) {
+					byId.set(asset.id, asset);
+				}
+			}
+			return byId;
+		},
+	});
+
+	return useCallback(
+		(asset: AssetLike, size?: string) => {
+			const entry = signed.get(asset.id);
+			return (
+				(size && asset.thumbnails?.[size]?.url) ||
+				(size && entry?.thumbnails[size]) ||
+				asset.publicUrl ||
+				entry?.url
+			);
+		},
+		[signed],
+	);
+}
@@ -0,0 +1,166 @@
+import { db } from "@cyop/db";
+import { and, eq, inArray, isNull } from "@cyop/db/drizzle-orm";
+import {
+	autoApprovalRules,
+	captionStatusValues,
+	captions,
+	datasets,
+	mediaAssets,
+} from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+
+import { protectedProcedure, router } from "../index";
+import {
+	type AutoApprovalFailure,
+	evaluateAutoApproval,
+} from "../services/autoApproval";
+
+const ruleInput = z.object({
+	enabled: z.boolean(),
+	minConfidence: z.number().int().min(0).max(100).nullable(),
+	maxLength: z.number().int().positive().nullable(),
+	requireFocusTags: z.boolean(),
+	bannedWords: z.array(z.string().min(1)),
+});
+
+async function getDataset(datasetId: number) {
+	const [dataset] = await db
+		.select({ id: datasets.id, focusTags: datasets.focusTags })
+		.from(datasets)
+		.where(eq(datasets.id, datasetId))
+		.limit(1);
+	if (!dataset) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Dataset not found" });
+	}
+	return dataset;
+}
+
+export const autoApprovalRouter = router({
+	get: protectedProcedure
+		.input(z.object({ datasetId: z.number().int().positive() }))
+		.query(async ({ input }) => {
+			const [rule] = await db
+				.select()
+				.from(autoApprovalRules)
+				.where(eq(autoApprovalRules.datasetId, input.datasetId))
+				.limit(1);
+			return rule ?? null;
+		}),
+
+	upsert: protectedProcedure
+		.input(ruleInput.extend({ datasetId: z.number().int().positive() }))
+		.mutation(async ({ input, ctx }) => {
+			await getDataset(input.datasetId);
+			const now = new Date();
+			const { datasetId, ...values } = input;
+			const bannedWords = [
+				...new Set(values.bannedWords.map((word) => word.trim())),
+			].filter(Boolean);
+
+			const [rule] = await db
+				.insert(autoApprovalRules)
+				.values({
+					datasetId,
+					...values,
+					bannedWords,
+					updatedBy: ctx.session.user.email,
+					createdAt: now,
+					updatedAt: now,
+				})
+				.onConflictDoUpdate({
+					target: autoApprovalRules.datasetId,
+					set: {
+						...values,
+						bannedWords,
+						updatedBy: ctx.session.user.email,
+						updatedAt: now,
+					},
+				})
+				.returning();
+			return rule;
+		}),
+
+	dryRun: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				rule: ruleInput.omit({ enabled: true }).optional(),
+				statuses: z
+					.array(z.enum(captionStatusValues))
+					.min(1)
+					.default(["completed"]),
+			}),
+		)
+		.query(async ({ input }) => {
+			const dataset = await getDataset(input.datasetId);
+			let rule = input.rule;
+			if (!rule) {
+				const [saved] = await db
+					.select()
+					.from(autoApprovalRules)
+					.where(eq(autoApprovalRules.datasetId, input.datasetId))
+					.limit(1);
+				if (!saved) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "No auto-approval rule for this dataset",
+					});
+				}
+				rule = saved;
+			}
+
+			const rows = await db
+				.select({
+					id: captions.id,
+					aiCaption: captions.aiCaption,
+					finalCaption: captions.finalCaption,
+					confidence: captions.confidence,
+				})
+				.from(captions)
+				.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
+				.where(
+					and(
+						eq(mediaAssets.datasetId, input.datasetId),
+						inArray(captions.status, input.statuses),
+						isNull(captions.experimentArmId),
+						isNull(mediaAssets.deletedAt),
+					),
+				);
+
+			let passed = 0;
+			const failures: Record<AutoApprovalFailure, number> = {
+				low_confidence: 0,
+				too_long: 0,
+				missing_focus_tags: 0,
+				banned_words: 0,
+			};
+			const passingIds: number[] = [];
+
+			for (const row of rows) {
+				const result = evaluateAutoApproval(
+					rule,
+					{
+						text: row.finalCaption ?? row.aiCaption,
+						confidence: row.confidence,
+					},
+					dataset.focusTags,
+				);
+				if (result.passed) {
+					passed += 1;
+					passingIds.push(row.id);
+				}
+				for (const failure of result.failures) {
+					failures[failure] += 1;
+				}
+			}
+
+			return {
+				total: rows.length,
+				passed,
+				failed: rows.length - passed,
+				failures,
+				sampleIds: passingIds.slice(0, 20),
+			};
+		}),
+});
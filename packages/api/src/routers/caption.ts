@@ -1,72 +1,39 @@
 import { db } from "@cyop/db";
-import { and, desc, eq, inArray, sql } from "@cyop/db/drizzle-orm";
+import { and, desc, eq, inArray, isNull, sql } from "@cyop/db/drizzle-orm";
 import {
 	aiModels,
 	captionJobStatusValues,
 	captionJobs,
+	captionJobTypeValues,
+	captions,
 	datasets,
 	mediaAssets,
 	type mediaStatusValues,
+	promptTemplates,
 } from "@cyop/db/schema/platform";
 import { TRPCError } from "@trpc/server";
 import z from "zod";
 
 import { protectedProcedure, router } from "../index";
-import { generateCaption } from "../services/caption";
-
-const env = ((
-	globalThis as { process?: { env?: Record<string, string | undefined> } }
-).process?.env ?? {}) as Record<string, string | undefined>;
-
-async function resolveModel(modelId?: number) {
-	if (modelId) {
-		const [model] = await db
-			.select()
-			.from(aiModels)
-			.where(and(eq(aiModels.id, modelId), eq(aiModels.type, "caption")))
-			.limit(1);
-		if (!model) {
-			throw new TRPCError({
-				code: "NOT_FOUND",
-				message: "找不到指定的 caption 模型",
-			});
-		}
-		if (!model.enabled) {
-			throw new TRPCError({ code: "BAD_REQUEST", message: "模型已被禁用" });
-		}
-		return model;
-	}
-
-	const [model] = await db
-		.select()
-		.from(aiModels)
-		.where(and(eq(aiModels.type, "caption"), eq(aiModels.enabled, true)))
-		.orderBy(desc(aiModels.defaultModel), desc(aiModels.updatedAt))
-		.limit(1);
-	if (model) {
-		return model;
-	}
-	if (env.AI_CAPTION_MODEL || env.AI_CAPTION_API_KEY) {
-		return {
-			id: 0,
-			name: "Env default",
-			provider: "openai-compatible",
-			modelName: env.AI_CAPTION_MODEL || "gpt-4o-mini",
-			type: "caption" as const,
-			baseUrl: (env.AI_CAPTION_BASE_URL as string | undefined) ?? null,
-			apiKeyEnv: "AI_CAPTION_API_KEY",
-			defaultModel: true,
-			enabled: true,
-			metadata: {} as Record<string, unknown>,
-			createdAt: new Date(),
-			updatedAt: new Date(),
-		};
-	}
-	throw new TRPCError({
-		code: "NOT_FOUND",
-		message: "未配置可用的 caption 模型，请先创建模型或设置环境变量",
-	});
-}
+import { generateCaption, resolveModelImageUrl } from "../services/caption";
+import {
+	adoptOrphanCaptions,
+	enqueueCaptionJobs,
+	resolveCaptionTargets,
+} from "../services/captionPipeline";
+import { getQueueStatus, requeueExpiredLeases } from "../services/captionQueue";
+import { resolveCaptionModel } from "../services/models";
+import {
+	loadPromptContext,
+	renderPromptTemplate,
+} from "../services/promptTemplate";
+import { ModelThrottledError } from "../services/rateLimiter";
+import {
+	assertDatasetBudget,
+	computeCostMicros,
+	recordFailedUsage,
+	recordModelUsage,
+} from "../services/usage";
 
 export const captionRouter = router({
 	generate: protectedProcedure
@@ -88,7 +55,7 @@ export const captionRouter = router({
 			let assetId: number | null = null;
 
 			const [model, asset] = await Promise.all([
-				resolveModel(input.modelId),
+				resolveCaptionModel(input.modelId),
 				input.assetId
 					? db
 							.select()
@@ -103,13 +70,7 @@ export const captionRouter = router({
 				if (!asset) {
 					throw new TRPCError({ code: "NOT_FOUND", message: "素材不存在" });
 				}
-				if (!asset.publicUrl) {
-					throw new TRPCError({
-						code: "BAD_REQUEST",
-						message: "素材缺少可访问的 URL",
-					});
-				}
-				imageUrl = asset.publicUrl;
+				imageUrl = await resolveModelImageUrl(asset);
 				datasetId = asset.datasetId;
 				assetId = asset.id;
 			}
@@ -121,10 +82,28 @@ export const captionRouter = router({
 				});
 			}
 
+			const promptContext =
+				input.prompt && assetId ? await loadPromptContext(assetId) : null;
 			const result = await generateCaption({
 				imageUrl,
-				prompt: input.prompt,
+				prompt:
+					input.prompt && promptContext
+						? renderPromptTemplate(input.prompt, promptContext)
+						: input.prompt,
 				model,
+			}).catch((error: unknown) => {
+				if (error instanceof ModelThrottledError) {
+					throw new TRPCError({
+						code: "TOO_MANY_REQUESTS",
+						message: `${error.message}，请 ${Math.ceil(error.retryAfterMs / 1000)} 秒后重试`,
+					});
+				}
+				return recordFailedUsage(error, {
+					model,
+					source: "api",
+					datasetId,
+					requestedBy: ctx.session?.user?.email,
+				});
 			});
 
 			const [job] = await db
@@ -133,17 +112,35 @@ export const captionRouter = router({
 					datasetId,
 					assetId,
 					modelId: model.id || null,
-					imageUrl,
+					// Signed and inline URLs are not worth keeping on the job row.
+					imageUrl: asset ? asset.publicUrl : imageUrl,
 					prompt: input.prompt,
 					caption: result.caption,
 					status: "succeeded",
-					metadata: { invokedBy: ctx.session?.user?.email },
+					requestedBy: ctx.session?.user?.email,
+					promptTokens: result.usage.promptTokens,
+					completionTokens: result.usage.completionTokens,
+					costMicros: computeCostMicros(model, result.usage),
+					metadata: {
+						invokedBy: ctx.session?.user?.email,
+						confidence: result.confidenceDetails,
+					},
 					startedAt: new Date(),
 					completedAt: new Date(),
 					updatedAt: new Date(),
 				})
 				.returning();
 
+			await recordModelUsage({
+				model,
+				modelName: result.model,
+				usage: result.usage,
+				source: "api",
+				datasetId,
+				captionJobId: job?.id,
+				requestedBy: ctx.session?.user?.email,
+			});
+
 			return { caption: result.caption, job };
 		}),
 
@@ -152,12 +149,19 @@ export const captionRouter = router({
 			z.object({
 				datasetId: z.number().int().positive(),
 				modelId: z.number().int().positive().optional(),
+				promptTemplateId: z.number().int().positive().optional(),
 				limit: z.number().int().min(1).max(500).default(50),
 				statusFilter: z.enum(["uploaded", "ready", "processing"]).optional(),
+				includeApproved: z.boolean().default(false),
 			}),
 		)
 		.mutation(async ({ input, ctx }) => {
-			const conditions = [eq(mediaAssets.datasetId, input.datasetId)];
+			await assertDatasetBudget(input.datasetId);
+
+			const conditions = [
+				eq(mediaAssets.datasetId, input.datasetId),
+				isNull(mediaAssets.deletedAt),
+			];
 			const allowedStatuses: Array<(typeof mediaStatusValues)[number]> = [
 				"uploaded",
 				"ready",
@@ -167,14 +171,16 @@ export const captionRouter = router({
 				input.statusFilter ? [input.statusFilter] : allowedStatuses;
 			conditions.push(inArray(mediaAssets.status, filter));
 
-			const [model, assets] = await Promise.all([
-				resolveModel(input.modelId),
-				db
-					.select()
-					.from(mediaAssets)
-					.where(and(...conditions))
-					.limit(input.limit),
-			]);
+			const assets = await db
+				.select({
+					id: mediaAssets.id,
+					datasetId: mediaAssets.datasetId,
+					storageBucket: mediaAssets.storageBucket,
+					publicUrl: mediaAssets.publicUrl,
+				})
+				.from(mediaAssets)
+				.where(and(...conditions))
+				.limit(input.limit);
 
 			if (!assets.length) {
 				throw new TRPCError({
@@ -183,175 +189,36 @@ export const captionRouter = router({
 				});
 			}
 
-			const now = new Date();
-			const jobsToInsert: Array<typeof captionJobs.$inferInsert> = [];
-			let skippedMissingUrl = 0;
-
-			for (const asset of assets) {
-				if (!asset.publicUrl) {
-					skippedMissingUrl += 1;
-					continue;
-				}
-				jobsToInsert.push({
-					datasetId: asset.datasetId,
-					assetId: asset.id,
-					modelId: model.id || null,
-					imageUrl: asset.publicUrl,
-					status: "queued",
-					metadata: {
-						requestedBy: ctx.session?.user?.email,
-					},
-					createdAt: now,
-					updatedAt: now,
-				});
-			}
+			const { targets, skippedApproved } = await resolveCaptionTargets(assets, {
+				includeApproved: input.includeApproved,
+			});
+			const result = await enqueueCaptionJobs({
+				targets,
+				modelId: input.modelId,
+				promptTemplateId: input.promptTemplateId,
+				requestedBy: ctx.session?.user?.email,
+			});
 
-			if (!jobsToInsert.length) {
+			if (!result.count && result.skippedMissingUrl === targets.length) {
 				throw new TRPCError({
 					code: "BAD_REQUEST",
 					message: "素材均缺少可访问的 URL，无法创建任务",
 				});
 			}
 
-			await db.insert(captionJobs).values(jobsToInsert);
-
-			return {
-				count: jobsToInsert.length,
-				skippedMissingUrl,
-				modelId: model.id,
-			};
+			return { ...result, skippedApproved };
 		}),
 
-	processQueued: protectedProcedure
-		.input(
-			z
-				.object({
-					limit: z.number().int().min(1).max(100).default(20),
-					modelId: z.number().int().positive().optional(),
-					maxConcurrency: z.number().int().min(1).max(5).default(2),
-				})
-				.optional(),
-		)
-		.mutation(async ({ input }) => {
-			const limit = input?.limit ?? 20;
-			const maxConcurrency = input?.maxConcurrency ?? 2;
-
-			const queuedJobs = await db
-				.select()
-				.from(captionJobs)
-				.where(eq(captionJobs.status, "queued"))
-				.orderBy(desc(captionJobs.createdAt))
-				.limit(limit);
-
-			if (!queuedJobs.length) {
-				return { processed: 0, succeeded: 0, failed: 0, skippedLocked: 0 };
-			}
-
-			let processed = 0;
-			let succeeded = 0;
-			let failed = 0;
-			let skippedLocked = 0;
-
-			const jobs = [...queuedJobs];
-			type ResolvedModel = Awaited<ReturnType<typeof resolveModel>>;
-			const modelPromises = new Map<number, Promise<ResolvedModel>>();
-			const getResolvedModel = (modelId?: number | null) => {
-				const cacheKey = modelId ?? input?.modelId ?? 0;
-				const existingPromise = modelPromises.get(cacheKey);
-				if (existingPromise) {
-					return existingPromise;
-				}
-
-				const nextPromise = resolveModel(modelId ?? input?.modelId);
-				modelPromises.set(cacheKey, nextPromise);
-				return nextPromise;
-			};
-
-			const runWorker = async () => {
-				while (jobs.length > 0) {
-					const job = jobs.shift();
-					if (!job) {
-						return;
-					}
-
-					const startedAt = new Date();
-					const [locked] = await db
-						.update(captionJobs)
-						.set({
-							status: "running",
-							startedAt,
-							updatedAt: startedAt,
-						})
-						.where(
-							and(eq(captionJobs.id, job.id), eq(captionJobs.status, "queued")),
-						)
-						.returning({ id: captionJobs.id });
+	processQueued: protectedProcedure.mutation(async () => {
+		const requeued = await requeueExpiredLeases();
+		const adopted = await adoptOrphanCaptions();
+		const status = await getQueueStatus();
+		return { requeued, adopted, ...status };
+	}),
 
-					if (!locked) {
-						skippedLocked += 1;
-						continue;
-					}
-
-					processed += 1;
-
-					try {
-						if (!job.imageUrl) {
-							throw new Error("任务缺少 imageUrl");
-						}
-
-						const model = await getResolvedModel(job.modelId);
-						const result = await generateCaption({
-							imageUrl: job.imageUrl,
-							prompt: job.prompt ?? undefined,
-							model,
-						});
-						const completedAt = new Date();
-
-						await db
-							.update(captionJobs)
-							.set({
-								status: "succeeded",
-								modelId: model.id || null,
-								caption: result.caption,
-								error: null,
-								completedAt,
-								updatedAt: completedAt,
-							})
-							.where(eq(captionJobs.id, job.id));
-
-						succeeded += 1;
-					} catch (error) {
-						const completedAt = new Date();
-						const errorText =
-							error instanceof Error ? error.message : "caption 任务处理失败";
-
-						await db
-							.update(captionJobs)
-							.set({
-								status: "failed",
-								error: errorText,
-								completedAt,
-								updatedAt: completedAt,
-							})
-							.where(eq(captionJobs.id, job.id));
-
-						failed += 1;
-					}
-				}
-			};
-
-			const workerCount = Math.min(maxConcurrency, queuedJobs.length);
-			await Promise.all(
-				Array.from({ length: workerCount }).map(() => runWorker()),
-			);
-
-			return {
-				processed,
-				succeeded,
-				failed,
-				skippedLocked,
-			};
-		}),
+	queueStatus: protectedProcedure.query(async () => {
+		return await getQueueStatus();
+	}),
 
 	retryFailed: protectedProcedure
 		.input(
@@ -360,6 +227,7 @@ export const captionRouter = router({
 					jobIds: z.array(z.number().int().positive()).min(1).optional(),
 					datasetId: z.number().int().positive().optional(),
 					limit: z.number().int().min(1).max(200).default(50),
+					includeApproved: z.boolean().default(false),
 				})
 				.refine((val) => Boolean(val.jobIds?.length || val.datasetId), {
 					message: "jobIds 或 datasetId 至少提供一个",
@@ -374,15 +242,25 @@ export const captionRouter = router({
 				conditions.push(inArray(captionJobs.id, input.jobIds));
 			}
 
-			const jobsToRetry = await db
-				.select({ id: captionJobs.id })
+			const failedJobs = await db
+				.select({
+					id: captionJobs.id,
+					captionId: captionJobs.captionId,
+					captionStatus: captions.status,
+				})
 				.from(captionJobs)
+				.leftJoin(captions, eq(captionJobs.captionId, captions.id))
 				.where(and(...conditions))
 				.orderBy(desc(captionJobs.updatedAt))
 				.limit(input.limit);
+			// A caption approved after its job failed keeps its approval.
+			const jobsToRetry = input.includeApproved
+				? failedJobs
+				: failedJobs.filter((job) => job.captionStatus !== "approved");
+			const skippedApproved = failedJobs.length - jobsToRetry.length;
 
 			if (!jobsToRetry.length) {
-				return { retried: 0 };
+				return { retried: 0, skippedApproved };
 			}
 
 			const now = new Date();
@@ -392,6 +270,9 @@ export const captionRouter = router({
 					status: "queued",
 					caption: null,
 					error: null,
+					failureCategory: null,
+					attempts: 0,
+					availableAt: null,
 					startedAt: null,
 					completedAt: null,
 					updatedAt: now,
@@ -404,7 +285,26 @@ export const captionRouter = router({
 				)
 				.returning({ id: captionJobs.id });
 
-			return { retried: retried.length };
+			const captionIds = jobsToRetry
+				.map((job) => job.captionId)
+				.filter((id): id is number => typeof id === "number");
+			if (captionIds.length) {
+				await db
+					.update(captions)
+					.set({
+						status: "processing",
+						rejectionReason: null,
+						processingError: null,
+						failureCategory: null,
+						approvedAt: null,
+						approvedBy: null,
+						attempts: 0,
+						updatedAt: now,
+					})
+					.where(inArray(captions.id, captionIds));
+			}
+
+			return { retried: retried.length, skippedApproved };
 		}),
 
 	listJobs: protectedProcedure
@@ -414,6 +314,7 @@ export const captionRouter = router({
 					datasetId: z.number().int().positive().optional(),
 					assetId: z.number().int().positive().optional(),
 					status: z.enum(captionJobStatusValues).optional(),
+					jobType: z.enum(captionJobTypeValues).optional(),
 					page: z.number().int().min(1).default(1),
 					pageSize: z.number().int().min(1).max(200).default(50),
 				})
@@ -430,6 +331,9 @@ export const captionRouter = router({
 			if (input?.status) {
 				conditions.push(eq(captionJobs.status, input.status));
 			}
+			if (input?.jobType) {
+				conditions.push(eq(captionJobs.jobType, input.jobType));
+			}
 
 			const page = input?.page ?? 1;
 			const pageSize = input?.pageSize ?? 50;
@@ -446,11 +350,18 @@ export const captionRouter = router({
 						asset: mediaAssets,
 						dataset: datasets,
 						model: aiModels,
+						promptTemplate: promptTemplates,
+						captionRow: captions,
 					})
 					.from(captionJobs)
 					.leftJoin(mediaAssets, eq(captionJobs.assetId, mediaAssets.id))
 					.leftJoin(datasets, eq(captionJobs.datasetId, datasets.id))
 					.leftJoin(aiModels, eq(captionJobs.modelId, aiModels.id))
+					.leftJoin(
+						promptTemplates,
+						eq(captionJobs.promptTemplateId, promptTemplates.id),
+					)
+					.leftJoin(captions, eq(captionJobs.captionId, captions.id))
 					.where(conditions.length ? and(...conditions) : undefined)
 					.orderBy(desc(captionJobs.updatedAt))
 					.limit(pageSize)
@@ -461,12 +372,16 @@ export const captionRouter = router({
 			const totalPages = total === 0 ? 0 : Math.ceil(total / pageSize);
 
 			return {
-				items: rows.map(({ job, asset, dataset, model }) => ({
-					...job,
-					asset,
-					dataset,
-					model,
-				})),
+				items: rows.map(
+					({ job, asset, dataset, model, promptTemplate, captionRow }) => ({
+						...job,
+						asset,
+						dataset,
+						model,
+						promptTemplate,
+						captionRecord: captionRow,
+					}),
+				),
 				page,
 				pageSize,
 				total,
@@ -4,6 +4,7 @@ import {
 	captionStatusValues,
 	captions,
 	mediaAssets,
+	promptTemplateRevisions,
 	promptTemplates,
 } from "@cyop/db/schema/platform";
 import { TRPCError } from "@trpc/server";
@@ -11,7 +12,20 @@ import z from "zod";
 
 import { protectedProcedure, router } from "../index";
 import { publishAutomationEvent } from "../services/automation";
-import { processPendingCaptions } from "../services/captionWorker";
+import {
+	adoptOrphanCaptions,
+	enqueueCaptionJobs,
+} from "../services/captionPipeline";
+import { getQueueStatus, requeueExpiredLeases } from "../services/captionQueue";
+import { assertDatasetBudget } from "../services/usage";
+
+const promptRevisionColumns = {
+	id: promptTemplateRevisions.id,
+	revision: promptTemplateRevisions.revision,
+	systemPrompt: promptTemplateRevisions.systemPrompt,
+	userPromptTemplate: promptTemplateRevisions.userPromptTemplate,
+	model: promptTemplateRevisions.model,
+};
 
 const listInput = z
 	.object({
@@ -25,7 +39,10 @@ const listInput = z
 
 export const captionsRouter = router({
 	list: protectedProcedure.input(listInput).query(async ({ input }) => {
-		const conditions = [];
+		const conditions = [
+			isNull(captions.experimentArmId),
+			isNull(mediaAssets.deletedAt),
+		];
 
 		if (input?.mediaAssetId) {
 			conditions.push(eq(captions.mediaAssetId, input.mediaAssetId));
@@ -39,12 +56,17 @@ export const captionsRouter = router({
 				caption: captions,
 				mediaAsset: mediaAssets,
 				promptTemplate: promptTemplates,
+				promptRevision: promptRevisionColumns,
 			})
 			.from(captions)
 			.leftJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
 			.leftJoin(
 				promptTemplates,
 				eq(captions.promptTemplateId, promptTemplates.id),
+			)
+			.leftJoin(
+				promptTemplateRevisions,
+				eq(captions.promptRevisionId, promptTemplateRevisions.id),
 			);
 
 		if (input?.datasetId) {
@@ -52,16 +74,19 @@ export const captionsRouter = router({
 		}
 
 		const rows = await query
-			.where(conditions.length ? and(...conditions) : undefined)
+			.where(and(...conditions))
 			.orderBy(desc(captions.createdAt))
 			.limit(input?.limit ?? 50)
 			.offset(input?.offset ?? 0);
 
-		return rows.map(({ caption, mediaAsset, promptTemplate }) => ({
-			...caption,
-			mediaAsset,
-			promptTemplate,
-		}));
+		return rows.map(
+			({ caption, mediaAsset, promptTemplate, promptRevision }) => ({
+				...caption,
+				mediaAsset,
+				promptTemplate,
+				promptRevision,
+			}),
+		);
 	}),
 
 	getById: protectedProcedure
@@ -72,6 +97,7 @@ export const captionsRouter = router({
 					caption: captions,
 					mediaAsset: mediaAssets,
 					promptTemplate: promptTemplates,
+					promptRevision: promptRevisionColumns,
 				})
 				.from(captions)
 				.leftJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
@@ -79,6 +105,10 @@ export const captionsRouter = router({
 					promptTemplates,
 					eq(captions.promptTemplateId, promptTemplates.id),
 				)
+				.leftJoin(
+					promptTemplateRevisions,
+					eq(captions.promptRevisionId, promptTemplateRevisions.id),
+				)
 				.where(eq(captions.id, input.id))
 				.limit(1);
 
@@ -93,6 +123,7 @@ export const captionsRouter = router({
 				...row.caption,
 				mediaAsset: row.mediaAsset,
 				promptTemplate: row.promptTemplate,
+				promptRevision: row.promptRevision,
 			};
 		}),
 
@@ -311,7 +342,13 @@ export const captionsRouter = router({
 						})
 						.from(captions)
 						.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
-						.where(eq(mediaAssets.datasetId, input.datasetId))
+						.where(
+							and(
+								eq(mediaAssets.datasetId, input.datasetId),
+								isNull(captions.experimentArmId),
+								isNull(mediaAssets.deletedAt),
+							),
+						)
 						.groupBy(captions.status)
 				: db
 						.select({
@@ -319,6 +356,13 @@ export const captionsRouter = router({
 							count: sql<number>`count(*)::int`,
 						})
 						.from(captions)
+						.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
+						.where(
+							and(
+								isNull(captions.experimentArmId),
+								isNull(mediaAssets.deletedAt),
+							),
+						)
 						.groupBy(captions.status);
 
 			const rows = await baseQuery;
@@ -346,52 +390,50 @@ export const captionsRouter = router({
 		.input(
 			z.object({
 				datasetId: z.number().int().positive(),
+				modelId: z.number().int().positive().optional(),
 				promptTemplateId: z.number().int().positive().optional(),
 				mediaAssetIds: z.array(z.number().int().positive()).optional(),
 			}),
 		)
-		.mutation(async ({ input }) => {
-			const conditions = [eq(mediaAssets.datasetId, input.datasetId)];
+		.mutation(async ({ input, ctx }) => {
+			await assertDatasetBudget(input.datasetId);
+
+			const conditions = [
+				eq(mediaAssets.datasetId, input.datasetId),
+				isNull(mediaAssets.deletedAt),
+			];
 
 			if (input.mediaAssetIds?.length) {
 				conditions.push(inArray(mediaAssets.id, input.mediaAssetIds));
 			}
 
-			const [assets, defaultTemplate] = await Promise.all([
-				db
-					.select({ id: mediaAssets.id })
-					.from(mediaAssets)
-					.leftJoin(captions, eq(captions.mediaAssetId, mediaAssets.id))
-					.where(and(...conditions, isNull(captions.id))),
-				input.promptTemplateId
-					? Promise.resolve(undefined)
-					: db
-							.select({ id: promptTemplates.id })
-							.from(promptTemplates)
-							.where(eq(promptTemplates.isDefault, true))
-							.limit(1)
-							.then(([template]) => template),
-			]);
+			const assets = await db
+				.select({
+					id: mediaAssets.id,
+					datasetId: mediaAssets.datasetId,
+					storageBucket: mediaAssets.storageBucket,
+					publicUrl: mediaAssets.publicUrl,
+				})
+				.from(mediaAssets)
+				.leftJoin(
+					captions,
+					and(
+						eq(captions.mediaAssetId, mediaAssets.id),
+						isNull(captions.experimentArmId),
+					),
+				)
+				.where(and(...conditions, isNull(captions.id)));
 
 			if (assets.length === 0) {
-				return { queued: 0 };
+				return { queued: 0, captionIds: [], skippedMissingUrl: 0 };
 			}
 
-			const templateId = input.promptTemplateId ?? defaultTemplate?.id;
-
-			const now = new Date();
-			const captionRecords = assets.map((asset) => ({
-				mediaAssetId: asset.id,
-				promptTemplateId: templateId,
-				status: "processing" as const,
-				createdAt: now,
-				updatedAt: now,
-			}));
-
-			const inserted = await db
-				.insert(captions)
-				.values(captionRecords)
-				.returning({ id: captions.id, mediaAssetId: captions.mediaAssetId });
+			const result = await enqueueCaptionJobs({
+				targets: assets.map((asset) => ({ asset })),
+				modelId: input.modelId,
+				promptTemplateId: input.promptTemplateId,
+				requestedBy: ctx.session?.user?.email,
+			});
 
 			void publishAutomationEvent({
 				type: "task.created",
@@ -403,8 +445,9 @@ export const captionsRouter = router({
 			});
 
 			return {
-				queued: inserted.length,
-				captionIds: inserted.map((c) => c.id),
+				queued: result.count,
+				captionIds: result.captionIds,
+				skippedMissingUrl: result.skippedMissingUrl,
 			};
 		}),
 
@@ -417,7 +460,10 @@ export const captionsRouter = router({
 			}),
 		)
 		.query(async ({ input }) => {
-			const conditions = [];
+			const conditions = [
+				isNull(captions.experimentArmId),
+				isNull(mediaAssets.deletedAt),
+			];
 
 			if (input.datasetId) {
 				conditions.push(eq(mediaAssets.datasetId, input.datasetId));
@@ -430,6 +476,7 @@ export const captionsRouter = router({
 				.select({
 					id: captions.id,
 					originalName: mediaAssets.originalName,
+					storageBucket: mediaAssets.storageBucket,
 					publicUrl: mediaAssets.publicUrl,
 					storageKey: mediaAssets.storageKey,
 					aiCaption: captions.aiCaption,
@@ -441,7 +488,7 @@ export const captionsRouter = router({
 				})
 				.from(captions)
 				.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
-				.where(conditions.length ? and(...conditions) : undefined)
+				.where(and(...conditions))
 				.orderBy(mediaAssets.originalName);
 
 			if (input.format === "csv") {
@@ -476,52 +523,58 @@ export const captionsRouter = router({
 		.input(
 			z.object({
 				ids: z.array(z.number().int().positive()).min(1),
+				modelId: z.number().int().positive().optional(),
 				promptTemplateId: z.number().int().positive().optional(),
+				includeApproved: z.boolean().default(false),
 			}),
 		)
-		.mutation(async ({ input }) => {
-			const now = new Date();
+		.mutation(async ({ input, ctx }) => {
+			const found = await db
+				.select({
+					captionId: captions.id,
+					status: captions.status,
+					asset: {
+						id: mediaAssets.id,
+						datasetId: mediaAssets.datasetId,
+						storageBucket: mediaAssets.storageBucket,
+						publicUrl: mediaAssets.publicUrl,
+					},
+				})
+				.from(captions)
+				.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
+				.where(
+					and(inArray(captions.id, input.ids), isNull(mediaAssets.deletedAt)),
+				);
 
-			let templateId = input.promptTemplateId;
-			if (!templateId) {
-				const [defaultTemplate] = await db
-					.select({ id: promptTemplates.id })
-					.from(promptTemplates)
-					.where(eq(promptTemplates.isDefault, true))
-					.limit(1);
-				templateId = defaultTemplate?.id;
+			if (!found.length) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Captions not found",
+				});
 			}
+			const targets = input.includeApproved
+				? found
+				: found.filter((row) => row.status !== "approved");
+
+			const result = await enqueueCaptionJobs({
+				targets,
+				modelId: input.modelId,
+				promptTemplateId: input.promptTemplateId,
+				requestedBy: ctx.session?.user?.email,
+			});
 
-			await db
-				.update(captions)
-				.set({
-					status: "processing",
-					promptTemplateId: templateId,
-					aiCaption: null,
-					confidence: null,
-					tokensUsed: null,
-					generatedAt: null,
-					updatedAt: now,
-				})
-				.where(inArray(captions.id, input.ids));
-
-			return { regenerating: input.ids.length };
+			return {
+				regenerating: result.count,
+				skippedApproved: found.length - targets.length,
+				skippedActive: result.skippedActive,
+				skippedMissingUrl: result.skippedMissingUrl,
+			};
 		}),
 
-	processQueue: protectedProcedure
-		.input(
-			z
-				.object({
-					limit: z.number().int().positive().max(50).default(10),
-					concurrency: z.number().int().positive().max(10).default(3),
-				})
-				.optional(),
-		)
-		.mutation(async ({ input }) => {
-			const result = await processPendingCaptions(
-				input?.limit ?? 10,
-				input?.concurrency ?? 3,
-			);
-			return result;
-		}),
+	processQueue: protectedProcedure.mutation(async () => {
+		const requeued = await requeueExpiredLeases();
+		const adopted = await adoptOrphanCaptions();
+		const status = await getQueueStatus();
+		return { requeued, adopted, ...status };
+	}),
 });
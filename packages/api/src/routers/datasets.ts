@@ -1,10 +1,17 @@
 import { db } from "@cyop/db";
-import { desc, eq } from "@cyop/db/drizzle-orm";
+import { desc, eq, isNotNull, isNull } from "@cyop/db/drizzle-orm";
 import { datasets, requirements } from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
 import z from "zod";
 
 import { protectedProcedure, publicProcedure, router } from "../index";
 import { publishAutomationEvent } from "../services/automation";
+import { normalizeTagLabels } from "../services/tagVocabulary";
+import {
+	restoreDataset,
+	trashDataset,
+	trashExpiresAt,
+} from "../services/trash";
 
 const datasetBaseInput = z.object({
 	requirementId: z.number().int().positive(),
@@ -29,6 +36,7 @@ export const datasetsRouter = router({
 			})
 			.from(datasets)
 			.leftJoin(requirements, eq(datasets.requirementId, requirements.id))
+			.where(isNull(datasets.deletedAt))
 			.orderBy(desc(datasets.updatedAt));
 
 		return rows.map(({ dataset, requirement }) => ({
@@ -37,6 +45,51 @@ export const datasetsRouter = router({
 		}));
 	}),
 
+	/** Trashed datasets, newest first, with their purge time. */
+	trash: protectedProcedure.query(async () => {
+		const rows = await db
+			.select()
+			.from(datasets)
+			.where(isNotNull(datasets.deletedAt))
+			.orderBy(desc(datasets.deletedAt));
+
+		return rows.map((dataset) => ({
+			...dataset,
+			expiresAt: trashExpiresAt(dataset.deletedAt ?? dataset.updatedAt),
+		}));
+	}),
+
+	/**
+	 * Moves a dataset and its assets to the trash; captions and tags stay
+	 * until the retention window runs out.
+	 */
+	delete: protectedProcedure
+		.input(z.object({ id: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			const result = await trashDataset(input.id);
+			if (!result) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Dataset not found",
+				});
+			}
+			return result;
+		}),
+
+	restore: protectedProcedure
+		.input(z.object({ id: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			const result = await restoreDataset(input.id);
+			if (!result) {
+				throw new TRPCError({
+					code: "PRECONDITION_FAILED",
+					message:
+						"Dataset is not in the trash or its retention window has expired",
+				});
+			}
+			return result;
+		}),
+
 	create: protectedProcedure
 		.input(datasetBaseInput)
 		.mutation(async ({ input }) => {
@@ -56,7 +109,7 @@ export const datasetsRouter = router({
 					aiCaptionCoverage: input.aiCaptionCoverage,
 					autoTagCoverage: input.autoTagCoverage,
 					reviewCoverage: input.reviewCoverage,
-					focusTags: input.focusTags,
+					focusTags: await normalizeTagLabels(input.focusTags),
 					lastRunAt: input.lastRunAt ?? null,
 					createdAt: now,
 					updatedAt: now,
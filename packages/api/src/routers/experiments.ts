@@ -0,0 +1,213 @@
+import { db } from "@cyop/db";
+import { and, desc, eq } from "@cyop/db/drizzle-orm";
+import {
+	aiModels,
+	experimentArms,
+	experimentStatusValues,
+	promptExperiments,
+	promptTemplateRevisions,
+	promptTemplates,
+} from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+
+import { protectedProcedure, router } from "../index";
+import {
+	closeExperiment,
+	createExperiment,
+	getExperimentStats,
+	nextReviewItem,
+	recordExperimentVote,
+} from "../services/experiments";
+import { assertDatasetBudget } from "../services/usage";
+
+async function getExperiment(id: number) {
+	const [experiment] = await db
+		.select()
+		.from(promptExperiments)
+		.where(eq(promptExperiments.id, id))
+		.limit(1);
+
+	if (!experiment) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Experiment not found",
+		});
+	}
+
+	return experiment;
+}
+
+export const experimentsRouter = router({
+	list: protectedProcedure
+		.input(
+			z
+				.object({
+					datasetId: z.number().int().positive().optional(),
+					status: z.enum(experimentStatusValues).optional(),
+				})
+				.optional(),
+		)
+		.query(async ({ input }) => {
+			const conditions = [];
+
+			if (input?.datasetId) {
+				conditions.push(eq(promptExperiments.datasetId, input.datasetId));
+			}
+			if (input?.status) {
+				conditions.push(eq(promptExperiments.status, input.status));
+			}
+
+			return db
+				.select()
+				.from(promptExperiments)
+				.where(conditions.length ? and(...conditions) : undefined)
+				.orderBy(desc(promptExperiments.createdAt));
+		}),
+
+	getById: protectedProcedure
+		.input(z.object({ id: z.number().int().positive() }))
+		.query(async ({ input }) => {
+			const experiment = await getExperiment(input.id);
+			const [arms, stats] = await Promise.all([
+				db
+					.select({
+						id: experimentArms.id,
+						label: experimentArms.label,
+						promptTemplateId: experimentArms.promptTemplateId,
+						promptTemplateName: promptTemplates.name,
+						promptRevision: promptTemplateRevisions.revision,
+						modelId: experimentArms.modelId,
+						modelName: aiModels.name,
+					})
+					.from(experimentArms)
+					.leftJoin(
+						promptTemplates,
+						eq(experimentArms.promptTemplateId, promptTemplates.id),
+					)
+					.leftJoin(
+						promptTemplateRevisions,
+						eq(experimentArms.promptRevisionId, promptTemplateRevisions.id),
+					)
+					.leftJoin(aiModels, eq(experimentArms.modelId, aiModels.id))
+					.where(eq(experimentArms.experimentId, experiment.id))
+					.orderBy(experimentArms.label),
+				getExperimentStats(experiment.id),
+			]);
+
+			return { ...experiment, arms, stats };
+		}),
+
+	create: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				name: z.string().min(1).max(255),
+				sampleSize: z.number().int().positive().max(500).default(50),
+				arms: z
+					.array(
+						z
+							.object({
+								promptTemplateId: z.number().int().positive().optional(),
+								modelId: z.number().int().positive().optional(),
+							})
+							.refine((arm) => Boolean(arm.promptTemplateId || arm.modelId), {
+								message: "Each arm needs a prompt template or a model",
+							}),
+					)
+					.min(2)
+					.max(6),
+			}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			const keys = new Set(
+				input.arms.map(
+					(arm) => `${arm.promptTemplateId ?? 0}:${arm.modelId ?? 0}`,
+				),
+			);
+			if (keys.size !== input.arms.length) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Experiment arms must differ in template or model",
+				});
+			}
+
+			await assertDatasetBudget(input.datasetId);
+
+			return createExperiment({
+				...input,
+				createdBy: ctx.session.user.email,
+			});
+		}),
+
+	nextReview: protectedProcedure
+		.input(z.object({ experimentId: z.number().int().positive() }))
+		.query(async ({ input, ctx }) => {
+			const experiment = await getExperiment(input.experimentId);
+			return nextReviewItem(experiment, ctx.session.user.email);
+		}),
+
+	vote: protectedProcedure
+		.input(
+			z.object({
+				experimentId: z.number().int().positive(),
+				mediaAssetId: z.number().int().positive(),
+				winnerCaptionId: z.number().int().positive().nullable(),
+				approvedCaptionIds: z.array(z.number().int().positive()).default([]),
+			}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			const experiment = await getExperiment(input.experimentId);
+			if (experiment.status !== "running") {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Experiment is no longer running",
+				});
+			}
+
+			return recordExperimentVote({
+				experiment,
+				mediaAssetId: input.mediaAssetId,
+				winnerCaptionId: input.winnerCaptionId,
+				approvedCaptionIds: input.approvedCaptionIds,
+				reviewer: ctx.session.user.email,
+			});
+		}),
+
+	close: protectedProcedure
+		.input(
+			z.object({
+				id: z.number().int().positive(),
+				status: z.enum(["completed", "cancelled"]).default("completed"),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const experiment = await getExperiment(input.id);
+			if (experiment.status !== "running") {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Experiment is already closed",
+				});
+			}
+
+			return closeExperiment(experiment, input.status);
+		}),
+
+	delete: protectedProcedure
+		.input(z.object({ id: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			const [deleted] = await db
+				.delete(promptExperiments)
+				.where(eq(promptExperiments.id, input.id))
+				.returning({ id: promptExperiments.id });
+
+			if (!deleted) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Experiment not found",
+				});
+			}
+
+			return { success: true };
+		}),
+});
@@ -1,14 +1,20 @@
 import { protectedProcedure, publicProcedure, router } from "../index";
+import { autoApprovalRouter } from "./autoApproval";
 import { captionRouter } from "./caption";
 import { captionsRouter } from "./captions";
 import { datasetsRouter } from "./datasets";
+import { experimentsRouter } from "./experiments";
+import { ingestRouter } from "./ingest";
 import { mediaRouter } from "./media";
 import { modelsRouter } from "./models";
 import { promptsRouter } from "./prompts";
 import { requirementsRouter } from "./requirements";
+import { storageRouter } from "./storage";
 import { tagsRouter } from "./tags";
 import { tasksRouter } from "./tasks";
 import { todoRouter } from "./todo";
+import { usageRouter } from "./usage";
+import { vocabularyRouter } from "./vocabulary";
 
 export const appRouter = router({
 	healthCheck: publicProcedure.query(() => {
@@ -30,5 +36,11 @@ export const appRouter = router({
 	captionOps: captionRouter,
 	prompt: promptsRouter,
 	model: modelsRouter,
+	usage: usageRouter,
+	autoApproval: autoApprovalRouter,
+	experiment: experimentsRouter,
+	vocabulary: vocabularyRouter,
+	ingest: ingestRouter,
+	storage: storageRouter,
 });
 export type AppRouter = typeof appRouter;
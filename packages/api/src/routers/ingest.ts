@@ -0,0 +1,122 @@
+import { db } from "@cyop/db";
+import { and, desc, eq, isNull, type SQL } from "@cyop/db/drizzle-orm";
+import { automationTasks, datasets } from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+
+import { protectedProcedure, router } from "../index";
+import {
+	buildIngestSourceKey,
+	detectIngestFormat,
+	MAX_INGEST_SOURCE_BYTES,
+	startIngest,
+} from "../services/ingest";
+import { getStorageDriver, resolveStorageBucket } from "../services/storage";
+
+async function assertDataset(datasetId: number) {
+	const [dataset] = await db
+		.select({ id: datasets.id, storageBucket: datasets.storageBucket })
+		.from(datasets)
+		.where(and(eq(datasets.id, datasetId), isNull(datasets.deletedAt)))
+		.limit(1);
+	if (!dataset) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Dataset not found",
+		});
+	}
+	return dataset;
+}
+
+function requireFormat(fileName: string) {
+	const format = detectIngestFormat(fileName);
+	if (!format) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "Expected a .zip, .tar, .tar.gz, .csv or .jsonl file",
+		});
+	}
+	return format;
+}
+
+export const ingestRouter = router({
+	/** Presigns a PUT for the archive or manifest, outside the media library. */
+	requestUpload: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				fileName: z.string().min(1),
+				size: z.number().int().positive().max(MAX_INGEST_SOURCE_BYTES),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			requireFormat(input.fileName);
+			const dataset = await assertDataset(input.datasetId);
+			const storageKey = buildIngestSourceKey(input.datasetId, input.fileName);
+			return {
+				storageKey,
+				upload: getStorageDriver(
+					resolveStorageBucket(dataset.storageBucket),
+				).presignUpload({
+					key: storageKey,
+					contentType: "application/octet-stream",
+				}),
+			};
+		}),
+
+	start: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				storageKey: z.string().min(1),
+				fileName: z.string().min(1),
+			}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			const format = requireFormat(input.fileName);
+			if (!input.storageKey.startsWith(`ingest/datasets/${input.datasetId}/`)) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Storage key does not belong to this dataset's ingest area",
+				});
+			}
+			await assertDataset(input.datasetId);
+			return startIngest({
+				datasetId: input.datasetId,
+				source: {
+					storageKey: input.storageKey,
+					fileName: input.fileName,
+					format,
+				},
+				requestedBy: ctx.session.user.email,
+			});
+		}),
+
+	list: protectedProcedure
+		.input(
+			z
+				.object({
+					datasetId: z.number().int().positive().optional(),
+					limit: z.number().int().min(1).max(100).default(20),
+				})
+				.optional(),
+		)
+		.query(async ({ input }) => {
+			const conditions: SQL[] = [eq(automationTasks.type, "ingest")];
+			if (input?.datasetId) {
+				conditions.push(eq(automationTasks.datasetId, input.datasetId));
+			}
+			const rows = await db
+				.select({
+					task: automationTasks,
+					datasetName: datasets.name,
+				})
+				.from(automationTasks)
+				.leftJoin(datasets, eq(automationTasks.datasetId, datasets.id))
+				.where(and(...conditions))
+				.orderBy(desc(automationTasks.createdAt))
+				.limit(input?.limit ?? 20);
+
+			return rows.map(({ task, datasetName }) => ({ ...task, datasetName }));
+		}),
+});
@@ -1,8 +1,21 @@
 import { db } from "@cyop/db";
-import { and, desc, eq } from "@cyop/db/drizzle-orm";
+import {
+	and,
+	desc,
+	eq,
+	exists,
+	inArray,
+	isNotNull,
+	isNull,
+	like,
+	notExists,
+	type SQL,
+	sql,
+} from "@cyop/db/drizzle-orm";
 import {
 	datasets,
 	mediaAssets,
+	mediaAssetTags,
 	mediaStatusValues,
 	requirements,
 } from "@cyop/db/schema/platform";
@@ -11,117 +24,493 @@ import z from "zod";
 
 import { protectedProcedure, router } from "../index";
 import {
-	buildPublicUrl,
+	enqueueEmbeddingJobs,
+	enqueueProcessingJobs,
+} from "../services/assetJobs";
+import {
+	DEFAULT_NEAR_DUPLICATE_DISTANCE,
+	findDuplicateGroups,
+	findExactDuplicates,
+	PERCEPTUAL_HASH_PATTERN,
+	resolveDuplicates,
+} from "../services/duplicates";
+import {
+	generateEmbedding,
+	getAssetEmbedding,
+	searchEmbeddings,
+} from "../services/embeddings";
+import { importFromUrl, queueAssetProcessing } from "../services/ingest";
+import { resolveEmbeddingModel } from "../services/models";
+import { ModelThrottledError } from "../services/rateLimiter";
+import {
 	buildStorageKey,
-	createPresignedUploadUrl,
-	deleteStorageObject,
-	getStorageBucket,
+	getStorageDriver,
+	MULTIPART_MAX_PARTS,
+	MULTIPART_MIN_PART_SIZE,
+	resolveAssetUrl,
+	resolveStorageBucket,
+	SIGNED_URL_TTL_SECONDS,
 } from "../services/storage";
+import { restoreAssets, trashAssets, trashExpiresAt } from "../services/trash";
+import {
+	assertDatasetBudget,
+	recordFailedUsage,
+	recordModelUsage,
+} from "../services/usage";
+
+const searchInput = z
+	.object({
+		query: z.string().trim().min(1).max(1000).optional(),
+		assetId: z.number().int().positive().optional(),
+		datasetId: z.number().int().positive().optional(),
+		requirementId: z.number().int().positive().optional(),
+		modelId: z.number().int().positive().optional(),
+		target: z.enum(["image", "caption", "both"]).default("both"),
+		limit: z.number().int().min(1).max(100).default(24),
+	})
+	.refine((val) => Boolean(val.query) !== Boolean(val.assetId), {
+		message: "Provide either a text query or an assetId",
+	});
 
 const listInput = z
 	.object({
 		datasetId: z.number().int().positive().optional(),
 		requirementId: z.number().int().positive().optional(),
+		tags: z.array(z.string().min(1)).max(20).optional(),
+		tagMatch: z.enum(["all", "any"]).default("all"),
+		untagged: z.boolean().optional(),
 	})
 	.optional();
 
+function assetHasTag(labels: string[]) {
+	return exists(
+		db
+			.select({ id: mediaAssetTags.id })
+			.from(mediaAssetTags)
+			.where(
+				and(
+					eq(mediaAssetTags.mediaAssetId, mediaAssets.id),
+					inArray(
+						sql`lower(${mediaAssetTags.label})`,
+						labels.map((label) => label.trim().toLowerCase()),
+					),
+				),
+			),
+	);
+}
+
+type AssetTag = {
+	label: string;
+	sources: Array<(typeof mediaAssetTags.$inferSelect)["source"]>;
+	score: number | null;
+};
+
+async function loadAssetTags(assetIds: number[]) {
+	if (!assetIds.length) {
+		return new Map<number, AssetTag[]>();
+	}
+	const rows = await db
+		.select({
+			mediaAssetId: mediaAssetTags.mediaAssetId,
+			label: mediaAssetTags.label,
+			source: mediaAssetTags.source,
+			score: mediaAssetTags.score,
+		})
+		.from(mediaAssetTags)
+		.where(inArray(mediaAssetTags.mediaAssetId, assetIds))
+		.orderBy(mediaAssetTags.label);
+
+	// One entry per label; the same label can come from several sources.
+	const byAsset = new Map<number, AssetTag[]>();
+	for (const row of rows) {
+		const tags = byAsset.get(row.mediaAssetId) ?? [];
+		const existing = tags.find(
+			(tag) => tag.label.toLowerCase() === row.label.toLowerCase(),
+		);
+		if (existing) {
+			existing.sources.push(row.source);
+			existing.score = Math.max(existing.score ?? 0, row.score ?? 0) || null;
+		} else {
+			tags.push({ label: row.label, sources: [row.source], score: row.score });
+		}
+		byAsset.set(row.mediaAssetId, tags);
+	}
+	return byAsset;
+}
+
+const uploadInput = z.object({
+	datasetId: z.number().int().positive(),
+	fileName: z.string().min(1),
+	mimeType: z.string().optional(),
+	size: z.number().int().nonnegative(),
+});
+
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+const URL_IMPORT_CONCURRENCY = 4;
+
+type UrlImportResult =
+	| {
+			url: string;
+			ok: true;
+			asset: typeof mediaAssets.$inferSelect;
+			duplicateOf: number | null;
+	  }
+	| { url: string; ok: false; error: string };
+
+type MultipartUpload = {
+	uploadId: string;
+	partSize: number;
+	partCount: number;
+};
+
+async function createUploadAsset(
+	input: z.infer<typeof uploadInput>,
+	status: "pending_upload" | "uploading",
+) {
+	const [datasetRow] = await db
+		.select({
+			id: datasets.id,
+			requirementId: datasets.requirementId,
+			storageBucket: datasets.storageBucket,
+		})
+		.from(datasets)
+		.where(and(eq(datasets.id, input.datasetId), isNull(datasets.deletedAt)))
+		.limit(1);
+
+	if (!datasetRow) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Dataset not found",
+		});
+	}
+
+	const contentType =
+		input.mimeType && input.mimeType.length > 0
+			? input.mimeType
+			: "application/octet-stream";
+	const storageKey = buildStorageKey(input.datasetId, input.fileName);
+	const storage = getStorageDriver(
+		resolveStorageBucket(datasetRow.storageBucket),
+	);
+	const now = new Date();
+
+	const [asset] = await db
+		.insert(mediaAssets)
+		.values({
+			datasetId: input.datasetId,
+			requirementId: datasetRow.requirementId,
+			originalName: input.fileName,
+			mimeType: contentType,
+			size: input.size,
+			storageBucket: storage.bucket,
+			storageKey,
+			publicUrl: storage.publicUrl(storageKey),
+			status,
+			createdAt: now,
+			updatedAt: now,
+		})
+		.returning();
+
+	if (!asset) {
+		throw new TRPCError({
+			code: "INTERNAL_SERVER_ERROR",
+			message: "Failed to create upload session",
+		});
+	}
+
+	return asset;
+}
+
+async function getMultipartAsset(assetId: number) {
+	const [asset] = await db
+		.select()
+		.from(mediaAssets)
+		.where(eq(mediaAssets.id, assetId))
+		.limit(1);
+
+	if (!asset) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Asset not found",
+		});
+	}
+
+	const upload = asset.metadata.multipartUpload as MultipartUpload | undefined;
+	if (asset.status !== "uploading" || !upload?.uploadId) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Asset has no multipart upload in progress",
+		});
+	}
+
+	return { asset, upload };
+}
+
+async function loadAssetRows(where: SQL | undefined) {
+	const rows = await db
+		.select({
+			asset: mediaAssets,
+			dataset: datasets,
+			requirement: requirements,
+		})
+		.from(mediaAssets)
+		.leftJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
+		.leftJoin(requirements, eq(mediaAssets.requirementId, requirements.id))
+		.where(where)
+		.orderBy(desc(mediaAssets.createdAt));
+	const tagsByAsset = await loadAssetTags(rows.map((row) => row.asset.id));
+
+	return rows.map(({ asset, dataset, requirement }) => ({
+		...asset,
+		dataset,
+		requirement,
+		tags: tagsByAsset.get(asset.id) ?? [],
+	}));
+}
+
 export const mediaRouter = router({
 	list: protectedProcedure.input(listInput).query(async ({ input }) => {
-		const conditions = [];
+		const conditions: SQL[] = [isNull(mediaAssets.deletedAt)];
 		if (input?.datasetId) {
 			conditions.push(eq(mediaAssets.datasetId, input.datasetId));
 		}
 		if (input?.requirementId) {
 			conditions.push(eq(mediaAssets.requirementId, input.requirementId));
 		}
+		if (input?.tags?.length) {
+			if (input.tagMatch === "any") {
+				conditions.push(assetHasTag(input.tags));
+			} else {
+				for (const label of input.tags) {
+					conditions.push(assetHasTag([label]));
+				}
+			}
+		}
+		if (input?.untagged) {
+			conditions.push(
+				notExists(
+					db
+						.select({ id: mediaAssetTags.id })
+						.from(mediaAssetTags)
+						.where(eq(mediaAssetTags.mediaAssetId, mediaAssets.id)),
+				),
+			);
+		}
 
-		const rows = await db
-			.select({
-				asset: mediaAssets,
-				dataset: datasets,
-				requirement: requirements,
-			})
-			.from(mediaAssets)
-			.leftJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
-			.leftJoin(requirements, eq(mediaAssets.requirementId, requirements.id))
-			.where(conditions.length ? and(...conditions) : undefined)
-			.orderBy(desc(mediaAssets.createdAt));
-
-		return rows.map(({ asset, dataset, requirement }) => ({
-			...asset,
-			dataset,
-			requirement,
-		}));
+		return loadAssetRows(and(...conditions));
 	}),
 
-	requestUpload: protectedProcedure
+	/**
+	 * Viewing URLs for assets and their thumbnails. Private-bucket assets get
+	 * signed URLs; clients should call again after `refreshAfter` seconds.
+	 */
+	signUrls: protectedProcedure
 		.input(
 			z.object({
-				datasetId: z.number().int().positive(),
-				fileName: z.string().min(1),
-				mimeType: z.string().optional(),
-				size: z.number().int().nonnegative(),
+				assetIds: z.array(z.number().int().positive()).min(1).max(100),
 			}),
 		)
-		.mutation(async ({ input }) => {
-			const [datasetRow] = await db
+		.query(async ({ input }) => {
+			const rows = await db
 				.select({
-					id: datasets.id,
-					requirementId: datasets.requirementId,
+					id: mediaAssets.id,
+					storageBucket: mediaAssets.storageBucket,
+					storageKey: mediaAssets.storageKey,
+					publicUrl: mediaAssets.publicUrl,
+					thumbnails: mediaAssets.thumbnails,
 				})
-				.from(datasets)
-				.where(eq(datasets.id, input.datasetId))
-				.limit(1);
+				.from(mediaAssets)
+				.where(inArray(mediaAssets.id, input.assetIds));
 
-			if (!datasetRow) {
-				throw new TRPCError({
-					code: "NOT_FOUND",
-					message: "Dataset not found",
+			return {
+				refreshAfter: Math.floor(SIGNED_URL_TTL_SECONDS / 3),
+				assets: rows.map((asset) => ({
+					id: asset.id,
+					url: resolveAssetUrl(asset),
+					thumbnails: Object.fromEntries(
+						Object.entries(asset.thumbnails).map(([size, thumbnail]) => [
+							size,
+							resolveAssetUrl({
+								storageBucket: asset.storageBucket,
+								storageKey: thumbnail.key,
+								publicUrl: thumbnail.url,
+							}),
+						]),
+					),
+				})),
+			};
+		}),
+
+	requestUpload: protectedProcedure
+		.input(uploadInput)
+		.mutation(async ({ input }) => {
+			const asset = await createUploadAsset(input, "pending_upload");
+			const upload = getStorageDriver(asset.storageBucket).presignUpload({
+				key: asset.storageKey,
+				contentType: asset.mimeType,
+			});
+
+			return {
+				asset,
+				upload,
+			};
+		}),
+
+	createMultipartUpload: protectedProcedure
+		.input(
+			uploadInput.extend({
+				partSize: z
+					.number()
+					.int()
+					.min(MULTIPART_MIN_PART_SIZE)
+					.max(512 * 1024 * 1024)
+					.optional(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const partSize = Math.max(
+				input.partSize ?? DEFAULT_PART_SIZE,
+				Math.ceil(input.size / MULTIPART_MAX_PARTS),
+			);
+			const partCount = Math.max(1, Math.ceil(input.size / partSize));
+			const asset = await createUploadAsset(input, "uploading");
+
+			let uploadId: string;
+			try {
+				uploadId = await getStorageDriver(
+					asset.storageBucket,
+				).createMultipartUpload({
+					key: asset.storageKey,
+					contentType: asset.mimeType,
 				});
+			} catch (error) {
+				await db.delete(mediaAssets).where(eq(mediaAssets.id, asset.id));
+				throw error;
 			}
 
-			const contentType =
-				input.mimeType && input.mimeType.length > 0
-					? input.mimeType
-					: "application/octet-stream";
-			const storageKey = buildStorageKey(input.datasetId, input.fileName);
-			const publicUrl = buildPublicUrl(storageKey);
-			const bucket = getStorageBucket();
-			const now = new Date();
-
-			const [asset] = await db
-				.insert(mediaAssets)
-				.values({
-					datasetId: input.datasetId,
-					requirementId: datasetRow.requirementId,
-					originalName: input.fileName,
-					mimeType: contentType,
-					size: input.size,
-					storageBucket: bucket,
-					storageKey,
-					publicUrl,
-					status: "pending_upload",
-					createdAt: now,
-					updatedAt: now,
+			const multipartUpload: MultipartUpload = {
+				uploadId,
+				partSize,
+				partCount,
+			};
+			await db
+				.update(mediaAssets)
+				.set({
+					metadata: sql`${mediaAssets.metadata} || ${JSON.stringify({
+						multipartUpload,
+					})}::jsonb`,
 				})
-				.returning();
+				.where(eq(mediaAssets.id, asset.id));
 
-			if (!asset) {
+			return { asset, ...multipartUpload };
+		}),
+
+	signUploadParts: protectedProcedure
+		.input(
+			z.object({
+				assetId: z.number().int().positive(),
+				partNumbers: z
+					.array(z.number().int().min(1).max(MULTIPART_MAX_PARTS))
+					.min(1)
+					.max(100),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const { asset, upload } = await getMultipartAsset(input.assetId);
+			const storage = getStorageDriver(asset.storageBucket);
+			return input.partNumbers
+				.filter((partNumber) => partNumber <= upload.partCount)
+				.map((partNumber) => ({
+					partNumber,
+					...storage.presignPart({
+						key: asset.storageKey,
+						uploadId: upload.uploadId,
+						partNumber,
+					}),
+				}));
+		}),
+
+	listUploadParts: protectedProcedure
+		.input(z.object({ assetId: z.number().int().positive() }))
+		.query(async ({ input }) => {
+			const { asset, upload } = await getMultipartAsset(input.assetId);
+			const parts = await getStorageDriver(asset.storageBucket).listParts(
+				asset.storageKey,
+				upload.uploadId,
+			);
+			return { asset, ...upload, parts };
+		}),
+
+	completeMultipartUpload: protectedProcedure
+		.input(
+			z.object({
+				assetId: z.number().int().positive(),
+				parts: z
+					.array(
+						z.object({
+							partNumber: z.number().int().min(1).max(MULTIPART_MAX_PARTS),
+							etag: z.string().min(1),
+						}),
+					)
+					.min(1)
+					.max(MULTIPART_MAX_PARTS),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const { asset, upload } = await getMultipartAsset(input.assetId);
+			// Part numbers are >= 1, so distinct and <= partCount means exactly
+			// 1..partCount.
+			const numbers = new Set(input.parts.map((part) => part.partNumber));
+			if (
+				input.parts.length !== upload.partCount ||
+				numbers.size !== input.parts.length ||
+				input.parts.some((part) => part.partNumber > upload.partCount)
+			) {
 				throw new TRPCError({
-					code: "INTERNAL_SERVER_ERROR",
-					message: "Failed to create upload session",
+					code: "BAD_REQUEST",
+					message: `Expected parts 1-${upload.partCount}, each exactly once`,
 				});
 			}
 
-			const upload = createPresignedUploadUrl({
-				key: storageKey,
-				contentType,
-			});
+			try {
+				await getStorageDriver(asset.storageBucket).completeMultipartUpload(
+					asset.storageKey,
+					upload.uploadId,
+					input.parts,
+				);
+			} catch (error) {
+				console.error("Failed to complete multipart upload", error);
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message:
+						"Could not complete the upload: some parts are missing or do not match their ETags",
+					cause: error,
+				});
+			}
+			const [completed] = await db
+				.update(mediaAssets)
+				.set({
+					status: "pending_upload",
+					metadata: sql`${mediaAssets.metadata} - 'multipartUpload'`,
+					updatedAt: new Date(),
+				})
+				.where(eq(mediaAssets.id, asset.id))
+				.returning();
 
-			return {
-				asset,
-				upload,
-			};
+			return completed;
+		}),
+
+	abortMultipartUpload: protectedProcedure
+		.input(z.object({ assetId: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			const { asset, upload } = await getMultipartAsset(input.assetId);
+			await getStorageDriver(asset.storageBucket).abortMultipartUpload(
+				asset.storageKey,
+				upload.uploadId,
+			);
+			await db.delete(mediaAssets).where(eq(mediaAssets.id, asset.id));
+			return { success: true };
 		}),
 
 	finalizeUpload: protectedProcedure
@@ -132,10 +521,15 @@ export const mediaRouter = router({
 				width: z.number().int().nonnegative().optional(),
 				height: z.number().int().nonnegative().optional(),
 				checksum: z.string().optional(),
+				perceptualHash: z
+					.string()
+					.toLowerCase()
+					.regex(PERCEPTUAL_HASH_PATTERN)
+					.optional(),
 				status: z.enum(mediaStatusValues).default("uploaded"),
 			}),
 		)
-		.mutation(async ({ input }) => {
+		.mutation(async ({ input, ctx }) => {
 			const updates: Record<string, unknown> = {
 				status: input.status,
 				uploadedAt: new Date(),
@@ -154,6 +548,9 @@ export const mediaRouter = router({
 			if (typeof input.checksum !== "undefined") {
 				updates.checksum = input.checksum;
 			}
+			if (typeof input.perceptualHash !== "undefined") {
+				updates.perceptualHash = input.perceptualHash;
+			}
 
 			const [asset] = await db
 				.update(mediaAssets)
@@ -168,36 +565,402 @@ export const mediaRouter = router({
 				});
 			}
 
-			return asset;
+			const duplicates = asset.checksum
+				? await findExactDuplicates(asset.checksum, asset.id)
+				: [];
+			if (duplicates[0]) {
+				await db
+					.update(mediaAssets)
+					.set({
+						metadata: sql`${mediaAssets.metadata} || ${JSON.stringify({
+							duplicateOf: duplicates[0].id,
+						})}::jsonb`,
+					})
+					.where(eq(mediaAssets.id, asset.id));
+			}
+
+			// Server-side processing replaces the browser-reported dimensions.
+			// Videos and archives have nothing to thumbnail, so skip the download.
+			if (asset.status === "uploaded" && !asset.mimeType.startsWith("image/")) {
+				asset.status = "ready";
+				await db
+					.update(mediaAssets)
+					.set({ status: "ready" })
+					.where(eq(mediaAssets.id, asset.id));
+			} else if (asset.status === "uploaded") {
+				await enqueueProcessingJobs({
+					assets: [asset],
+					requestedBy: ctx.session.user.email,
+				});
+				asset.status = "processing";
+			}
+
+			return { ...asset, duplicates };
 		}),
 
+	importFromUrls: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				urls: z.array(z.string().trim().url()).min(1).max(100),
+			}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			const [dataset] = await db
+				.select({
+					id: datasets.id,
+					requirementId: datasets.requirementId,
+					storageBucket: datasets.storageBucket,
+				})
+				.from(datasets)
+				.where(
+					and(eq(datasets.id, input.datasetId), isNull(datasets.deletedAt)),
+				)
+				.limit(1);
+			if (!dataset) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Dataset not found",
+				});
+			}
+
+			const urls = [...new Set(input.urls)];
+			const results: UrlImportResult[] = [];
+			let next = 0;
+			const worker = async () => {
+				while (next < urls.length) {
+					const index = next++;
+					const url = urls[index] as string;
+					try {
+						const { asset, duplicates } = await importFromUrl(dataset, url);
+						results[index] = {
+							url,
+							ok: true,
+							asset,
+							duplicateOf: duplicates[0]?.id ?? null,
+						};
+					} catch (error) {
+						results[index] = {
+							url,
+							ok: false,
+							error: error instanceof Error ? error.message : String(error),
+						};
+					}
+				}
+			};
+			await Promise.all(
+				Array.from(
+					{ length: Math.min(URL_IMPORT_CONCURRENCY, urls.length) },
+					worker,
+				),
+			);
+
+			await queueAssetProcessing(
+				results.flatMap((result) => (result.ok ? [result.asset] : [])),
+				ctx.session.user.email,
+			);
+
+			return {
+				imported: results.filter((result) => result.ok).length,
+				failed: results.filter((result) => !result.ok).length,
+				results,
+			};
+		}),
+
+	/**
+	 * Moves an asset to the trash. It can be restored until the retention
+	 * window runs out; only then are the row and its stored object purged.
+	 */
 	delete: protectedProcedure
+		.input(z.object({ assetId: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			const trashed = await trashAssets([input.assetId]);
+			if (!trashed.length) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Asset not found",
+				});
+			}
+
+			return { success: true };
+		}),
+
+	/** Trashed assets of a dataset, newest first, with their purge time. */
+	trash: protectedProcedure
+		.input(z.object({ datasetId: z.number().int().positive() }))
+		.query(async ({ input }) => {
+			const rows = await loadAssetRows(
+				and(
+					eq(mediaAssets.datasetId, input.datasetId),
+					isNotNull(mediaAssets.deletedAt),
+				),
+			);
+			return rows
+				.map((row) => ({
+					...row,
+					expiresAt: trashExpiresAt(row.deletedAt ?? row.updatedAt),
+				}))
+				.sort(
+					(a, b) =>
+						(b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0),
+				);
+		}),
+
+	restore: protectedProcedure
 		.input(
 			z.object({
-				assetId: z.number().int().positive(),
-				removeFromStorage: z.boolean().default(true),
+				assetIds: z.array(z.number().int().positive()).min(1).max(200),
 			}),
 		)
 		.mutation(async ({ input }) => {
-			const [asset] = await db
-				.select()
+			const restored = await restoreAssets(input.assetIds);
+			if (!restored.length) {
+				throw new TRPCError({
+					code: "PRECONDITION_FAILED",
+					message:
+						"Nothing to restore: the assets are not in the trash, their retention window has expired, or their dataset is in the trash",
+				});
+			}
+
+			return { restored };
+		}),
+
+	reprocess: protectedProcedure
+		.input(
+			z
+				.object({
+					datasetId: z.number().int().positive().optional(),
+					assetIds: z.array(z.number().int().positive()).min(1).optional(),
+					onlyFailed: z.boolean().default(false),
+				})
+				.refine((val) => val.datasetId || val.assetIds, {
+					message: "Provide a datasetId or assetIds",
+				}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			const conditions = [
+				isNull(mediaAssets.deletedAt),
+				// Videos and archives have nothing to process; see finalizeUpload.
+				like(mediaAssets.mimeType, "image/%"),
+				inArray(
+					mediaAssets.status,
+					input.onlyFailed
+						? ["failed"]
+						: ["uploaded", "processing", "ready", "failed"],
+				),
+			];
+			if (input.datasetId) {
+				conditions.push(eq(mediaAssets.datasetId, input.datasetId));
+			}
+			if (input.assetIds) {
+				conditions.push(inArray(mediaAssets.id, input.assetIds));
+			}
+
+			const assets = await db
+				.select({
+					id: mediaAssets.id,
+					datasetId: mediaAssets.datasetId,
+					storageBucket: mediaAssets.storageBucket,
+					publicUrl: mediaAssets.publicUrl,
+				})
 				.from(mediaAssets)
-				.where(eq(mediaAssets.id, input.assetId))
-				.limit(1);
+				.where(and(...conditions))
+				.limit(1000);
+			if (!assets.length) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "No assets to process",
+				});
+			}
 
-			if (!asset) {
+			return enqueueProcessingJobs({
+				assets,
+				requestedBy: ctx.session.user.email,
+			});
+		}),
+
+	embed: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				modelId: z.number().int().positive().optional(),
+				assetIds: z.array(z.number().int().positive()).min(1).optional(),
+				limit: z.number().int().min(1).max(1000).default(200),
+			}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			await assertDatasetBudget(input.datasetId);
+
+			const conditions = [
+				eq(mediaAssets.datasetId, input.datasetId),
+				isNull(mediaAssets.deletedAt),
+				inArray(mediaAssets.status, ["uploaded", "ready", "processing"]),
+			];
+			if (input.assetIds) {
+				conditions.push(inArray(mediaAssets.id, input.assetIds));
+			}
+
+			const assets = await db
+				.select({
+					id: mediaAssets.id,
+					datasetId: mediaAssets.datasetId,
+					storageBucket: mediaAssets.storageBucket,
+					publicUrl: mediaAssets.publicUrl,
+				})
+				.from(mediaAssets)
+				.where(and(...conditions))
+				.limit(input.limit);
+
+			if (!assets.length) {
 				throw new TRPCError({
 					code: "NOT_FOUND",
-					message: "Asset not found",
+					message: "No assets to embed",
 				});
 			}
 
-			await db.delete(mediaAssets).where(eq(mediaAssets.id, input.assetId));
+			return enqueueEmbeddingJobs({
+				assets,
+				modelId: input.modelId,
+				requestedBy: ctx.session.user.email,
+			});
+		}),
+
+	search: protectedProcedure
+		.input(searchInput)
+		.query(async ({ input, ctx }) => {
+			const model = await resolveEmbeddingModel(input.modelId);
+			const kinds =
+				input.target === "both"
+					? (["image", "caption"] as const)
+					: ([input.target] as const);
 
-			if (input.removeFromStorage) {
-				await deleteStorageObject(asset.storageKey);
+			let vector: number[] | undefined;
+			if (input.assetId) {
+				// Prefer the image vector so image-to-image works without captions.
+				vector =
+					(await getAssetEmbedding(input.assetId, model.id, "image")) ??
+					(await getAssetEmbedding(input.assetId, model.id, "caption"));
+				if (!vector) {
+					throw new TRPCError({
+						code: "PRECONDITION_FAILED",
+						message: "Asset has no embedding for this model yet",
+					});
+				}
+			} else if (input.query) {
+				const result = await generateEmbedding(model, {
+					type: "text",
+					text: input.query,
+				}).catch((error: unknown) => {
+					if (error instanceof ModelThrottledError) {
+						throw new TRPCError({
+							code: "TOO_MANY_REQUESTS",
+							message: error.message,
+						});
+					}
+					return recordFailedUsage(error, {
+						model,
+						source: "api",
+						datasetId: input.datasetId,
+						requestedBy: ctx.session.user.email,
+					});
+				});
+				await recordModelUsage({
+					model,
+					modelName: result.model,
+					usage: result.usage,
+					source: "api",
+					datasetId: input.datasetId,
+					requestedBy: ctx.session.user.email,
+				});
+				vector = result.embedding;
+			}
+			if (!vector) {
+				return [];
 			}
 
-			return { success: true };
+			const matches = await searchEmbeddings({
+				vector,
+				modelId: model.id,
+				kinds: [...kinds],
+				datasetId: input.datasetId,
+				requirementId: input.requirementId,
+				excludeAssetId: input.assetId,
+				limit: input.limit,
+			});
+			if (!matches.length) {
+				return [];
+			}
+
+			const rows = await loadAssetRows(
+				inArray(
+					mediaAssets.id,
+					matches.map((match) => match.mediaAssetId),
+				),
+			);
+			const rowById = new Map(rows.map((row) => [row.id, row]));
+			return matches.flatMap((match) => {
+				const row = rowById.get(match.mediaAssetId);
+				return row ? [{ ...row, score: 1 - match.distance }] : [];
+			});
+		}),
+
+	duplicates: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				crossDataset: z.boolean().default(false),
+				maxDistance: z
+					.number()
+					.int()
+					.min(0)
+					.max(32)
+					.default(DEFAULT_NEAR_DUPLICATE_DISTANCE),
+			}),
+		)
+		.query(async ({ input }) => {
+			return findDuplicateGroups(input);
+		}),
+
+	resolveDuplicates: protectedProcedure
+		.input(
+			z
+				.object({
+					keepAssetId: z.number().int().positive(),
+					assetIds: z.array(z.number().int().positive()).min(1).max(200),
+					action: z.enum(["delete", "relink"]),
+				})
+				.refine((val) => !val.assetIds.includes(val.keepAssetId), {
+					message: "The kept asset cannot be resolved as a duplicate",
+				}),
+		)
+		.mutation(async ({ input }) => {
+			const rows = await db
+				.select()
+				.from(mediaAssets)
+				.where(
+					and(
+						inArray(mediaAssets.id, [input.keepAssetId, ...input.assetIds]),
+						isNull(mediaAssets.deletedAt),
+					),
+				);
+			const keeper = rows.find((row) => row.id === input.keepAssetId);
+			if (!keeper) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Asset to keep not found",
+				});
+			}
+			if (input.action === "relink" && keeper.status === "pending_upload") {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Cannot relink to an asset that has not finished uploading",
+				});
+			}
+
+			return resolveDuplicates({
+				keeper,
+				duplicates: rows.filter((row) => row.id !== keeper.id),
+				action: input.action,
+			});
 		}),
 });
@@ -5,16 +5,28 @@ import { TRPCError } from "@trpc/server";
 import z from "zod";
 
 import { protectedProcedure, router } from "../index";
+import { captionProviderKeys } from "../services/providers";
 
 const modelInput = z.object({
 	name: z.string().min(2),
-	provider: z.string().min(2),
+	provider: z
+		.string()
+		.trim()
+		.toLowerCase()
+		.refine((value) => captionProviderKeys.includes(value), {
+			message: `provider 必须是 ${captionProviderKeys.join(", ")} 之一`,
+		}),
 	modelName: z.string().min(1),
 	type: z.enum(aiModelTypeValues).default("caption"),
 	baseUrl: z.string().url().optional(),
 	apiKeyEnv: z.string().min(1).optional(),
 	defaultModel: z.boolean().default(false),
 	enabled: z.boolean().default(true),
+	requestsPerMinute: z.number().int().positive().nullable().optional(),
+	tokensPerMinute: z.number().int().positive().nullable().optional(),
+	maxConcurrency: z.number().int().positive().nullable().optional(),
+	inputPricePer1kMicros: z.number().int().nonnegative().nullable().optional(),
+	outputPricePer1kMicros: z.number().int().nonnegative().nullable().optional(),
 	metadata: z.record(z.string(), z.unknown()).default({}),
 });
 
@@ -1,10 +1,51 @@
-import { db } from "@cyop/db";
-import { desc, eq } from "@cyop/db/drizzle-orm";
-import { promptTemplates } from "@cyop/db/schema/platform";
+import { db, txDb } from "@cyop/db";
+import { and, desc, eq } from "@cyop/db/drizzle-orm";
+import {
+	confidenceStrategyValues,
+	promptTemplateRevisions,
+	promptTemplates,
+} from "@cyop/db/schema/platform";
 import { TRPCError } from "@trpc/server";
 import z from "zod";
 
 import { protectedProcedure, router } from "../index";
+import { captionOutputSchema } from "../services/outputSchema";
+import {
+	activateRevision,
+	createRevision,
+	diffRevisions,
+	getRevision,
+	hasRevisionedChanges,
+} from "../services/promptRevisions";
+import {
+	extractPromptVariables,
+	findUnknownPromptVariables,
+	loadPromptContext,
+	PROMPT_VARIABLES,
+	renderPromptTemplate,
+} from "../services/promptTemplate";
+
+/** Postgres unique_violation, possibly wrapped by drizzle's query error. */
+function isUniqueViolation(error: unknown) {
+	const code = (value: unknown) =>
+		value && typeof value === "object" && "code" in value
+			? value.code
+			: undefined;
+	return (
+		code(error) === "23505" ||
+		(error instanceof Error && code(error.cause) === "23505")
+	);
+}
+
+function assertKnownVariables(...templates: Array<string | null | undefined>) {
+	const unknown = findUnknownPromptVariables(...templates);
+	if (unknown.length) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Unknown template variables: ${unknown.map((name) => `{{${name}}}`).join(", ")}`,
+		});
+	}
+}
 
 export const promptsRouter = router({
 	list: protectedProcedure
@@ -70,12 +111,19 @@ export const promptsRouter = router({
 				model: z.string().default("gpt-4o"),
 				maxTokens: z.number().int().positive().max(4096).default(500),
 				temperature: z.number().int().min(0).max(100).default(70),
+				confidenceStrategy: z.enum(confidenceStrategyValues).default("auto"),
+				consistencySamples: z.number().int().min(2).max(8).default(3),
+				outputSchema: captionOutputSchema.nullable().optional(),
 				isDefault: z.boolean().default(false),
 				isActive: z.boolean().default(true),
+				note: z.string().max(500).optional(),
 			}),
 		)
-		.mutation(async ({ input }) => {
-			if (input.isDefault) {
+		.mutation(async ({ input, ctx }) => {
+			const { note, ...values } = input;
+			assertKnownVariables(values.systemPrompt, values.userPromptTemplate);
+
+			if (values.isDefault) {
 				await db
 					.update(promptTemplates)
 					.set({ isDefault: false, updatedAt: new Date() })
@@ -86,13 +134,25 @@ export const promptsRouter = router({
 			const [template] = await db
 				.insert(promptTemplates)
 				.values({
-					...input,
+					...values,
 					createdAt: now,
 					updatedAt: now,
 				})
 				.returning();
 
-			return template;
+			if (!template) {
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create prompt template",
+				});
+			}
+
+			const revision = await createRevision(template, {
+				createdBy: ctx.session.user.email,
+				note,
+			});
+
+			return { ...template, activeRevisionId: revision.id };
 		}),
 
 	update: protectedProcedure
@@ -106,34 +166,158 @@ export const promptsRouter = router({
 				model: z.string().optional(),
 				maxTokens: z.number().int().positive().max(4096).optional(),
 				temperature: z.number().int().min(0).max(100).optional(),
+				confidenceStrategy: z.enum(confidenceStrategyValues).optional(),
+				consistencySamples: z.number().int().min(2).max(8).optional(),
+				outputSchema: captionOutputSchema.nullable().optional(),
 				isDefault: z.boolean().optional(),
 				isActive: z.boolean().optional(),
+				note: z.string().max(500).optional(),
 			}),
 		)
-		.mutation(async ({ input }) => {
-			const { id, ...updates } = input;
+		.mutation(async ({ input, ctx }) => {
+			const { id, note, ...updates } = input;
+			assertKnownVariables(updates.systemPrompt, updates.userPromptTemplate);
 
-			if (updates.isDefault === true) {
-				await db
-					.update(promptTemplates)
-					.set({ isDefault: false, updatedAt: new Date() })
-					.where(eq(promptTemplates.isDefault, true));
-			}
+			try {
+				// The row lock serializes saves of one template, so each gets its own
+				// revision number and the template never points at another's revision.
+				return await txDb.transaction(async (tx) => {
+					const [current] = await tx
+						.select()
+						.from(promptTemplates)
+						.where(eq(promptTemplates.id, id))
+						.for("update")
+						.limit(1);
+
+					if (!current) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Prompt template not found",
+						});
+					}
+
+					if (updates.isDefault === true) {
+						await tx
+							.update(promptTemplates)
+							.set({ isDefault: false, updatedAt: new Date() })
+							.where(eq(promptTemplates.isDefault, true));
+					}
+
+					const setValues: Record<string, unknown> = { updatedAt: new Date() };
 
-			const setValues: Record<string, unknown> = { updatedAt: new Date() };
+					for (const [key, value] of Object.entries(updates)) {
+						if (value !== undefined) {
+							setValues[key] = value;
+						}
+					}
 
-			for (const [key, value] of Object.entries(updates)) {
-				if (value !== undefined) {
-					setValues[key] = value;
+					const [template] = await tx
+						.update(promptTemplates)
+						.set(setValues)
+						.where(eq(promptTemplates.id, id))
+						.returning();
+
+					if (!template) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Prompt template not found",
+						});
+					}
+
+					// Saves that only touch name, flags or description keep the active revision.
+					if (
+						!hasRevisionedChanges(current, updates) &&
+						current.activeRevisionId
+					) {
+						return template;
+					}
+
+					const revision = await createRevision(
+						template,
+						{ createdBy: ctx.session.user.email, note },
+						tx,
+					);
+
+					return { ...template, activeRevisionId: revision.id };
+				});
+			} catch (error) {
+				if (isUniqueViolation(error)) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message:
+							"This template was saved concurrently; reload it and try again",
+					});
 				}
+				throw error;
 			}
+		}),
 
-			const [template] = await db
-				.update(promptTemplates)
-				.set(setValues)
-				.where(eq(promptTemplates.id, id))
-				.returning();
+	revisions: protectedProcedure
+		.input(z.object({ templateId: z.number().int().positive() }))
+		.query(async ({ input }) => {
+			return db
+				.select()
+				.from(promptTemplateRevisions)
+				.where(eq(promptTemplateRevisions.templateId, input.templateId))
+				.orderBy(desc(promptTemplateRevisions.revision));
+		}),
+
+	diff: protectedProcedure
+		.input(
+			z.object({
+				fromRevisionId: z.number().int().positive(),
+				toRevisionId: z.number().int().positive(),
+			}),
+		)
+		.query(async ({ input }) => {
+			const [from, to] = await Promise.all([
+				getRevision(input.fromRevisionId),
+				getRevision(input.toRevisionId),
+			]);
 
+			if (!from || !to) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Prompt revision not found",
+				});
+			}
+			if (from.templateId !== to.templateId) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Revisions belong to different templates",
+				});
+			}
+
+			return { from, to, changes: diffRevisions(from, to) };
+		}),
+
+	rollback: protectedProcedure
+		.input(
+			z.object({
+				templateId: z.number().int().positive(),
+				revisionId: z.number().int().positive(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const [revision] = await db
+				.select()
+				.from(promptTemplateRevisions)
+				.where(
+					and(
+						eq(promptTemplateRevisions.id, input.revisionId),
+						eq(promptTemplateRevisions.templateId, input.templateId),
+					),
+				)
+				.limit(1);
+
+			if (!revision) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Prompt revision not found",
+				});
+			}
+
+			const template = await activateRevision(revision);
 			if (!template) {
 				throw new TRPCError({
 					code: "NOT_FOUND",
@@ -144,6 +328,64 @@ export const promptsRouter = router({
 			return template;
 		}),
 
+	variables: protectedProcedure.query(() => ({
+		variables: PROMPT_VARIABLES,
+		patterns: ["asset.metadata.*"],
+	})),
+
+	preview: protectedProcedure
+		.input(
+			z
+				.object({
+					assetId: z.number().int().positive(),
+					templateId: z.number().int().positive().optional(),
+					systemPrompt: z.string().optional(),
+					userPromptTemplate: z.string().optional(),
+				})
+				.refine((val) => Boolean(val.templateId || val.userPromptTemplate), {
+					message: "Provide templateId or userPromptTemplate",
+				}),
+		)
+		.query(async ({ input }) => {
+			const [context, template] = await Promise.all([
+				loadPromptContext(input.assetId),
+				input.templateId
+					? db
+							.select()
+							.from(promptTemplates)
+							.where(eq(promptTemplates.id, input.templateId))
+							.limit(1)
+							.then(([row]) => row)
+					: Promise.resolve(undefined),
+			]);
+
+			if (!context) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Asset not found" });
+			}
+			if (input.templateId && !template) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Prompt template not found",
+				});
+			}
+
+			const systemPrompt = input.systemPrompt ?? template?.systemPrompt ?? "";
+			const userPromptTemplate =
+				input.userPromptTemplate ?? template?.userPromptTemplate ?? "";
+
+			return {
+				systemPrompt: renderPromptTemplate(systemPrompt, context),
+				userPrompt: renderPromptTemplate(userPromptTemplate, context),
+				variables: extractPromptVariables(
+					`${systemPrompt}\n${userPromptTemplate}`,
+				),
+				unknownVariables: findUnknownPromptVariables(
+					systemPrompt,
+					userPromptTemplate,
+				),
+			};
+		}),
+
 	delete: protectedProcedure
 		.input(z.object({ id: z.number().int().positive() }))
 		.mutation(async ({ input }) => {
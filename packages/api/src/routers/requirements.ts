@@ -1,5 +1,5 @@
 import { db } from "@cyop/db";
-import { desc, eq } from "@cyop/db/drizzle-orm";
+import { desc, eq, isNull } from "@cyop/db/drizzle-orm";
 import {
 	automationTasks,
 	datasets,
@@ -10,6 +10,7 @@ import {
 import z from "zod";
 
 import { protectedProcedure, publicProcedure, router } from "../index";
+import { normalizeTagLabels } from "../services/tagVocabulary";
 
 const requirementBaseInput = z.object({
 	title: z.string().min(2),
@@ -24,6 +25,7 @@ const requirementBaseInput = z.object({
 	briefUrl: z.string().url().optional(),
 	riskLevel: z.string().default("normal"),
 	dueDate: z.coerce.date().optional(),
+	budgetMicros: z.number().int().nonnegative().optional(),
 });
 
 export const requirementsRouter = router({
@@ -49,10 +51,11 @@ export const requirementsRouter = router({
 					priority: input.priority,
 					expectedImages: input.expectedImages,
 					aiCoverageTarget: input.aiCoverageTarget,
-					tagHints: input.tagHints,
+					tagHints: await normalizeTagLabels(input.tagHints),
 					briefUrl: input.briefUrl,
 					riskLevel: input.riskLevel,
 					dueDate: input.dueDate ?? null,
+					budgetMicros: input.budgetMicros ?? null,
 					createdAt: now,
 					updatedAt: now,
 				})
@@ -79,10 +82,29 @@ export const requirementsRouter = router({
 			return record;
 		}),
 
+	updateBudget: protectedProcedure
+		.input(
+			z.object({
+				id: z.number().int().positive(),
+				budgetMicros: z.number().int().nonnegative().nullable(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const [record] = await db
+				.update(requirements)
+				.set({
+					budgetMicros: input.budgetMicros,
+					updatedAt: new Date(),
+				})
+				.where(eq(requirements.id, input.id))
+				.returning();
+			return record;
+		}),
+
 	stats: publicProcedure.query(async () => {
 		const [requirementRows, datasetRows, taskRows] = await Promise.all([
 			db.select().from(requirements),
-			db.select().from(datasets),
+			db.select().from(datasets).where(isNull(datasets.deletedAt)),
 			db.select().from(automationTasks),
 		]);
 
@@ -0,0 +1,30 @@
+import z from "zod";
+
+import { protectedProcedure, router } from "../index";
+import {
+	DEFAULT_STALE_AFTER_HOURS,
+	reconcileStorage,
+} from "../services/reconcile";
+
+export const storageRouter = router({
+	/**
+	 * Reconciles asset rows with bucket objects. Defaults to a dry run that
+	 * only reports; orphan objects are deleted only with `deleteOrphans`.
+	 */
+	reconcile: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive().optional(),
+				dryRun: z.boolean().default(true),
+				deleteOrphans: z.boolean().default(false),
+				staleAfterHours: z
+					.number()
+					.min(1)
+					.max(24 * 30)
+					.default(DEFAULT_STALE_AFTER_HOURS),
+			}),
+		)
+		.mutation(({ input, ctx }) =>
+			reconcileStorage({ ...input, requestedBy: ctx.session.user.email }),
+		),
+});
@@ -1,44 +1,83 @@
 import { db } from "@cyop/db";
-import { desc, eq } from "@cyop/db/drizzle-orm";
-import { datasets, datasetTags, requirements } from "@cyop/db/schema/platform";
+import {
+	and,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	notExists,
+} from "@cyop/db/drizzle-orm";
+import {
+	datasets,
+	datasetTags,
+	mediaAssets,
+	mediaAssetTags,
+	requirements,
+} from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
 import z from "zod";
 
 import { protectedProcedure, publicProcedure, router } from "../index";
+import { enqueueTagJobs } from "../services/assetJobs";
+import {
+	assignAssetTags,
+	recomputeDatasetTags,
+	unassignAssetTags,
+} from "../services/datasetTags";
+import { normalizeTagLabels } from "../services/tagVocabulary";
+import { assertDatasetBudget } from "../services/usage";
 
 const baseTagInput = z.object({
 	datasetId: z.number().int().positive(),
 	label: z.string().min(1),
-	autoGenerated: z.boolean().default(true),
+	autoGenerated: z.boolean().default(false),
 	usageCount: z.number().int().nonnegative().default(0),
 	coverage: z.number().int().min(0).max(100).default(0),
 });
 
+const assetTagsInput = z.object({
+	assetIds: z.array(z.number().int().positive()).min(1).max(500),
+	labels: z.array(z.string().min(1).max(100)).min(1).max(50),
+});
+
 export const tagsRouter = router({
-	list: publicProcedure.query(async () => {
-		const rows = await db
-			.select({
-				tag: datasetTags,
-				dataset: datasets,
-				requirement: requirements,
-			})
-			.from(datasetTags)
-			.leftJoin(datasets, eq(datasetTags.datasetId, datasets.id))
-			.leftJoin(requirements, eq(datasets.requirementId, requirements.id))
-			.orderBy(desc(datasetTags.lastUsedAt), desc(datasetTags.id));
+	list: publicProcedure
+		.input(
+			z
+				.object({ datasetId: z.number().int().positive().optional() })
+				.optional(),
+		)
+		.query(async ({ input }) => {
+			const rows = await db
+				.select({
+					tag: datasetTags,
+					dataset: datasets,
+					requirement: requirements,
+				})
+				.from(datasetTags)
+				.leftJoin(datasets, eq(datasetTags.datasetId, datasets.id))
+				.leftJoin(requirements, eq(datasets.requirementId, requirements.id))
+				.where(
+					input?.datasetId
+						? eq(datasetTags.datasetId, input.datasetId)
+						: undefined,
+				)
+				.orderBy(desc(datasetTags.lastUsedAt), desc(datasetTags.id));
 
-		return rows.map(({ tag, dataset, requirement }) => ({
-			...tag,
-			dataset,
-			requirement,
-		}));
-	}),
+			return rows.map(({ tag, dataset, requirement }) => ({
+				...tag,
+				dataset,
+				requirement,
+			}));
+		}),
 
 	create: protectedProcedure.input(baseTagInput).mutation(async ({ input }) => {
+		const [label = input.label] = await normalizeTagLabels([input.label]);
 		const [record] = await db
 			.insert(datasetTags)
 			.values({
 				datasetId: input.datasetId,
-				label: input.label,
+				label,
 				autoGenerated: input.autoGenerated,
 				usageCount: input.usageCount,
 				coverage: input.coverage,
@@ -71,4 +110,84 @@ export const tagsRouter = router({
 				.returning();
 			return record;
 		}),
+
+	runTagging: protectedProcedure
+		.input(
+			z.object({
+				datasetId: z.number().int().positive(),
+				modelId: z.number().int().positive().optional(),
+				assetIds: z.array(z.number().int().positive()).min(1).optional(),
+				includeTagged: z.boolean().default(false),
+				limit: z.number().int().min(1).max(1000).default(200),
+			}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			await assertDatasetBudget(input.datasetId);
+
+			const conditions = [
+				eq(mediaAssets.datasetId, input.datasetId),
+				isNull(mediaAssets.deletedAt),
+				inArray(mediaAssets.status, ["uploaded", "ready", "processing"]),
+			];
+			if (input.assetIds) {
+				conditions.push(inArray(mediaAssets.id, input.assetIds));
+			}
+			if (!input.includeTagged) {
+				conditions.push(
+					notExists(
+						db
+							.select({ id: mediaAssetTags.id })
+							.from(mediaAssetTags)
+							.where(
+								and(
+									eq(mediaAssetTags.mediaAssetId, mediaAssets.id),
+									eq(mediaAssetTags.source, "model"),
+								),
+							),
+					),
+				);
+			}
+
+			const assets = await db
+				.select({
+					id: mediaAssets.id,
+					datasetId: mediaAssets.datasetId,
+					storageBucket: mediaAssets.storageBucket,
+					publicUrl: mediaAssets.publicUrl,
+				})
+				.from(mediaAssets)
+				.where(and(...conditions))
+				.limit(input.limit);
+
+			if (!assets.length) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "No untagged assets to process",
+				});
+			}
+
+			return enqueueTagJobs({
+				assets,
+				modelId: input.modelId,
+				requestedBy: ctx.session.user.email,
+			});
+		}),
+
+	assign: protectedProcedure
+		.input(assetTagsInput)
+		.mutation(async ({ input }) => {
+			return assignAssetTags(input.assetIds, input.labels);
+		}),
+
+	unassign: protectedProcedure
+		.input(assetTagsInput)
+		.mutation(async ({ input }) => {
+			return unassignAssetTags(input.assetIds, input.labels);
+		}),
+
+	recompute: protectedProcedure
+		.input(z.object({ datasetId: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			return recomputeDatasetTags(input.datasetId);
+		}),
 });
@@ -0,0 +1,187 @@
+import { db } from "@cyop/db";
+import {
+	and,
+	desc,
+	eq,
+	gte,
+	inArray,
+	isNotNull,
+	lt,
+	sql,
+} from "@cyop/db/drizzle-orm";
+import {
+	aiModels,
+	datasets,
+	modelUsageEvents,
+	requirements,
+} from "@cyop/db/schema/platform";
+import z from "zod";
+
+import { protectedProcedure, router } from "../index";
+
+const usageGroupValues = [
+	"model",
+	"dataset",
+	"requirement",
+	"user",
+	"day",
+] as const;
+
+const usageFilterInput = z.object({
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+	modelId: z.number().int().positive().optional(),
+	datasetId: z.number().int().positive().optional(),
+	requirementId: z.number().int().positive().optional(),
+	requestedBy: z.string().min(1).optional(),
+});
+
+function usageConditions(input?: z.infer<typeof usageFilterInput>) {
+	const conditions = [];
+	if (input?.from) {
+		conditions.push(gte(modelUsageEvents.createdAt, input.from));
+	}
+	if (input?.to) {
+		conditions.push(lt(modelUsageEvents.createdAt, input.to));
+	}
+	if (input?.modelId) {
+		conditions.push(eq(modelUsageEvents.modelId, input.modelId));
+	}
+	if (input?.datasetId) {
+		conditions.push(eq(modelUsageEvents.datasetId, input.datasetId));
+	}
+	if (input?.requirementId) {
+		conditions.push(eq(modelUsageEvents.requirementId, input.requirementId));
+	}
+	if (input?.requestedBy) {
+		conditions.push(eq(modelUsageEvents.requestedBy, input.requestedBy));
+	}
+	return conditions.length ? and(...conditions) : undefined;
+}
+
+function groupExpressions(groupBy: (typeof usageGroupValues)[number]) {
+	switch (groupBy) {
+		case "dataset":
+			return {
+				key: sql<string>`coalesce(${modelUsageEvents.datasetId}::text, 'none')`,
+				label: sql<string>`coalesce(${datasets.name}, 'Unassigned')`,
+			};
+		case "requirement":
+			return {
+				key: sql<string>`coalesce(${modelUsageEvents.requirementId}::text, 'none')`,
+				label: sql<string>`coalesce(${requirements.title}, 'Unassigned')`,
+			};
+		case "user":
+			return {
+				key: sql<string>`coalesce(${modelUsageEvents.requestedBy}, 'system')`,
+				label: sql<string>`coalesce(${modelUsageEvents.requestedBy}, 'system')`,
+			};
+		case "day":
+			return {
+				key: sql<string>`to_char(${modelUsageEvents.createdAt}, 'YYYY-MM-DD')`,
+				label: sql<string>`to_char(${modelUsageEvents.createdAt}, 'YYYY-MM-DD')`,
+			};
+		default:
+			return {
+				key: sql<string>`coalesce(${modelUsageEvents.modelId}::text, ${modelUsageEvents.modelName})`,
+				label: sql<string>`coalesce(${aiModels.name}, ${modelUsageEvents.modelName})`,
+			};
+	}
+}
+
+const totals = {
+	calls: sql<number>`count(*)::int`,
+	promptTokens: sql<number>`coalesce(sum(${modelUsageEvents.promptTokens}), 0)::int`,
+	completionTokens: sql<number>`coalesce(sum(${modelUsageEvents.completionTokens}), 0)::int`,
+	totalTokens: sql<number>`coalesce(sum(${modelUsageEvents.totalTokens}), 0)::int`,
+	costMicros:
+		sql<number>`coalesce(sum(${modelUsageEvents.costMicros}), 0)::bigint`.mapWith(
+			Number,
+		),
+};
+
+export const usageRouter = router({
+	summary: protectedProcedure
+		.input(
+			usageFilterInput
+				.extend({
+					groupBy: z.enum(usageGroupValues).default("model"),
+				})
+				.optional(),
+		)
+		.query(async ({ input }) => {
+			const groupBy = input?.groupBy ?? "model";
+			const { key, label } = groupExpressions(groupBy);
+			const where = usageConditions(input);
+
+			const [rows, [overall]] = await Promise.all([
+				db
+					.select({ key, label, ...totals })
+					.from(modelUsageEvents)
+					.leftJoin(aiModels, eq(modelUsageEvents.modelId, aiModels.id))
+					.leftJoin(datasets, eq(modelUsageEvents.datasetId, datasets.id))
+					.leftJoin(
+						requirements,
+						eq(modelUsageEvents.requirementId, requirements.id),
+					)
+					.where(where)
+					.groupBy(key, label)
+					.orderBy(groupBy === "day" ? desc(key) : desc(totals.costMicros)),
+				db.select(totals).from(modelUsageEvents).where(where),
+			]);
+
+			return {
+				groupBy,
+				rows,
+				totals: overall ?? {
+					calls: 0,
+					promptTokens: 0,
+					completionTokens: 0,
+					totalTokens: 0,
+					costMicros: 0,
+				},
+			};
+		}),
+
+	budgets: protectedProcedure.query(async () => {
+		const budgeted = await db
+			.select({
+				id: requirements.id,
+				title: requirements.title,
+				budgetMicros: requirements.budgetMicros,
+			})
+			.from(requirements)
+			.where(isNotNull(requirements.budgetMicros))
+			.orderBy(desc(requirements.updatedAt));
+
+		if (!budgeted.length) {
+			return [];
+		}
+
+		const spent = await db
+			.select({
+				requirementId: modelUsageEvents.requirementId,
+				spentMicros: totals.costMicros,
+			})
+			.from(modelUsageEvents)
+			.where(
+				inArray(
+					modelUsageEvents.requirementId,
+					budgeted.map((row) => row.id),
+				),
+			)
+			.groupBy(modelUsageEvents.requirementId);
+		const spentByRequirement = new Map(
+			spent.map((row) => [row.requirementId, row.spentMicros]),
+		);
+
+		return budgeted.map((row) => {
+			const spentMicros = spentByRequirement.get(row.id) ?? 0;
+			return {
+				...row,
+				spentMicros,
+				exhausted: spentMicros >= (row.budgetMicros ?? 0),
+			};
+		});
+	}),
+});
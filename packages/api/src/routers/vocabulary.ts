@@ -0,0 +1,280 @@
+import { db } from "@cyop/db";
+import { and, asc, eq } from "@cyop/db/drizzle-orm";
+import { tagAliases, tagVocabulary } from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+
+import { protectedProcedure, publicProcedure, router } from "../index";
+import { recomputeDatasetTags } from "../services/datasetTags";
+import {
+	cleanTagLabel,
+	findTagKeyConflict,
+	mergeTags,
+	normalizeTagLabels,
+	rewriteTagUsages,
+	tagKey,
+	wouldCreateCycle,
+} from "../services/tagVocabulary";
+
+const labelInput = z
+	.string()
+	.transform(cleanTagLabel)
+	.pipe(z.string().min(1).max(100));
+
+async function getTag(id: number) {
+	const [tag] = await db
+		.select()
+		.from(tagVocabulary)
+		.where(eq(tagVocabulary.id, id))
+		.limit(1);
+
+	if (!tag) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Tag not found",
+		});
+	}
+
+	return tag;
+}
+
+async function assertKeyAvailable(label: string, exceptTagId?: number) {
+	const conflict = await findTagKeyConflict(tagKey(label), exceptTagId);
+	if (conflict) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: `"${label}" is already used as ${conflict}`,
+		});
+	}
+}
+
+async function assertParent(tagId: number | null, parentId: number) {
+	await getTag(parentId);
+	if (
+		tagId &&
+		(parentId === tagId || (await wouldCreateCycle(tagId, parentId)))
+	) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "A tag cannot be nested under itself or its descendants",
+		});
+	}
+}
+
+/** Rewrites usages of `keys` to `label` and refreshes the affected datasets. */
+async function rewriteAndRecompute(keys: string[], label: string) {
+	const result = await rewriteTagUsages(keys, label);
+	for (const datasetId of result.datasetIds) {
+		await recomputeDatasetTags(datasetId);
+	}
+	return result;
+}
+
+export const vocabularyRouter = router({
+	list: publicProcedure.query(async () => {
+		const [tags, aliases] = await Promise.all([
+			db.select().from(tagVocabulary).orderBy(asc(tagVocabulary.label)),
+			db.select().from(tagAliases).orderBy(asc(tagAliases.alias)),
+		]);
+
+		return tags.map((tag) => ({
+			...tag,
+			aliases: aliases
+				.filter((alias) => alias.tagId === tag.id)
+				.map((alias) => ({ id: alias.id, alias: alias.alias })),
+			childCount: tags.filter((child) => child.parentId === tag.id).length,
+		}));
+	}),
+
+	normalize: publicProcedure
+		.input(z.object({ labels: z.array(z.string()).max(200) }))
+		.query(async ({ input }) => {
+			return normalizeTagLabels(input.labels);
+		}),
+
+	create: protectedProcedure
+		.input(
+			z.object({
+				label: labelInput,
+				description: z.string().optional(),
+				parentId: z.number().int().positive().optional(),
+				aliases: z.array(labelInput).default([]),
+			}),
+		)
+		.mutation(async ({ input, ctx }) => {
+			await assertKeyAvailable(input.label);
+			const aliasKeys = [...new Set(input.aliases.map(tagKey))].filter(
+				(key) => key !== tagKey(input.label),
+			);
+			for (const key of aliasKeys) {
+				await assertKeyAvailable(key);
+			}
+			if (input.parentId) {
+				await assertParent(null, input.parentId);
+			}
+
+			const [tag] = await db
+				.insert(tagVocabulary)
+				.values({
+					label: input.label,
+					description: input.description ?? null,
+					parentId: input.parentId ?? null,
+					createdBy: ctx.session.user.email,
+				})
+				.returning();
+			if (!tag) {
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create tag",
+				});
+			}
+			if (aliasKeys.length) {
+				await db
+					.insert(tagAliases)
+					.values(aliasKeys.map((alias) => ({ tagId: tag.id, alias })));
+			}
+
+			// Existing usages of other spellings now normalize to this label.
+			const rewritten = await rewriteAndRecompute(
+				[tagKey(tag.label), ...aliasKeys],
+				tag.label,
+			);
+			return { ...tag, rewritten };
+		}),
+
+	update: protectedProcedure
+		.input(
+			z.object({
+				id: z.number().int().positive(),
+				label: labelInput.optional(),
+				description: z.string().nullable().optional(),
+				parentId: z.number().int().positive().nullable().optional(),
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const current = await getTag(input.id);
+			const renamed =
+				input.label !== undefined && input.label !== current.label;
+			if (renamed && input.label) {
+				await assertKeyAvailable(input.label, current.id);
+			}
+			if (input.parentId) {
+				await assertParent(current.id, input.parentId);
+			}
+
+			const [tag] = await db
+				.update(tagVocabulary)
+				.set({
+					label: input.label ?? current.label,
+					description:
+						input.description === undefined
+							? current.description
+							: input.description,
+					parentId:
+						input.parentId === undefined ? current.parentId : input.parentId,
+					updatedAt: new Date(),
+				})
+				.where(eq(tagVocabulary.id, current.id))
+				.returning();
+			if (!tag || !renamed) {
+				return tag;
+			}
+
+			// The old spelling keeps resolving to the renamed tag.
+			if (tagKey(current.label) !== tagKey(tag.label)) {
+				await db
+					.delete(tagAliases)
+					.where(
+						and(
+							eq(tagAliases.tagId, tag.id),
+							eq(tagAliases.alias, tagKey(tag.label)),
+						),
+					);
+				await db
+					.insert(tagAliases)
+					.values({ tagId: tag.id, alias: tagKey(current.label) })
+					.onConflictDoNothing();
+			}
+			await rewriteAndRecompute([tagKey(current.label)], tag.label);
+			return tag;
+		}),
+
+	addAlias: protectedProcedure
+		.input(
+			z.object({
+				tagId: z.number().int().positive(),
+				alias: labelInput,
+			}),
+		)
+		.mutation(async ({ input }) => {
+			const tag = await getTag(input.tagId);
+			const key = tagKey(input.alias);
+			await assertKeyAvailable(key);
+
+			const [alias] = await db
+				.insert(tagAliases)
+				.values({ tagId: tag.id, alias: key })
+				.returning();
+			const rewritten = await rewriteAndRecompute([key], tag.label);
+			return { ...alias, rewritten };
+		}),
+
+	removeAlias: protectedProcedure
+		.input(z.object({ id: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			const [deleted] = await db
+				.delete(tagAliases)
+				.where(eq(tagAliases.id, input.id))
+				.returning({ id: tagAliases.id });
+
+			if (!deleted) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Alias not found",
+				});
+			}
+
+			return { success: true };
+		}),
+
+	merge: protectedProcedure
+		.input(
+			z
+				.object({
+					sourceId: z.number().int().positive(),
+					targetId: z.number().int().positive(),
+				})
+				.refine((val) => val.sourceId !== val.targetId, {
+					message: "Cannot merge a tag into itself",
+				}),
+		)
+		.mutation(async ({ input }) => {
+			const [source, target] = await Promise.all([
+				getTag(input.sourceId),
+				getTag(input.targetId),
+			]);
+			const result = await mergeTags(source, target);
+			for (const datasetId of result.datasetIds) {
+				await recomputeDatasetTags(datasetId);
+			}
+			return result;
+		}),
+
+	delete: protectedProcedure
+		.input(z.object({ id: z.number().int().positive() }))
+		.mutation(async ({ input }) => {
+			const [deleted] = await db
+				.delete(tagVocabulary)
+				.where(eq(tagVocabulary.id, input.id))
+				.returning({ id: tagVocabulary.id });
+
+			if (!deleted) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Tag not found",
+				});
+			}
+
+			return { success: true };
+		}),
+});
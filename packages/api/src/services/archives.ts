@@ -0,0 +1,228 @@
+import { gunzipSync, inflateRawSync } from "node:zlib";
+import { ProviderError } from "./providers";
+
+export type ArchiveEntry = {
+	path: string;
+	size: number;
+	/** Decompresses on demand so only one entry is held in memory at a time. */
+	read: () => Uint8Array<ArrayBuffer>;
+};
+
+/** Largest single file an archive may expand to. */
+export const MAX_ARCHIVE_ENTRY_BYTES = 200 * 1024 * 1024;
+/** Largest total an archive may expand to, so small bombs cannot fill memory. */
+export const MAX_EXPANDED_ARCHIVE_BYTES = 2 * 1024 * 1024 * 1024;
+
+const decoder = new TextDecoder();
+
+function invalidArchive(message: string) {
+	return new ProviderError(message, { category: "bad_request" });
+}
+
+/**
+ * Offsets read from a corrupt archive can point past its end, which DataView
+ * reports as a RangeError; surface those as a bad upload rather than a
+ * retryable failure.
+ */
+function parseArchive<T>(message: string, parse: () => T): T {
+	try {
+		return parse();
+	} catch (error) {
+		if (error instanceof ProviderError) {
+			throw error;
+		}
+		throw new ProviderError(message, { category: "bad_request", cause: error });
+	}
+}
+
+function formatLimit(bytes: number) {
+	return `${Math.round(bytes / 1024 / 1024)} MiB`;
+}
+
+function assertEntrySize(path: string, size: number) {
+	if (size > MAX_ARCHIVE_ENTRY_BYTES) {
+		throw invalidArchive(
+			`${path} 解压后超过 ${formatLimit(MAX_ARCHIVE_ENTRY_BYTES)} 上限`,
+		);
+	}
+}
+
+/** Reads the file entries of a ZIP archive (stored or deflated, no ZIP64). */
+export function readZipEntries(buffer: Uint8Array) {
+	return parseArchive("ZIP 文件已损坏", () => parseZipDirectory(buffer));
+}
+
+function parseZipDirectory(buffer: Uint8Array) {
+	const view = new DataView(
+		buffer.buffer,
+		buffer.byteOffset,
+		buffer.byteLength,
+	);
+	let end = -1;
+	for (
+		let offset = buffer.byteLength - 22;
+		offset >= Math.max(0, buffer.byteLength - 22 - 0xffff);
+		offset--
+	) {
+		if (view.getUint32(offset, true) === 0x06054b50) {
+			end = offset;
+			break;
+		}
+	}
+	if (end < 0) {
+		throw invalidArchive("不是有效的 ZIP 文件");
+	}
+	const count = view.getUint16(end + 10, true);
+	let offset = view.getUint32(end + 16, true);
+	if (count === 0xffff || offset === 0xffffffff) {
+		throw invalidArchive("暂不支持 ZIP64 压缩包，请拆分后上传");
+	}
+
+	const entries: ArchiveEntry[] = [];
+	let declaredTotal = 0;
+	for (let index = 0; index < count; index++) {
+		if (view.getUint32(offset, true) !== 0x02014b50) {
+			throw invalidArchive("ZIP 中央目录已损坏");
+		}
+		const flags = view.getUint16(offset + 8, true);
+		const method = view.getUint16(offset + 10, true);
+		const compressedSize = view.getUint32(offset + 20, true);
+		const size = view.getUint32(offset + 24, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const localOffset = view.getUint32(offset + 42, true);
+		const path = decoder.decode(
+			buffer.subarray(offset + 46, offset + 46 + nameLength),
+		);
+		offset += 46 + nameLength + extraLength + commentLength;
+
+		if (path.endsWith("/")) {
+			continue;
+		}
+		// Each entry inflates to at most its declared size, so checking the
+		// declared sizes bounds the total.
+		declaredTotal += size;
+		if (declaredTotal > MAX_EXPANDED_ARCHIVE_BYTES) {
+			throw invalidArchive(
+				`压缩包解压后超过 ${formatLimit(MAX_EXPANDED_ARCHIVE_BYTES)} 上限，请拆分后上传`,
+			);
+		}
+		entries.push({
+			path,
+			size,
+			read: () =>
+				parseArchive(`${path} 的本地文件头已损坏`, () => {
+					assertEntrySize(path, size);
+					if (flags & 1) {
+						throw invalidArchive(`${path} 已加密，无法读取`);
+					}
+					if (view.getUint32(localOffset, true) !== 0x04034b50) {
+						throw invalidArchive(`${path} 的本地文件头已损坏`);
+					}
+					const start =
+						localOffset +
+						30 +
+						view.getUint16(localOffset + 26, true) +
+						view.getUint16(localOffset + 28, true);
+					const data = buffer.subarray(start, start + compressedSize);
+					if (method === 0) {
+						if (data.byteLength !== size) {
+							throw invalidArchive(`${path} 的大小与中央目录不符`);
+						}
+						return new Uint8Array(data);
+					}
+					if (method === 8) {
+						let inflated: Buffer;
+						try {
+							inflated = inflateRawSync(data, { maxOutputLength: size || 1 });
+						} catch (error) {
+							throw new ProviderError(`${path} 解压失败或大小与中央目录不符`, {
+								category: "bad_request",
+								cause: error,
+							});
+						}
+						if (inflated.byteLength !== size) {
+							throw invalidArchive(`${path} 的大小与中央目录不符`);
+						}
+						return new Uint8Array(inflated);
+					}
+					throw invalidArchive(`${path} 使用了不支持的压缩方式 ${method}`);
+				}),
+		});
+	}
+	return entries;
+}
+
+function readTarString(block: Uint8Array, start: number, length: number) {
+	const field = block.subarray(start, start + length);
+	const nul = field.indexOf(0);
+	return decoder.decode(nul < 0 ? field : field.subarray(0, nul));
+}
+
+/** Reads the regular files of a TAR archive, gunzipping `.tar.gz` first. */
+export function readTarEntries(input: Uint8Array) {
+	let buffer = input;
+	if (input[0] === 0x1f && input[1] === 0x8b) {
+		try {
+			buffer = gunzipSync(input, {
+				maxOutputLength: MAX_EXPANDED_ARCHIVE_BYTES,
+			});
+		} catch (error) {
+			throw new ProviderError(
+				`压缩包解压失败或解压后超过 ${formatLimit(MAX_EXPANDED_ARCHIVE_BYTES)} 上限`,
+				{ category: "bad_request", cause: error },
+			);
+		}
+	}
+	const entries: ArchiveEntry[] = [];
+	let offset = 0;
+	let longName: string | undefined;
+	let paxPath: string | undefined;
+
+	while (offset + 512 <= buffer.byteLength) {
+		const header = buffer.subarray(offset, offset + 512);
+		if (header.every((byte) => byte === 0)) {
+			break;
+		}
+		const size = Number.parseInt(readTarString(header, 124, 12).trim(), 8);
+		if (!Number.isFinite(size)) {
+			throw invalidArchive("TAR 文件头已损坏");
+		}
+		const type = String.fromCharCode(header[156] ?? 0);
+		const dataStart = offset + 512;
+		const data = buffer.subarray(dataStart, dataStart + size);
+		if (data.byteLength !== size) {
+			throw invalidArchive("TAR 文件不完整");
+		}
+		offset = dataStart + Math.ceil(size / 512) * 512;
+
+		// GNU long names and PAX headers describe the entry that follows.
+		if (type === "L") {
+			longName = readTarString(data, 0, data.byteLength);
+			continue;
+		}
+		if (type === "x") {
+			const match = decoder.decode(data).match(/^\d+ path=(.*)$/m);
+			paxPath = match?.[1];
+			continue;
+		}
+		const prefix = readTarString(header, 345, 155);
+		const name = readTarString(header, 0, 100);
+		const path = paxPath ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+		longName = undefined;
+		paxPath = undefined;
+
+		if (type === "0" || type === "\0") {
+			entries.push({
+				path,
+				size,
+				read: () => {
+					assertEntrySize(path, size);
+					return new Uint8Array(data);
+				},
+			});
+		}
+	}
+	return entries;
+}
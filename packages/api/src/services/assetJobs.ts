@@ -0,0 +1,151 @@
+import { db } from "@cyop/db";
+import { and, eq, inArray } from "@cyop/db/drizzle-orm";
+import {
+	captionJobs,
+	type captionJobTypeValues,
+	mediaAssets,
+} from "@cyop/db/schema/platform";
+import {
+	type ResolvedModel,
+	resolveEmbeddingModel,
+	resolveTagModel,
+} from "./models";
+import { isPrivateBucket } from "./storage";
+
+type Asset = Pick<
+	typeof mediaAssets.$inferSelect,
+	"id" | "datasetId" | "storageBucket" | "publicUrl"
+>;
+
+type AssetJobOptions = {
+	assets: Asset[];
+	modelId?: number | null;
+	requestedBy?: string | null;
+};
+
+/**
+ * Queues per-asset jobs of `jobType` on the shared caption queue. Assets with
+ * a job of the same type already queued or running are skipped, as are assets
+ * without a URL when `requireUrl` is set (private-bucket assets are signed
+ * when the job runs).
+ */
+async function enqueueAssetJobs({
+	jobType,
+	model,
+	assets,
+	requestedBy,
+	requireUrl,
+}: Omit<AssetJobOptions, "modelId"> & {
+	jobType: Exclude<(typeof captionJobTypeValues)[number], "caption">;
+	model: ResolvedModel | null;
+	requireUrl: boolean;
+}) {
+	const runnable = requireUrl
+		? assets.filter(
+				(asset) => asset.publicUrl || isPrivateBucket(asset.storageBucket),
+			)
+		: assets;
+	const active = runnable.length
+		? await db
+				.select({ assetId: captionJobs.assetId })
+				.from(captionJobs)
+				.where(
+					and(
+						eq(captionJobs.jobType, jobType),
+						inArray(
+							captionJobs.assetId,
+							runnable.map((asset) => asset.id),
+						),
+						inArray(captionJobs.status, ["queued", "running"]),
+					),
+				)
+		: [];
+	const activeAssetIds = new Set(active.map((job) => job.assetId));
+	const pending = runnable.filter((asset) => !activeAssetIds.has(asset.id));
+
+	const summary = {
+		count: pending.length,
+		skippedMissingUrl: assets.length - runnable.length,
+		skippedActive: runnable.length - pending.length,
+		modelId: model?.id ?? null,
+	};
+
+	if (!pending.length) {
+		return summary;
+	}
+
+	const now = new Date();
+	await db.insert(captionJobs).values(
+		pending.map((asset) => ({
+			jobType,
+			datasetId: asset.datasetId,
+			assetId: asset.id,
+			modelId: model?.id ?? null,
+			imageUrl: asset.publicUrl,
+			status: "queued" as const,
+			requestedBy: requestedBy ?? null,
+			createdAt: now,
+			updatedAt: now,
+		})),
+	);
+
+	return summary;
+}
+
+export async function enqueueTagJobs({
+	assets,
+	modelId,
+	requestedBy,
+}: AssetJobOptions) {
+	return enqueueAssetJobs({
+		jobType: "tag",
+		model: await resolveTagModel(modelId),
+		assets,
+		requestedBy,
+		requireUrl: true,
+	});
+}
+
+/** Caption-only embeddings need no URL, so assets without one are still queued. */
+export async function enqueueEmbeddingJobs({
+	assets,
+	modelId,
+	requestedBy,
+}: AssetJobOptions) {
+	return enqueueAssetJobs({
+		jobType: "embed",
+		model: await resolveEmbeddingModel(modelId),
+		assets,
+		requestedBy,
+		requireUrl: false,
+	});
+}
+
+/**
+ * Processing reads the stored object itself, so no model or URL is needed.
+ * Assets are marked `processing` before their jobs exist, so a worker that
+ * finishes first cannot have its `ready` overwritten afterwards.
+ */
+export async function enqueueProcessingJobs({
+	assets,
+	requestedBy,
+}: Omit<AssetJobOptions, "modelId">) {
+	if (assets.length) {
+		await db
+			.update(mediaAssets)
+			.set({ status: "processing", updatedAt: new Date() })
+			.where(
+				inArray(
+					mediaAssets.id,
+					assets.map((asset) => asset.id),
+				),
+			);
+	}
+	return enqueueAssetJobs({
+		jobType: "process",
+		model: null,
+		assets,
+		requestedBy,
+		requireUrl: false,
+	});
+}
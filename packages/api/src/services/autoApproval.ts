@@ -0,0 +1,133 @@
+import { db } from "@cyop/db";
+import { and, eq, isNull, sql } from "@cyop/db/drizzle-orm";
+import {
+	autoApprovalRules,
+	captions,
+	datasets,
+	mediaAssets,
+} from "@cyop/db/schema/platform";
+
+export const AUTO_APPROVAL_IDENTITY = "system:auto-approval";
+
+export type AutoApprovalRule = Pick<
+	typeof autoApprovalRules.$inferSelect,
+	"minConfidence" | "maxLength" | "requireFocusTags" | "bannedWords"
+>;
+
+export type AutoApprovalFailure =
+	| "low_confidence"
+	| "too_long"
+	| "missing_focus_tags"
+	| "banned_words";
+
+type Candidate = {
+	text: string | null;
+	confidence: number | null;
+};
+
+export function evaluateAutoApproval(
+	rule: AutoApprovalRule,
+	candidate: Candidate,
+	focusTags: string[],
+) {
+	const failures: AutoApprovalFailure[] = [];
+	const text = candidate.text?.trim() ?? "";
+	const normalized = text.toLowerCase();
+
+	if (
+		rule.minConfidence !== null &&
+		(candidate.confidence ?? 0) < rule.minConfidence
+	) {
+		failures.push("low_confidence");
+	}
+	if (rule.maxLength !== null && text.length > rule.maxLength) {
+		failures.push("too_long");
+	}
+	if (
+		rule.requireFocusTags &&
+		focusTags.some((tag) => !normalized.includes(tag.toLowerCase()))
+	) {
+		failures.push("missing_focus_tags");
+	}
+	if (
+		rule.bannedWords.some(
+			(word) => word.trim() && normalized.includes(word.trim().toLowerCase()),
+		)
+	) {
+		failures.push("banned_words");
+	}
+
+	return { passed: text.length > 0 && failures.length === 0, failures };
+}
+
+/**
+ * Runs the dataset's rule against a freshly completed caption. Passing
+ * captions are approved as `system:auto-approval`; the rest stay in
+ * `completed` for human review with the failed checks in metadata.
+ */
+export async function applyAutoApproval(captionId: number) {
+	const [row] = await db
+		.select({
+			caption: {
+				aiCaption: captions.aiCaption,
+				finalCaption: captions.finalCaption,
+				confidence: captions.confidence,
+			},
+			focusTags: datasets.focusTags,
+			rule: autoApprovalRules,
+		})
+		.from(captions)
+		.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
+		.innerJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
+		.innerJoin(
+			autoApprovalRules,
+			eq(autoApprovalRules.datasetId, mediaAssets.datasetId),
+		)
+		.where(
+			and(
+				eq(captions.id, captionId),
+				eq(captions.status, "completed"),
+				isNull(captions.experimentArmId),
+			),
+		)
+		.limit(1);
+
+	if (!row?.rule.enabled) {
+		return false;
+	}
+
+	const result = evaluateAutoApproval(
+		row.rule,
+		{
+			text: row.caption.finalCaption ?? row.caption.aiCaption,
+			confidence: row.caption.confidence,
+		},
+		row.focusTags,
+	);
+	const now = new Date();
+	const metadata = sql`${captions.metadata} || ${JSON.stringify({
+		autoApproval: {
+			ruleId: row.rule.id,
+			passed: result.passed,
+			failures: result.failures,
+			evaluatedAt: now.toISOString(),
+		},
+	})}::jsonb`;
+
+	await db
+		.update(captions)
+		.set(
+			result.passed
+				? {
+						status: "approved",
+						approvedAt: now,
+						approvedBy: AUTO_APPROVAL_IDENTITY,
+						metadata,
+						updatedAt: now,
+					}
+				: { metadata, updatedAt: now },
+		)
+		.where(and(eq(captions.id, captionId), eq(captions.status, "completed")));
+
+	return result.passed;
+}
@@ -1,15 +1,47 @@
-import type { aiModels } from "@cyop/db/schema/platform";
+import type { aiModels, mediaAssets } from "@cyop/db/schema/platform";
+import {
+	type ConfidenceDetails,
+	type ConfidenceStrategy,
+	scoreCaption,
+} from "./confidence";
+import {
+	type OutputSchema,
+	parseStructuredOutput,
+	schemaInstructions,
+} from "./outputSchema";
+import {
+	getCaptionProvider,
+	ProviderError,
+	type ProviderResult,
+	withUsage,
+} from "./providers";
+import { ModelThrottledError, withModelRateLimit } from "./rateLimiter";
+import { getStorageDriver, resolveAssetUrl } from "./storage";
 
 type CaptionModel = typeof aiModels.$inferSelect;
 
 type CaptionOptions = {
 	imageUrl: string;
 	prompt?: string;
+	systemPrompt?: string;
 	model: CaptionModel;
+	maxTokens?: number;
+	temperature?: number;
+	confidenceStrategy?: ConfidenceStrategy;
+	consistencySamples?: number;
+	outputSchema?: OutputSchema | null;
 };
 
 type CaptionResult = {
 	caption: string;
+	model: string;
+	tokensUsed: number;
+	confidence: number;
+	confidenceDetails: ConfidenceDetails;
+	finishReason: ProviderResult["finishReason"];
+	usage: ProviderResult["usage"];
+	/** Parsed fields when the template declares an output schema. */
+	structured?: Record<string, unknown>;
 	raw?: unknown;
 };
 
@@ -17,29 +49,52 @@ const env = ((
 	globalThis as { process?: { env?: Record<string, string | undefined> } }
 ).process?.env ?? {}) as Record<string, string | undefined>;
 
-function resolveApiKey(model: CaptionModel) {
+export function resolveApiKey(model: CaptionModel, required: boolean) {
 	if (model.apiKeyEnv && env[model.apiKeyEnv]) {
 		return env[model.apiKeyEnv] as string;
 	}
 	if (env.AI_CAPTION_API_KEY) {
 		return env.AI_CAPTION_API_KEY as string;
 	}
-	throw new Error(
+	if (!required) {
+		return undefined;
+	}
+	throw new ProviderError(
 		"缺少模型 API Key，请在环境变量中配置 AI_CAPTION_API_KEY 或模型专属 apiKeyEnv",
+		{ category: "auth" },
 	);
 }
 
-function resolveBaseUrl(model: CaptionModel) {
-	if (model.baseUrl) {
-		return model.baseUrl.replace(/\/$/, "");
-	}
-	if (env.AI_CAPTION_BASE_URL) {
-		return (env.AI_CAPTION_BASE_URL as string).replace(/\/$/, "");
+/**
+ * Image reference handed to providers for a stored asset. With
+ * `MODEL_IMAGE_INLINE=true`, or for local-disk buckets whose signed URLs only
+ * this server can reach, the bytes go inline as a base64 data URL (the `lg`
+ * thumbnail when there is one); otherwise the public URL, or a signed one
+ * for private buckets.
+ */
+export async function resolveModelImageUrl(
+	asset: Pick<
+		typeof mediaAssets.$inferSelect,
+		"storageBucket" | "storageKey" | "publicUrl" | "mimeType" | "thumbnails"
+	>,
+) {
+	const storage = getStorageDriver(asset.storageBucket);
+	if (env.MODEL_IMAGE_INLINE !== "true" && storage.kind !== "local") {
+		return resolveAssetUrl(asset);
 	}
-	return "https://api.openai.com/v1";
+	const thumbnail = asset.thumbnails.lg;
+	const body = await storage.get(thumbnail?.key ?? asset.storageKey);
+	const mimeType = thumbnail ? "image/webp" : asset.mimeType;
+	return `data:${mimeType};base64,${Buffer.from(body).toString("base64")}`;
 }
 
-function resolveModelName(model: CaptionModel) {
+/** Per-model request timeout from `metadata.timeoutMs`, if set. */
+export function resolveTimeoutMs(model: CaptionModel) {
+	const timeoutMs = Number(model.metadata.timeoutMs);
+	return Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined;
+}
+
+export function resolveModelName(model: CaptionModel) {
 	if (model.modelName) {
 		return model.modelName;
 	}
@@ -52,53 +107,261 @@ function resolveModelName(model: CaptionModel) {
 export async function generateCaption({
 	imageUrl,
 	prompt,
+	systemPrompt,
 	model,
+	maxTokens = 300,
+	temperature,
+	confidenceStrategy = "auto",
+	consistencySamples = 3,
+	outputSchema,
 }: CaptionOptions): Promise<CaptionResult> {
-	const apiKey = resolveApiKey(model);
-	const baseUrl = resolveBaseUrl(model);
-	const modelName = resolveModelName(model);
-	const effectivePrompt =
+	const provider = getCaptionProvider(model.provider);
+	const basePrompt =
 		prompt?.trim() ||
 		(env.AI_CAPTION_PROMPT as string | undefined) ||
 		"Generate a concise yet descriptive caption for this image to support downstream tagging and moderation.";
+	// Providers without a native JSON mode rely on the instructions alone.
+	const effectivePrompt = outputSchema
+		? `${basePrompt}\n\n${schemaInstructions(outputSchema)}`
+		: basePrompt;
 
-	const response = await fetch(`${baseUrl}/chat/completions`, {
-		method: "POST",
-		headers: {
-			Authorization: `Bearer ${apiKey}`,
-			"content-type": "application/json",
-		},
-		body: JSON.stringify({
-			model: modelName,
-			messages: [
+	const request = {
+		modelName: resolveModelName(model),
+		baseUrl: model.baseUrl || provider.defaultBaseUrl,
+		apiKey: resolveApiKey(model, provider.requiresApiKey),
+		imageUrl,
+		prompt: effectivePrompt,
+		systemPrompt: systemPrompt?.trim() || undefined,
+		maxTokens,
+		temperature,
+		logprobs:
+			provider.supportsLogprobs &&
+			model.metadata.logprobs !== false &&
+			(confidenceStrategy === "auto" || confidenceStrategy === "logprobs"),
+		jsonSchema: outputSchema ?? undefined,
+		timeoutMs: resolveTimeoutMs(model),
+	};
+	// Rough prompt estimate (~4 chars per token) plus the completion budget.
+	const estimatedTokens =
+		maxTokens +
+		Math.ceil(
+			((request.systemPrompt?.length ?? 0) + effectivePrompt.length) / 4,
+		);
+
+	const callProvider = (overrides: Partial<typeof request> = {}) =>
+		withModelRateLimit(model, estimatedTokens, async () => {
+			const response = await provider.generate({ ...request, ...overrides });
+			return { ...response, tokensUsed: response.usage.totalTokens };
+		});
+
+	const result = await callProvider();
+	const usage = { ...result.usage };
+
+	// Failures past this point come after the provider billed the call.
+	let caption: string;
+	let structured: Record<string, unknown> | undefined;
+	let samples: string[] | undefined;
+	try {
+		if (!result.caption) {
+			throw new ProviderError(
+				result.finishReason === "content_filter"
+					? "模型因内容策略拒绝生成描述"
+					: "模型未返回可用的描述文本",
 				{
-					role: "user",
-					content: [
-						{ type: "text", text: effectivePrompt },
-						{ type: "image_url", image_url: { url: imageUrl } },
-					],
+					category:
+						result.finishReason === "content_filter"
+							? "content_policy"
+							: "empty_response",
 				},
-			],
-			max_tokens: 300,
-		}),
-	});
+			);
+		}
 
-	if (!response.ok) {
-		const errorText = await response.text();
-		throw new Error(`模型调用失败: ${response.status} ${errorText}`);
+		caption = result.caption;
+		if (outputSchema) {
+			const parsed = parseStructuredOutput(result.caption, outputSchema);
+			if (!parsed.success) {
+				throw new ProviderError(
+					`模型输出不符合 JSON Schema：${parsed.errors.join("; ")}`,
+					{ category: "invalid_output" },
+				);
+			}
+			structured = parsed.data;
+			caption = String(parsed.data.caption ?? "").trim();
+			if (!caption) {
+				throw new ProviderError("模型返回的 JSON 中 caption 为空", {
+					category: "empty_response",
+				});
+			}
+		}
+
+		if (confidenceStrategy === "self_consistency" && consistencySamples > 1) {
+			// One at a time, so sampling never needs more concurrency than the
+			// first call. A throttled sample ends sampling early and the caption
+			// is scored on the samples taken so far, rather than failing a job
+			// that already spent tokens. Extra samples need some randomness or
+			// they just echo the first answer.
+			const extra: Array<Awaited<ReturnType<typeof callProvider>>> = [];
+			for (let index = 1; index < consistencySamples; index++) {
+				let sample: Awaited<ReturnType<typeof callProvider>>;
+				try {
+					sample = await callProvider({
+						logprobs: false,
+						temperature: Math.max(temperature ?? 0, 0.7),
+					});
+				} catch (error) {
+					if (error instanceof ModelThrottledError) {
+						break;
+					}
+					throw error;
+				}
+				extra.push(sample);
+				usage.promptTokens += sample.usage.promptTokens;
+				usage.completionTokens += sample.usage.completionTokens;
+				usage.totalTokens += sample.usage.totalTokens;
+			}
+			samples = extra
+				.map((sample) => {
+					if (!outputSchema) {
+						return sample.caption;
+					}
+					const parsed = parseStructuredOutput(sample.caption, outputSchema);
+					return parsed.success ? String(parsed.data.caption ?? "") : "";
+				})
+				.filter(Boolean);
+		}
+	} catch (error) {
+		throw withUsage(error, usage, result.model);
 	}
 
-	const json = (await response.json()) as {
-		choices?: Array<{ message?: { content?: string } }>;
+	const confidenceDetails = scoreCaption({
+		caption,
+		finishReason: result.finishReason,
+		strategy: confidenceStrategy,
+		logprobs: result.logprobs,
+		samples,
+	});
+
+	return {
+		caption,
+		model: result.model,
+		tokensUsed: usage.totalTokens,
+		confidence: confidenceDetails.score,
+		confidenceDetails,
+		finishReason: result.finishReason,
+		usage,
+		structured,
+		raw: result.raw,
 	};
-	const caption = json.choices?.[0]?.message?.content?.trim() ?? "";
+}
 
-	if (!caption) {
-		throw new Error("模型未返回可用的描述文本");
+const TAG_OUTPUT_SCHEMA: OutputSchema = {
+	type: "object",
+	properties: {
+		tags: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					label: { type: "string" },
+					score: { type: "number", description: "confidence from 0 to 1" },
+				},
+				required: ["label"],
+			},
+		},
+	},
+	required: ["tags"],
+};
+
+type TagOutput = { label: string; score?: number };
+
+type TagOptions = {
+	imageUrl: string;
+	prompt?: string;
+	model: CaptionModel;
+	maxTokens?: number;
+};
+
+/** Plain "a, b, c" lists from tagger models that ignore the JSON instructions. */
+function splitTagList(text: string): TagOutput[] {
+	return text
+		.split(/[,\n]/)
+		.map((label) => label.replace(/^[-*\d.\s]+/, "").trim())
+		.filter(Boolean)
+		.map((label) => ({ label }));
+}
+
+export async function generateTags({
+	imageUrl,
+	prompt,
+	model,
+	maxTokens = 300,
+}: TagOptions) {
+	const provider = getCaptionProvider(model.provider);
+	const basePrompt =
+		prompt?.trim() ||
+		"List the objects, subjects, scene, style and notable attributes visible in this image as short lowercase tags.";
+	const effectivePrompt = `${basePrompt}\n\n${schemaInstructions(TAG_OUTPUT_SCHEMA)}`;
+	const estimatedTokens = maxTokens + Math.ceil(effectivePrompt.length / 4);
+
+	const result = await withModelRateLimit(model, estimatedTokens, async () => {
+		const response = await provider.generate({
+			modelName: resolveModelName(model),
+			baseUrl: model.baseUrl || provider.defaultBaseUrl,
+			apiKey: resolveApiKey(model, provider.requiresApiKey),
+			imageUrl,
+			prompt: effectivePrompt,
+			maxTokens,
+			temperature: 0,
+			jsonSchema: TAG_OUTPUT_SCHEMA,
+			timeoutMs: resolveTimeoutMs(model),
+		});
+		return { ...response, tokensUsed: response.usage.totalTokens };
+	});
+
+	const text = result.caption.trim();
+	const parsed = parseStructuredOutput(text, TAG_OUTPUT_SCHEMA);
+	if (!parsed.success && text.startsWith("{")) {
+		throw new ProviderError(
+			`模型输出不符合标签格式：${parsed.errors.join("; ")}`,
+			{ category: "invalid_output", usage: result.usage, model: result.model },
+		);
+	}
+	const tags = (
+		parsed.success ? (parsed.data.tags as TagOutput[]) : splitTagList(text)
+	).map((tag) => ({
+		label: tag.label,
+		// Models report either 0-1 or 0-100; store 0-100.
+		score:
+			typeof tag.score === "number"
+				? Math.round(
+						Math.min(
+							100,
+							Math.max(0, tag.score <= 1 ? tag.score * 100 : tag.score),
+						),
+					)
+				: null,
+	}));
+
+	if (!tags.length) {
+		throw new ProviderError(
+			result.finishReason === "content_filter"
+				? "模型因内容策略拒绝生成标签"
+				: "模型未返回可用的标签",
+			{
+				category:
+					result.finishReason === "content_filter"
+						? "content_policy"
+						: "empty_response",
+				usage: result.usage,
+				model: result.model,
+			},
+		);
 	}
 
 	return {
-		caption,
-		raw: json,
+		tags,
+		model: result.model,
+		usage: result.usage,
+		finishReason: result.finishReason,
 	};
 }
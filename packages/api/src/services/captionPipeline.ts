@@ -0,0 +1,349 @@
+import { db } from "@cyop/db";
+import { and, desc, eq, inArray, isNull } from "@cyop/db/drizzle-orm";
+import {
+	captionJobs,
+	captions,
+	mediaAssets,
+	promptTemplates,
+} from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+import { resolveTemplateModel } from "./models";
+import { ensureActiveRevision } from "./promptRevisions";
+import { isPrivateBucket } from "./storage";
+
+type Asset = Pick<
+	typeof mediaAssets.$inferSelect,
+	"id" | "datasetId" | "storageBucket" | "publicUrl"
+>;
+
+export type CaptionTarget = {
+	asset: Asset;
+	captionId?: number;
+};
+
+type EnqueueOptions = {
+	targets: CaptionTarget[];
+	modelId?: number | null;
+	promptTemplateId?: number | null;
+	/** Pins this revision of the template instead of its active one. */
+	promptRevisionId?: number | null;
+	requestedBy?: string | null;
+	/** New captions are created for this experiment arm instead of the asset's main caption. */
+	experimentArmId?: number | null;
+};
+
+export async function resolvePromptTemplate(promptTemplateId?: number | null) {
+	if (promptTemplateId) {
+		const [template] = await db
+			.select()
+			.from(promptTemplates)
+			.where(eq(promptTemplates.id, promptTemplateId))
+			.limit(1);
+		if (!template) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "Prompt template not found",
+			});
+		}
+		return template;
+	}
+
+	const [template] = await db
+		.select()
+		.from(promptTemplates)
+		.where(
+			and(
+				eq(promptTemplates.isDefault, true),
+				eq(promptTemplates.isActive, true),
+			),
+		)
+		.limit(1);
+	return template ?? null;
+}
+
+/**
+ * Picks the caption row each asset's job should write into: the newest caption
+ * that is not approved yet. Assets whose latest caption is approved are skipped
+ * unless `includeApproved` is set.
+ */
+export async function resolveCaptionTargets(
+	assets: Asset[],
+	options: { includeApproved?: boolean } = {},
+) {
+	if (!assets.length) {
+		return { targets: [] as CaptionTarget[], skippedApproved: 0 };
+	}
+
+	const existing = await db
+		.select({
+			id: captions.id,
+			mediaAssetId: captions.mediaAssetId,
+			status: captions.status,
+		})
+		.from(captions)
+		.where(
+			and(
+				inArray(
+					captions.mediaAssetId,
+					assets.map((asset) => asset.id),
+				),
+				isNull(captions.experimentArmId),
+			),
+		)
+		.orderBy(desc(captions.createdAt));
+
+	const latestByAsset = new Map<number, (typeof existing)[number]>();
+	for (const row of existing) {
+		if (!latestByAsset.has(row.mediaAssetId)) {
+			latestByAsset.set(row.mediaAssetId, row);
+		}
+	}
+
+	const targets: CaptionTarget[] = [];
+	let skippedApproved = 0;
+	for (const asset of assets) {
+		const latest = latestByAsset.get(asset.id);
+		if (latest?.status === "approved" && !options.includeApproved) {
+			skippedApproved += 1;
+			continue;
+		}
+		targets.push({ asset, captionId: latest?.id });
+	}
+
+	return { targets, skippedApproved };
+}
+
+/** The template, model and revision a caption job would run with. */
+export async function resolveCaptionSetup({
+	modelId,
+	promptTemplateId,
+	promptRevisionId,
+}: Pick<EnqueueOptions, "modelId" | "promptTemplateId" | "promptRevisionId">) {
+	const template = await resolvePromptTemplate(promptTemplateId);
+	const model = await resolveTemplateModel(modelId, template?.model);
+	return {
+		template,
+		model,
+		promptRevisionId: template
+			? (promptRevisionId ?? (await ensureActiveRevision(template)))
+			: null,
+	};
+}
+
+export async function enqueueCaptionJobs({
+	targets,
+	modelId,
+	promptTemplateId,
+	promptRevisionId: pinnedRevisionId,
+	requestedBy,
+	experimentArmId,
+}: EnqueueOptions) {
+	const { template, model, promptRevisionId } = await resolveCaptionSetup({
+		modelId,
+		promptTemplateId,
+		promptRevisionId: pinnedRevisionId,
+	});
+
+	let skippedMissingUrl = 0;
+	const runnable = targets.filter((target) => {
+		if (
+			!target.asset.publicUrl &&
+			!isPrivateBucket(target.asset.storageBucket)
+		) {
+			skippedMissingUrl += 1;
+			return false;
+		}
+		return true;
+	});
+
+	const reusedCaptionIds = runnable
+		.map((target) => target.captionId)
+		.filter((id): id is number => typeof id === "number");
+	const activeJobs = reusedCaptionIds.length
+		? await db
+				.select({ captionId: captionJobs.captionId })
+				.from(captionJobs)
+				.where(
+					and(
+						inArray(captionJobs.captionId, reusedCaptionIds),
+						inArray(captionJobs.status, ["queued", "running"]),
+					),
+				)
+		: [];
+	const activeCaptionIds = new Set(activeJobs.map((job) => job.captionId));
+
+	let skippedActive = 0;
+	const pending = runnable.filter((target) => {
+		if (target.captionId && activeCaptionIds.has(target.captionId)) {
+			skippedActive += 1;
+			return false;
+		}
+		return true;
+	});
+
+	const summary = {
+		count: 0,
+		skippedMissingUrl,
+		skippedActive,
+		captionIds: [] as number[],
+		modelId: model.id,
+		promptTemplateId: template?.id ?? null,
+		promptRevisionId,
+	};
+
+	if (!pending.length) {
+		return summary;
+	}
+
+	const now = new Date();
+	const captionFields = {
+		status: "processing" as const,
+		promptTemplateId: template?.id ?? null,
+		promptRevisionId,
+		modelId: model.id || null,
+		processingError: null,
+		updatedAt: now,
+	};
+
+	const toReuse = pending
+		.map((target) => target.captionId)
+		.filter((id): id is number => typeof id === "number");
+	if (toReuse.length) {
+		await db
+			.update(captions)
+			.set({
+				...captionFields,
+				rejectionReason: null,
+				failureCategory: null,
+				approvedAt: null,
+				approvedBy: null,
+				attempts: 0,
+			})
+			.where(inArray(captions.id, toReuse));
+	}
+
+	const toCreate = pending.filter((target) => !target.captionId);
+	const created = toCreate.length
+		? await db
+				.insert(captions)
+				.values(
+					toCreate.map((target) => ({
+						...captionFields,
+						mediaAssetId: target.asset.id,
+						experimentArmId: experimentArmId ?? null,
+						createdAt: now,
+					})),
+				)
+				.returning({ id: captions.id, mediaAssetId: captions.mediaAssetId })
+		: [];
+	const createdByAsset = new Map(
+		created.map((row) => [row.mediaAssetId, row.id]),
+	);
+
+	const jobs = pending.map((target) => {
+		const captionId = target.captionId ?? createdByAsset.get(target.asset.id);
+		return {
+			datasetId: target.asset.datasetId,
+			assetId: target.asset.id,
+			captionId,
+			modelId: model.id || null,
+			promptTemplateId: template?.id ?? null,
+			promptRevisionId,
+			imageUrl: target.asset.publicUrl,
+			status: "queued" as const,
+			requestedBy: requestedBy ?? null,
+			createdAt: now,
+			updatedAt: now,
+		};
+	});
+
+	await db.insert(captionJobs).values(jobs);
+
+	summary.count = jobs.length;
+	summary.captionIds = jobs
+		.map((job) => job.captionId)
+		.filter((id): id is number => typeof id === "number");
+	return summary;
+}
+
+/**
+ * Captions left in `processing` without a queued or running job (for example
+ * rows created before jobs were linked to captions) get a fresh job so the
+ * worker picks them up. A group whose template or model is gone drops back
+ * to `pending` with the reason instead of blocking the other groups.
+ */
+export async function adoptOrphanCaptions(limit = 200) {
+	const orphans = await db
+		.select({
+			captionId: captions.id,
+			promptTemplateId: captions.promptTemplateId,
+			promptRevisionId: captions.promptRevisionId,
+			modelId: captions.modelId,
+			asset: {
+				id: mediaAssets.id,
+				datasetId: mediaAssets.datasetId,
+				storageBucket: mediaAssets.storageBucket,
+				publicUrl: mediaAssets.publicUrl,
+			},
+		})
+		.from(captions)
+		.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
+		.leftJoin(
+			captionJobs,
+			and(
+				eq(captionJobs.captionId, captions.id),
+				inArray(captionJobs.status, ["queued", "running"]),
+			),
+		)
+		.where(and(eq(captions.status, "processing"), isNull(captionJobs.id)))
+		.limit(limit);
+
+	const groups = new Map<string, typeof orphans>();
+	for (const orphan of orphans) {
+		const key = `${orphan.promptTemplateId ?? 0}:${orphan.promptRevisionId ?? 0}:${orphan.modelId ?? 0}`;
+		const group = groups.get(key) ?? [];
+		group.push(orphan);
+		groups.set(key, group);
+	}
+
+	let adopted = 0;
+	for (const group of groups.values()) {
+		const [first] = group;
+		if (!first) {
+			continue;
+		}
+		try {
+			const result = await enqueueCaptionJobs({
+				targets: group.map((orphan) => ({
+					asset: orphan.asset,
+					captionId: orphan.captionId,
+				})),
+				modelId: first.modelId,
+				promptTemplateId: first.promptTemplateId,
+				promptRevisionId: first.promptRevisionId,
+				requestedBy: "system:adopt",
+			});
+			adopted += result.count;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			await db
+				.update(captions)
+				.set({
+					status: "pending",
+					processingError: `无法重新排队：${message}`,
+					updatedAt: new Date(),
+				})
+				.where(
+					and(
+						inArray(
+							captions.id,
+							group.map((orphan) => orphan.captionId),
+						),
+						eq(captions.status, "processing"),
+					),
+				);
+		}
+	}
+
+	return adopted;
+}
@@ -0,0 +1,280 @@
+import { db } from "@cyop/db";
+import {
+	and,
+	asc,
+	eq,
+	gt,
+	inArray,
+	isNull,
+	lt,
+	lte,
+	or,
+	sql,
+} from "@cyop/db/drizzle-orm";
+import { captionJobs, captions, queueWorkers } from "@cyop/db/schema/platform";
+
+export const DEFAULT_LEASE_MS = 2 * 60 * 1000;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+type ClaimOptions = {
+	workerId: string;
+	limit: number;
+	leaseMs?: number;
+};
+
+type LeaseOptions = {
+	workerId: string;
+	jobIds: number[];
+	leaseMs?: number;
+};
+
+export type ClaimedCaptionJob = typeof captionJobs.$inferSelect;
+
+function leaseDeadline(now: Date, leaseMs = DEFAULT_LEASE_MS) {
+	return new Date(now.getTime() + leaseMs);
+}
+
+/**
+ * Exponential backoff with full jitter, never shorter than the provider's
+ * `Retry-After`.
+ */
+export function computeRetryDelay(attempt: number, retryAfterMs?: number) {
+	const ceiling = Math.min(
+		RETRY_MAX_MS,
+		RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1),
+	);
+	const backoff = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+	return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+export async function claimCaptionJobs({
+	workerId,
+	limit,
+	leaseMs,
+}: ClaimOptions): Promise<ClaimedCaptionJob[]> {
+	if (limit <= 0) {
+		return [];
+	}
+
+	const now = new Date();
+	const claimable = db
+		.select({ id: captionJobs.id })
+		.from(captionJobs)
+		.where(
+			or(
+				and(
+					eq(captionJobs.status, "queued"),
+					or(
+						isNull(captionJobs.availableAt),
+						lte(captionJobs.availableAt, now),
+					),
+				),
+				and(
+					eq(captionJobs.status, "running"),
+					lt(captionJobs.leaseExpiresAt, now),
+				),
+			),
+		)
+		.orderBy(asc(captionJobs.createdAt))
+		.limit(limit)
+		.for("update", { skipLocked: true });
+
+	return await db
+		.update(captionJobs)
+		.set({
+			status: "running",
+			attempts: sql`${captionJobs.attempts} + 1`,
+			leaseOwner: workerId,
+			leaseExpiresAt: leaseDeadline(now, leaseMs),
+			heartbeatAt: now,
+			startedAt: now,
+			updatedAt: now,
+		})
+		.where(inArray(captionJobs.id, claimable))
+		.returning();
+}
+
+export async function extendLeases({
+	workerId,
+	jobIds,
+	leaseMs,
+}: LeaseOptions) {
+	if (!jobIds.length) {
+		return;
+	}
+
+	const now = new Date();
+	await db
+		.update(captionJobs)
+		.set({ leaseExpiresAt: leaseDeadline(now, leaseMs), heartbeatAt: now })
+		.where(
+			and(
+				inArray(captionJobs.id, jobIds),
+				eq(captionJobs.leaseOwner, workerId),
+			),
+		);
+}
+
+export async function releaseLeases({
+	workerId,
+	jobIds,
+}: Omit<LeaseOptions, "leaseMs">) {
+	if (!jobIds.length) {
+		return;
+	}
+
+	await db
+		.update(captionJobs)
+		.set({
+			status: "queued",
+			attempts: sql`greatest(${captionJobs.attempts} - 1, 0)`,
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			startedAt: null,
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				inArray(captionJobs.id, jobIds),
+				eq(captionJobs.leaseOwner, workerId),
+				eq(captionJobs.status, "running"),
+			),
+		);
+}
+
+/**
+ * Puts a claimed job back without counting the attempt, e.g. when the model's
+ * rate limit is exhausted and the call never went out.
+ */
+export async function deferCaptionJob({
+	workerId,
+	jobId,
+	delayMs,
+}: {
+	workerId: string;
+	jobId: number;
+	delayMs: number;
+}) {
+	const now = new Date();
+	await db
+		.update(captionJobs)
+		.set({
+			status: "queued",
+			attempts: sql`greatest(${captionJobs.attempts} - 1, 0)`,
+			availableAt: new Date(now.getTime() + delayMs),
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			startedAt: null,
+			updatedAt: now,
+		})
+		.where(
+			and(eq(captionJobs.id, jobId), eq(captionJobs.leaseOwner, workerId)),
+		);
+}
+
+export async function requeueExpiredLeases() {
+	const now = new Date();
+
+	const jobs = await db
+		.update(captionJobs)
+		.set({
+			status: "queued",
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			startedAt: null,
+			updatedAt: now,
+		})
+		.where(
+			and(
+				eq(captionJobs.status, "running"),
+				lt(captionJobs.leaseExpiresAt, now),
+			),
+		)
+		.returning({ id: captionJobs.id });
+
+	return jobs.length;
+}
+
+type WorkerHeartbeat = {
+	workerId: string;
+	hostname?: string | null;
+	concurrency: number;
+	activeCount: number;
+};
+
+export async function recordWorkerHeartbeat({
+	workerId,
+	hostname,
+	concurrency,
+	activeCount,
+}: WorkerHeartbeat) {
+	const now = new Date();
+	await db
+		.insert(queueWorkers)
+		.values({
+			id: workerId,
+			hostname: hostname ?? null,
+			concurrency,
+			activeCount,
+			startedAt: now,
+			heartbeatAt: now,
+		})
+		.onConflictDoUpdate({
+			target: queueWorkers.id,
+			set: { concurrency, activeCount, heartbeatAt: now, stoppedAt: null },
+		});
+}
+
+export async function markWorkerStopped(workerId: string) {
+	const now = new Date();
+	await db
+		.update(queueWorkers)
+		.set({ activeCount: 0, heartbeatAt: now, stoppedAt: now })
+		.where(eq(queueWorkers.id, workerId));
+}
+
+export async function getQueueStatus(staleAfterMs = DEFAULT_LEASE_MS) {
+	const now = new Date();
+	const aliveSince = new Date(now.getTime() - staleAfterMs);
+
+	const [jobCounts, captionCounts, workers] = await Promise.all([
+		db
+			.select({
+				status: captionJobs.status,
+				count: sql<number>`count(*)::int`,
+				delayed: sql<number>`(count(*) filter (where ${captionJobs.availableAt} > ${now}))::int`,
+			})
+			.from(captionJobs)
+			.groupBy(captionJobs.status),
+		db
+			.select({ total: sql<number>`count(*)::int` })
+			.from(captions)
+			.where(eq(captions.status, "processing")),
+		db
+			.select()
+			.from(queueWorkers)
+			.where(
+				and(
+					isNull(queueWorkers.stoppedAt),
+					gt(queueWorkers.heartbeatAt, aliveSince),
+				),
+			)
+			.orderBy(asc(queueWorkers.startedAt)),
+	]);
+
+	const jobs = { queued: 0, running: 0, succeeded: 0, failed: 0, retrying: 0 };
+	for (const row of jobCounts) {
+		jobs[row.status] = row.count;
+		if (row.status === "queued") {
+			jobs.retrying = row.delayed;
+		}
+	}
+	const [captionRow] = captionCounts;
+
+	return {
+		jobs,
+		captions: { processing: captionRow?.total ?? 0 },
+		workers,
+	};
+}
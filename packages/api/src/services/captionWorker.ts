@@ -1,110 +1,618 @@
 import { db } from "@cyop/db";
-import { and, eq, isNotNull } from "@cyop/db/drizzle-orm";
+import { and, eq, sql } from "@cyop/db/drizzle-orm";
 import {
+	captionJobs,
 	captions,
+	datasets,
 	mediaAssets,
+	promptTemplateRevisions,
 	promptTemplates,
 } from "@cyop/db/schema/platform";
-import { generateCaptionsBatch } from "./openai";
-
-type ProcessResult = {
-	processed: number;
-	succeeded: number;
-	failed: number;
-	errors: Array<{ captionId: number; error: string }>;
-};
-
-export async function processPendingCaptions(
-	limit = 10,
-	concurrency = 3,
-): Promise<ProcessResult> {
-	const pendingCaptions = await db
-		.select({
-			captionId: captions.id,
-			imageUrl: mediaAssets.publicUrl,
-			systemPrompt: promptTemplates.systemPrompt,
-			userPrompt: promptTemplates.userPromptTemplate,
-			model: promptTemplates.model,
-			maxTokens: promptTemplates.maxTokens,
-			temperature: promptTemplates.temperature,
+import { TRPCError } from "@trpc/server";
+import { applyAutoApproval } from "./autoApproval";
+import { generateCaption, generateTags, resolveModelImageUrl } from "./caption";
+import {
+	type ClaimedCaptionJob,
+	computeRetryDelay,
+	deferCaptionJob,
+} from "./captionQueue";
+import { recomputeDatasetTags, replaceAssetTags } from "./datasetTags";
+import { embedAsset } from "./embeddings";
+import { markIngestFailed, runIngestTask } from "./ingest";
+import { markProcessingFailed, processMediaAsset } from "./mediaProcessing";
+import {
+	resolveEmbeddingModel,
+	resolveTagModel,
+	resolveTemplateModel,
+} from "./models";
+import type { OutputSchema } from "./outputSchema";
+import { loadPromptContext, renderPromptTemplate } from "./promptTemplate";
+import { ProviderError, toProviderError } from "./providers";
+import { ModelThrottledError } from "./rateLimiter";
+import { recordFailedUsage, recordModelUsage } from "./usage";
+
+function toJobFailure(error: unknown) {
+	// Model lookup errors (missing or disabled model) will not fix themselves.
+	if (error instanceof TRPCError) {
+		return new ProviderError(error.message, {
+			category: "bad_request",
+			cause: error,
+		});
+	}
+	return toProviderError(error);
+}
+
+async function loadJobContext(job: ClaimedCaptionJob) {
+	const [asset, template] = await Promise.all([
+		job.assetId
+			? db
+					.select()
+					.from(mediaAssets)
+					.where(eq(mediaAssets.id, job.assetId))
+					.limit(1)
+					.then(([row]) => row)
+			: Promise.resolve(undefined),
+		job.promptTemplateId
+			? db
+					.select()
+					.from(promptTemplates)
+					.where(eq(promptTemplates.id, job.promptTemplateId))
+					.limit(1)
+					.then(([row]) => row)
+			: Promise.resolve(undefined),
+	]);
+	// Jobs pin the revision that was active when they were queued, so later
+	// edits to the template do not change what an already-queued job runs.
+	const revision = job.promptRevisionId
+		? await db
+				.select()
+				.from(promptTemplateRevisions)
+				.where(eq(promptTemplateRevisions.id, job.promptRevisionId))
+				.limit(1)
+				.then(([row]) => row)
+		: undefined;
+
+	return {
+		asset,
+		template,
+		prompt: revision ?? template,
+		promptRevisionId: revision?.id ?? template?.activeRevisionId ?? null,
+	};
+}
+
+function ownedBy(job: ClaimedCaptionJob, workerId: string) {
+	return and(eq(captionJobs.id, job.id), eq(captionJobs.leaseOwner, workerId));
+}
+
+/** Whether the job's asset or dataset was moved to the trash after queueing. */
+async function isTrashed(job: ClaimedCaptionJob) {
+	if (job.assetId) {
+		const [row] = await db
+			.select({
+				assetDeletedAt: mediaAssets.deletedAt,
+				datasetDeletedAt: datasets.deletedAt,
+			})
+			.from(mediaAssets)
+			.innerJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
+			.where(eq(mediaAssets.id, job.assetId))
+			.limit(1);
+		return Boolean(row?.assetDeletedAt || row?.datasetDeletedAt);
+	}
+	if (job.datasetId) {
+		const [row] = await db
+			.select({ deletedAt: datasets.deletedAt })
+			.from(datasets)
+			.where(eq(datasets.id, job.datasetId))
+			.limit(1);
+		return Boolean(row?.deletedAt);
+	}
+	return false;
+}
+
+/**
+ * Fails a job for a trashed asset or dataset without calling any model, and
+ * puts its caption or asset back where a restore can pick it up again.
+ */
+async function cancelTrashedJob(job: ClaimedCaptionJob, workerId: string) {
+	const message = "素材或数据集已移入回收站，任务已取消";
+	const now = new Date();
+	const [cancelled] = await db
+		.update(captionJobs)
+		.set({
+			status: "failed",
+			error: message,
+			failureCategory: "bad_request",
+			availableAt: null,
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			completedAt: now,
+			updatedAt: now,
+		})
+		.where(ownedBy(job, workerId))
+		.returning({ id: captionJobs.id });
+	if (!cancelled) {
+		return;
+	}
+
+	if (job.captionId) {
+		await db
+			.update(captions)
+			.set({ status: "pending", processingError: message, updatedAt: now })
+			.where(
+				and(eq(captions.id, job.captionId), eq(captions.status, "processing")),
+			);
+	}
+	if (job.jobType === "process" && job.assetId) {
+		await db
+			.update(mediaAssets)
+			.set({ status: "uploaded", updatedAt: now })
+			.where(
+				and(
+					eq(mediaAssets.id, job.assetId),
+					eq(mediaAssets.status, "processing"),
+				),
+			);
+	}
+	const taskId = ingestTaskId(job);
+	if (job.jobType === "ingest" && taskId) {
+		await markIngestFailed(taskId, message);
+	}
+}
+
+async function runTagJob(job: ClaimedCaptionJob, workerId: string) {
+	const [asset] = job.assetId
+		? await db
+				.select()
+				.from(mediaAssets)
+				.where(eq(mediaAssets.id, job.assetId))
+				.limit(1)
+		: [];
+	if (!asset) {
+		throw new ProviderError("标签任务缺少素材", { category: "bad_request" });
+	}
+	// Resolved at run time: signed URLs expire while a job waits in the queue.
+	const imageUrl = await resolveModelImageUrl(asset);
+	if (!imageUrl) {
+		throw new ProviderError("任务缺少 imageUrl", {
+			category: "bad_request",
+		});
+	}
+
+	const model = await resolveTagModel(job.modelId);
+	const result = await generateTags({
+		imageUrl,
+		prompt: job.prompt ?? undefined,
+		model,
+	}).catch((error: unknown) =>
+		recordFailedUsage(error, {
+			model,
+			source: "worker",
+			datasetId: asset.datasetId,
+			captionJobId: job.id,
+			requestedBy: job.requestedBy,
+		}),
+	);
+	const costMicros = await recordModelUsage({
+		model,
+		modelName: result.model,
+		usage: result.usage,
+		source: "worker",
+		datasetId: asset.datasetId,
+		captionJobId: job.id,
+		requestedBy: job.requestedBy,
+	});
+	const completedAt = new Date();
+
+	const [finished] = await db
+		.update(captionJobs)
+		.set({
+			status: "succeeded",
+			modelId: model.id,
+			caption: result.tags.map((tag) => tag.label).join(", "),
+			promptTokens: result.usage.promptTokens,
+			completionTokens: result.usage.completionTokens,
+			costMicros,
+			metadata: sql`${captionJobs.metadata} || ${JSON.stringify({
+				tags: result.tags,
+			})}::jsonb`,
+			error: null,
+			failureCategory: null,
+			availableAt: null,
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			completedAt,
+			updatedAt: completedAt,
+		})
+		.where(ownedBy(job, workerId))
+		.returning({ id: captionJobs.id });
+
+	if (finished) {
+		await replaceAssetTags({
+			asset,
+			source: "model",
+			tags: result.tags,
+			modelId: model.id,
+		});
+		await recomputeDatasetTags(asset.datasetId);
+	}
+}
+
+async function runEmbeddingJob(job: ClaimedCaptionJob, workerId: string) {
+	const [asset] = job.assetId
+		? await db
+				.select()
+				.from(mediaAssets)
+				.where(eq(mediaAssets.id, job.assetId))
+				.limit(1)
+		: [];
+	if (!asset) {
+		throw new ProviderError("向量任务缺少素材", { category: "bad_request" });
+	}
+
+	const model = await resolveEmbeddingModel(job.modelId);
+	const result = await embedAsset(asset, model).catch((error: unknown) =>
+		recordFailedUsage(error, {
+			model,
+			source: "worker",
+			datasetId: asset.datasetId,
+			captionJobId: job.id,
+			requestedBy: job.requestedBy,
+		}),
+	);
+	const costMicros = result.embedded.length
+		? await recordModelUsage({
+				model,
+				modelName: result.modelName,
+				usage: result.usage,
+				source: "worker",
+				datasetId: asset.datasetId,
+				captionJobId: job.id,
+				requestedBy: job.requestedBy,
+			})
+		: 0;
+	const completedAt = new Date();
+
+	await db
+		.update(captionJobs)
+		.set({
+			status: "succeeded",
+			modelId: model.id,
+			promptTokens: result.usage.promptTokens,
+			completionTokens: result.usage.completionTokens,
+			costMicros,
+			metadata: sql`${captionJobs.metadata} || ${JSON.stringify({
+				embedded: result.embedded,
+				...(result.failed.length ? { embeddingFailures: result.failed } : {}),
+			})}::jsonb`,
+			error: null,
+			failureCategory: null,
+			availableAt: null,
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			completedAt,
+			updatedAt: completedAt,
+		})
+		.where(ownedBy(job, workerId));
+}
+
+async function runProcessJob(job: ClaimedCaptionJob, workerId: string) {
+	const [asset] = job.assetId
+		? await db
+				.select()
+				.from(mediaAssets)
+				.where(eq(mediaAssets.id, job.assetId))
+				.limit(1)
+		: [];
+	if (!asset) {
+		throw new ProviderError("处理任务缺少素材", { category: "bad_request" });
+	}
+
+	const processed = await processMediaAsset(asset);
+	const completedAt = new Date();
+
+	await db
+		.update(captionJobs)
+		.set({
+			status: "succeeded",
+			metadata: sql`${captionJobs.metadata} || ${JSON.stringify({
+				mimeType: processed?.mimeType,
+				width: processed?.width,
+				height: processed?.height,
+				thumbnails: Object.keys(processed?.thumbnails ?? {}),
+			})}::jsonb`,
+			error: null,
+			failureCategory: null,
+			availableAt: null,
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			completedAt,
+			updatedAt: completedAt,
 		})
-		.from(captions)
-		.innerJoin(mediaAssets, eq(captions.mediaAssetId, mediaAssets.id))
-		.leftJoin(
-			promptTemplates,
-			eq(captions.promptTemplateId, promptTemplates.id),
-		)
-		.where(
-			and(eq(captions.status, "processing"), isNotNull(mediaAssets.publicUrl)),
-		)
-		.limit(limit);
-
-	if (pendingCaptions.length === 0) {
-		return { processed: 0, succeeded: 0, failed: 0, errors: [] };
+		.where(ownedBy(job, workerId));
+}
+
+function ingestTaskId(job: ClaimedCaptionJob) {
+	const taskId = job.metadata.taskId;
+	return typeof taskId === "number" ? taskId : undefined;
+}
+
+async function runIngestJob(job: ClaimedCaptionJob, workerId: string) {
+	const taskId = ingestTaskId(job);
+	if (!taskId) {
+		throw new ProviderError("导入任务缺少 taskId", { category: "bad_request" });
 	}
 
-	const defaultSystemPrompt =
-		"You are an expert image analyst. Describe the image in detail, focusing on the main subject, composition, colors, and any notable elements.";
-	const defaultUserPrompt = "Please describe this image in detail.";
-
-	const jobs = pendingCaptions
-		.filter((c): c is typeof c & { imageUrl: string } => c.imageUrl !== null)
-		.map((c) => ({
-			captionId: c.captionId,
-			imageUrl: c.imageUrl,
-			systemPrompt: c.systemPrompt || defaultSystemPrompt,
-			userPrompt: c.userPrompt || defaultUserPrompt,
-			model: c.model || "gpt-4o",
-			maxTokens: c.maxTokens || 500,
-			temperature: (c.temperature || 70) / 100,
-		}));
-
-	const results = await generateCaptionsBatch(jobs, concurrency);
-	const errors = results
-		.filter((result) => !result.success || !result.caption)
-		.map((result) => ({
-			captionId: result.captionId,
-			error: result.error || "Unknown error",
-		}));
-	const succeeded = results.filter(
-		(result) => result.success && Boolean(result.caption),
-	).length;
-	const failed = results.length - succeeded;
-
-	await Promise.all(
-		results.map((result) => {
-			if (result.success && result.caption) {
-				const completedAt = new Date();
-				return db
+	const summary = await runIngestTask(taskId, {
+		requestedBy: job.requestedBy,
+	});
+	const completedAt = new Date();
+
+	await db
+		.update(captionJobs)
+		.set({
+			status: "succeeded",
+			metadata: sql`${captionJobs.metadata} || ${JSON.stringify({
+				created: summary.created,
+				failed: summary.failed,
+			})}::jsonb`,
+			error: null,
+			failureCategory: null,
+			availableAt: null,
+			leaseOwner: null,
+			leaseExpiresAt: null,
+			completedAt,
+			updatedAt: completedAt,
+		})
+		.where(ownedBy(job, workerId));
+}
+
+export async function runCaptionJob(job: ClaimedCaptionJob, workerId: string) {
+	const ownedJob = ownedBy(job, workerId);
+
+	try {
+		if (job.attempts > job.maxAttempts) {
+			throw new ProviderError("任务多次中断，已超过最大重试次数", {
+				category: "timeout",
+			});
+		}
+
+		if (await isTrashed(job)) {
+			await cancelTrashedJob(job, workerId);
+			return false;
+		}
+
+		if (job.jobType === "tag") {
+			await runTagJob(job, workerId);
+			return true;
+		}
+
+		if (job.jobType === "embed") {
+			await runEmbeddingJob(job, workerId);
+			return true;
+		}
+
+		if (job.jobType === "process") {
+			await runProcessJob(job, workerId);
+			return true;
+		}
+
+		if (job.jobType === "ingest") {
+			await runIngestJob(job, workerId);
+			return true;
+		}
+
+		const { asset, template, prompt, promptRevisionId } =
+			await loadJobContext(job);
+		const imageUrl = asset ? await resolveModelImageUrl(asset) : job.imageUrl;
+		if (!imageUrl) {
+			throw new ProviderError("任务缺少 imageUrl", {
+				category: "bad_request",
+			});
+		}
+
+		const [model, context] = await Promise.all([
+			resolveTemplateModel(job.modelId, prompt?.model),
+			asset ? loadPromptContext(asset.id) : Promise.resolve(null),
+		]);
+		const render = (text: string | null | undefined) =>
+			text && context
+				? renderPromptTemplate(text, context)
+				: (text ?? undefined);
+		const result = await generateCaption({
+			imageUrl,
+			systemPrompt: render(prompt?.systemPrompt),
+			prompt: render(prompt?.userPromptTemplate ?? job.prompt),
+			model,
+			maxTokens: prompt?.maxTokens,
+			temperature: prompt ? prompt.temperature / 100 : undefined,
+			confidenceStrategy: prompt?.confidenceStrategy,
+			consistencySamples: prompt?.consistencySamples,
+			outputSchema: prompt?.outputSchema as OutputSchema | null | undefined,
+		}).catch((error: unknown) =>
+			recordFailedUsage(error, {
+				model,
+				source: "worker",
+				datasetId: job.datasetId ?? asset?.datasetId,
+				captionJobId: job.id,
+				captionId: job.captionId,
+				requestedBy: job.requestedBy,
+			}),
+		);
+		const costMicros = await recordModelUsage({
+			model,
+			modelName: result.model,
+			usage: result.usage,
+			source: "worker",
+			datasetId: job.datasetId ?? asset?.datasetId,
+			captionJobId: job.id,
+			captionId: job.captionId,
+			requestedBy: job.requestedBy,
+		});
+		const completedAt = new Date();
+
+		const [finished] = await db
+			.update(captionJobs)
+			.set({
+				status: "succeeded",
+				modelId: model.id || null,
+				caption: result.caption,
+				promptTokens: result.usage.promptTokens,
+				completionTokens: result.usage.completionTokens,
+				costMicros,
+				promptRevisionId,
+				error: null,
+				failureCategory: null,
+				availableAt: null,
+				leaseOwner: null,
+				leaseExpiresAt: null,
+				completedAt,
+				updatedAt: completedAt,
+			})
+			.where(ownedJob)
+			.returning({ id: captionJobs.id });
+
+		if (finished && job.captionId) {
+			const [stored] = await db
+				.update(captions)
+				.set({
+					aiCaption: result.caption,
+					finalCaption: result.caption,
+					status: "completed",
+					modelId: model.id || null,
+					model: result.model,
+					promptTemplateId: template?.id ?? null,
+					promptRevisionId,
+					confidence: result.confidence,
+					tokensUsed: result.tokensUsed,
+					metadata: sql`${captions.metadata} || ${JSON.stringify({
+						confidence: result.confidenceDetails,
+						structured: result.structured ?? null,
+					})}::jsonb`,
+					processingError: null,
+					failureCategory: null,
+					attempts: job.attempts,
+					generatedAt: completedAt,
+					updatedAt: completedAt,
+				})
+				.where(
+					and(
+						eq(captions.id, job.captionId),
+						eq(captions.status, "processing"),
+					),
+				)
+				.returning({ experimentArmId: captions.experimentArmId });
+
+			const tags = result.structured?.tags;
+			// Experiment arm captions are not the asset's caption of record.
+			if (stored && !stored.experimentArmId && asset && Array.isArray(tags)) {
+				await replaceAssetTags({
+					asset,
+					source: "caption",
+					tags,
+					modelId: model.id,
+				});
+				await recomputeDatasetTags(asset.datasetId);
+			}
+			await applyAutoApproval(job.captionId);
+		}
+
+		return true;
+	} catch (error) {
+		if (error instanceof ModelThrottledError) {
+			await deferCaptionJob({
+				workerId,
+				jobId: job.id,
+				delayMs: error.retryAfterMs,
+			});
+			return false;
+		}
+
+		const failure = toJobFailure(error);
+		const now = new Date();
+		const willRetry = failure.retryable && job.attempts < job.maxAttempts;
+
+		if (willRetry) {
+			const delayMs = computeRetryDelay(job.attempts, failure.retryAfterMs);
+			const message = `${failure.message}（第 ${job.attempts}/${job.maxAttempts} 次尝试，${Math.ceil(delayMs / 1000)} 秒后重试）`;
+
+			const [rescheduled] = await db
+				.update(captionJobs)
+				.set({
+					status: "queued",
+					error: message,
+					failureCategory: failure.category,
+					availableAt: new Date(now.getTime() + delayMs),
+					leaseOwner: null,
+					leaseExpiresAt: null,
+					startedAt: null,
+					updatedAt: now,
+				})
+				.where(ownedJob)
+				.returning({ id: captionJobs.id });
+
+			if (rescheduled && job.captionId) {
+				await db
 					.update(captions)
 					.set({
-						aiCaption: result.caption,
-						finalCaption: result.caption,
-						status: "completed",
-						model: result.model,
-						confidence: result.confidence,
-						tokensUsed: result.tokensUsed,
-						generatedAt: completedAt,
-						updatedAt: completedAt,
+						processingError: message,
+						failureCategory: failure.category,
+						attempts: job.attempts,
+						updatedAt: now,
 					})
-					.where(eq(captions.id, result.captionId));
+					.where(
+						and(
+							eq(captions.id, job.captionId),
+							eq(captions.status, "processing"),
+						),
+					);
 			}
 
-			return db
+			return false;
+		}
+
+		const [finished] = await db
+			.update(captionJobs)
+			.set({
+				status: "failed",
+				error: failure.message,
+				failureCategory: failure.category,
+				availableAt: null,
+				leaseOwner: null,
+				leaseExpiresAt: null,
+				completedAt: now,
+				updatedAt: now,
+			})
+			.where(ownedJob)
+			.returning({ id: captionJobs.id });
+
+		if (finished && job.jobType === "process" && job.assetId) {
+			await markProcessingFailed(job.assetId, failure.message);
+		}
+
+		const taskId = ingestTaskId(job);
+		if (finished && job.jobType === "ingest" && taskId) {
+			await markIngestFailed(taskId, failure.message);
+		}
+
+		if (finished && job.captionId) {
+			await db
 				.update(captions)
 				.set({
 					status: "rejected",
-					rejectionReason: result.error || "Caption generation failed",
-					updatedAt: new Date(),
+					rejectionReason: failure.message,
+					processingError: failure.message,
+					failureCategory: failure.category,
+					attempts: job.attempts,
+					updatedAt: now,
 				})
-				.where(eq(captions.id, result.captionId));
-		}),
-	);
+				.where(
+					and(
+						eq(captions.id, job.captionId),
+						eq(captions.status, "processing"),
+					),
+				);
+		}
 
-	return {
-		processed: results.length,
-		succeeded,
-		failed,
-		errors,
-	};
+		return false;
+	}
 }
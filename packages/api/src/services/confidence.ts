@@ -0,0 +1,122 @@
+import type { confidenceStrategyValues } from "@cyop/db/schema/platform";
+import type { ProviderFinishReason } from "./providers";
+
+export type ConfidenceStrategy = (typeof confidenceStrategyValues)[number];
+
+export type ConfidenceDetails = {
+	strategy: Exclude<ConfidenceStrategy, "auto">;
+	base: number;
+	score: number;
+	penalties: Array<{ reason: string; points: number }>;
+	samples?: number;
+};
+
+const HEURISTIC_BASE = 80;
+const MIN_WORDS = 4;
+const REFUSAL_PATTERN =
+	/\b(i can(?:'|no)t|i am unable|i'm unable|i cannot|as an ai|sorry,? (?:but )?i)\b|无法(?:识别|描述|提供)|抱歉/i;
+
+function clamp(score: number) {
+	return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+function tokenize(text: string) {
+	// Han characters count individually since CJK captions have no spaces.
+	return new Set(
+		text
+			.toLowerCase()
+			.match(/\p{Script=Han}|(?:(?!\p{Script=Han})[\p{L}\p{N}])+/gu) ?? [],
+	);
+}
+
+/** Geometric-mean token probability, as a 0-100 score. */
+export function scoreFromLogprobs(logprobs: number[]) {
+	const mean =
+		logprobs.reduce((sum, value) => sum + value, 0) / logprobs.length;
+	return clamp(Math.exp(mean) * 100);
+}
+
+/** Mean Jaccard similarity between the primary caption and each sample. */
+export function scoreAgreement(primary: string, samples: string[]) {
+	const primaryTokens = tokenize(primary);
+	const similarities = samples.map((sample) => {
+		const tokens = tokenize(sample);
+		let shared = 0;
+		for (const token of tokens) {
+			if (primaryTokens.has(token)) {
+				shared += 1;
+			}
+		}
+		const union = primaryTokens.size + tokens.size - shared;
+		return union === 0 ? 0 : shared / union;
+	});
+	return clamp(
+		(similarities.reduce((sum, value) => sum + value, 0) /
+			similarities.length) *
+			100,
+	);
+}
+
+export function heuristicPenalties(
+	caption: string,
+	finishReason: ProviderFinishReason,
+) {
+	const penalties: ConfidenceDetails["penalties"] = [];
+	const words = caption.split(/\s+/).filter(Boolean).length;
+	// CJK captions have no spaces, so fall back to character count.
+	if (words < MIN_WORDS && caption.length < MIN_WORDS * 4) {
+		penalties.push({ reason: "too_short", points: 25 });
+	}
+	if (REFUSAL_PATTERN.test(caption)) {
+		penalties.push({ reason: "refusal", points: 50 });
+	}
+	if (finishReason === "length") {
+		penalties.push({ reason: "truncated", points: 20 });
+	} else if (finishReason === "content_filter") {
+		penalties.push({ reason: "content_filter", points: 40 });
+	}
+	return penalties;
+}
+
+export function scoreCaption({
+	caption,
+	finishReason,
+	strategy,
+	logprobs,
+	samples,
+}: {
+	caption: string;
+	finishReason: ProviderFinishReason;
+	strategy: ConfidenceStrategy;
+	logprobs?: number[];
+	samples?: string[];
+}): ConfidenceDetails {
+	let resolved: ConfidenceDetails["strategy"] = "heuristic";
+	let base = HEURISTIC_BASE;
+
+	if (strategy === "self_consistency" && samples?.length) {
+		resolved = "self_consistency";
+		base = scoreAgreement(caption, samples);
+	} else if (
+		(strategy === "logprobs" || strategy === "auto") &&
+		logprobs?.length
+	) {
+		resolved = "logprobs";
+		base = scoreFromLogprobs(logprobs);
+	}
+
+	const penalties = heuristicPenalties(caption, finishReason);
+	const score = clamp(
+		penalties.reduce((total, penalty) => total - penalty.points, base),
+	);
+
+	return {
+		strategy: resolved,
+		base,
+		score,
+		penalties,
+		...(resolved === "self_consistency"
+			? { samples: (samples?.length ?? 0) + 1 }
+			: {}),
+	};
+}
@@ -0,0 +1,305 @@
+import { db } from "@cyop/db";
+import { and, eq, inArray, isNull, sql } from "@cyop/db/drizzle-orm";
+import {
+	type assetTagSourceValues,
+	datasets,
+	datasetTags,
+	mediaAssets,
+	mediaAssetTags,
+} from "@cyop/db/schema/platform";
+import { loadTagNormalizer } from "./tagVocabulary";
+
+type AssetTagSource = (typeof assetTagSourceValues)[number];
+
+export type ExtractedTag = { label: string; score?: number | null };
+
+/**
+ * Accepts plain labels or `{ label, score }` objects, maps them to their
+ * canonical vocabulary label and drops case-insensitive duplicates (first
+ * spelling wins).
+ */
+export function normalizeTags(
+	tags: unknown[],
+	canonical: (label: string) => string,
+) {
+	const byKey = new Map<string, ExtractedTag>();
+	for (const tag of tags) {
+		const raw =
+			typeof tag === "string"
+				? { label: tag }
+				: typeof tag === "object" && tag !== null && "label" in tag
+					? (tag as { label: unknown; score?: unknown })
+					: null;
+		if (typeof raw?.label !== "string") {
+			continue;
+		}
+		const label = canonical(raw.label);
+		const key = label.toLowerCase();
+		if (!label || byKey.has(key)) {
+			continue;
+		}
+		byKey.set(key, {
+			label,
+			score: typeof raw.score === "number" ? raw.score : null,
+		});
+	}
+	return [...byKey.values()];
+}
+
+/** Replaces the tags one source produced for an asset. */
+export async function replaceAssetTags({
+	asset,
+	source,
+	tags,
+	modelId,
+}: {
+	asset: { id: number; datasetId: number };
+	source: AssetTagSource;
+	tags: unknown[];
+	modelId?: number | null;
+}) {
+	const normalized = normalizeTags(tags, await loadTagNormalizer());
+
+	await db
+		.delete(mediaAssetTags)
+		.where(
+			and(
+				eq(mediaAssetTags.mediaAssetId, asset.id),
+				eq(mediaAssetTags.source, source),
+			),
+		);
+
+	if (normalized.length) {
+		await db
+			.insert(mediaAssetTags)
+			.values(
+				normalized.map((tag) => ({
+					mediaAssetId: asset.id,
+					datasetId: asset.datasetId,
+					label: tag.label,
+					source,
+					score: tag.score ?? null,
+					modelId: modelId || null,
+				})),
+			)
+			.onConflictDoNothing();
+	}
+
+	return normalized;
+}
+
+async function loadAssets(assetIds: number[]) {
+	return db
+		.select({ id: mediaAssets.id, datasetId: mediaAssets.datasetId })
+		.from(mediaAssets)
+		.where(inArray(mediaAssets.id, assetIds));
+}
+
+async function recomputeDatasets(assets: Array<{ datasetId: number }>) {
+	const datasetIds = [...new Set(assets.map((asset) => asset.datasetId))];
+	for (const datasetId of datasetIds) {
+		await recomputeDatasetTags(datasetId);
+	}
+	return datasetIds;
+}
+
+/** Adds manual tags to assets, keeping whatever tags they already carry. */
+export async function assignAssetTags(assetIds: number[], labels: string[]) {
+	const tags = normalizeTags(labels, await loadTagNormalizer());
+	const assets = tags.length ? await loadAssets(assetIds) : [];
+	if (!assets.length) {
+		return { assets: 0, datasetIds: [] as number[] };
+	}
+
+	await db
+		.insert(mediaAssetTags)
+		.values(
+			assets.flatMap((asset) =>
+				tags.map((tag) => ({
+					mediaAssetId: asset.id,
+					datasetId: asset.datasetId,
+					label: tag.label,
+					source: "manual" as const,
+				})),
+			),
+		)
+		.onConflictDoNothing();
+
+	return { assets: assets.length, datasetIds: await recomputeDatasets(assets) };
+}
+
+/** Removes labels from assets whichever source added them. */
+export async function unassignAssetTags(assetIds: number[], labels: string[]) {
+	const tags = normalizeTags(labels, await loadTagNormalizer());
+	const assets = tags.length ? await loadAssets(assetIds) : [];
+	if (!assets.length) {
+		return { removed: 0, datasetIds: [] as number[] };
+	}
+
+	const removed = await db
+		.delete(mediaAssetTags)
+		.where(
+			and(
+				inArray(
+					mediaAssetTags.mediaAssetId,
+					assets.map((asset) => asset.id),
+				),
+				inArray(
+					sql`lower(${mediaAssetTags.label})`,
+					tags.map((tag) => tag.label.toLowerCase()),
+				),
+			),
+		)
+		.returning({ id: mediaAssetTags.id });
+
+	return {
+		removed: removed.length,
+		datasetIds: await recomputeDatasets(assets),
+	};
+}
+
+/**
+ * Rebuilds a dataset's `datasetTags` from its asset tags: usage is the number
+ * of assets carrying the label, coverage the share of the dataset's assets.
+ * Trashed assets are left out. Auto-generated rows no asset uses any more are
+ * dropped; manually created rows are kept at zero.
+ */
+export async function recomputeDatasetTags(datasetId: number) {
+	const lowered = sql<string>`lower(${mediaAssetTags.label})`;
+	const [[totals], [tagged], usage, existing] = await Promise.all([
+		db
+			.select({ total: sql<number>`count(*)::int` })
+			.from(mediaAssets)
+			.where(
+				and(
+					eq(mediaAssets.datasetId, datasetId),
+					isNull(mediaAssets.deletedAt),
+				),
+			),
+		db
+			.select({
+				count: sql<number>`count(distinct ${mediaAssetTags.mediaAssetId})::int`,
+			})
+			.from(mediaAssetTags)
+			.innerJoin(mediaAssets, eq(mediaAssetTags.mediaAssetId, mediaAssets.id))
+			.where(
+				and(
+					eq(mediaAssetTags.datasetId, datasetId),
+					isNull(mediaAssets.deletedAt),
+				),
+			),
+		db
+			.select({
+				key: lowered,
+				label: sql<string>`min(${mediaAssetTags.label})`,
+				assets: sql<number>`count(distinct ${mediaAssetTags.mediaAssetId})::int`,
+				lastUsedAt: sql<Date>`max(${mediaAssetTags.createdAt})`.mapWith(
+					mediaAssetTags.createdAt,
+				),
+				manual: sql<boolean>`bool_or(${mediaAssetTags.source} = 'manual')`,
+			})
+			.from(mediaAssetTags)
+			.innerJoin(mediaAssets, eq(mediaAssetTags.mediaAssetId, mediaAssets.id))
+			.where(
+				and(
+					eq(mediaAssetTags.datasetId, datasetId),
+					isNull(mediaAssets.deletedAt),
+				),
+			)
+			.groupBy(lowered),
+		db
+			.select({
+				id: datasetTags.id,
+				key: sql<string>`lower(${datasetTags.label})`,
+				autoGenerated: datasetTags.autoGenerated,
+			})
+			.from(datasetTags)
+			.where(eq(datasetTags.datasetId, datasetId)),
+	]);
+
+	const total = totals?.total ?? 0;
+	const percent = (count: number) =>
+		total ? Math.min(100, Math.round((count / total) * 100)) : 0;
+
+	const existingByKey = new Map<string, (typeof existing)[number]>();
+	for (const row of existing) {
+		if (!existingByKey.has(row.key)) {
+			existingByKey.set(row.key, row);
+		}
+	}
+
+	const matched = new Set<number>();
+	const created: Array<typeof datasetTags.$inferInsert> = [];
+	const updates: Promise<unknown>[] = [];
+	for (const row of usage) {
+		const stats = {
+			usageCount: row.assets,
+			coverage: percent(row.assets),
+			lastUsedAt: row.lastUsedAt,
+		};
+		const current = existingByKey.get(row.key);
+		if (current) {
+			matched.add(current.id);
+			updates.push(
+				db
+					.update(datasetTags)
+					.set(
+						current.autoGenerated && row.manual
+							? { ...stats, autoGenerated: false }
+							: stats,
+					)
+					.where(eq(datasetTags.id, current.id)),
+			);
+		} else {
+			created.push({
+				datasetId,
+				label: row.label,
+				// Only tags no person ever assigned count as generated.
+				autoGenerated: !row.manual,
+				...stats,
+			});
+		}
+	}
+
+	const stale = existing.filter((row) => !matched.has(row.id));
+	const staleAuto = stale
+		.filter((row) => row.autoGenerated)
+		.map((row) => row.id);
+	const staleManual = stale
+		.filter((row) => !row.autoGenerated)
+		.map((row) => row.id);
+
+	if (staleAuto.length) {
+		updates.push(
+			db.delete(datasetTags).where(inArray(datasetTags.id, staleAuto)),
+		);
+	}
+	if (staleManual.length) {
+		updates.push(
+			db
+				.update(datasetTags)
+				.set({ usageCount: 0, coverage: 0 })
+				.where(inArray(datasetTags.id, staleManual)),
+		);
+	}
+	if (created.length) {
+		updates.push(db.insert(datasetTags).values(created));
+	}
+	updates.push(
+		db
+			.update(datasets)
+			.set({
+				autoTagCoverage: percent(tagged?.count ?? 0),
+				updatedAt: new Date(),
+			})
+			.where(eq(datasets.id, datasetId)),
+	);
+	await Promise.all(updates);
+
+	return {
+		totalAssets: total,
+		taggedAssets: tagged?.count ?? 0,
+		tags: usage.length,
+		removed: staleAuto.length,
+	};
+}
@@ -0,0 +1,272 @@
+import { db } from "@cyop/db";
+import {
+	and,
+	asc,
+	eq,
+	inArray,
+	isNull,
+	lte,
+	ne,
+	or,
+	sql,
+} from "@cyop/db/drizzle-orm";
+import { datasets, mediaAssets } from "@cyop/db/schema/platform";
+import { THUMBNAIL_SIZES, thumbnailKey } from "./mediaProcessing";
+import { getStorageDriver } from "./storage";
+import { trashAssets } from "./trash";
+
+type Asset = typeof mediaAssets.$inferSelect;
+
+/** dHash distance at or below which two images count as near-duplicates. */
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 6;
+
+const MAX_DUPLICATE_PAIRS = 5000;
+
+export const PERCEPTUAL_HASH_PATTERN = /^[0-9a-f]{16}$/;
+
+/** Assets elsewhere in the library whose bytes match `checksum` exactly. */
+export async function findExactDuplicates(checksum: string, exceptId: number) {
+	return db
+		.select({
+			id: mediaAssets.id,
+			datasetId: mediaAssets.datasetId,
+			datasetName: datasets.name,
+			originalName: mediaAssets.originalName,
+		})
+		.from(mediaAssets)
+		.leftJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
+		.where(
+			and(
+				eq(mediaAssets.checksum, checksum),
+				ne(mediaAssets.id, exceptId),
+				ne(mediaAssets.status, "pending_upload"),
+				isNull(mediaAssets.deletedAt),
+			),
+		)
+		.orderBy(asc(mediaAssets.createdAt))
+		.limit(5);
+}
+
+/**
+ * Groups a dataset's assets with their exact (same checksum) and near
+ * (perceptual hash within `maxDistance` bits) duplicates. With
+ * `crossDataset`, matches from other datasets join the groups too.
+ */
+export async function findDuplicateGroups({
+	datasetId,
+	crossDataset,
+	maxDistance,
+}: {
+	datasetId: number;
+	crossDataset: boolean;
+	maxDistance: number;
+}) {
+	const candidate = db
+		.select({
+			id: mediaAssets.id,
+			storageKey: mediaAssets.storageKey,
+			checksum: mediaAssets.checksum,
+			perceptualHash: mediaAssets.perceptualHash,
+		})
+		.from(mediaAssets)
+		.where(
+			and(
+				ne(mediaAssets.status, "pending_upload"),
+				isNull(mediaAssets.deletedAt),
+				crossDataset ? undefined : eq(mediaAssets.datasetId, datasetId),
+			),
+		)
+		.as("candidate");
+	const distance = sql<number>`bit_count(('x' || ${mediaAssets.perceptualHash})::bit(64) # ('x' || ${candidate.perceptualHash})::bit(64))`;
+
+	const pairs = await db
+		.select({
+			assetId: mediaAssets.id,
+			otherId: candidate.id,
+		})
+		.from(mediaAssets)
+		.innerJoin(
+			candidate,
+			and(
+				ne(candidate.id, mediaAssets.id),
+				// Relinked rows share the object on purpose.
+				ne(candidate.storageKey, mediaAssets.storageKey),
+				or(
+					eq(mediaAssets.checksum, candidate.checksum),
+					lte(distance, maxDistance),
+				),
+			),
+		)
+		.where(
+			and(
+				eq(mediaAssets.datasetId, datasetId),
+				ne(mediaAssets.status, "pending_upload"),
+				isNull(mediaAssets.deletedAt),
+			),
+		)
+		.limit(MAX_DUPLICATE_PAIRS);
+
+	// Union-find over the matched pairs.
+	const parent = new Map<number, number>();
+	const find = (id: number): number => {
+		const next = parent.get(id) ?? id;
+		if (next === id) {
+			return id;
+		}
+		const root = find(next);
+		parent.set(id, root);
+		return root;
+	};
+	for (const pair of pairs) {
+		const a = find(pair.assetId);
+		const b = find(pair.otherId);
+		if (a !== b) {
+			parent.set(Math.max(a, b), Math.min(a, b));
+		}
+	}
+
+	const members = new Map<number, Set<number>>();
+	for (const pair of pairs) {
+		for (const id of [pair.assetId, pair.otherId]) {
+			const root = find(id);
+			members.set(root, (members.get(root) ?? new Set()).add(id));
+		}
+	}
+	if (!members.size) {
+		return { groups: [], truncated: false };
+	}
+
+	const rows = await db
+		.select({ asset: mediaAssets, datasetName: datasets.name })
+		.from(mediaAssets)
+		.leftJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
+		.where(
+			inArray(
+				mediaAssets.id,
+				[...members.values()].flatMap((ids) => [...ids]),
+			),
+		);
+	const rowById = new Map(rows.map((row) => [row.asset.id, row]));
+
+	const groups = [...members.values()]
+		.map((ids) => {
+			const assets = [...ids]
+				.flatMap((id) => {
+					const row = rowById.get(id);
+					return row ? [{ ...row.asset, datasetName: row.datasetName }] : [];
+				})
+				.sort(compareKeepPriority(datasetId));
+			const checksums = new Set(assets.map((asset) => asset.checksum));
+			return {
+				kind:
+					checksums.size === 1 && assets[0]?.checksum
+						? ("exact" as const)
+						: ("near" as const),
+				suggestedKeepId: assets[0]?.id,
+				assets,
+			};
+		})
+		.filter((group) => group.assets.length > 1)
+		.sort((a, b) => b.assets.length - a.assets.length);
+
+	return { groups, truncated: pairs.length >= MAX_DUPLICATE_PAIRS };
+}
+
+/** Prefers assets in the reported dataset, then higher resolution, then the oldest. */
+function compareKeepPriority(datasetId: number) {
+	return (a: Asset, b: Asset) =>
+		Number(b.datasetId === datasetId) - Number(a.datasetId === datasetId) ||
+		(b.width ?? 0) * (b.height ?? 0) - (a.width ?? 0) * (a.height ?? 0) ||
+		b.size - a.size ||
+		a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+type StoredObjectRef = Pick<Asset, "storageBucket" | "storageKey">;
+
+/**
+ * Deletes storage objects (and their thumbnails) no asset row points to any
+ * more. Trashed rows still count, since they can be restored.
+ */
+export async function releaseStorageObjects(objects: StoredObjectRef[]) {
+	const refKey = (object: StoredObjectRef) =>
+		`${object.storageBucket}/${object.storageKey}`;
+	const unique = [
+		...new Map(objects.map((object) => [refKey(object), object])).values(),
+	];
+	if (!unique.length) {
+		return 0;
+	}
+	const stillUsed = await db
+		.select({
+			storageBucket: mediaAssets.storageBucket,
+			storageKey: mediaAssets.storageKey,
+		})
+		.from(mediaAssets)
+		.where(
+			inArray(
+				mediaAssets.storageKey,
+				unique.map((object) => object.storageKey),
+			),
+		);
+	const used = new Set(stillUsed.map(refKey));
+	const orphaned = unique.filter((object) => !used.has(refKey(object)));
+	await Promise.all(
+		orphaned.flatMap(({ storageBucket, storageKey }) => {
+			const storage = getStorageDriver(storageBucket);
+			return [
+				storage.delete(storageKey),
+				...Object.keys(THUMBNAIL_SIZES).map((size) =>
+					storage.delete(thumbnailKey(storageKey, size)),
+				),
+			];
+		}),
+	);
+	return orphaned.length;
+}
+
+/**
+ * Keeps `keeper` and resolves `duplicates`: `delete` moves them to the trash,
+ * `relink` keeps the rows in their datasets but points them at the keeper's
+ * stored object. Objects left unreferenced are deleted from storage.
+ */
+export async function resolveDuplicates({
+	keeper,
+	duplicates,
+	action,
+}: {
+	keeper: Asset;
+	duplicates: Asset[];
+	action: "delete" | "relink";
+}) {
+	const ids = duplicates.map((asset) => asset.id);
+	if (!ids.length) {
+		return { resolved: 0, releasedObjects: 0 };
+	}
+
+	if (action === "delete") {
+		await trashAssets(ids);
+	} else {
+		await db
+			.update(mediaAssets)
+			.set({
+				storageBucket: keeper.storageBucket,
+				storageKey: keeper.storageKey,
+				publicUrl: keeper.publicUrl,
+				mimeType: keeper.mimeType,
+				size: keeper.size,
+				width: keeper.width,
+				height: keeper.height,
+				checksum: keeper.checksum,
+				perceptualHash: keeper.perceptualHash,
+				thumbnails: keeper.thumbnails,
+				metadata: sql`${mediaAssets.metadata} || ${JSON.stringify({
+					relinkedTo: keeper.id,
+				})}::jsonb`,
+				updatedAt: new Date(),
+			})
+			.where(inArray(mediaAssets.id, ids));
+	}
+
+	const releasedObjects = await releaseStorageObjects(duplicates);
+	return { resolved: ids.length, releasedObjects };
+}
@@ -0,0 +1,375 @@
+import { createHash } from "node:crypto";
+import { db } from "@cyop/db";
+import {
+	and,
+	asc,
+	cosineDistance,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	ne,
+	sql,
+} from "@cyop/db/drizzle-orm";
+import {
+	captions,
+	EMBEDDING_DIMENSIONS,
+	type embeddingKindValues,
+	mediaAssets,
+	mediaEmbeddings,
+} from "@cyop/db/schema/platform";
+import {
+	resolveApiKey,
+	resolveModelImageUrl,
+	resolveModelName,
+	resolveTimeoutMs,
+} from "./caption";
+import type { ResolvedModel } from "./models";
+import {
+	type EmbeddingInput,
+	getCaptionProvider,
+	ProviderError,
+	type ProviderUsage,
+	withUsage,
+} from "./providers";
+import { ModelThrottledError, withModelRateLimit } from "./rateLimiter";
+import { isPrivateBucket } from "./storage";
+
+type EmbeddingKind = (typeof embeddingKindValues)[number];
+
+/** The provider default, unless the model sets `metadata.imageEmbeddings`. */
+function supportsImageEmbeddings(
+	model: ResolvedModel,
+	provider: ReturnType<typeof getCaptionProvider>,
+) {
+	const configured = model.metadata.imageEmbeddings;
+	return typeof configured === "boolean"
+		? configured
+		: Boolean(provider.supportsImageEmbeddings);
+}
+
+export async function generateEmbedding(
+	model: ResolvedModel,
+	input: EmbeddingInput,
+) {
+	const provider = getCaptionProvider(model.provider);
+	const embed = provider.embed;
+	if (!embed) {
+		throw new ProviderError(`${model.provider} 不支持生成向量`, {
+			category: "bad_request",
+		});
+	}
+	if (input.type === "image" && !supportsImageEmbeddings(model, provider)) {
+		throw new ProviderError(`${model.provider} 不支持图像向量`, {
+			category: "bad_request",
+		});
+	}
+
+	// Image inputs are billed as a fixed block of tokens by most providers.
+	const estimatedTokens =
+		input.type === "text" ? Math.ceil(input.text.length / 4) : 256;
+	const result = await withModelRateLimit(model, estimatedTokens, async () => {
+		const response = await embed({
+			modelName: resolveModelName(model),
+			baseUrl: model.baseUrl || provider.defaultBaseUrl,
+			apiKey: resolveApiKey(model, provider.requiresApiKey),
+			input,
+			dimensions: EMBEDDING_DIMENSIONS,
+			timeoutMs: resolveTimeoutMs(model),
+		});
+		return { ...response, tokensUsed: response.usage.totalTokens };
+	});
+
+	if (result.embedding.length !== EMBEDDING_DIMENSIONS) {
+		throw new ProviderError(
+			`向量维度 ${result.embedding.length} 与配置的 ${EMBEDDING_DIMENSIONS} 不一致`,
+			{ category: "bad_request", usage: result.usage, model: result.model },
+		);
+	}
+
+	return result;
+}
+
+function hashContent(value: string) {
+	return createHash("sha256").update(value).digest("hex");
+}
+
+/** The caption of record: approved first, then the most recently updated. */
+async function loadCurrentCaption(assetId: number) {
+	const [caption] = await db
+		.select({ id: captions.id, finalCaption: captions.finalCaption })
+		.from(captions)
+		.where(
+			and(
+				eq(captions.mediaAssetId, assetId),
+				isNull(captions.experimentArmId),
+				ne(captions.status, "rejected"),
+			),
+		)
+		.orderBy(
+			desc(sql`${captions.status} = 'approved'`),
+			desc(captions.updatedAt),
+		)
+		.limit(1);
+	return caption?.finalCaption?.trim() ? caption : undefined;
+}
+
+/**
+ * Embeds an asset's image and its current caption with `model`. Inputs whose
+ * content hash matches the stored embedding are skipped. Each input is
+ * embedded on its own: a non-retryable failure on one is reported in
+ * `failed` and does not block the other, unless nothing could be embedded.
+ */
+export async function embedAsset(
+	asset: Pick<
+		typeof mediaAssets.$inferSelect,
+		| "id"
+		| "datasetId"
+		| "storageBucket"
+		| "storageKey"
+		| "publicUrl"
+		| "mimeType"
+		| "thumbnails"
+		| "checksum"
+	>,
+	model: ResolvedModel,
+) {
+	const provider = getCaptionProvider(model.provider);
+	const [existing, caption] = await Promise.all([
+		db
+			.select({
+				kind: mediaEmbeddings.kind,
+				contentHash: mediaEmbeddings.contentHash,
+			})
+			.from(mediaEmbeddings)
+			.where(
+				and(
+					eq(mediaEmbeddings.mediaAssetId, asset.id),
+					eq(mediaEmbeddings.modelId, model.id),
+				),
+			),
+		loadCurrentCaption(asset.id),
+	]);
+	const storedHash = new Map(
+		existing.map((row) => [row.kind, row.contentHash]),
+	);
+
+	const candidates: Array<{
+		kind: EmbeddingKind;
+		/** Resolved only for inputs that changed, so unchanged images are not signed or downloaded. */
+		input: () => Promise<EmbeddingInput>;
+		contentHash: string;
+		captionId: number | null;
+	}> = [];
+	if (
+		supportsImageEmbeddings(model, provider) &&
+		(asset.publicUrl || isPrivateBucket(asset.storageBucket))
+	) {
+		candidates.push({
+			kind: "image",
+			input: async () => ({
+				type: "image",
+				imageUrl: await resolveModelImageUrl(asset),
+			}),
+			contentHash: hashContent(
+				`${asset.publicUrl ?? asset.storageKey}\n${asset.checksum ?? ""}`,
+			),
+			captionId: null,
+		});
+	}
+	const captionText = caption?.finalCaption;
+	if (caption && captionText) {
+		candidates.push({
+			kind: "caption",
+			input: async () => ({ type: "text", text: captionText }),
+			contentHash: hashContent(captionText),
+			captionId: caption.id,
+		});
+	}
+	if (!candidates.length) {
+		throw new ProviderError(
+			"素材没有可向量化的内容：模型不支持图像向量且素材没有 caption",
+			{ category: "bad_request" },
+		);
+	}
+
+	const usage: ProviderUsage = {
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+	};
+	let modelName = model.modelName;
+	const embedded: EmbeddingKind[] = [];
+	const failed: Array<{ kind: EmbeddingKind; error: ProviderError }> = [];
+	for (const candidate of candidates) {
+		if (storedHash.get(candidate.kind) === candidate.contentHash) {
+			continue;
+		}
+		let result: Awaited<ReturnType<typeof generateEmbedding>>;
+		try {
+			result = await generateEmbedding(model, await candidate.input());
+		} catch (error) {
+			// Throttling and transient errors retry the whole job; inputs that
+			// were stored meanwhile are skipped by their content hash, so the
+			// tokens they used are reported with the error.
+			if (!(error instanceof ProviderError) || error.retryable) {
+				if (!usage.totalTokens) {
+					throw error;
+				}
+				if (error instanceof ModelThrottledError) {
+					throw new ProviderError(error.message, {
+						category: "rate_limit",
+						retryAfterMs: error.retryAfterMs,
+						cause: error,
+						usage,
+						model: modelName,
+					});
+				}
+				throw withUsage(error, usage, modelName);
+			}
+			if (error.usage) {
+				usage.promptTokens += error.usage.promptTokens;
+				usage.completionTokens += error.usage.completionTokens;
+				usage.totalTokens += error.usage.totalTokens;
+			}
+			failed.push({ kind: candidate.kind, error });
+			continue;
+		}
+		usage.promptTokens += result.usage.promptTokens;
+		usage.completionTokens += result.usage.completionTokens;
+		usage.totalTokens += result.usage.totalTokens;
+		modelName = result.model;
+
+		const now = new Date();
+		await db
+			.insert(mediaEmbeddings)
+			.values({
+				mediaAssetId: asset.id,
+				datasetId: asset.datasetId,
+				modelId: model.id,
+				kind: candidate.kind,
+				captionId: candidate.captionId,
+				contentHash: candidate.contentHash,
+				embedding: result.embedding,
+				createdAt: now,
+				updatedAt: now,
+			})
+			.onConflictDoUpdate({
+				target: [
+					mediaEmbeddings.mediaAssetId,
+					mediaEmbeddings.modelId,
+					mediaEmbeddings.kind,
+				],
+				set: {
+					captionId: candidate.captionId,
+					contentHash: candidate.contentHash,
+					embedding: result.embedding,
+					updatedAt: now,
+				},
+			});
+		embedded.push(candidate.kind);
+	}
+
+	if (!embedded.length && failed[0]) {
+		const { error } = failed[0];
+		throw new ProviderError(error.message, {
+			category: error.category,
+			status: error.status,
+			cause: error,
+			usage,
+			model: error.model ?? modelName,
+		});
+	}
+	return {
+		embedded,
+		failed: failed.map(({ kind, error }) => ({ kind, error: error.message })),
+		usage,
+		modelName,
+	};
+}
+
+/** Loads a stored vector to use as an image-to-image query. */
+export async function getAssetEmbedding(
+	assetId: number,
+	modelId: number,
+	kind: EmbeddingKind,
+) {
+	const [row] = await db
+		.select({ embedding: mediaEmbeddings.embedding })
+		.from(mediaEmbeddings)
+		.where(
+			and(
+				eq(mediaEmbeddings.mediaAssetId, assetId),
+				eq(mediaEmbeddings.modelId, modelId),
+				eq(mediaEmbeddings.kind, kind),
+			),
+		)
+		.limit(1);
+	return row?.embedding;
+}
+
+/**
+ * Nearest assets to `vector` among embeddings of `kinds`. An asset matching
+ * through both its image and caption is ranked by the closer of the two.
+ * The inner query orders by the raw distance so the HNSW index can serve it;
+ * de-duplicating per asset happens on that shortlist.
+ */
+export async function searchEmbeddings({
+	vector,
+	modelId,
+	kinds,
+	datasetId,
+	requirementId,
+	excludeAssetId,
+	limit,
+}: {
+	vector: number[];
+	modelId: number;
+	kinds: EmbeddingKind[];
+	datasetId?: number;
+	requirementId?: number;
+	excludeAssetId?: number;
+	limit: number;
+}) {
+	const conditions = [
+		eq(mediaEmbeddings.modelId, modelId),
+		inArray(mediaEmbeddings.kind, kinds),
+		isNull(mediaAssets.deletedAt),
+	];
+	if (datasetId) {
+		conditions.push(eq(mediaEmbeddings.datasetId, datasetId));
+	}
+	if (requirementId) {
+		conditions.push(eq(mediaAssets.requirementId, requirementId));
+	}
+	if (excludeAssetId) {
+		conditions.push(ne(mediaEmbeddings.mediaAssetId, excludeAssetId));
+	}
+
+	// Each asset has at most one embedding per kind.
+	const nearest = db
+		.select({
+			mediaAssetId: mediaEmbeddings.mediaAssetId,
+			distance:
+				sql<number>`${cosineDistance(mediaEmbeddings.embedding, vector)}`.as(
+					"distance",
+				),
+		})
+		.from(mediaEmbeddings)
+		.innerJoin(mediaAssets, eq(mediaEmbeddings.mediaAssetId, mediaAssets.id))
+		.where(and(...conditions))
+		.orderBy(sql`distance`)
+		.limit(limit * kinds.length)
+		.as("nearest");
+	const distance = sql<number>`min(${nearest.distance})`;
+
+	return db
+		.select({
+			mediaAssetId: nearest.mediaAssetId,
+			distance: distance.mapWith(Number),
+		})
+		.from(nearest)
+		.groupBy(nearest.mediaAssetId)
+		.orderBy(asc(distance))
+		.limit(limit);
+}
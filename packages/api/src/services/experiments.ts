@@ -0,0 +1,508 @@
+import { db } from "@cyop/db";
+import {
+	and,
+	desc,
+	eq,
+	inArray,
+	isNotNull,
+	isNull,
+	ne,
+	notInArray,
+	sql,
+} from "@cyop/db/drizzle-orm";
+import {
+	captionJobs,
+	captions,
+	experimentArms,
+	experimentVotes,
+	mediaAssets,
+	promptExperiments,
+} from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+import { enqueueCaptionJobs, resolveCaptionSetup } from "./captionPipeline";
+import { isPrivateBucket, resolveAssetUrl } from "./storage";
+
+type ArmInput = {
+	promptTemplateId?: number | null;
+	modelId?: number | null;
+};
+
+type Experiment = typeof promptExperiments.$inferSelect;
+
+const REVIEWABLE_STATUSES = ["completed", "approved", "rejected"] as const;
+
+function armLabel(index: number) {
+	return String.fromCharCode(65 + index);
+}
+
+function shuffle<T>(items: T[]) {
+	const result = [...items];
+	for (let i = result.length - 1; i > 0; i -= 1) {
+		const j = Math.floor(Math.random() * (i + 1));
+		[result[i], result[j]] = [result[j] as T, result[i] as T];
+	}
+	return result;
+}
+
+/**
+ * Samples assets from the dataset and queues one caption per asset for every
+ * arm. Arm captions carry `experimentArmId`, which keeps them out of the
+ * regular review queue, stats and exports.
+ */
+export async function createExperiment({
+	datasetId,
+	name,
+	sampleSize,
+	arms,
+	createdBy,
+}: {
+	datasetId: number;
+	name: string;
+	sampleSize: number;
+	arms: ArmInput[];
+	createdBy?: string | null;
+}) {
+	const sample = await db
+		.select({
+			id: mediaAssets.id,
+			datasetId: mediaAssets.datasetId,
+			storageBucket: mediaAssets.storageBucket,
+			publicUrl: mediaAssets.publicUrl,
+		})
+		.from(mediaAssets)
+		.where(
+			and(
+				eq(mediaAssets.datasetId, datasetId),
+				isNull(mediaAssets.deletedAt),
+				inArray(mediaAssets.status, ["uploaded", "ready", "processing"]),
+			),
+		)
+		.orderBy(sql`random()`)
+		.limit(sampleSize)
+		.then((rows) =>
+			rows.filter(
+				(asset) => asset.publicUrl || isPrivateBucket(asset.storageBucket),
+			),
+		);
+
+	if (!sample.length) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "Dataset has no assets with a URL to sample",
+		});
+	}
+
+	// Resolve every arm before writing anything, so an unknown template or
+	// model cannot leave a half-built experiment with jobs already running.
+	const setups = [];
+	for (const input of arms) {
+		setups.push(await resolveCaptionSetup(input));
+	}
+
+	const now = new Date();
+	const [experiment] = await db
+		.insert(promptExperiments)
+		.values({
+			datasetId,
+			name,
+			sampleSize: sample.length,
+			assetIds: sample.map((asset) => asset.id),
+			createdBy: createdBy ?? null,
+			createdAt: now,
+			updatedAt: now,
+		})
+		.returning();
+
+	if (!experiment) {
+		throw new TRPCError({
+			code: "INTERNAL_SERVER_ERROR",
+			message: "Failed to create experiment",
+		});
+	}
+
+	const armRows = await db
+		.insert(experimentArms)
+		.values(
+			setups.map((setup, index) => ({
+				experimentId: experiment.id,
+				label: armLabel(index),
+				promptTemplateId: setup.template?.id ?? null,
+				promptRevisionId: setup.promptRevisionId,
+				modelId: setup.model.id || null,
+				createdAt: now,
+			})),
+		)
+		.returning({ id: experimentArms.id, label: experimentArms.label });
+
+	for (const [index, setup] of setups.entries()) {
+		const arm = armRows.find((row) => row.label === armLabel(index));
+		if (!arm) {
+			continue;
+		}
+		await enqueueCaptionJobs({
+			targets: sample.map((asset) => ({ asset })),
+			modelId: setup.model.id || null,
+			promptTemplateId: setup.template?.id ?? null,
+			promptRevisionId: setup.promptRevisionId,
+			requestedBy: createdBy,
+			experimentArmId: arm.id,
+		});
+	}
+
+	return experiment;
+}
+
+export async function getExperimentStats(experimentId: number) {
+	const arms = await db
+		.select({ id: experimentArms.id, label: experimentArms.label })
+		.from(experimentArms)
+		.where(eq(experimentArms.experimentId, experimentId))
+		.orderBy(experimentArms.label);
+	const armIds = arms.map((arm) => arm.id);
+
+	if (!armIds.length) {
+		return { totalVotes: 0, ties: 0, arms: [] };
+	}
+
+	const [captionRows, costRows, voteRows] = await Promise.all([
+		db
+			.select({
+				armId: captions.experimentArmId,
+				total: sql<number>`count(*)::int`,
+				generated: sql<number>`count(*) filter (where ${captions.aiCaption} is not null)::int`,
+				approved: sql<number>`count(*) filter (where ${captions.status} = 'approved')::int`,
+				rejected: sql<number>`count(*) filter (where ${captions.status} = 'rejected' and ${captions.aiCaption} is not null)::int`,
+				avgLength: sql<number>`coalesce(avg(char_length(coalesce(${captions.finalCaption}, ${captions.aiCaption}))), 0)::float`,
+			})
+			.from(captions)
+			.where(inArray(captions.experimentArmId, armIds))
+			.groupBy(captions.experimentArmId),
+		db
+			.select({
+				armId: captions.experimentArmId,
+				costMicros:
+					sql<number>`coalesce(sum(${captionJobs.costMicros}), 0)::bigint`.mapWith(
+						Number,
+					),
+				tokens: sql<number>`coalesce(sum(coalesce(${captionJobs.promptTokens}, 0) + coalesce(${captionJobs.completionTokens}, 0)), 0)::int`,
+			})
+			.from(captionJobs)
+			.innerJoin(captions, eq(captionJobs.captionId, captions.id))
+			.where(inArray(captions.experimentArmId, armIds))
+			.groupBy(captions.experimentArmId),
+		db
+			.select({
+				winnerArmId: experimentVotes.winnerArmId,
+				count: sql<number>`count(*)::int`,
+			})
+			.from(experimentVotes)
+			.where(eq(experimentVotes.experimentId, experimentId))
+			.groupBy(experimentVotes.winnerArmId),
+	]);
+
+	const totalVotes = voteRows.reduce((sum, row) => sum + row.count, 0);
+	const winsByArm = new Map(
+		voteRows.map((row) => [row.winnerArmId, row.count]),
+	);
+	const captionsByArm = new Map(captionRows.map((row) => [row.armId, row]));
+	const costByArm = new Map(costRows.map((row) => [row.armId, row]));
+
+	return {
+		totalVotes,
+		ties: winsByArm.get(null) ?? 0,
+		arms: arms.map((arm) => {
+			const captionStats = captionsByArm.get(arm.id);
+			const cost = costByArm.get(arm.id);
+			const wins = winsByArm.get(arm.id) ?? 0;
+			const reviewed =
+				(captionStats?.approved ?? 0) + (captionStats?.rejected ?? 0);
+			return {
+				armId: arm.id,
+				label: arm.label,
+				captions: captionStats?.total ?? 0,
+				generated: captionStats?.generated ?? 0,
+				wins,
+				winRate: totalVotes ? wins / totalVotes : 0,
+				avgLength: Math.round(captionStats?.avgLength ?? 0),
+				tokens: cost?.tokens ?? 0,
+				costMicros: cost?.costMicros ?? 0,
+				approvalRate: reviewed ? (captionStats?.approved ?? 0) / reviewed : 0,
+			};
+		}),
+	};
+}
+
+async function loadArmCaptions(experimentId: number, assetIds: number[]) {
+	if (!assetIds.length) {
+		return [];
+	}
+	return db
+		.select({
+			captionId: captions.id,
+			armId: experimentArms.id,
+			mediaAssetId: captions.mediaAssetId,
+			text: sql<
+				string | null
+			>`coalesce(${captions.finalCaption}, ${captions.aiCaption})`,
+			status: captions.status,
+		})
+		.from(captions)
+		.innerJoin(experimentArms, eq(captions.experimentArmId, experimentArms.id))
+		.where(
+			and(
+				eq(experimentArms.experimentId, experimentId),
+				inArray(captions.mediaAssetId, assetIds),
+			),
+		);
+}
+
+/**
+ * Next asset the reviewer has not voted on whose arms have all finished.
+ * Candidates are shuffled and carry only caption ids, so the reviewer cannot
+ * tell which arm produced which caption.
+ */
+export async function nextReviewItem(experiment: Experiment, reviewer: string) {
+	const voted = await db
+		.select({ mediaAssetId: experimentVotes.mediaAssetId })
+		.from(experimentVotes)
+		.where(
+			and(
+				eq(experimentVotes.experimentId, experiment.id),
+				eq(experimentVotes.reviewer, reviewer),
+			),
+		);
+	const votedIds = new Set(voted.map((row) => row.mediaAssetId));
+	const remaining = experiment.assetIds.filter((id) => !votedIds.has(id));
+
+	const [armCount] = await db
+		.select({ count: sql<number>`count(*)::int` })
+		.from(experimentArms)
+		.where(eq(experimentArms.experimentId, experiment.id));
+	const rows = await loadArmCaptions(experiment.id, remaining);
+
+	const byAsset = new Map<number, typeof rows>();
+	for (const row of rows) {
+		if (!row.text || !REVIEWABLE_STATUSES.some((s) => s === row.status)) {
+			continue;
+		}
+		const group = byAsset.get(row.mediaAssetId) ?? [];
+		group.push(row);
+		byAsset.set(row.mediaAssetId, group);
+	}
+
+	const ready = remaining.filter(
+		(id) => (byAsset.get(id)?.length ?? 0) >= (armCount?.count ?? 0),
+	);
+	const assetId = ready[0];
+	const summary = {
+		remaining: remaining.length,
+		ready: ready.length,
+		pendingGeneration: remaining.length - ready.length,
+	};
+
+	if (assetId === undefined) {
+		return { ...summary, item: null };
+	}
+
+	const [asset] = await db
+		.select({
+			id: mediaAssets.id,
+			originalName: mediaAssets.originalName,
+			storageBucket: mediaAssets.storageBucket,
+			storageKey: mediaAssets.storageKey,
+			publicUrl: mediaAssets.publicUrl,
+			width: mediaAssets.width,
+			height: mediaAssets.height,
+		})
+		.from(mediaAssets)
+		.where(eq(mediaAssets.id, assetId))
+		.limit(1);
+
+	return {
+		...summary,
+		item: {
+			asset: asset && {
+				id: asset.id,
+				originalName: asset.originalName,
+				url: resolveAssetUrl(asset),
+				width: asset.width,
+				height: asset.height,
+			},
+			candidates: shuffle(
+				(byAsset.get(assetId) ?? []).map((row) => ({
+					captionId: row.captionId,
+					text: row.text ?? "",
+				})),
+			),
+		},
+	};
+}
+
+export async function recordExperimentVote({
+	experiment,
+	mediaAssetId,
+	winnerCaptionId,
+	approvedCaptionIds,
+	reviewer,
+}: {
+	experiment: Experiment;
+	mediaAssetId: number;
+	winnerCaptionId: number | null;
+	approvedCaptionIds: number[];
+	reviewer: string;
+}) {
+	const rows = await loadArmCaptions(experiment.id, [mediaAssetId]);
+	const armByCaption = new Map(rows.map((row) => [row.captionId, row.armId]));
+
+	if (
+		!rows.length ||
+		(winnerCaptionId !== null && !armByCaption.has(winnerCaptionId)) ||
+		approvedCaptionIds.some((id) => !armByCaption.has(id))
+	) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "Candidate captions do not belong to this experiment asset",
+		});
+	}
+
+	const now = new Date();
+	const winnerArmId =
+		winnerCaptionId === null
+			? null
+			: (armByCaption.get(winnerCaptionId) ?? null);
+
+	await db
+		.insert(experimentVotes)
+		.values({
+			experimentId: experiment.id,
+			mediaAssetId,
+			winnerArmId,
+			approvedCaptionIds,
+			reviewer,
+			createdAt: now,
+			updatedAt: now,
+		})
+		.onConflictDoUpdate({
+			target: [
+				experimentVotes.experimentId,
+				experimentVotes.mediaAssetId,
+				experimentVotes.reviewer,
+			],
+			set: { winnerArmId, approvedCaptionIds, updatedAt: now },
+		});
+
+	// A caption counts as approved once most reviewers of the asset approved
+	// it, so a later vote cannot simply overwrite earlier ones.
+	const votes = await db
+		.select({
+			reviewer: experimentVotes.reviewer,
+			approvedCaptionIds: experimentVotes.approvedCaptionIds,
+		})
+		.from(experimentVotes)
+		.where(
+			and(
+				eq(experimentVotes.experimentId, experiment.id),
+				eq(experimentVotes.mediaAssetId, mediaAssetId),
+			),
+		)
+		.orderBy(desc(experimentVotes.updatedAt));
+	const approvers = (captionId: number) =>
+		votes.filter((vote) => vote.approvedCaptionIds.includes(captionId));
+	const captionIds = rows.map((row) => row.captionId);
+	const approvedIds = captionIds.filter(
+		(id) => approvers(id).length * 2 > votes.length,
+	);
+	const rejectedIds = captionIds.filter((id) => !approvedIds.includes(id));
+
+	for (const captionId of approvedIds) {
+		await db
+			.update(captions)
+			.set({
+				status: "approved",
+				approvedAt: now,
+				approvedBy: approvers(captionId)[0]?.reviewer ?? reviewer,
+				reviewedBy: reviewer,
+				reviewedAt: now,
+				rejectionReason: null,
+				updatedAt: now,
+			})
+			.where(and(eq(captions.id, captionId), ne(captions.status, "approved")));
+	}
+	if (rejectedIds.length) {
+		await db
+			.update(captions)
+			.set({
+				status: "rejected",
+				approvedAt: null,
+				approvedBy: null,
+				reviewedBy: reviewer,
+				reviewedAt: now,
+				rejectionReason: "experiment review",
+				updatedAt: now,
+			})
+			.where(inArray(captions.id, rejectedIds));
+	}
+
+	return { winnerArmId };
+}
+
+/** Stops outstanding generation for a finished or cancelled experiment. */
+export async function closeExperiment(
+	experiment: Experiment,
+	status: "completed" | "cancelled",
+) {
+	const now = new Date();
+	const armCaptionIds = db
+		.select({ id: captions.id })
+		.from(captions)
+		.innerJoin(experimentArms, eq(captions.experimentArmId, experimentArms.id))
+		.where(eq(experimentArms.experimentId, experiment.id));
+
+	await db
+		.update(captionJobs)
+		.set({
+			status: "failed",
+			error: "实验已结束",
+			availableAt: null,
+			completedAt: now,
+			updatedAt: now,
+		})
+		.where(
+			and(
+				eq(captionJobs.status, "queued"),
+				inArray(captionJobs.captionId, armCaptionIds),
+			),
+		);
+	await db
+		.update(captions)
+		.set({
+			status: "rejected",
+			processingError: "实验已结束",
+			updatedAt: now,
+		})
+		.where(
+			and(
+				eq(captions.status, "processing"),
+				inArray(captions.id, armCaptionIds),
+				notInArray(
+					captions.id,
+					db
+						.select({ id: captionJobs.captionId })
+						.from(captionJobs)
+						.where(
+							and(
+								eq(captionJobs.status, "running"),
+								isNotNull(captionJobs.captionId),
+							),
+						),
+				),
+			),
+		);
+
+	const [updated] = await db
+		.update(promptExperiments)
+		.set({ status, completedAt: now, updatedAt: now })
+		.where(eq(promptExperiments.id, experiment.id))
+		.returning();
+	return updated;
+}
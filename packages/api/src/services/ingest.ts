@@ -0,0 +1,805 @@
+import { createHash } from "node:crypto";
+import { db } from "@cyop/db";
+import { and, eq, notInArray, sql } from "@cyop/db/drizzle-orm";
+import {
+	automationTasks,
+	captionJobs,
+	captions,
+	datasets,
+	mediaAssets,
+	mediaAssetTags,
+} from "@cyop/db/schema/platform";
+import { type ArchiveEntry, readTarEntries, readZipEntries } from "./archives";
+import { enqueueProcessingJobs } from "./assetJobs";
+import { publishAutomationEvent } from "./automation";
+import { normalizeTags, recomputeDatasetTags } from "./datasetTags";
+import { findExactDuplicates } from "./duplicates";
+import { ProviderError } from "./providers";
+import { fetchRemoteFile } from "./remoteFetch";
+import {
+	buildStorageKey,
+	getStorageDriver,
+	resolveStorageBucket,
+} from "./storage";
+import { loadTagNormalizer } from "./tagVocabulary";
+
+type Asset = typeof mediaAssets.$inferSelect;
+
+export const ingestFormatValues = ["zip", "tar", "csv", "jsonl"] as const;
+export type IngestFormat = (typeof ingestFormatValues)[number];
+
+/** Archives and manifests are read into memory, so keep them bounded. */
+export const MAX_INGEST_SOURCE_BYTES = 1024 * 1024 * 1024;
+export const MAX_REMOTE_FILE_BYTES = 200 * 1024 * 1024;
+const PROGRESS_EVERY = 20;
+const MAX_REPORTED_ERRORS = 50;
+
+const MEDIA_TYPES: Record<string, string> = {
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	png: "image/png",
+	gif: "image/gif",
+	webp: "image/webp",
+	avif: "image/avif",
+	heic: "image/heic",
+	heif: "image/heif",
+	tif: "image/tiff",
+	tiff: "image/tiff",
+	bmp: "image/bmp",
+	mp4: "video/mp4",
+	mov: "video/quicktime",
+	webm: "video/webm",
+};
+
+const MEDIA_MIME_TYPES = new Set(Object.values(MEDIA_TYPES));
+
+const MANIFEST_NAMES = new Set(["manifest.csv", "manifest.jsonl"]);
+
+export function detectIngestFormat(fileName: string): IngestFormat | null {
+	const name = fileName.toLowerCase();
+	if (name.endsWith(".zip")) {
+		return "zip";
+	}
+	if (/\.(tar|tar\.gz|tgz)$/.test(name)) {
+		return "tar";
+	}
+	if (name.endsWith(".csv")) {
+		return "csv";
+	}
+	if (/\.(jsonl|ndjson)$/.test(name)) {
+		return "jsonl";
+	}
+	return null;
+}
+
+export function buildIngestSourceKey(datasetId: number, fileName: string) {
+	return `ingest/${buildStorageKey(datasetId, fileName)}`;
+}
+
+export function ingestSourcePrefix(datasetId: number) {
+	return `ingest/datasets/${datasetId}/`;
+}
+
+/** Source keys of a dataset's ingest tasks that have not finished yet. */
+export async function activeIngestSourceKeys(datasetId: number) {
+	const rows = await db
+		.select({
+			storageKey: sql<
+				string | null
+			>`${automationTasks.metadata}->'source'->>'storageKey'`,
+		})
+		.from(automationTasks)
+		.where(
+			and(
+				eq(automationTasks.datasetId, datasetId),
+				eq(automationTasks.type, "ingest"),
+				notInArray(automationTasks.status, ["succeeded", "failed"]),
+			),
+		);
+	return rows.flatMap((row) => (row.storageKey ? [row.storageKey] : []));
+}
+
+/** Deletes every uploaded ingest source of a dataset, e.g. when it is purged. */
+export async function deleteIngestSources(dataset: {
+	id: number;
+	storageBucket: string;
+}) {
+	const storage = getStorageDriver(resolveStorageBucket(dataset.storageBucket));
+	let deleted = 0;
+	let cursor: string | null = null;
+	do {
+		const page = await storage.list(ingestSourcePrefix(dataset.id), {
+			cursor,
+		});
+		cursor = page.nextCursor;
+		for (const object of page.objects) {
+			await storage.delete(object.key);
+			deleted++;
+		}
+	} while (cursor);
+	return deleted;
+}
+
+function extensionOf(path: string) {
+	const name = path.split("/").pop() ?? "";
+	const dot = name.lastIndexOf(".");
+	return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+function withoutExtension(path: string) {
+	const dot = path.lastIndexOf(".");
+	return dot > path.lastIndexOf("/") ? path.slice(0, dot) : path;
+}
+
+export type ManifestRow = {
+	fileName?: string;
+	sourceUrl?: string;
+	caption?: string;
+	tags: string[];
+	metadata: Record<string, unknown>;
+};
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes and newlines. */
+function parseCsv(text: string) {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+		if (quoted) {
+			if (char === '"' && text[index + 1] === '"') {
+				field += '"';
+				index++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[index + 1] === "\n") {
+				index++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function pick(record: Record<string, unknown>, keys: string[]) {
+	for (const key of keys) {
+		const value = record[key];
+		if (typeof value === "string" && value.trim()) {
+			return value.trim();
+		}
+	}
+	return undefined;
+}
+
+function toManifestRow(record: Record<string, unknown>): ManifestRow {
+	const rawTags = record.tags;
+	const tags = Array.isArray(rawTags)
+		? rawTags.filter((tag): tag is string => typeof tag === "string")
+		: typeof rawTags === "string"
+			? rawTags.split(/[,;|]/)
+			: [];
+	let metadata = record.metadata;
+	if (typeof metadata === "string" && metadata.trim()) {
+		try {
+			metadata = JSON.parse(metadata);
+		} catch {
+			throw new ProviderError("metadata 列不是有效的 JSON", {
+				category: "bad_request",
+			});
+		}
+	}
+	return {
+		fileName: pick(record, ["file_name", "fileName", "filename", "file"]),
+		sourceUrl: pick(record, ["source_url", "sourceUrl", "url"]),
+		caption: pick(record, ["caption", "text"]),
+		tags: tags.map((tag) => tag.trim()).filter(Boolean),
+		metadata:
+			metadata && typeof metadata === "object" && !Array.isArray(metadata)
+				? (metadata as Record<string, unknown>)
+				: {},
+	};
+}
+
+/**
+ * Parses a CSV (with a header row) or JSONL manifest. Recognized columns are
+ * `file_name`, `source_url`, `caption`, `tags` (comma, semicolon or pipe
+ * separated) and `metadata` (a JSON object).
+ */
+export function parseManifest(text: string, format: "csv" | "jsonl") {
+	const source = text.replace(/^\uFEFF/, "");
+	if (format === "jsonl") {
+		return source
+			.split(/\r?\n/)
+			.filter((line) => line.trim())
+			.map((line, index) => {
+				let record: unknown;
+				try {
+					record = JSON.parse(line);
+				} catch {
+					throw new ProviderError(`清单第 ${index + 1} 行不是有效的 JSON`, {
+						category: "bad_request",
+					});
+				}
+				if (!record || typeof record !== "object" || Array.isArray(record)) {
+					throw new ProviderError(`清单第 ${index + 1} 行应为 JSON 对象`, {
+						category: "bad_request",
+					});
+				}
+				return toManifestRow(record as Record<string, unknown>);
+			});
+	}
+
+	const [header, ...rows] = parseCsv(source);
+	if (!header) {
+		return [];
+	}
+	const columns = header.map((column) => column.trim());
+	return rows.map((cells) =>
+		toManifestRow(
+			Object.fromEntries(
+				columns.map((column, index) => [column, cells[index] ?? ""]),
+			),
+		),
+	);
+}
+
+type IngestItem = {
+	/** Archive path or manifest row label, unique within the task. */
+	entry: string;
+	fileName: string;
+	load: () => Promise<{ body: Uint8Array<ArrayBuffer>; contentType?: string }>;
+	caption?: string;
+	tags: string[];
+	metadata: Record<string, unknown>;
+};
+
+export type IngestSummary = {
+	total: number;
+	created: number;
+	skipped: number;
+	failed: number;
+	captions: number;
+	errors: Array<{ entry: string; message: string }>;
+};
+
+function isIgnoredPath(path: string) {
+	return path
+		.split("/")
+		.some((segment) => segment.startsWith(".") || segment === "__MACOSX");
+}
+
+/**
+ * Lists the media files of an archive. A `manifest.csv` / `manifest.jsonl`
+ * inside it and `<name>.txt` sidecar files supply captions, tags and
+ * metadata; the manifest wins where both exist.
+ */
+function collectArchiveItems(entries: ArchiveEntry[], summary: IngestSummary) {
+	const files = entries.filter((entry) => !isIgnoredPath(entry.path));
+	const manifestEntry = files
+		.filter((entry) =>
+			MANIFEST_NAMES.has(entry.path.split("/").pop()?.toLowerCase() ?? ""),
+		)
+		.sort((a, b) => a.path.split("/").length - b.path.split("/").length)[0];
+	const manifest = new Map<string, ManifestRow>();
+	if (manifestEntry) {
+		const rows = parseManifest(
+			new TextDecoder().decode(manifestEntry.read()),
+			manifestEntry.path.toLowerCase().endsWith(".csv") ? "csv" : "jsonl",
+		);
+		const base = manifestEntry.path.split("/").slice(0, -1).join("/");
+		for (const row of rows) {
+			if (row.fileName) {
+				manifest.set(base ? `${base}/${row.fileName}` : row.fileName, row);
+			}
+		}
+	}
+	const sidecars = new Map(
+		files
+			.filter((entry) => extensionOf(entry.path) === "txt")
+			.map((entry) => [withoutExtension(entry.path), entry]),
+	);
+
+	const items: IngestItem[] = [];
+	for (const entry of files) {
+		const contentType = MEDIA_TYPES[extensionOf(entry.path)];
+		if (!contentType) {
+			if (
+				entry !== manifestEntry &&
+				!sidecars.has(withoutExtension(entry.path))
+			) {
+				summary.skipped++;
+			}
+			continue;
+		}
+		const row = manifest.get(entry.path);
+		const sidecar = sidecars.get(withoutExtension(entry.path));
+		items.push({
+			entry: entry.path,
+			fileName: entry.path.split("/").pop() ?? entry.path,
+			load: async () => ({ body: entry.read(), contentType }),
+			caption:
+				row?.caption ??
+				(sidecar
+					? new TextDecoder().decode(sidecar.read()).trim() || undefined
+					: undefined),
+			tags: row?.tags ?? [],
+			metadata: row?.metadata ?? {},
+		});
+	}
+	return items;
+}
+
+function fileNameFromUrl(url: string) {
+	try {
+		const name = new URL(url).pathname.split("/").pop();
+		return name ? decodeURIComponent(name) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Manifest rows without an archive are fetched from their `source_url`. */
+function collectManifestItems(rows: ManifestRow[], summary: IngestSummary) {
+	const items: IngestItem[] = [];
+	rows.forEach((row, index) => {
+		const entry = `#${index + 1}`;
+		const sourceUrl = row.sourceUrl;
+		if (!sourceUrl) {
+			summary.failed++;
+			summary.errors.push({ entry, message: "缺少 source_url" });
+			return;
+		}
+		items.push({
+			entry,
+			fileName: row.fileName ?? fileNameFromUrl(sourceUrl) ?? entry,
+			load: async () => {
+				const file = await fetchRemoteFile(sourceUrl, {
+					maxBytes: MAX_REMOTE_FILE_BYTES,
+				});
+				return { body: file.body, contentType: file.contentType ?? undefined };
+			},
+			caption: row.caption,
+			tags: row.tags,
+			metadata: { ...row.metadata, sourceUrl },
+		});
+	});
+	return items;
+}
+
+type IngestSource = {
+	storageKey: string;
+	fileName: string;
+	format: IngestFormat;
+};
+
+/** Records an `ingest` automation task and queues the job that expands it. */
+export async function startIngest({
+	datasetId,
+	source,
+	requestedBy,
+}: {
+	datasetId: number;
+	source: IngestSource;
+	requestedBy?: string | null;
+}) {
+	const now = new Date();
+	const [task] = await db
+		.insert(automationTasks)
+		.values({
+			datasetId,
+			type: "ingest",
+			status: "queued",
+			assignedTo: requestedBy ?? null,
+			metadata: { source },
+			createdAt: now,
+			updatedAt: now,
+		})
+		.returning();
+	if (!task) {
+		throw new Error("Failed to create ingest task");
+	}
+	await db.insert(captionJobs).values({
+		jobType: "ingest",
+		datasetId,
+		status: "queued",
+		requestedBy: requestedBy ?? null,
+		metadata: { taskId: task.id },
+		createdAt: now,
+		updatedAt: now,
+	});
+	void publishAutomationEvent({
+		type: "task.created",
+		taskId: task.id,
+		datasetId,
+		taskType: task.type,
+		status: task.status,
+		assignedTo: task.assignedTo,
+	});
+	return task;
+}
+
+async function updateIngestTask(
+	taskId: number,
+	updates: Partial<typeof automationTasks.$inferInsert>,
+	summary?: IngestSummary,
+) {
+	const [task] = await db
+		.update(automationTasks)
+		.set({
+			...updates,
+			...(summary
+				? {
+						metadata: sql`${automationTasks.metadata} || ${JSON.stringify(
+							summary,
+						)}::jsonb`,
+					}
+				: {}),
+			updatedAt: new Date(),
+		})
+		.where(eq(automationTasks.id, taskId))
+		.returning();
+	if (task && updates.status) {
+		void publishAutomationEvent({
+			type: "task.updated",
+			taskId: task.id,
+			datasetId: task.datasetId,
+			status: task.status,
+			progress: task.progress,
+			failureReason: task.failureReason,
+		});
+	}
+	return task;
+}
+
+type IngestDataset = {
+	id: number;
+	requirementId: number;
+	storageBucket: string;
+};
+
+/**
+ * Prefers a media `Content-Type` from the server, then the file extension.
+ * Anything outside `MEDIA_TYPES` (SVG, HTML, ...) is refused.
+ */
+function resolveMediaType(fileName: string, contentType?: string) {
+	const declared = contentType?.split(";")[0]?.trim().toLowerCase();
+	const mimeType =
+		declared && MEDIA_MIME_TYPES.has(declared)
+			? declared
+			: MEDIA_TYPES[extensionOf(fileName)];
+	if (!mimeType) {
+		throw new ProviderError(`不支持的文件类型：${declared || "未知"}`, {
+			category: "bad_request",
+		});
+	}
+	return mimeType;
+}
+
+/**
+ * Writes fetched or extracted bytes to the bucket and records the asset.
+ * Images are left `uploaded` for the processing queue; other media is `ready`.
+ */
+export async function storeMediaAsset({
+	dataset,
+	fileName,
+	storageName = fileName,
+	body,
+	contentType,
+	metadata,
+}: {
+	dataset: IngestDataset;
+	fileName: string;
+	/** Name the storage key is derived from, when it should differ from `fileName`. */
+	storageName?: string;
+	body: Uint8Array<ArrayBuffer>;
+	contentType?: string;
+	metadata: Record<string, unknown>;
+}) {
+	const mimeType = resolveMediaType(fileName, contentType);
+	const storageKey = buildStorageKey(dataset.id, storageName);
+	const storage = getStorageDriver(resolveStorageBucket(dataset.storageBucket));
+	await storage.put(storageKey, body, mimeType);
+
+	const checksum = createHash("sha256").update(body).digest("hex");
+	const duplicates = await findExactDuplicates(checksum, 0);
+	const now = new Date();
+	const [asset] = await db
+		.insert(mediaAssets)
+		.values({
+			datasetId: dataset.id,
+			requirementId: dataset.requirementId,
+			originalName: fileName,
+			mimeType,
+			size: body.byteLength,
+			storageBucket: storage.bucket,
+			storageKey,
+			publicUrl: storage.publicUrl(storageKey),
+			checksum,
+			status: mimeType.startsWith("image/") ? "uploaded" : "ready",
+			uploadedAt: now,
+			metadata: {
+				...metadata,
+				...(duplicates[0] ? { duplicateOf: duplicates[0].id } : {}),
+			},
+			createdAt: now,
+			updatedAt: now,
+		})
+		.returning();
+	if (!asset) {
+		throw new Error("Failed to create media asset");
+	}
+	return { asset, duplicates };
+}
+
+/** Queues processing for freshly stored images and marks them `processing`. */
+export async function queueAssetProcessing(
+	assets: Asset[],
+	requestedBy?: string | null,
+) {
+	const images = assets.filter((asset) => asset.status === "uploaded");
+	if (!images.length) {
+		return;
+	}
+	await enqueueProcessingJobs({ assets: images, requestedBy });
+	for (const asset of images) {
+		asset.status = "processing";
+	}
+}
+
+/** Downloads one URL into the bucket as a new asset of `dataset`. */
+export async function importFromUrl(dataset: IngestDataset, url: string) {
+	const file = await fetchRemoteFile(url, { maxBytes: MAX_REMOTE_FILE_BYTES });
+	return storeMediaAsset({
+		dataset,
+		fileName: fileNameFromUrl(file.url) ?? fileNameFromUrl(url) ?? "remote",
+		body: file.body,
+		contentType: file.contentType ?? undefined,
+		metadata: {
+			sourceUrl: url,
+			...(file.url === url ? {} : { resolvedUrl: file.url }),
+		},
+	});
+}
+
+async function importItem(
+	item: IngestItem,
+	{
+		taskId,
+		dataset,
+		canonical,
+	}: {
+		taskId: number;
+		dataset: IngestDataset;
+		canonical: (label: string) => string;
+	},
+) {
+	const { body, contentType } = await item.load();
+	const { asset } = await storeMediaAsset({
+		dataset,
+		fileName: item.fileName,
+		storageName: item.entry.startsWith("#") ? item.fileName : item.entry,
+		body,
+		contentType,
+		metadata: { ...item.metadata, ingest: { taskId, entry: item.entry } },
+	});
+
+	if (item.caption) {
+		const now = new Date();
+		await db.insert(captions).values({
+			mediaAssetId: asset.id,
+			manualCaption: item.caption,
+			finalCaption: item.caption,
+			status: "completed",
+			metadata: { ingestTaskId: taskId },
+			createdAt: now,
+			updatedAt: now,
+		});
+	}
+	const tags = normalizeTags(item.tags, canonical);
+	if (tags.length) {
+		await db
+			.insert(mediaAssetTags)
+			.values(
+				tags.map((tag) => ({
+					mediaAssetId: asset.id,
+					datasetId: dataset.id,
+					label: tag.label,
+					source: "manual" as const,
+				})),
+			)
+			.onConflictDoNothing();
+	}
+	return asset;
+}
+
+/**
+ * Expands an ingest task's uploaded archive or manifest into media assets.
+ * Entries a previous, interrupted attempt already imported are skipped, so
+ * the job can be retried safely. Per-entry failures are collected in the
+ * task's metadata instead of failing the whole run.
+ */
+export async function runIngestTask(
+	taskId: number,
+	{ requestedBy }: { requestedBy?: string | null } = {},
+) {
+	const [row] = await db
+		.select({ task: automationTasks, dataset: datasets })
+		.from(automationTasks)
+		.innerJoin(datasets, eq(automationTasks.datasetId, datasets.id))
+		.where(eq(automationTasks.id, taskId))
+		.limit(1);
+	if (row?.task.type !== "ingest") {
+		throw new ProviderError("导入任务不存在", { category: "bad_request" });
+	}
+	const { task, dataset } = row;
+	const source = task.metadata.source as IngestSource | undefined;
+	if (!source?.storageKey) {
+		throw new ProviderError("导入任务缺少源文件", { category: "bad_request" });
+	}
+
+	await updateIngestTask(taskId, {
+		status: "running",
+		startedAt: task.startedAt ?? new Date(),
+		failureReason: null,
+	});
+
+	const storage = getStorageDriver(resolveStorageBucket(dataset.storageBucket));
+	// The presigned upload does not enforce the declared size, so check the
+	// stored object before pulling it into memory.
+	const object = await storage.head(source.storageKey);
+	if (!object) {
+		throw new ProviderError("导入源文件不存在", { category: "bad_request" });
+	}
+	if (object.size > MAX_INGEST_SOURCE_BYTES) {
+		throw new ProviderError("导入文件超过 1 GiB，请拆分后上传", {
+			category: "bad_request",
+		});
+	}
+	const buffer = await storage.get(source.storageKey);
+
+	const summary: IngestSummary = {
+		total: 0,
+		created: 0,
+		skipped: 0,
+		failed: 0,
+		captions: 0,
+		errors: [],
+	};
+	const items =
+		source.format === "zip"
+			? collectArchiveItems(readZipEntries(buffer), summary)
+			: source.format === "tar"
+				? collectArchiveItems(readTarEntries(buffer), summary)
+				: collectManifestItems(
+						parseManifest(new TextDecoder().decode(buffer), source.format),
+						summary,
+					);
+	summary.total = items.length + summary.failed;
+
+	const imported = await db
+		.select({
+			asset: mediaAssets,
+			entry: sql<string>`${mediaAssets.metadata}->'ingest'->>'entry'`,
+		})
+		.from(mediaAssets)
+		.where(
+			and(
+				eq(mediaAssets.datasetId, dataset.id),
+				sql`${mediaAssets.metadata}->'ingest'->>'taskId' = ${String(taskId)}`,
+			),
+		);
+	const importedEntries = new Map(
+		imported.map((row) => [row.entry, row.asset]),
+	);
+
+	const canonical = await loadTagNormalizer();
+	let pendingProcessing: Asset[] = [];
+	const flush = async (done: number) => {
+		await queueAssetProcessing(pendingProcessing, requestedBy);
+		pendingProcessing = [];
+		await updateIngestTask(
+			taskId,
+			{
+				progress: summary.total
+					? Math.min(99, Math.floor((done / summary.total) * 100))
+					: 0,
+			},
+			summary,
+		);
+	};
+
+	for (const [index, item] of items.entries()) {
+		const previous = importedEntries.get(item.entry);
+		if (previous) {
+			summary.created++;
+			// The attempt that imported it may have died before queueing it.
+			if (!previous.deletedAt) {
+				pendingProcessing.push(previous);
+			}
+		} else {
+			try {
+				const asset = await importItem(item, {
+					taskId,
+					dataset,
+					canonical,
+				});
+				summary.created++;
+				if (item.caption) {
+					summary.captions++;
+				}
+				pendingProcessing.push(asset);
+			} catch (error) {
+				summary.failed++;
+				if (summary.errors.length < MAX_REPORTED_ERRORS) {
+					summary.errors.push({
+						entry: item.entry,
+						message: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+		}
+		if ((index + 1) % PROGRESS_EVERY === 0) {
+			await flush(index + 1);
+		}
+	}
+	await flush(items.length);
+	if (summary.created) {
+		await recomputeDatasetTags(dataset.id);
+	}
+
+	const failed = summary.created === 0 && summary.failed > 0;
+	await updateIngestTask(
+		taskId,
+		{
+			status: failed ? "failed" : "succeeded",
+			progress: 100,
+			failureReason: failed ? "所有条目都导入失败" : null,
+			completedAt: new Date(),
+		},
+		summary,
+	);
+	await storage.delete(source.storageKey);
+	return summary;
+}
+
+/** Called once an ingest job has given up for good. */
+export async function markIngestFailed(taskId: number, message: string) {
+	const task = await updateIngestTask(taskId, {
+		status: "failed",
+		failureReason: message,
+		completedAt: new Date(),
+	});
+	const source = task?.metadata.source as IngestSource | undefined;
+	if (!task || !source?.storageKey) {
+		return;
+	}
+	const [dataset] = await db
+		.select({ storageBucket: datasets.storageBucket })
+		.from(datasets)
+		.where(eq(datasets.id, task.datasetId))
+		.limit(1);
+	if (dataset) {
+		await getStorageDriver(resolveStorageBucket(dataset.storageBucket)).delete(
+			source.storageKey,
+		);
+	}
+}
@@ -0,0 +1,372 @@
+import { createHash } from "node:crypto";
+import { db } from "@cyop/db";
+import { eq, sql } from "@cyop/db/drizzle-orm";
+import { type MediaThumbnail, mediaAssets } from "@cyop/db/schema/platform";
+import sharp from "sharp";
+import { ProviderError } from "./providers";
+import { getStorageDriver } from "./storage";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+type Asset = typeof mediaAssets.$inferSelect;
+
+/** Largest original the worker downloads for processing. */
+export const MEDIA_PROCESSING_MAX_BYTES =
+	Number(env.MEDIA_PROCESSING_MAX_BYTES) || 100 * 1024 * 1024;
+/** Largest decoded image (width × height) sharp is allowed to open. */
+export const MEDIA_MAX_INPUT_PIXELS =
+	Number(env.MEDIA_MAX_INPUT_PIXELS) || 100_000_000;
+
+const sharpOptions: sharp.SharpOptions = {
+	limitInputPixels: MEDIA_MAX_INPUT_PIXELS,
+};
+
+/** Longest edge in pixels for each generated WebP thumbnail. */
+export const THUMBNAIL_SIZES = { sm: 256, md: 640, lg: 1280 } as const;
+
+export function thumbnailKey(storageKey: string, size: string) {
+	return `thumbnails/${storageKey}/${size}.webp`;
+}
+
+const MIME_SIGNATURES: Array<{
+	mime: string;
+	offset?: number;
+	bytes: number[] | string;
+}> = [
+	{ mime: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+	{
+		mime: "image/png",
+		bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+	},
+	{ mime: "image/gif", bytes: "GIF8" },
+	{ mime: "image/webp", offset: 8, bytes: "WEBP" },
+	{ mime: "image/avif", offset: 8, bytes: "avif" },
+	{ mime: "image/avif", offset: 8, bytes: "avis" },
+	{ mime: "image/heic", offset: 8, bytes: "heic" },
+	{ mime: "image/heic", offset: 8, bytes: "heix" },
+	{ mime: "image/heif", offset: 8, bytes: "mif1" },
+	{ mime: "image/tiff", bytes: [0x49, 0x49, 0x2a, 0x00] },
+	{ mime: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+	{ mime: "image/bmp", bytes: "BM" },
+];
+
+/** Identifies image formats from their leading bytes; `null` for anything else. */
+export function detectImageMime(buffer: Uint8Array) {
+	for (const signature of MIME_SIGNATURES) {
+		const bytes =
+			typeof signature.bytes === "string"
+				? Array.from(signature.bytes, (char) => char.charCodeAt(0))
+				: signature.bytes;
+		const offset = signature.offset ?? 0;
+		if (bytes.every((byte, index) => buffer[offset + index] === byte)) {
+			return signature.mime;
+		}
+	}
+	return null;
+}
+
+export type ExifSummary = {
+	make?: string;
+	model?: string;
+	lens?: string;
+	takenAt?: string;
+	orientation?: number;
+	exposureTime?: number;
+	fNumber?: number;
+	iso?: number;
+	focalLength?: number;
+	gps?: { latitude: number; longitude: number; altitude?: number };
+};
+
+const TYPE_SIZES: Record<number, number> = {
+	1: 1,
+	2: 1,
+	3: 2,
+	4: 4,
+	5: 8,
+	7: 1,
+	9: 4,
+	10: 8,
+};
+
+/**
+ * Reads the handful of EXIF fields we keep from the raw APP1 payload sharp
+ * exposes (`Exif\0\0` followed by a TIFF structure).
+ */
+export function parseExif(raw: Uint8Array | undefined): ExifSummary | null {
+	if (!raw || raw.length < 14) {
+		return null;
+	}
+	const start = String.fromCharCode(...raw.subarray(0, 4)) === "Exif" ? 6 : 0;
+	const view = new DataView(raw.buffer, raw.byteOffset + start);
+	if (view.byteLength < 8) {
+		return null;
+	}
+	const little = view.getUint16(0) === 0x4949;
+	const u16 = (offset: number) => view.getUint16(offset, little);
+	const u32 = (offset: number) => view.getUint32(offset, little);
+
+	type Entry = { type: number; count: number; offset: number };
+	const readIfd = (offset: number) => {
+		const entries = new Map<number, Entry>();
+		if (offset <= 0 || offset + 2 > view.byteLength) {
+			return entries;
+		}
+		const count = u16(offset);
+		for (let index = 0; index < count; index++) {
+			const entry = offset + 2 + index * 12;
+			if (entry + 12 > view.byteLength) {
+				break;
+			}
+			const type = u16(entry + 2);
+			const valueCount = u32(entry + 4);
+			const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+			entries.set(u16(entry), {
+				type,
+				count: valueCount,
+				offset: size > 4 ? u32(entry + 8) : entry + 8,
+			});
+		}
+		return entries;
+	};
+
+	const inBounds = (entry: Entry) =>
+		entry.offset + (TYPE_SIZES[entry.type] ?? 1) * entry.count <=
+		view.byteLength;
+	const text = (entry: Entry | undefined) => {
+		if (entry?.type !== 2 || !inBounds(entry)) {
+			return undefined;
+		}
+		const bytes = new Uint8Array(
+			view.buffer,
+			view.byteOffset + entry.offset,
+			entry.count,
+		);
+		const value = new TextDecoder().decode(bytes).replace(/\0+$/, "").trim();
+		return value || undefined;
+	};
+	const numbers = (entry: Entry | undefined) => {
+		if (!entry || !inBounds(entry)) {
+			return [];
+		}
+		const values: number[] = [];
+		for (let index = 0; index < entry.count; index++) {
+			const at = entry.offset + index * (TYPE_SIZES[entry.type] ?? 1);
+			if (entry.type === 3) {
+				values.push(u16(at));
+			} else if (entry.type === 4) {
+				values.push(u32(at));
+			} else if (entry.type === 5 || entry.type === 10) {
+				const denominator = u32(at + 4);
+				values.push(denominator ? u32(at) / denominator : 0);
+			} else {
+				values.push(view.getUint8(at));
+			}
+		}
+		return values;
+	};
+	const number = (entry: Entry | undefined) => numbers(entry)[0];
+
+	try {
+		const ifd0 = readIfd(u32(4));
+		const exifIfd = readIfd(number(ifd0.get(0x8769)) ?? 0);
+		const gpsIfd = readIfd(number(ifd0.get(0x8825)) ?? 0);
+
+		const summary: ExifSummary = {
+			make: text(ifd0.get(0x010f)),
+			model: text(ifd0.get(0x0110)),
+			lens: text(exifIfd.get(0xa434)),
+			takenAt: text(exifIfd.get(0x9003)) ?? text(ifd0.get(0x0132)),
+			orientation: number(ifd0.get(0x0112)),
+			exposureTime: number(exifIfd.get(0x829a)),
+			fNumber: number(exifIfd.get(0x829d)),
+			iso: number(exifIfd.get(0x8827)),
+			focalLength: number(exifIfd.get(0x920a)),
+		};
+
+		const toDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[]) =>
+			degrees + minutes / 60 + seconds / 3600;
+		const latitude = numbers(gpsIfd.get(2));
+		const longitude = numbers(gpsIfd.get(4));
+		if (latitude.length === 3 && longitude.length === 3) {
+			const altitude = number(gpsIfd.get(6));
+			summary.gps = {
+				latitude: toDegrees(latitude) * (text(gpsIfd.get(1)) === "S" ? -1 : 1),
+				longitude:
+					toDegrees(longitude) * (text(gpsIfd.get(3)) === "W" ? -1 : 1),
+				altitude:
+					altitude === undefined
+						? undefined
+						: altitude * (number(gpsIfd.get(5)) === 1 ? -1 : 1),
+			};
+		}
+
+		const entries = Object.entries(summary).filter(
+			([, value]) => value !== undefined,
+		);
+		return entries.length ? (Object.fromEntries(entries) as ExifSummary) : null;
+	} catch {
+		return null;
+	}
+}
+
+/** 64-bit difference hash matching the one the browser computes on upload. */
+async function differenceHash(buffer: Uint8Array) {
+	const pixels = await sharp(buffer, sharpOptions)
+		.rotate()
+		.greyscale()
+		.resize(9, 8, { fit: "fill" })
+		.raw()
+		.toBuffer();
+	let hash = "";
+	for (let y = 0; y < 8; y++) {
+		for (let nibble = 0; nibble < 2; nibble++) {
+			let value = 0;
+			for (let bit = 0; bit < 4; bit++) {
+				const x = nibble * 4 + bit;
+				const left = pixels[y * 9 + x] ?? 0;
+				const right = pixels[y * 9 + x + 1] ?? 0;
+				value = (value << 1) | (left < right ? 1 : 0);
+			}
+			hash += value.toString(16);
+		}
+	}
+	return hash;
+}
+
+/**
+ * Re-encodes the original without GPS data. Orientation is baked into the
+ * pixels and camera make/model are kept.
+ */
+async function stripGps(buffer: Uint8Array, format: string, exif: ExifSummary) {
+	const ifd0: Record<string, string> = {};
+	if (exif.make) {
+		ifd0.Make = exif.make;
+	}
+	if (exif.model) {
+		ifd0.Model = exif.model;
+	}
+	return sharp(buffer, sharpOptions)
+		.rotate()
+		.keepIccProfile()
+		.withExif({ IFD0: ifd0 })
+		.toFormat(format as keyof sharp.FormatEnum, { quality: 95 })
+		.toBuffer();
+}
+
+/**
+ * Downloads an uploaded asset and replaces what the browser reported with
+ * what the bytes say: MIME type, oriented dimensions, checksum and perceptual
+ * hash. Also extracts EXIF, writes WebP thumbnails and, with
+ * `MEDIA_STRIP_GPS=true`, rewrites the original without GPS data.
+ */
+export async function processMediaAsset(asset: Asset) {
+	const storage = getStorageDriver(asset.storageBucket);
+	const head = await storage.head(asset.storageKey);
+	if (head && head.size > MEDIA_PROCESSING_MAX_BYTES) {
+		throw new ProviderError(
+			`文件超过 ${Math.round(MEDIA_PROCESSING_MAX_BYTES / 1024 / 1024)} MiB 处理上限`,
+			{ category: "bad_request" },
+		);
+	}
+	let buffer = await storage.get(asset.storageKey);
+	const mimeType = detectImageMime(buffer);
+	if (!mimeType) {
+		throw new ProviderError("文件内容无法识别为支持的图片格式", {
+			category: "bad_request",
+		});
+	}
+
+	let metadata: sharp.Metadata;
+	try {
+		metadata = await sharp(buffer, sharpOptions).metadata();
+	} catch (error) {
+		throw new ProviderError("图片解码失败，文件可能已损坏", {
+			category: "bad_request",
+			cause: error,
+		});
+	}
+	if ((metadata.width ?? 0) * (metadata.height ?? 0) > MEDIA_MAX_INPUT_PIXELS) {
+		throw new ProviderError("图片像素数超过处理上限", {
+			category: "bad_request",
+		});
+	}
+	const rotated = (metadata.orientation ?? 1) >= 5;
+	const width = rotated ? metadata.height : metadata.width;
+	const height = rotated ? metadata.width : metadata.height;
+	let exif = parseExif(metadata.exif);
+
+	let strippedGps = false;
+	if (env.MEDIA_STRIP_GPS === "true" && exif?.gps && metadata.format) {
+		buffer = new Uint8Array(await stripGps(buffer, metadata.format, exif));
+		await storage.put(asset.storageKey, buffer, mimeType);
+		const { gps: _gps, orientation: _orientation, ...rest } = exif;
+		exif = rest;
+		strippedGps = true;
+	}
+
+	const thumbnails: Record<string, MediaThumbnail> = {};
+	for (const [name, size] of Object.entries(THUMBNAIL_SIZES)) {
+		const { data, info } = await sharp(buffer, sharpOptions)
+			.rotate()
+			.resize({
+				width: size,
+				height: size,
+				fit: "inside",
+				withoutEnlargement: true,
+			})
+			.webp({ quality: 80 })
+			.toBuffer({ resolveWithObject: true });
+		const key = thumbnailKey(asset.storageKey, name);
+		await storage.put(key, new Uint8Array(data), "image/webp");
+		thumbnails[name] = {
+			key,
+			url: storage.publicUrl(key),
+			width: info.width,
+			height: info.height,
+		};
+	}
+
+	const processed = {
+		exif,
+		declaredMimeType: asset.mimeType === mimeType ? undefined : asset.mimeType,
+		strippedGps: strippedGps || undefined,
+		processedAt: new Date().toISOString(),
+	};
+	const [updated] = await db
+		.update(mediaAssets)
+		.set({
+			status: "ready",
+			mimeType,
+			size: buffer.byteLength,
+			width: width ?? asset.width,
+			height: height ?? asset.height,
+			checksum: createHash("sha256").update(buffer).digest("hex"),
+			perceptualHash: await differenceHash(buffer),
+			thumbnails,
+			metadata: sql`(${mediaAssets.metadata} - 'processingError') || ${JSON.stringify(
+				processed,
+			)}::jsonb`,
+			updatedAt: new Date(),
+		})
+		.where(eq(mediaAssets.id, asset.id))
+		.returning();
+
+	return updated;
+}
+
+/** Called once a processing job has given up for good. */
+export async function markProcessingFailed(assetId: number, message: string) {
+	await db
+		.update(mediaAssets)
+		.set({
+			status: "failed",
+			metadata: sql`${mediaAssets.metadata} || ${JSON.stringify({
+				processingError: message,
+			})}::jsonb`,
+			updatedAt: new Date(),
+		})
+		.where(eq(mediaAssets.id, assetId));
+}
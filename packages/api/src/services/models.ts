@@ -0,0 +1,127 @@
+import { db } from "@cyop/db";
+import { and, desc, eq } from "@cyop/db/drizzle-orm";
+import { aiModels } from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+export type ResolvedModel = typeof aiModels.$inferSelect;
+
+export async function resolveCaptionModel(
+	modelId?: number | null,
+): Promise<ResolvedModel> {
+	if (modelId) {
+		const [model] = await db
+			.select()
+			.from(aiModels)
+			.where(and(eq(aiModels.id, modelId), eq(aiModels.type, "caption")))
+			.limit(1);
+		if (!model) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "找不到指定的 caption 模型",
+			});
+		}
+		if (!model.enabled) {
+			throw new TRPCError({ code: "BAD_REQUEST", message: "模型已被禁用" });
+		}
+		return model;
+	}
+
+	const [model] = await db
+		.select()
+		.from(aiModels)
+		.where(and(eq(aiModels.type, "caption"), eq(aiModels.enabled, true)))
+		.orderBy(desc(aiModels.defaultModel), desc(aiModels.updatedAt))
+		.limit(1);
+	if (model) {
+		return model;
+	}
+	if (env.AI_CAPTION_MODEL || env.AI_CAPTION_API_KEY) {
+		return {
+			id: 0,
+			name: "Env default",
+			provider: "openai-compatible",
+			modelName: env.AI_CAPTION_MODEL || "gpt-4o-mini",
+			type: "caption" as const,
+			baseUrl: (env.AI_CAPTION_BASE_URL as string | undefined) ?? null,
+			apiKeyEnv: "AI_CAPTION_API_KEY",
+			defaultModel: true,
+			enabled: true,
+			requestsPerMinute: null,
+			tokensPerMinute: null,
+			maxConcurrency: null,
+			inputPricePer1kMicros: null,
+			outputPricePer1kMicros: null,
+			metadata: {} as Record<string, unknown>,
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		};
+	}
+	throw new TRPCError({
+		code: "NOT_FOUND",
+		message: "未配置可用的 caption 模型，请先创建模型或设置环境变量",
+	});
+}
+
+export async function resolveTemplateModel(
+	modelId: number | null | undefined,
+	templateModelName?: string | null,
+): Promise<ResolvedModel> {
+	if (modelId || !templateModelName) {
+		return await resolveCaptionModel(modelId);
+	}
+
+	const [model] = await db
+		.select()
+		.from(aiModels)
+		.where(
+			and(
+				eq(aiModels.type, "caption"),
+				eq(aiModels.enabled, true),
+				eq(aiModels.modelName, templateModelName),
+			),
+		)
+		.orderBy(desc(aiModels.defaultModel), desc(aiModels.updatedAt))
+		.limit(1);
+
+	return model ?? (await resolveCaptionModel());
+}
+
+async function resolveModelOfType(
+	type: "tag" | "embedding",
+	modelId?: number | null,
+): Promise<ResolvedModel> {
+	const [model] = await db
+		.select()
+		.from(aiModels)
+		.where(
+			modelId
+				? and(eq(aiModels.id, modelId), eq(aiModels.type, type))
+				: and(eq(aiModels.type, type), eq(aiModels.enabled, true)),
+		)
+		.orderBy(desc(aiModels.defaultModel), desc(aiModels.updatedAt))
+		.limit(1);
+	if (!model) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: modelId
+				? `找不到指定的 ${type} 模型`
+				: `未配置可用的 ${type} 模型，请先创建类型为 ${type} 的模型`,
+		});
+	}
+	if (!model.enabled) {
+		throw new TRPCError({ code: "BAD_REQUEST", message: "模型已被禁用" });
+	}
+	return model;
+}
+
+export function resolveTagModel(modelId?: number | null) {
+	return resolveModelOfType("tag", modelId);
+}
+
+export function resolveEmbeddingModel(modelId?: number | null) {
+	return resolveModelOfType("embedding", modelId);
+}
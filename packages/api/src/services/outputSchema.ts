@@ -0,0 +1,116 @@
+import z from "zod";
+
+/**
+ * The JSON Schema subset prompt templates may declare for structured output:
+ * objects, arrays, strings (optionally enums), numbers, integers and
+ * booleans. Providers that support a native JSON mode receive it verbatim.
+ */
+export type OutputSchema =
+	| {
+			type: "object";
+			properties: Record<string, OutputSchema>;
+			required?: string[];
+			description?: string;
+	  }
+	| { type: "array"; items: OutputSchema; description?: string }
+	| { type: "string"; enum?: string[]; description?: string }
+	| { type: "number" | "integer" | "boolean"; description?: string };
+
+export const outputSchemaInput: z.ZodType<OutputSchema> = z.lazy(() =>
+	z.union([
+		z.object({
+			type: z.literal("object"),
+			properties: z.record(z.string(), outputSchemaInput),
+			required: z.array(z.string()).optional(),
+			description: z.string().optional(),
+		}),
+		z.object({
+			type: z.literal("array"),
+			items: outputSchemaInput,
+			description: z.string().optional(),
+		}),
+		z.object({
+			type: z.literal("string"),
+			enum: z.array(z.string()).min(1).optional(),
+			description: z.string().optional(),
+		}),
+		z.object({
+			type: z.enum(["number", "integer", "boolean"]),
+			description: z.string().optional(),
+		}),
+	]),
+);
+
+/** Template schemas must be objects with a string `caption` property. */
+export const captionOutputSchema = outputSchemaInput.refine(
+	(schema) =>
+		schema.type === "object" && schema.properties.caption?.type === "string",
+	{
+		message: "outputSchema must be an object with a string `caption` property",
+	},
+);
+
+export function toZodSchema(schema: OutputSchema): z.ZodType {
+	switch (schema.type) {
+		case "object": {
+			const required = new Set(schema.required ?? []);
+			return z.object(
+				Object.fromEntries(
+					Object.entries(schema.properties).map(([key, value]) => {
+						const field = toZodSchema(value);
+						return [key, required.has(key) ? field : field.optional()];
+					}),
+				),
+			);
+		}
+		case "array":
+			return z.array(toZodSchema(schema.items));
+		case "string": {
+			const [first, ...rest] = schema.enum ?? [];
+			return first === undefined ? z.string() : z.enum([first, ...rest]);
+		}
+		case "integer":
+			return z.number().int();
+		case "number":
+			return z.number();
+		case "boolean":
+			return z.boolean();
+	}
+}
+
+/** Models often wrap JSON in a markdown fence even in JSON mode. */
+function stripCodeFence(text: string) {
+	const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+	return match?.[1] ?? text.trim();
+}
+
+export function parseStructuredOutput(text: string, schema: OutputSchema) {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(stripCodeFence(text));
+	} catch {
+		return {
+			success: false as const,
+			errors: ["response is not valid JSON"],
+		};
+	}
+
+	const result = toZodSchema(schema).safeParse(parsed);
+	if (!result.success) {
+		return {
+			success: false as const,
+			errors: result.error.issues.map(
+				(issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+			),
+		};
+	}
+
+	return {
+		success: true as const,
+		data: result.data as Record<string, unknown>,
+	};
+}
+
+export function schemaInstructions(schema: OutputSchema) {
+	return `Respond with a single JSON object only, no prose or markdown, matching this JSON schema:\n${JSON.stringify(schema)}`;
+}
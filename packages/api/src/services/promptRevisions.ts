@@ -0,0 +1,257 @@
+import { db, txDb } from "@cyop/db";
+import { and, desc, eq, isNull } from "@cyop/db/drizzle-orm";
+import {
+	promptTemplateRevisions,
+	promptTemplates,
+} from "@cyop/db/schema/platform";
+
+export const REVISIONED_FIELDS = [
+	"systemPrompt",
+	"userPromptTemplate",
+	"model",
+	"temperature",
+	"maxTokens",
+	"confidenceStrategy",
+	"consistencySamples",
+	"outputSchema",
+] as const;
+
+type PromptTemplate = typeof promptTemplates.$inferSelect;
+type PromptRevision = typeof promptTemplateRevisions.$inferSelect;
+type RevisionExecutor = Pick<typeof txDb, "select" | "insert" | "update">;
+export type RevisionedFields = Pick<
+	PromptTemplate,
+	(typeof REVISIONED_FIELDS)[number]
+>;
+
+export type LineDiff = Array<{
+	type: "equal" | "added" | "removed";
+	text: string;
+	beforeLine: number | null;
+	afterLine: number | null;
+}>;
+
+function pickRevisioned(source: RevisionedFields): RevisionedFields {
+	return {
+		systemPrompt: source.systemPrompt,
+		userPromptTemplate: source.userPromptTemplate,
+		model: source.model,
+		temperature: source.temperature,
+		maxTokens: source.maxTokens,
+		confidenceStrategy: source.confidenceStrategy,
+		consistencySamples: source.consistencySamples,
+		outputSchema: source.outputSchema,
+	};
+}
+
+function sameValue(a: unknown, b: unknown) {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function formatSchema(schema: unknown) {
+	return schema ? JSON.stringify(schema, null, 2) : "";
+}
+
+export function hasRevisionedChanges(
+	current: RevisionedFields,
+	updates: Partial<RevisionedFields>,
+) {
+	return REVISIONED_FIELDS.some(
+		(field) =>
+			updates[field] !== undefined &&
+			!sameValue(updates[field], current[field]),
+	);
+}
+
+/**
+ * Appends an immutable revision for the template's current prompt fields and
+ * marks it active. Revision numbers are per template; pass a transaction that
+ * holds the template's row lock so concurrent saves number in turn.
+ */
+export async function createRevision(
+	template: PromptTemplate,
+	{ createdBy, note }: { createdBy?: string | null; note?: string | null } = {},
+	executor: RevisionExecutor = txDb,
+) {
+	const [latest] = await executor
+		.select({ revision: promptTemplateRevisions.revision })
+		.from(promptTemplateRevisions)
+		.where(eq(promptTemplateRevisions.templateId, template.id))
+		.orderBy(desc(promptTemplateRevisions.revision))
+		.limit(1);
+
+	const [revision] = await executor
+		.insert(promptTemplateRevisions)
+		.values({
+			templateId: template.id,
+			revision: (latest?.revision ?? 0) + 1,
+			...pickRevisioned(template),
+			note: note ?? null,
+			createdBy: createdBy ?? null,
+			createdAt: new Date(),
+		})
+		.returning();
+
+	if (!revision) {
+		throw new Error("Failed to create prompt revision");
+	}
+
+	await executor
+		.update(promptTemplates)
+		.set({ activeRevisionId: revision.id })
+		.where(eq(promptTemplates.id, template.id));
+
+	return revision;
+}
+
+/**
+ * Templates saved before revisions existed get revision 1 on first use.
+ * Concurrent first uses race for that row; whoever loses adopts the winner's.
+ */
+export async function ensureActiveRevision(template: PromptTemplate) {
+	if (template.activeRevisionId) {
+		return template.activeRevisionId;
+	}
+	await db
+		.insert(promptTemplateRevisions)
+		.values({
+			templateId: template.id,
+			revision: 1,
+			...pickRevisioned(template),
+			note: "initial",
+			createdAt: new Date(),
+		})
+		.onConflictDoNothing();
+	const [initial] = await db
+		.select({ id: promptTemplateRevisions.id })
+		.from(promptTemplateRevisions)
+		.where(
+			and(
+				eq(promptTemplateRevisions.templateId, template.id),
+				eq(promptTemplateRevisions.revision, 1),
+			),
+		)
+		.limit(1);
+	if (!initial) {
+		throw new Error("Failed to create prompt revision");
+	}
+
+	const [activated] = await db
+		.update(promptTemplates)
+		.set({ activeRevisionId: initial.id })
+		.where(
+			and(
+				eq(promptTemplates.id, template.id),
+				isNull(promptTemplates.activeRevisionId),
+			),
+		)
+		.returning({ activeRevisionId: promptTemplates.activeRevisionId });
+	if (activated) {
+		return initial.id;
+	}
+	// Another save activated a revision in the meantime.
+	const [current] = await db
+		.select({ activeRevisionId: promptTemplates.activeRevisionId })
+		.from(promptTemplates)
+		.where(eq(promptTemplates.id, template.id))
+		.limit(1);
+	return current?.activeRevisionId ?? initial.id;
+}
+
+export async function getRevision(revisionId: number) {
+	const [revision] = await db
+		.select()
+		.from(promptTemplateRevisions)
+		.where(eq(promptTemplateRevisions.id, revisionId))
+		.limit(1);
+	return revision;
+}
+
+/** Copies a revision's fields back onto its template and makes it active. */
+export async function activateRevision(revision: PromptRevision) {
+	const [template] = await db
+		.update(promptTemplates)
+		.set({
+			...pickRevisioned(revision),
+			activeRevisionId: revision.id,
+			updatedAt: new Date(),
+		})
+		.where(eq(promptTemplates.id, revision.templateId))
+		.returning();
+	return template;
+}
+
+/** Line-level LCS diff; prompts are short enough for the quadratic table. */
+export function diffLines(before: string, after: string): LineDiff {
+	const a = before.split("\n");
+	const b = after.split("\n");
+	const width = b.length + 1;
+	const lengths = new Uint32Array((a.length + 1) * width);
+	const at = (i: number, j: number) => lengths[i * width + j] ?? 0;
+
+	for (let i = a.length - 1; i >= 0; i -= 1) {
+		for (let j = b.length - 1; j >= 0; j -= 1) {
+			lengths[i * width + j] =
+				a[i] === b[j]
+					? at(i + 1, j + 1) + 1
+					: Math.max(at(i + 1, j), at(i, j + 1));
+		}
+	}
+
+	const result: LineDiff = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			result.push({
+				type: "equal",
+				text: a[i] ?? "",
+				beforeLine: i + 1,
+				afterLine: j + 1,
+			});
+			i += 1;
+			j += 1;
+		} else if (
+			j >= b.length ||
+			(i < a.length && at(i + 1, j) >= at(i, j + 1))
+		) {
+			result.push({
+				type: "removed",
+				text: a[i] ?? "",
+				beforeLine: i + 1,
+				afterLine: null,
+			});
+			i += 1;
+		} else {
+			result.push({
+				type: "added",
+				text: b[j] ?? "",
+				beforeLine: null,
+				afterLine: j + 1,
+			});
+			j += 1;
+		}
+	}
+	return result;
+}
+
+export function diffRevisions(from: PromptRevision, to: PromptRevision) {
+	return {
+		systemPrompt: diffLines(from.systemPrompt, to.systemPrompt),
+		userPromptTemplate: diffLines(
+			from.userPromptTemplate,
+			to.userPromptTemplate,
+		),
+		outputSchema: diffLines(
+			formatSchema(from.outputSchema),
+			formatSchema(to.outputSchema),
+		),
+		settings: REVISIONED_FIELDS.filter(
+			(field) =>
+				field !== "systemPrompt" &&
+				field !== "userPromptTemplate" &&
+				field !== "outputSchema" &&
+				from[field] !== to[field],
+		).map((field) => ({ field, from: from[field], to: to[field] })),
+	};
+}
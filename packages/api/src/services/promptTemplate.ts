@@ -0,0 +1,122 @@
+import { db } from "@cyop/db";
+import { eq } from "@cyop/db/drizzle-orm";
+import { datasets, mediaAssets, requirements } from "@cyop/db/schema/platform";
+
+export const PROMPT_VARIABLES = [
+	"requirement.title",
+	"requirement.description",
+	"requirement.team",
+	"requirement.riskLevel",
+	"requirement.tagHints",
+	"dataset.name",
+	"dataset.focusTags",
+	"asset.originalName",
+	"asset.mimeType",
+	"asset.size",
+	"asset.width",
+	"asset.height",
+] as const;
+
+const METADATA_PREFIX = "asset.metadata.";
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export type PromptContext = {
+	requirement?: Pick<
+		typeof requirements.$inferSelect,
+		"title" | "description" | "team" | "riskLevel" | "tagHints"
+	> | null;
+	dataset?: Pick<typeof datasets.$inferSelect, "name" | "focusTags"> | null;
+	asset?: Pick<
+		typeof mediaAssets.$inferSelect,
+		"originalName" | "mimeType" | "size" | "width" | "height" | "metadata"
+	> | null;
+};
+
+function isKnownVariable(name: string) {
+	return (
+		(PROMPT_VARIABLES as readonly string[]).includes(name) ||
+		(name.startsWith(METADATA_PREFIX) && name.length > METADATA_PREFIX.length)
+	);
+}
+
+export function extractPromptVariables(template: string) {
+	return [
+		...new Set(
+			Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1]),
+		),
+	].filter((name): name is string => Boolean(name));
+}
+
+export function findUnknownPromptVariables(
+	...templates: Array<string | null | undefined>
+) {
+	return [
+		...new Set(
+			templates.flatMap((template) =>
+				template ? extractPromptVariables(template) : [],
+			),
+		),
+	].filter((name) => !isKnownVariable(name));
+}
+
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	if (Array.isArray(value)) {
+		return value.map(formatValue).filter(Boolean).join(", ");
+	}
+	if (typeof value === "object") {
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+function lookup(context: PromptContext, name: string): unknown {
+	let current: unknown = context;
+	for (const segment of name.split(".")) {
+		if (current === null || typeof current !== "object") {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+/**
+ * Substitutes `{{scope.field}}` placeholders. Unknown variables are left
+ * verbatim; known variables without a value render as an empty string.
+ */
+export function renderPromptTemplate(template: string, context: PromptContext) {
+	return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+		isKnownVariable(name) ? formatValue(lookup(context, name)) : placeholder,
+	);
+}
+
+export async function loadPromptContext(
+	assetId: number,
+): Promise<PromptContext | null> {
+	const [row] = await db
+		.select({
+			asset: mediaAssets,
+			dataset: datasets,
+		})
+		.from(mediaAssets)
+		.innerJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
+		.where(eq(mediaAssets.id, assetId))
+		.limit(1);
+
+	if (!row) {
+		return null;
+	}
+
+	const [requirement] = await db
+		.select()
+		.from(requirements)
+		.where(
+			eq(requirements.id, row.asset.requirementId ?? row.dataset.requirementId),
+		)
+		.limit(1);
+
+	return { asset: row.asset, dataset: row.dataset, requirement };
+}
@@ -0,0 +1,81 @@
+import { loadImageData, postJson, toUsage, trimBaseUrl } from "./http";
+import type { CaptionProvider, ProviderFinishReason } from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type MessagesResponse = {
+	model?: string;
+	content?: Array<{ type: string; text?: string }>;
+	stop_reason?: string | null;
+	usage?: { input_tokens?: number; output_tokens?: number };
+};
+
+/** Anthropic fetches URL sources itself; data URLs have to go inline. */
+async function toImageSource(imageUrl: string) {
+	if (!imageUrl.startsWith("data:")) {
+		return { type: "url", url: imageUrl };
+	}
+	const { mimeType, data } = await loadImageData(imageUrl);
+	return { type: "base64", media_type: mimeType, data };
+}
+
+function toFinishReason(reason?: string | null): ProviderFinishReason {
+	switch (reason) {
+		case "end_turn":
+		case "stop_sequence":
+			return "stop";
+		case "max_tokens":
+			return "length";
+		case "refusal":
+			return "content_filter";
+		default:
+			return "other";
+	}
+}
+
+export const anthropicProvider: CaptionProvider = {
+	defaultBaseUrl: "https://api.anthropic.com/v1",
+	requiresApiKey: true,
+	supportsLogprobs: false,
+
+	async generate(request) {
+		const json = await postJson<MessagesResponse>(
+			`${trimBaseUrl(request.baseUrl)}/messages`,
+			{
+				model: request.modelName,
+				max_tokens: request.maxTokens,
+				...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+				...(typeof request.temperature === "number"
+					? { temperature: request.temperature }
+					: {}),
+				messages: [
+					{
+						role: "user",
+						content: [
+							{ type: "image", source: await toImageSource(request.imageUrl) },
+							{ type: "text", text: request.prompt },
+						],
+					},
+				],
+			},
+			{
+				"x-api-key": request.apiKey ?? "",
+				"anthropic-version": ANTHROPIC_VERSION,
+			},
+			request.timeoutMs,
+		);
+		const caption = (json.content ?? [])
+			.filter((block) => block.type === "text")
+			.map((block) => block.text ?? "")
+			.join("")
+			.trim();
+
+		return {
+			caption,
+			finishReason: toFinishReason(json.stop_reason),
+			usage: toUsage(json.usage?.input_tokens, json.usage?.output_tokens),
+			model: json.model ?? request.modelName,
+			raw: json,
+		};
+	},
+};
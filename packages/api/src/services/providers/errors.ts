@@ -0,0 +1,136 @@
+import type { captionFailureCategoryValues } from "@cyop/db/schema/platform";
+import type { ProviderUsage } from "./types";
+
+export type FailureCategory = (typeof captionFailureCategoryValues)[number];
+
+const RETRYABLE: ReadonlySet<FailureCategory> = new Set([
+	"rate_limit",
+	"server",
+	"network",
+	"timeout",
+	"empty_response",
+	"invalid_output",
+	"unknown",
+]);
+
+type ProviderErrorOptions = {
+	category: FailureCategory;
+	status?: number;
+	retryAfterMs?: number;
+	cause?: unknown;
+	/** Tokens already billed when the failure happened after a response. */
+	usage?: ProviderUsage;
+	model?: string;
+};
+
+export class ProviderError extends Error {
+	readonly category: FailureCategory;
+	readonly status?: number;
+	readonly retryAfterMs?: number;
+	readonly retryable: boolean;
+	readonly usage?: ProviderUsage;
+	readonly model?: string;
+
+	constructor(message: string, options: ProviderErrorOptions) {
+		super(message, { cause: options.cause });
+		this.name = "ProviderError";
+		this.category = options.category;
+		this.status = options.status;
+		this.retryAfterMs = options.retryAfterMs;
+		this.retryable = RETRYABLE.has(options.category);
+		this.usage = options.usage;
+		this.model = options.model;
+	}
+}
+
+const CONTENT_POLICY_PATTERN =
+	/content[_ -]?(policy|filter|management)|safety|moderation|refus/i;
+
+export function categorizeStatus(
+	status: number,
+	body: string,
+): FailureCategory {
+	if (status === 429) {
+		return "rate_limit";
+	}
+	if (status === 408) {
+		return "timeout";
+	}
+	if (status === 401 || status === 403) {
+		return "auth";
+	}
+	if (status >= 500) {
+		return "server";
+	}
+	if (CONTENT_POLICY_PATTERN.test(body)) {
+		return "content_policy";
+	}
+	return "bad_request";
+}
+
+/** Accepts both forms allowed by RFC 9110: delay-seconds and HTTP-date. */
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function providerErrorFromResponse(response: Response, body: string) {
+	return new ProviderError(`模型调用失败: ${response.status} ${body}`, {
+		category: categorizeStatus(response.status, body),
+		status: response.status,
+		retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+	});
+}
+
+/**
+ * `error` as a ProviderError that also carries `usage`, for failures that
+ * come after the provider already answered (and billed) a request.
+ */
+export function withUsage(
+	error: unknown,
+	usage: ProviderUsage,
+	model: string,
+): ProviderError {
+	const failure = toProviderError(error);
+	return new ProviderError(failure.message, {
+		category: failure.category,
+		status: failure.status,
+		retryAfterMs: failure.retryAfterMs,
+		cause: failure.cause,
+		usage: failure.usage
+			? {
+					promptTokens: usage.promptTokens + failure.usage.promptTokens,
+					completionTokens:
+						usage.completionTokens + failure.usage.completionTokens,
+					totalTokens: usage.totalTokens + failure.usage.totalTokens,
+				}
+			: usage,
+		model: failure.model ?? model,
+	});
+}
+
+export function toProviderError(error: unknown): ProviderError {
+	if (error instanceof ProviderError) {
+		return error;
+	}
+	if (error instanceof Error) {
+		const category: FailureCategory =
+			error.name === "TimeoutError" || error.name === "AbortError"
+				? "timeout"
+				: error instanceof TypeError
+					? "network"
+					: "unknown";
+		return new ProviderError(error.message, { category, cause: error });
+	}
+	return new ProviderError("caption 任务处理失败", {
+		category: "unknown",
+		cause: error,
+	});
+}
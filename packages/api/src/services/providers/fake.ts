@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto";
+import { toUsage } from "./http";
+import type { CaptionProvider } from "./types";
+
+const SUBJECTS = [
+	"a cat",
+	"a city street",
+	"a mountain lake",
+	"a bowl of fruit",
+];
+const STYLES = ["in soft daylight", "at dusk", "in close-up", "from above"];
+
+function countWords(text: string) {
+	return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** Unit-length pseudo-random vector seeded by the input. */
+function fakeEmbedding(seed: string, dimensions: number) {
+	const values: number[] = [];
+	for (let block = 0; values.length < dimensions; block += 1) {
+		const digest = createHash("sha256").update(`${seed}\n${block}`).digest();
+		for (let i = 0; i < digest.length && values.length < dimensions; i += 1) {
+			values.push((digest[i] ?? 0) / 127.5 - 1);
+		}
+	}
+	const norm = Math.hypot(...values) || 1;
+	return values.map((value) => value / norm);
+}
+
+/** Fills a JSON schema with values derived from the caption. */
+function fakeStructured(
+	schema: Record<string, unknown>,
+	caption: string,
+	words: string[],
+): unknown {
+	switch (schema.type) {
+		case "object": {
+			const properties = (schema.properties ?? {}) as Record<
+				string,
+				Record<string, unknown>
+			>;
+			return Object.fromEntries(
+				Object.entries(properties).map(([key, value]) => [
+					key,
+					key === "caption" ? caption : fakeStructured(value, caption, words),
+				]),
+			);
+		}
+		case "array":
+			return words.map((word) =>
+				fakeStructured(
+					(schema.items ?? {}) as Record<string, unknown>,
+					word,
+					words,
+				),
+			);
+		case "string":
+			return Array.isArray(schema.enum) ? schema.enum[0] : caption;
+		case "number":
+		case "integer":
+			return 0;
+		case "boolean":
+			return false;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Deterministic provider for local development and automated runs: the same
+ * image URL, prompt and model always produce the same caption, without any
+ * network access.
+ */
+export const fakeProvider: CaptionProvider = {
+	defaultBaseUrl: "fake://local",
+	requiresApiKey: false,
+	supportsLogprobs: true,
+	supportsImageEmbeddings: true,
+
+	async generate(request) {
+		const digest = createHash("sha256")
+			.update(`${request.modelName}\n${request.prompt}\n${request.imageUrl}`)
+			.digest();
+		const subject = SUBJECTS[(digest[0] ?? 0) % SUBJECTS.length];
+		const style = STYLES[(digest[1] ?? 0) % STYLES.length];
+		const text = `A photo of ${subject} ${style} (${digest.toString("hex").slice(0, 8)})`;
+		const caption = request.jsonSchema
+			? JSON.stringify(
+					fakeStructured(request.jsonSchema, text, [
+						(subject ?? "").replace(/^an? /, ""),
+						(style ?? "").replace(/^(in|at|from) /, ""),
+					]),
+				)
+			: text;
+		const promptTokens = countWords(
+			`${request.systemPrompt ?? ""} ${request.prompt}`,
+		);
+
+		return {
+			caption,
+			finishReason: "stop",
+			usage: toUsage(promptTokens, countWords(caption)),
+			model: request.modelName,
+			logprobs: request.logprobs
+				? [...digest.subarray(2, 10)].map((byte) => -byte / 1024)
+				: undefined,
+			raw: { fake: true, digest: digest.toString("hex") },
+		};
+	},
+
+	async embed(request) {
+		const seed =
+			request.input.type === "text"
+				? request.input.text
+				: request.input.imageUrl;
+		return {
+			embedding: fakeEmbedding(
+				`${request.modelName}\n${seed}`,
+				request.dimensions,
+			),
+			usage: toUsage(countWords(seed), 0),
+			model: request.modelName,
+		};
+	},
+};
@@ -0,0 +1,125 @@
+import { loadImageData, postJson, toUsage, trimBaseUrl } from "./http";
+import type { CaptionProvider, ProviderFinishReason } from "./types";
+
+type GenerateContentResponse = {
+	modelVersion?: string;
+	candidates?: Array<{
+		content?: { parts?: Array<{ text?: string }> };
+		finishReason?: string;
+		avgLogprobs?: number;
+	}>;
+	usageMetadata?: {
+		promptTokenCount?: number;
+		candidatesTokenCount?: number;
+		totalTokenCount?: number;
+	};
+};
+
+type EmbedContentResponse = {
+	embedding?: { values?: number[] };
+};
+
+function toFinishReason(reason?: string): ProviderFinishReason {
+	switch (reason) {
+		case "STOP":
+			return "stop";
+		case "MAX_TOKENS":
+			return "length";
+		case "SAFETY":
+		case "RECITATION":
+		case "BLOCKLIST":
+		case "PROHIBITED_CONTENT":
+			return "content_filter";
+		default:
+			return "other";
+	}
+}
+
+export const geminiProvider: CaptionProvider = {
+	defaultBaseUrl: "https://generativelanguage.googleapis.com/v1beta",
+	requiresApiKey: true,
+	supportsLogprobs: true,
+	supportsImageEmbeddings: true,
+
+	async generate(request) {
+		const image = await loadImageData(request.imageUrl);
+		const json = await postJson<GenerateContentResponse>(
+			`${trimBaseUrl(request.baseUrl)}/models/${encodeURIComponent(request.modelName)}:generateContent`,
+			{
+				...(request.systemPrompt
+					? { systemInstruction: { parts: [{ text: request.systemPrompt }] } }
+					: {}),
+				contents: [
+					{
+						role: "user",
+						parts: [
+							{ inlineData: { mimeType: image.mimeType, data: image.data } },
+							{ text: request.prompt },
+						],
+					},
+				],
+				generationConfig: {
+					maxOutputTokens: request.maxTokens,
+					...(request.jsonSchema
+						? {
+								responseMimeType: "application/json",
+								responseJsonSchema: request.jsonSchema,
+							}
+						: {}),
+					...(typeof request.temperature === "number"
+						? { temperature: request.temperature }
+						: {}),
+				},
+			},
+			{ "x-goog-api-key": request.apiKey ?? "" },
+			request.timeoutMs,
+		);
+		const [candidate] = json.candidates ?? [];
+		const caption = (candidate?.content?.parts ?? [])
+			.map((part) => part.text ?? "")
+			.join("")
+			.trim();
+
+		return {
+			caption,
+			finishReason: toFinishReason(candidate?.finishReason),
+			usage: toUsage(
+				json.usageMetadata?.promptTokenCount,
+				json.usageMetadata?.candidatesTokenCount,
+				json.usageMetadata?.totalTokenCount,
+			),
+			model: json.modelVersion ?? request.modelName,
+			// Gemini only reports the average, which is all the scorer needs.
+			logprobs:
+				typeof candidate?.avgLogprobs === "number"
+					? [candidate.avgLogprobs]
+					: undefined,
+			raw: json,
+		};
+	},
+
+	async embed(request) {
+		const part =
+			request.input.type === "text"
+				? { text: request.input.text }
+				: await loadImageData(request.input.imageUrl).then((image) => ({
+						inlineData: { mimeType: image.mimeType, data: image.data },
+					}));
+		const json = await postJson<EmbedContentResponse>(
+			`${trimBaseUrl(request.baseUrl)}/models/${encodeURIComponent(request.modelName)}:embedContent`,
+			{
+				content: { parts: [part] },
+				outputDimensionality: request.dimensions,
+			},
+			{ "x-goog-api-key": request.apiKey ?? "" },
+			request.timeoutMs,
+		);
+
+		return {
+			embedding: json.embedding?.values ?? [],
+			// embedContent does not report token usage.
+			usage: toUsage(0, 0),
+			model: request.modelName,
+		};
+	},
+};
@@ -0,0 +1,105 @@
+import { fetchRemoteFile } from "../remoteFetch";
+import { ProviderError, providerErrorFromResponse } from "./errors";
+import type { ProviderUsage } from "./types";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const IMAGE_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_REQUEST_TIMEOUT_MS =
+	Number(env.AI_REQUEST_TIMEOUT_MS) || 120_000;
+
+function isAbortError(error: unknown) {
+	return (
+		error instanceof Error &&
+		(error.name === "TimeoutError" || error.name === "AbortError")
+	);
+}
+
+/** The timeout covers the whole exchange, including reading the body. */
+export async function postJson<T>(
+	url: string,
+	body: unknown,
+	headers: Record<string, string> = {},
+	timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+): Promise<T> {
+	try {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: { "content-type": "application/json", ...headers },
+			body: JSON.stringify(body),
+			signal: AbortSignal.timeout(timeoutMs),
+		});
+		if (!response.ok) {
+			throw providerErrorFromResponse(response, await response.text());
+		}
+		return (await response.json()) as T;
+	} catch (error) {
+		if (error instanceof ProviderError) {
+			throw error;
+		}
+		if (isAbortError(error)) {
+			throw new ProviderError(`模型调用超时（${timeoutMs}ms）`, {
+				category: "timeout",
+				cause: error,
+			});
+		}
+		if (error instanceof SyntaxError) {
+			throw new ProviderError(`模型返回了无效的 JSON: ${error.message}`, {
+				category: "invalid_output",
+				cause: error,
+			});
+		}
+		throw new ProviderError(
+			`模型服务连接失败: ${error instanceof Error ? error.message : url}`,
+			{ category: "network", cause: error },
+		);
+	}
+}
+
+/**
+ * Providers without URL image inputs (Gemini, Ollama) need the bytes inline.
+ * `data:` URLs are decoded directly; anything else is downloaded through the
+ * same guarded fetcher as remote imports.
+ */
+export async function loadImageData(imageUrl: string) {
+	const dataUrl = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(imageUrl);
+	if (dataUrl) {
+		const [, mimeType = "image/jpeg", isBase64, payload = ""] = dataUrl;
+		return {
+			mimeType,
+			data: isBase64
+				? payload
+				: Buffer.from(decodeURIComponent(payload)).toString("base64"),
+		};
+	}
+
+	// Caller-supplied URLs: guard against internal hosts and oversized bodies.
+	const file = await fetchRemoteFile(imageUrl, {
+		maxBytes: MAX_IMAGE_BYTES,
+		timeoutMs: IMAGE_TIMEOUT_MS,
+	});
+	const mimeType = file.contentType?.split(";")[0]?.trim() || "image/jpeg";
+	return { mimeType, data: Buffer.from(file.body).toString("base64") };
+}
+
+export function toUsage(
+	promptTokens: number | undefined,
+	completionTokens: number | undefined,
+	totalTokens?: number,
+): ProviderUsage {
+	const prompt = promptTokens ?? 0;
+	const completion = completionTokens ?? 0;
+	return {
+		promptTokens: prompt,
+		completionTokens: completion,
+		totalTokens: totalTokens ?? prompt + completion,
+	};
+}
+
+export function trimBaseUrl(url: string) {
+	return url.replace(/\/$/, "");
+}
@@ -0,0 +1,52 @@
+import { anthropicProvider } from "./anthropic";
+import { ProviderError } from "./errors";
+import { fakeProvider } from "./fake";
+import { geminiProvider } from "./gemini";
+import { ollamaProvider } from "./ollama";
+import { openaiCompatibleProvider } from "./openaiCompatible";
+import type { CaptionProvider } from "./types";
+
+export {
+	categorizeStatus,
+	type FailureCategory,
+	ProviderError,
+	toProviderError,
+	withUsage,
+} from "./errors";
+export type {
+	CaptionProvider,
+	EmbeddingInput,
+	EmbeddingResult,
+	ProviderFinishReason,
+	ProviderRequest,
+	ProviderResult,
+	ProviderUsage,
+} from "./types";
+
+const providers: Record<string, CaptionProvider> = {
+	"openai-compatible": openaiCompatibleProvider,
+	openai: openaiCompatibleProvider,
+	anthropic: anthropicProvider,
+	gemini: geminiProvider,
+	google: geminiProvider,
+	ollama: ollamaProvider,
+	local: ollamaProvider,
+	fake: fakeProvider,
+};
+
+export const captionProviderKeys = Object.keys(providers);
+
+/**
+ * Looks up the adapter for `aiModels.provider`. Unknown values are rejected
+ * rather than guessed, so a typo never sends requests to the wrong API.
+ */
+export function getCaptionProvider(provider: string) {
+	const adapter = providers[provider.trim().toLowerCase()];
+	if (!adapter) {
+		throw new ProviderError(
+			`未知的模型 provider: ${provider}，可选值为 ${captionProviderKeys.join(", ")}`,
+			{ category: "bad_request" },
+		);
+	}
+	return adapter;
+}
@@ -0,0 +1,101 @@
+import { ProviderError } from "./errors";
+import { loadImageData, postJson, toUsage, trimBaseUrl } from "./http";
+import type { CaptionProvider, ProviderFinishReason } from "./types";
+
+type EmbedResponse = {
+	model?: string;
+	embeddings?: number[][];
+	prompt_eval_count?: number;
+};
+
+type ChatResponse = {
+	model?: string;
+	message?: { content?: string };
+	done_reason?: string;
+	prompt_eval_count?: number;
+	eval_count?: number;
+};
+
+function toFinishReason(reason?: string): ProviderFinishReason {
+	switch (reason) {
+		case "stop":
+			return "stop";
+		case "length":
+			return "length";
+		default:
+			return "other";
+	}
+}
+
+/**
+ * Ollama's native `/api/chat` endpoint. llama.cpp-style local servers that
+ * speak the same shape can be registered under the `local` provider key.
+ */
+export const ollamaProvider: CaptionProvider = {
+	defaultBaseUrl: "http://localhost:11434",
+	requiresApiKey: false,
+	supportsLogprobs: false,
+
+	async generate(request) {
+		const image = await loadImageData(request.imageUrl);
+		const messages: Array<Record<string, unknown>> = [];
+		if (request.systemPrompt) {
+			messages.push({ role: "system", content: request.systemPrompt });
+		}
+		messages.push({
+			role: "user",
+			content: request.prompt,
+			images: [image.data],
+		});
+
+		const json = await postJson<ChatResponse>(
+			`${trimBaseUrl(request.baseUrl)}/api/chat`,
+			{
+				model: request.modelName,
+				messages,
+				stream: false,
+				...(request.jsonSchema ? { format: request.jsonSchema } : {}),
+				options: {
+					num_predict: request.maxTokens,
+					...(typeof request.temperature === "number"
+						? { temperature: request.temperature }
+						: {}),
+				},
+			},
+			request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {},
+			request.timeoutMs,
+		);
+
+		return {
+			caption: json.message?.content?.trim() ?? "",
+			finishReason: toFinishReason(json.done_reason),
+			usage: toUsage(json.prompt_eval_count, json.eval_count),
+			model: json.model ?? request.modelName,
+			raw: json,
+		};
+	},
+
+	async embed(request) {
+		if (request.input.type !== "text") {
+			throw new ProviderError("Ollama 仅支持文本向量", {
+				category: "bad_request",
+			});
+		}
+		const json = await postJson<EmbedResponse>(
+			`${trimBaseUrl(request.baseUrl)}/api/embed`,
+			{
+				model: request.modelName,
+				input: request.input.text,
+				dimensions: request.dimensions,
+			},
+			request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {},
+			request.timeoutMs,
+		);
+
+		return {
+			embedding: json.embeddings?.[0] ?? [],
+			usage: toUsage(json.prompt_eval_count, 0),
+			model: json.model ?? request.modelName,
+		};
+	},
+};
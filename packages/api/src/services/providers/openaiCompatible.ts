@@ -0,0 +1,122 @@
+import { postJson, toUsage, trimBaseUrl } from "./http";
+import type { CaptionProvider, ProviderFinishReason } from "./types";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+type ChatCompletionResponse = {
+	model?: string;
+	choices?: Array<{
+		message?: { content?: string | null };
+		finish_reason?: string | null;
+		logprobs?: { content?: Array<{ logprob: number }> | null } | null;
+	}>;
+	usage?: {
+		prompt_tokens?: number;
+		completion_tokens?: number;
+		total_tokens?: number;
+	};
+};
+
+type EmbeddingResponse = {
+	model?: string;
+	data?: Array<{ embedding?: number[] }>;
+	usage?: { prompt_tokens?: number; total_tokens?: number };
+};
+
+function toFinishReason(reason?: string | null): ProviderFinishReason {
+	switch (reason) {
+		case "stop":
+			return "stop";
+		case "length":
+			return "length";
+		case "content_filter":
+			return "content_filter";
+		default:
+			return "other";
+	}
+}
+
+export const openaiCompatibleProvider: CaptionProvider = {
+	defaultBaseUrl: env.AI_CAPTION_BASE_URL || "https://api.openai.com/v1",
+	requiresApiKey: true,
+	supportsLogprobs: true,
+	// Multimodal `/embeddings` gateways (CLIP / jina-clip style) accept
+	// `[{ image: url }]`, but text-only models reject it with a 400, so image
+	// embeddings are opt-in per model via `metadata.imageEmbeddings`.
+	supportsImageEmbeddings: false,
+
+	async generate(request) {
+		const messages: Array<Record<string, unknown>> = [];
+		if (request.systemPrompt) {
+			messages.push({ role: "system", content: request.systemPrompt });
+		}
+		messages.push({
+			role: "user",
+			content: [
+				{ type: "text", text: request.prompt },
+				{ type: "image_url", image_url: { url: request.imageUrl } },
+			],
+		});
+
+		const json = await postJson<ChatCompletionResponse>(
+			`${trimBaseUrl(request.baseUrl)}/chat/completions`,
+			{
+				model: request.modelName,
+				messages,
+				max_tokens: request.maxTokens,
+				...(typeof request.temperature === "number"
+					? { temperature: request.temperature }
+					: {}),
+				...(request.logprobs ? { logprobs: true } : {}),
+				...(request.jsonSchema
+					? {
+							response_format: {
+								type: "json_schema",
+								json_schema: { name: "caption", schema: request.jsonSchema },
+							},
+						}
+					: {}),
+			},
+			request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {},
+			request.timeoutMs,
+		);
+		const [choice] = json.choices ?? [];
+
+		return {
+			caption: choice?.message?.content?.trim() ?? "",
+			finishReason: toFinishReason(choice?.finish_reason),
+			usage: toUsage(
+				json.usage?.prompt_tokens,
+				json.usage?.completion_tokens,
+				json.usage?.total_tokens,
+			),
+			model: json.model ?? request.modelName,
+			logprobs: choice?.logprobs?.content?.map((token) => token.logprob),
+			raw: json,
+		};
+	},
+
+	async embed(request) {
+		const json = await postJson<EmbeddingResponse>(
+			`${trimBaseUrl(request.baseUrl)}/embeddings`,
+			{
+				model: request.modelName,
+				input:
+					request.input.type === "text"
+						? request.input.text
+						: [{ image: request.input.imageUrl }],
+				dimensions: request.dimensions,
+			},
+			request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {},
+			request.timeoutMs,
+		);
+
+		return {
+			embedding: json.data?.[0]?.embedding ?? [],
+			usage: toUsage(json.usage?.prompt_tokens, 0, json.usage?.total_tokens),
+			model: json.model ?? request.modelName,
+		};
+	},
+};
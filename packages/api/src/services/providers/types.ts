@@ -0,0 +1,67 @@
+export type ProviderFinishReason =
+	| "stop"
+	| "length"
+	| "content_filter"
+	| "other";
+
+export type ProviderUsage = {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+};
+
+export type ProviderRequest = {
+	modelName: string;
+	baseUrl: string;
+	apiKey?: string;
+	imageUrl: string;
+	prompt: string;
+	systemPrompt?: string;
+	maxTokens: number;
+	temperature?: number;
+	logprobs?: boolean;
+	/** Ask for JSON matching this schema via the provider's native JSON mode. */
+	jsonSchema?: Record<string, unknown>;
+	timeoutMs?: number;
+};
+
+export type ProviderResult = {
+	caption: string;
+	finishReason: ProviderFinishReason;
+	usage: ProviderUsage;
+	model: string;
+	logprobs?: number[];
+	raw: unknown;
+};
+
+export type EmbeddingInput =
+	| { type: "text"; text: string }
+	| { type: "image"; imageUrl: string };
+
+export type EmbeddingRequest = {
+	modelName: string;
+	baseUrl: string;
+	apiKey?: string;
+	input: EmbeddingInput;
+	dimensions: number;
+	timeoutMs?: number;
+};
+
+export type EmbeddingResult = {
+	embedding: number[];
+	usage: ProviderUsage;
+	model: string;
+};
+
+export type CaptionProvider = {
+	defaultBaseUrl: string;
+	requiresApiKey: boolean;
+	supportsLogprobs: boolean;
+	/**
+	 * Whether `embed` accepts image inputs by default; a model's
+	 * `metadata.imageEmbeddings` overrides it.
+	 */
+	supportsImageEmbeddings?: boolean;
+	generate(request: ProviderRequest): Promise<ProviderResult>;
+	embed?(request: EmbeddingRequest): Promise<EmbeddingResult>;
+};
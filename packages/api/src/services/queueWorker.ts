@@ -0,0 +1,166 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import {
+	claimCaptionJobs,
+	DEFAULT_LEASE_MS,
+	extendLeases,
+	markWorkerStopped,
+	recordWorkerHeartbeat,
+	releaseLeases,
+} from "./captionQueue";
+import { runCaptionJob } from "./captionWorker";
+
+export type CaptionWorkerOptions = {
+	workerId?: string;
+	concurrency?: number;
+	pollIntervalMs?: number;
+	leaseMs?: number;
+	heartbeatIntervalMs?: number;
+	logger?: Pick<Console, "info" | "error">;
+};
+
+export function createCaptionWorker(options: CaptionWorkerOptions = {}) {
+	const workerId = options.workerId ?? `${hostname()}-${randomUUID()}`;
+	const concurrency = Math.max(1, options.concurrency ?? 3);
+	const pollIntervalMs = options.pollIntervalMs ?? 2000;
+	const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+	const heartbeatIntervalMs =
+		options.heartbeatIntervalMs ?? Math.floor(leaseMs / 3);
+	const logger = options.logger ?? console;
+
+	const inFlight = new Map<number, Promise<unknown>>();
+	let running = false;
+	let loopPromise: Promise<void> | null = null;
+	let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	let wake: (() => void) | null = null;
+
+	const sleep = (ms: number) =>
+		new Promise<void>((resolve) => {
+			const timer = setTimeout(() => {
+				wake = null;
+				resolve();
+			}, ms);
+			wake = () => {
+				clearTimeout(timer);
+				wake = null;
+				resolve();
+			};
+		});
+
+	const heartbeat = async () => {
+		try {
+			await Promise.all([
+				extendLeases({ workerId, leaseMs, jobIds: [...inFlight.keys()] }),
+				recordWorkerHeartbeat({
+					workerId,
+					hostname: hostname(),
+					concurrency,
+					activeCount: inFlight.size,
+				}),
+			]);
+		} catch (error) {
+			logger.error(`[caption-worker ${workerId}] heartbeat failed`, error);
+		}
+	};
+
+	const track = (jobId: number, task: () => Promise<unknown>) => {
+		const promise = task()
+			.catch((error) => {
+				logger.error(
+					`[caption-worker ${workerId}] job ${jobId} crashed`,
+					error,
+				);
+			})
+			.finally(() => {
+				inFlight.delete(jobId);
+				wake?.();
+			});
+		inFlight.set(jobId, promise);
+	};
+
+	const tick = async () => {
+		const jobs = await claimCaptionJobs({
+			workerId,
+			limit: concurrency - inFlight.size,
+			leaseMs,
+		});
+		for (const job of jobs) {
+			track(job.id, () => runCaptionJob(job, workerId));
+		}
+		return jobs.length;
+	};
+
+	const loop = async () => {
+		while (running) {
+			let claimed = 0;
+			if (inFlight.size < concurrency) {
+				try {
+					claimed = await tick();
+				} catch (error) {
+					logger.error(`[caption-worker ${workerId}] claim failed`, error);
+				}
+			}
+			if (!running) {
+				break;
+			}
+			if (claimed === 0 || inFlight.size >= concurrency) {
+				await sleep(pollIntervalMs);
+			}
+		}
+	};
+
+	return {
+		workerId,
+
+		get activeCount() {
+			return inFlight.size;
+		},
+
+		start() {
+			if (running) {
+				return;
+			}
+			running = true;
+			logger.info(
+				`[caption-worker ${workerId}] started (concurrency=${concurrency})`,
+			);
+			void heartbeat();
+			heartbeatTimer = setInterval(() => {
+				void heartbeat();
+			}, heartbeatIntervalMs);
+			loopPromise = loop();
+		},
+
+		async stop(timeoutMs = 30_000) {
+			if (!running) {
+				return;
+			}
+			running = false;
+			wake?.();
+			await loopPromise;
+
+			const drained = await Promise.race([
+				Promise.allSettled(inFlight.values()).then(() => true),
+				new Promise<boolean>((resolve) =>
+					setTimeout(() => resolve(false), timeoutMs),
+				),
+			]);
+
+			if (heartbeatTimer) {
+				clearInterval(heartbeatTimer);
+				heartbeatTimer = null;
+			}
+
+			if (!drained) {
+				const jobIds = [...inFlight.keys()];
+				logger.info(
+					`[caption-worker ${workerId}] releasing ${inFlight.size} unfinished job(s)`,
+				);
+				await releaseLeases({ workerId, jobIds });
+			}
+
+			await markWorkerStopped(workerId);
+			logger.info(`[caption-worker ${workerId}] stopped`);
+		},
+	};
+}
@@ -0,0 +1,238 @@
+import { randomUUID } from "node:crypto";
+import { db } from "@cyop/db";
+import { type AnyColumn, and, eq, type SQL, sql } from "@cyop/db/drizzle-orm";
+import { type aiModels, modelRateLimits } from "@cyop/db/schema/platform";
+import { DEFAULT_REQUEST_TIMEOUT_MS } from "./providers/http";
+
+type LimitedModel = Pick<
+	typeof aiModels.$inferSelect,
+	"id" | "requestsPerMinute" | "tokensPerMinute" | "maxConcurrency" | "metadata"
+>;
+
+type ModelSlot = {
+	modelId: number;
+	slotId: string;
+	reservedTokens: number;
+};
+
+/** Headroom past the request timeout for image fetches and settling. */
+const SLOT_TTL_MARGIN_MS = 60 * 1000;
+const MIN_RETRY_MS = 250;
+const CONCURRENCY_RETRY_MS = 2000;
+
+export class ModelThrottledError extends Error {
+	readonly retryAfterMs: number;
+
+	constructor(retryAfterMs: number) {
+		super("模型请求过于频繁，已达到该模型的速率或并发上限");
+		this.name = "ModelThrottledError";
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+function hasLimits(model: LimitedModel) {
+	return Boolean(
+		model.id &&
+			(model.requestsPerMinute ||
+				model.tokensPerMinute ||
+				model.maxConcurrency),
+	);
+}
+
+/**
+ * A slot must outlive the call holding it, or a slow request frees its
+ * concurrency slot early; crashed workers' slots still expire after this.
+ */
+function slotTtlMs(model: LimitedModel) {
+	const timeoutMs = Number(model.metadata?.timeoutMs);
+	return (
+		(Number.isFinite(timeoutMs) && timeoutMs > 0
+			? timeoutMs
+			: DEFAULT_REQUEST_TIMEOUT_MS) + SLOT_TTL_MARGIN_MS
+	);
+}
+
+function refilled(column: AnyColumn, perMinute: number, nowMs: number) {
+	return sql`least(${perMinute}::double precision, ${column} + (${nowMs} - ${modelRateLimits.refilledAtMs}) * ${perMinute / 60_000}::double precision)`;
+}
+
+function activeSlots(nowMs: number) {
+	return sql`(select count(*) from jsonb_each_text(${modelRateLimits.slots}) as slot where slot.value::bigint > ${nowMs})`;
+}
+
+function liveSlots(nowMs: number) {
+	return sql`(select coalesce(jsonb_object_agg(slot.key, slot.value), '{}'::jsonb) from jsonb_each(${modelRateLimits.slots}) as slot where (slot.value)::bigint > ${nowMs})`;
+}
+
+async function ensureBucket(model: LimitedModel, nowMs: number) {
+	await db
+		.insert(modelRateLimits)
+		.values({
+			modelId: model.id,
+			requestAllowance: model.requestsPerMinute ?? 0,
+			tokenAllowance: model.tokensPerMinute ?? 0,
+			refilledAtMs: nowMs,
+		})
+		.onConflictDoNothing();
+}
+
+async function estimateWait(
+	model: LimitedModel,
+	reservedTokens: number,
+	nowMs: number,
+) {
+	const [bucket] = await db
+		.select({
+			requestAllowance: model.requestsPerMinute
+				? refilled(
+						modelRateLimits.requestAllowance,
+						model.requestsPerMinute,
+						nowMs,
+					).mapWith(Number)
+				: sql<number>`0`,
+			tokenAllowance: model.tokensPerMinute
+				? refilled(
+						modelRateLimits.tokenAllowance,
+						model.tokensPerMinute,
+						nowMs,
+					).mapWith(Number)
+				: sql<number>`0`,
+			active: activeSlots(nowMs).mapWith(Number),
+		})
+		.from(modelRateLimits)
+		.where(eq(modelRateLimits.modelId, model.id));
+
+	if (!bucket) {
+		return MIN_RETRY_MS;
+	}
+
+	let waitMs = MIN_RETRY_MS;
+	if (model.requestsPerMinute && bucket.requestAllowance < 1) {
+		waitMs = Math.max(
+			waitMs,
+			((1 - bucket.requestAllowance) * 60_000) / model.requestsPerMinute,
+		);
+	}
+	if (model.tokensPerMinute && bucket.tokenAllowance < reservedTokens) {
+		waitMs = Math.max(
+			waitMs,
+			((reservedTokens - bucket.tokenAllowance) * 60_000) /
+				model.tokensPerMinute,
+		);
+	}
+	if (model.maxConcurrency && bucket.active >= model.maxConcurrency) {
+		waitMs = Math.max(waitMs, CONCURRENCY_RETRY_MS);
+	}
+	return Math.ceil(waitMs);
+}
+
+/**
+ * Takes one request, `estimatedTokens` tokens and one concurrency slot from
+ * the model's shared bucket in a single conditional UPDATE, so concurrent
+ * workers and API calls can't overdraw it. Throws `ModelThrottledError` when
+ * the bucket is short; returns null when the model has no limits configured.
+ */
+async function acquireModelSlot(
+	model: LimitedModel,
+	estimatedTokens: number,
+): Promise<ModelSlot | null> {
+	if (!hasLimits(model)) {
+		return null;
+	}
+
+	const nowMs = Date.now();
+	const slotId = randomUUID();
+	const reservedTokens = model.tokensPerMinute
+		? Math.min(estimatedTokens, model.tokensPerMinute)
+		: 0;
+	await ensureBucket(model, nowMs);
+
+	const conditions = [eq(modelRateLimits.modelId, model.id)];
+	const set: Partial<Record<keyof typeof modelRateLimits.$inferInsert, SQL>> =
+		{};
+	if (model.requestsPerMinute) {
+		const allowance = refilled(
+			modelRateLimits.requestAllowance,
+			model.requestsPerMinute,
+			nowMs,
+		);
+		conditions.push(sql`${allowance} >= 1`);
+		set.requestAllowance = sql`${allowance} - 1`;
+	}
+	if (model.tokensPerMinute) {
+		const allowance = refilled(
+			modelRateLimits.tokenAllowance,
+			model.tokensPerMinute,
+			nowMs,
+		);
+		conditions.push(sql`${allowance} >= ${reservedTokens}`);
+		set.tokenAllowance = sql`${allowance} - ${reservedTokens}`;
+	}
+	if (model.maxConcurrency) {
+		conditions.push(sql`${activeSlots(nowMs)} < ${model.maxConcurrency}`);
+	}
+
+	const [acquired] = await db
+		.update(modelRateLimits)
+		.set({
+			...set,
+			refilledAtMs: nowMs,
+			slots: sql`${liveSlots(nowMs)} || jsonb_build_object(${slotId}::text, ${nowMs + slotTtlMs(model)}::bigint)`,
+			updatedAt: new Date(nowMs),
+		})
+		.where(and(...conditions))
+		.returning({ modelId: modelRateLimits.modelId });
+
+	if (!acquired) {
+		throw new ModelThrottledError(
+			await estimateWait(model, reservedTokens, nowMs),
+		);
+	}
+
+	return { modelId: model.id, slotId, reservedTokens };
+}
+
+async function releaseModelSlot(
+	model: LimitedModel,
+	slot: ModelSlot,
+	tokensUsed?: number,
+) {
+	// Settle the token reservation against what the call actually consumed.
+	const correction =
+		model.tokensPerMinute && typeof tokensUsed === "number"
+			? tokensUsed - slot.reservedTokens
+			: 0;
+
+	await db
+		.update(modelRateLimits)
+		.set({
+			slots: sql`${modelRateLimits.slots} - ${slot.slotId}::text`,
+			...(correction
+				? {
+						tokenAllowance: sql`${modelRateLimits.tokenAllowance} - ${correction}`,
+					}
+				: {}),
+			updatedAt: new Date(),
+		})
+		.where(eq(modelRateLimits.modelId, slot.modelId));
+}
+
+export async function withModelRateLimit<T extends { tokensUsed: number }>(
+	model: LimitedModel,
+	estimatedTokens: number,
+	task: () => Promise<T>,
+): Promise<T> {
+	const slot = await acquireModelSlot(model, estimatedTokens);
+	if (!slot) {
+		return await task();
+	}
+
+	let tokensUsed: number | undefined;
+	try {
+		const result = await task();
+		tokensUsed = result.tokensUsed;
+		return result;
+	} finally {
+		await releaseModelSlot(model, slot, tokensUsed);
+	}
+}
@@ -0,0 +1,229 @@
+import { db } from "@cyop/db";
+import { and, eq, inArray, isNull, like, or, sql } from "@cyop/db/drizzle-orm";
+import { datasets, mediaAssets } from "@cyop/db/schema/platform";
+import {
+	activeIngestSourceKeys,
+	ingestSourcePrefix,
+	queueAssetProcessing,
+} from "./ingest";
+import { THUMBNAIL_SIZES, thumbnailKey } from "./mediaProcessing";
+import { getStorageDriver, resolveStorageBucket } from "./storage";
+
+export const DEFAULT_STALE_AFTER_HOURS = 24;
+const LIST_PAGE_SIZE = 1000;
+const MAX_REPORTED_ORPHANS = 200;
+
+export type ReconcileOptions = {
+	/** Only reconcile this dataset; all datasets otherwise. */
+	datasetId?: number;
+	/** Report what would change without touching rows or objects. */
+	dryRun?: boolean;
+	/** Delete objects no asset row points to; otherwise they are only reported. */
+	deleteOrphans?: boolean;
+	/**
+	 * Pending uploads older than this are marked failed, and newer objects
+	 * are never treated as orphans (their row may not be written yet).
+	 */
+	staleAfterHours?: number;
+	requestedBy?: string | null;
+};
+
+export type DatasetReconcileReport = {
+	datasetId: number;
+	bucket: string;
+	pendingChecked: number;
+	finalized: Array<{ assetId: number; size: number; etag: string | null }>;
+	markedFailed: number[];
+	objectsScanned: number;
+	orphanCount: number;
+	orphanBytes: number;
+	/** First orphans found, capped so the report stays small. */
+	orphans: Array<{ key: string; size: number }>;
+	deletedOrphans: number;
+};
+
+type MultipartUpload = { uploadId: string };
+
+/**
+ * Brings a dataset's asset rows and bucket objects back in line: pending
+ * uploads whose object exists are finalized with the stored size and ETag,
+ * stale ones without an object are marked failed, and objects under
+ * `datasets/{id}/` that no row references are reported or deleted, along
+ * with ingest sources under `ingest/datasets/{id}/` that no unfinished
+ * ingest task still needs.
+ */
+async function reconcileDataset(
+	dataset: { id: number; storageBucket: string },
+	{
+		dryRun = true,
+		deleteOrphans = false,
+		staleAfterHours = DEFAULT_STALE_AFTER_HOURS,
+		requestedBy,
+	}: ReconcileOptions,
+): Promise<DatasetReconcileReport> {
+	const bucket = resolveStorageBucket(dataset.storageBucket);
+	const storage = getStorageDriver(bucket);
+	const staleBefore = new Date(Date.now() - staleAfterHours * 3_600_000);
+	const report: DatasetReconcileReport = {
+		datasetId: dataset.id,
+		bucket,
+		pendingChecked: 0,
+		finalized: [],
+		markedFailed: [],
+		objectsScanned: 0,
+		orphanCount: 0,
+		orphanBytes: 0,
+		orphans: [],
+		deletedOrphans: 0,
+	};
+
+	const pending = await db
+		.select()
+		.from(mediaAssets)
+		.where(
+			and(
+				eq(mediaAssets.datasetId, dataset.id),
+				inArray(mediaAssets.status, ["pending_upload", "uploading"]),
+				isNull(mediaAssets.deletedAt),
+			),
+		);
+	const finalizedImages: Array<typeof mediaAssets.$inferSelect> = [];
+	for (const asset of pending) {
+		report.pendingChecked++;
+		const object = await storage.head(asset.storageKey);
+		const multipart = asset.metadata.multipartUpload as
+			| MultipartUpload
+			| undefined;
+		// An unfinished multipart upload leaves no object until it completes.
+		if (object && !multipart) {
+			report.finalized.push({
+				assetId: asset.id,
+				size: object.size,
+				etag: object.etag,
+			});
+			if (dryRun) {
+				continue;
+			}
+			const status = asset.mimeType.startsWith("image/") ? "uploaded" : "ready";
+			const now = new Date();
+			await db
+				.update(mediaAssets)
+				.set({
+					status,
+					size: object.size,
+					uploadedAt: object.lastModified ?? now,
+					metadata: sql`${mediaAssets.metadata} || ${JSON.stringify({
+						reconciled: { at: now.toISOString(), etag: object.etag },
+					})}::jsonb`,
+					updatedAt: now,
+				})
+				.where(eq(mediaAssets.id, asset.id));
+			if (status === "uploaded") {
+				finalizedImages.push({ ...asset, status });
+			}
+		} else if (asset.updatedAt < staleBefore) {
+			report.markedFailed.push(asset.id);
+			if (dryRun) {
+				continue;
+			}
+			if (multipart) {
+				await storage.abortMultipartUpload(
+					asset.storageKey,
+					multipart.uploadId,
+				);
+			}
+			await db
+				.update(mediaAssets)
+				.set({
+					status: "failed",
+					metadata: sql`(${mediaAssets.metadata} - 'multipartUpload') || ${JSON.stringify(
+						{ processingError: "上传未完成，已超时" },
+					)}::jsonb`,
+					updatedAt: new Date(),
+				})
+				.where(eq(mediaAssets.id, asset.id));
+		}
+	}
+	if (finalizedImages.length) {
+		await queueAssetProcessing(finalizedImages, requestedBy);
+	}
+
+	// Relinked duplicates in other datasets may point at this dataset's keys;
+	// trashed rows still own their objects until they are purged.
+	const prefix = `datasets/${dataset.id}/`;
+	const referenced = await db
+		.select({ storageKey: mediaAssets.storageKey })
+		.from(mediaAssets)
+		.where(
+			and(
+				eq(mediaAssets.storageBucket, bucket),
+				or(
+					like(mediaAssets.storageKey, `${prefix}%`),
+					eq(mediaAssets.datasetId, dataset.id),
+				),
+			),
+		);
+	const known = new Set([
+		...referenced.flatMap(({ storageKey }) => [
+			storageKey,
+			...Object.keys(THUMBNAIL_SIZES).map((size) =>
+				thumbnailKey(storageKey, size),
+			),
+		]),
+		...(await activeIngestSourceKeys(dataset.id)),
+	]);
+
+	for (const listPrefix of [
+		prefix,
+		`thumbnails/${prefix}`,
+		ingestSourcePrefix(dataset.id),
+	]) {
+		let cursor: string | null = null;
+		do {
+			const page = await storage.list(listPrefix, {
+				cursor,
+				limit: LIST_PAGE_SIZE,
+			});
+			cursor = page.nextCursor;
+			for (const object of page.objects) {
+				report.objectsScanned++;
+				if (
+					known.has(object.key) ||
+					!object.lastModified ||
+					object.lastModified > staleBefore
+				) {
+					continue;
+				}
+				report.orphanCount++;
+				report.orphanBytes += object.size;
+				if (report.orphans.length < MAX_REPORTED_ORPHANS) {
+					report.orphans.push({ key: object.key, size: object.size });
+				}
+				if (!dryRun && deleteOrphans) {
+					await storage.delete(object.key);
+					report.deletedOrphans++;
+				}
+			}
+		} while (cursor);
+	}
+
+	return report;
+}
+
+/** Reconciles one dataset, or every dataset in turn. */
+export async function reconcileStorage(options: ReconcileOptions = {}) {
+	const rows = await db
+		.select({ id: datasets.id, storageBucket: datasets.storageBucket })
+		.from(datasets)
+		.where(options.datasetId ? eq(datasets.id, options.datasetId) : undefined)
+		.orderBy(datasets.id);
+
+	const reports: DatasetReconcileReport[] = [];
+	for (const dataset of rows) {
+		reports.push(await reconcileDataset(dataset, options));
+	}
+	return {
+		dryRun: options.dryRun ?? true,
+		datasets: reports,
+	};
+}
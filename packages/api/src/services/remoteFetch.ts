@@ -0,0 +1,307 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns";
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { categorizeStatus, ProviderError } from "./providers/errors";
+
+const MAX_REDIRECTS = 3;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export type RemoteFile = {
+	url: string;
+	body: Uint8Array<ArrayBuffer>;
+	contentType: string | null;
+};
+
+function ipv4ToNumber(address: string) {
+	return address
+		.split(".")
+		.reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.0.2.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["198.51.100.0", 24],
+	["203.0.113.0", 24],
+	["224.0.0.0", 4],
+	["240.0.0.0", 4],
+];
+
+function isPrivateIpv4(address: string) {
+	const value = ipv4ToNumber(address);
+	return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+		const size = 2 ** (32 - bits);
+		const start = ipv4ToNumber(base);
+		return value >= start && value < start + size;
+	});
+}
+
+/** The 16 bytes of an IPv6 address, or `null` when it does not parse. */
+function parseIpv6(address: string) {
+	let text = address.toLowerCase().replace(/%.*$/, "");
+	const embedded = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+	if (embedded?.[1]) {
+		if (isIP(embedded[1]) !== 4) {
+			return null;
+		}
+		const value = ipv4ToNumber(embedded[1]);
+		text = `${text.slice(0, embedded.index)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+	}
+	const halves = text.split("::");
+	if (halves.length > 2) {
+		return null;
+	}
+	const head = halves[0] ? halves[0].split(":") : [];
+	const tail = halves[1] ? halves[1].split(":") : [];
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 2 ? missing < 1 : missing !== 0) {
+		return null;
+	}
+	const groups = [...head, ...Array<string>(missing).fill("0"), ...tail];
+	const bytes = new Uint8Array(16);
+	for (const [index, group] of groups.entries()) {
+		if (!/^[0-9a-f]{1,4}$/.test(group)) {
+			return null;
+		}
+		const value = Number.parseInt(group, 16);
+		bytes[index * 2] = value >> 8;
+		bytes[index * 2 + 1] = value & 0xff;
+	}
+	return bytes;
+}
+
+function isPrivateIpv6(bytes: Uint8Array) {
+	const zero = (from: number, to: number) =>
+		bytes.subarray(from, to).every((byte) => byte === 0);
+	const ipv4At = (offset: number) =>
+		bytes.subarray(offset, offset + 4).join(".");
+	const word = (index: number) =>
+		((bytes[index * 2] ?? 0) << 8) | (bytes[index * 2 + 1] ?? 0);
+
+	// IPv4-compatible (also covers :: and ::1) and IPv4-mapped addresses.
+	if (zero(0, 10) && (word(5) === 0 || word(5) === 0xffff)) {
+		return isPrivateIpv4(ipv4At(12));
+	}
+	// SIIT IPv4-translated addresses (::ffff:0:a.b.c.d).
+	if (zero(0, 8) && word(4) === 0xffff && word(5) === 0) {
+		return isPrivateIpv4(ipv4At(12));
+	}
+	// NAT64: the well-known prefix embeds the target; local-use prefixes are internal.
+	if (word(0) === 0x64 && word(1) === 0xff9b) {
+		return word(2) === 1 || !zero(4, 12) || isPrivateIpv4(ipv4At(12));
+	}
+	// 6to4 tunnels embed the relay's IPv4 address.
+	if (word(0) === 0x2002) {
+		return isPrivateIpv4(ipv4At(2));
+	}
+	const first = bytes[0] ?? 0;
+	const second = bytes[1] ?? 0;
+	return (
+		(first & 0xfe) === 0xfc || // unique local fc00::/7
+		(first === 0xfe && (second & 0x80) !== 0) || // link- and site-local fe80::/9
+		first === 0xff || // multicast
+		(word(0) === 0x2001 && word(1) === 0) || // Teredo
+		(word(0) === 0x2001 && word(1) === 0xdb8) || // documentation
+		(word(0) === 0x100 && zero(2, 8)) // discard-only 100::/64
+	);
+}
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast and reserved addresses,
+ * including IPv4 addresses embedded in IPv6 (mapped, compatible, NAT64,
+ * 6to4). Anything that does not parse as an IP counts as private.
+ */
+export function isPrivateAddress(address: string) {
+	const host = address.replace(/^\[|\]$/g, "");
+	if (isIP(host) === 4) {
+		return isPrivateIpv4(host);
+	}
+	const bytes = isIP(host.replace(/%.*$/, "")) === 6 ? parseIpv6(host) : null;
+	return bytes ? isPrivateIpv6(bytes) : true;
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses internal answers. The
+ * socket connects to the address validated here, so a second resolution
+ * (DNS rebinding) cannot swap in an internal host.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+	dnsLookup(hostname, { all: true }, (error, results) => {
+		if (error) {
+			callback(
+				new ProviderError(`无法解析域名 ${hostname}`, {
+					category: "bad_request",
+					cause: error,
+				}),
+				"",
+			);
+			return;
+		}
+		if (
+			!results.length ||
+			results.some(({ address }) => isPrivateAddress(address))
+		) {
+			callback(
+				new ProviderError(`不允许访问内网地址：${hostname}`, {
+					category: "bad_request",
+				}),
+				"",
+			);
+			return;
+		}
+		if (options.all) {
+			callback(null, results);
+			return;
+		}
+		const [first] = results as [LookupAddress];
+		callback(null, first.address, first.family);
+	});
+};
+
+/** Rejects non-HTTP URLs, credentials and internal IP literals. */
+function assertPublicUrl(url: URL) {
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new ProviderError(`不支持的地址协议：${url.protocol}`, {
+			category: "bad_request",
+		});
+	}
+	if (url.username || url.password) {
+		throw new ProviderError("地址不能包含账号信息", {
+			category: "bad_request",
+		});
+	}
+	// Hostnames are checked at connect time by `publicOnlyLookup`.
+	const host = url.hostname.replace(/^\[|\]$/g, "");
+	if (isIP(host) && isPrivateAddress(host)) {
+		throw new ProviderError(`不允许访问内网地址：${host}`, {
+			category: "bad_request",
+		});
+	}
+}
+
+function openRequest(url: URL, signal: AbortSignal) {
+	const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+	return new Promise<IncomingMessage>((resolve, reject) => {
+		const request = send(
+			url,
+			{
+				lookup: publicOnlyLookup,
+				signal,
+				headers: { accept: "*/*", "user-agent": "cyop-ingest" },
+			},
+			resolve,
+		);
+		request.on("error", reject);
+		request.end();
+	});
+}
+
+/**
+ * Downloads a user-supplied URL for ingest. Every redirect hop is checked
+ * against internal address ranges, and the body is capped at `maxBytes`.
+ */
+export async function fetchRemoteFile(
+	rawUrl: string,
+	{
+		maxBytes,
+		timeoutMs = DEFAULT_TIMEOUT_MS,
+	}: { maxBytes: number; timeoutMs?: number },
+): Promise<RemoteFile> {
+	let url: URL;
+	try {
+		url = new URL(rawUrl);
+	} catch {
+		throw new ProviderError(`无效的地址：${rawUrl}`, {
+			category: "bad_request",
+		});
+	}
+
+	const signal = AbortSignal.timeout(timeoutMs);
+	let response: IncomingMessage | undefined;
+	for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+		assertPublicUrl(url);
+		try {
+			response = await openRequest(url, signal);
+		} catch (error) {
+			if (error instanceof ProviderError) {
+				throw error;
+			}
+			throw new ProviderError(`下载 ${url.host} 失败`, {
+				category: signal.aborted ? "timeout" : "network",
+				cause: error,
+			});
+		}
+		const status = response.statusCode ?? 0;
+		const location = response.headers.location;
+		if (status < 300 || status >= 400 || !location) {
+			break;
+		}
+		response.destroy();
+		url = new URL(location, url);
+		response = undefined;
+	}
+
+	if (!response) {
+		throw new ProviderError("重定向次数过多", { category: "bad_request" });
+	}
+	const status = response.statusCode ?? 0;
+	if (status < 200 || status >= 300) {
+		response.destroy();
+		throw new ProviderError(`下载失败：HTTP ${status}`, {
+			category: categorizeStatus(status, ""),
+			status,
+		});
+	}
+	const declaredSize = Number(response.headers["content-length"] ?? 0);
+	if (declaredSize > maxBytes) {
+		response.destroy();
+		throw new ProviderError(`文件超过 ${maxBytes} 字节上限`, {
+			category: "bad_request",
+		});
+	}
+
+	const chunks: Uint8Array[] = [];
+	let received = 0;
+	try {
+		for await (const chunk of response as AsyncIterable<Uint8Array>) {
+			received += chunk.byteLength;
+			if (received > maxBytes) {
+				response.destroy();
+				throw new ProviderError(`文件超过 ${maxBytes} 字节上限`, {
+					category: "bad_request",
+				});
+			}
+			chunks.push(chunk);
+		}
+	} catch (error) {
+		if (error instanceof ProviderError) {
+			throw error;
+		}
+		throw new ProviderError(`下载 ${url.host} 失败`, {
+			category: signal.aborted ? "timeout" : "network",
+			cause: error,
+		});
+	}
+
+	const body = new Uint8Array(received);
+	let offset = 0;
+	for (const chunk of chunks) {
+		body.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+
+	return {
+		url: url.toString(),
+		body,
+		contentType: response.headers["content-type"] ?? null,
+	};
+}
@@ -0,0 +1,101 @@
+import { createLocalDriver } from "./local";
+import { createS3Driver, getDefaultS3Bucket } from "./s3";
+import type { StorageDriver } from "./types";
+
+export type {
+	PresignedRequest,
+	StorageDriver,
+	StoredObject,
+	UploadedPart,
+} from "./types";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+export const MULTIPART_MIN_PART_SIZE = 5 * 1024 * 1024;
+export const MULTIPART_MAX_PARTS = 10_000;
+
+export const SIGNED_URL_TTL_SECONDS = Math.max(
+	60,
+	Number(env.S3_SIGNED_URL_TTL) || 900,
+);
+
+export function buildStorageKey(datasetId: number, originalName: string) {
+	const normalizedName = originalName
+		.toLowerCase()
+		.replace(/[^a-z0-9.-]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, 120);
+	const timestamp = Date.now();
+	return `datasets/${datasetId}/${timestamp}-${normalizedName || "asset"}`;
+}
+
+const localBuckets = new Set(
+	(env.LOCAL_STORAGE_BUCKETS ?? "")
+		.split(",")
+		.map((bucket) => bucket.trim())
+		.filter(Boolean),
+);
+
+/**
+ * `STORAGE_DRIVER=local` puts every bucket on local disk; otherwise only the
+ * buckets listed in `LOCAL_STORAGE_BUCKETS` are, and the rest go to S3.
+ */
+function usesLocalDriver(bucket: string) {
+	return env.STORAGE_DRIVER === "local" || localBuckets.has(bucket);
+}
+
+const drivers = new Map<string, StorageDriver>();
+
+/** The driver for `mediaAssets.storageBucket` (or a resolved dataset bucket). */
+export function getStorageDriver(bucket: string) {
+	let driver = drivers.get(bucket);
+	if (!driver) {
+		driver = usesLocalDriver(bucket)
+			? createLocalDriver(bucket)
+			: createS3Driver(bucket);
+		drivers.set(bucket, driver);
+	}
+	return driver;
+}
+
+/**
+ * Bucket that new objects of a dataset are written to. Local datasets keep
+ * their own `storageBucket`; S3 datasets share the bucket named by `S3_BUCKET`.
+ */
+export function resolveStorageBucket(datasetBucket: string) {
+	return usesLocalDriver(datasetBucket) ? datasetBucket : getDefaultS3Bucket();
+}
+
+/** Whether objects in `bucket` are only reachable through signed URLs. */
+export function isPrivateBucket(bucket: string) {
+	return getStorageDriver(bucket).isPrivate;
+}
+
+/**
+ * Short-lived GET URL for `key`. The signing time is rounded down to a third
+ * of the TTL so repeated calls return the same URL for a while, which lets
+ * browsers cache the image; every URL stays valid for at least two thirds of
+ * the TTL after it is issued.
+ */
+export function createPresignedGetUrl(bucket: string, key: string) {
+	const windowMs = (SIGNED_URL_TTL_SECONDS * 1000) / 3;
+	const signedAt = new Date(Math.floor(Date.now() / windowMs) * windowMs);
+	return getStorageDriver(bucket).presignGet(key, {
+		expiresIn: SIGNED_URL_TTL_SECONDS,
+		signedAt,
+	});
+}
+
+/** The asset's public URL, or a signed GET URL when it has none. */
+export function resolveAssetUrl(asset: {
+	storageBucket: string;
+	storageKey: string;
+	publicUrl: string | null;
+}) {
+	return (
+		asset.publicUrl ??
+		createPresignedGetUrl(asset.storageBucket, asset.storageKey)
+	);
+}
@@ -0,0 +1,414 @@
+import {
+	createHash,
+	createHmac,
+	randomUUID,
+	timingSafeEqual,
+} from "node:crypto";
+import {
+	appendFile,
+	copyFile,
+	mkdir,
+	readdir,
+	readFile,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import type { StorageDriver, StoredObject, UploadedPart } from "./types";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+const ROUTE_PREFIX = "/storage/";
+
+const CONTENT_TYPES: Record<string, string> = {
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	png: "image/png",
+	webp: "image/webp",
+	gif: "image/gif",
+	avif: "image/avif",
+	bmp: "image/bmp",
+	tif: "image/tiff",
+	tiff: "image/tiff",
+	mp4: "video/mp4",
+	webm: "video/webm",
+	mov: "video/quicktime",
+	csv: "text/csv",
+	jsonl: "application/x-ndjson",
+	json: "application/json",
+	zip: "application/zip",
+};
+
+function storageRoot() {
+	return resolve(env.LOCAL_STORAGE_DIR || ".storage");
+}
+
+function storageBaseUrl() {
+	return (
+		env.LOCAL_STORAGE_URL ||
+		env.BETTER_AUTH_URL ||
+		"http://localhost:3000"
+	).replace(/\/$/, "");
+}
+
+function signingSecret() {
+	const secret = env.LOCAL_STORAGE_SECRET || env.BETTER_AUTH_SECRET;
+	if (!secret) {
+		throw new Error(
+			"Local storage needs LOCAL_STORAGE_SECRET (or BETTER_AUTH_SECRET) to sign URLs.",
+		);
+	}
+	return secret;
+}
+
+function splitKey(key: string) {
+	const segments = key.split("/");
+	if (
+		segments.some(
+			(segment) =>
+				!segment ||
+				segment === "." ||
+				segment === ".." ||
+				/[\\\0]/.test(segment),
+		)
+	) {
+		throw new Error(`Invalid storage key: ${key}`);
+	}
+	return segments;
+}
+
+function bucketPath(bucket: string) {
+	if (!bucket || bucket === "." || bucket === ".." || /[/\\\0]/.test(bucket)) {
+		throw new Error(`Invalid storage bucket: ${bucket}`);
+	}
+	return join(storageRoot(), "buckets", bucket);
+}
+
+function objectPath(bucket: string, key: string) {
+	return join(bucketPath(bucket), ...splitKey(key));
+}
+
+function uploadPath(uploadId: string) {
+	if (!/^[0-9a-f-]{36}$/.test(uploadId)) {
+		throw new Error(`Invalid upload id: ${uploadId}`);
+	}
+	return join(storageRoot(), "multipart", uploadId);
+}
+
+function encodeKey(key: string) {
+	return key.split("/").map(encodeURIComponent).join("/");
+}
+
+function contentTypeFor(key: string) {
+	const extension = key.split(".").pop()?.toLowerCase() ?? "";
+	return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+function etagOf(body: Uint8Array) {
+	return `"${createHash("md5").update(body).digest("hex")}"`;
+}
+
+function isMissing(error: unknown) {
+	return (error as { code?: string } | null)?.code === "ENOENT";
+}
+
+type SignedTarget = {
+	method: "GET" | "PUT";
+	bucket: string;
+	key: string;
+	expires: number;
+	uploadId?: string;
+	partNumber?: string;
+};
+
+function sign(target: SignedTarget) {
+	return createHmac("sha256", signingSecret())
+		.update(
+			[
+				target.method,
+				target.bucket,
+				target.key,
+				target.expires,
+				target.uploadId ?? "",
+				target.partNumber ?? "",
+			].join("\n"),
+		)
+		.digest("hex");
+}
+
+function signedUrl(target: SignedTarget) {
+	const query = new URLSearchParams({
+		expires: String(target.expires),
+		...(target.uploadId ? { uploadId: target.uploadId } : {}),
+		...(target.partNumber ? { partNumber: target.partNumber } : {}),
+		signature: sign(target),
+	});
+	return `${storageBaseUrl()}${ROUTE_PREFIX}${encodeURIComponent(target.bucket)}/${encodeKey(target.key)}?${query}`;
+}
+
+function expiresAt(expiresIn = 900, from = new Date()) {
+	return Math.floor(from.getTime() / 1000) + expiresIn;
+}
+
+async function listFiles(dir: string, prefix = ""): Promise<string[]> {
+	let entries: Array<{ name: string; isDirectory(): boolean }>;
+	try {
+		entries = await readdir(dir, { withFileTypes: true });
+	} catch (error) {
+		if (isMissing(error)) {
+			return [];
+		}
+		throw error;
+	}
+	const files: string[] = [];
+	for (const entry of entries) {
+		const key = `${prefix}${entry.name}`;
+		if (entry.isDirectory()) {
+			files.push(...(await listFiles(join(dir, entry.name), `${key}/`)));
+		} else {
+			files.push(key);
+		}
+	}
+	return files;
+}
+
+/**
+ * Driver storing objects under `LOCAL_STORAGE_DIR/buckets/<bucket>/<key>`.
+ * Browsers reach them through HMAC-signed URLs on the API server's
+ * `/storage/*` route, so objects never have public URLs.
+ */
+export function createLocalDriver(bucket: string): StorageDriver {
+	return {
+		kind: "local",
+		bucket,
+		isPrivate: true,
+
+		publicUrl() {
+			return null;
+		},
+
+		presignUpload({ key, contentType, expiresIn }) {
+			return {
+				url: signedUrl({
+					method: "PUT",
+					bucket,
+					key,
+					expires: expiresAt(expiresIn),
+				}),
+				headers: { "Content-Type": contentType },
+			};
+		},
+
+		presignGet(key, { expiresIn, signedAt }) {
+			return signedUrl({
+				method: "GET",
+				bucket,
+				key,
+				expires: expiresAt(expiresIn, signedAt),
+			});
+		},
+
+		async head(key) {
+			try {
+				const info = await stat(objectPath(bucket, key));
+				return info.isFile()
+					? { key, size: info.size, lastModified: info.mtime, etag: null }
+					: null;
+			} catch (error) {
+				if (isMissing(error)) {
+					return null;
+				}
+				throw error;
+			}
+		},
+
+		async get(key) {
+			return new Uint8Array(await readFile(objectPath(bucket, key)));
+		},
+
+		async put(key, body) {
+			const path = objectPath(bucket, key);
+			await mkdir(dirname(path), { recursive: true });
+			await writeFile(path, body);
+		},
+
+		async delete(key) {
+			try {
+				await rm(objectPath(bucket, key), { force: true });
+			} catch (error) {
+				console.error("Failed to delete storage object", error);
+			}
+		},
+
+		async list(prefix, { cursor, limit = 1000 } = {}) {
+			const keys = (await listFiles(bucketPath(bucket)))
+				.filter((key) => key.startsWith(prefix) && (!cursor || key > cursor))
+				.sort();
+			const page = keys.slice(0, limit);
+			const objects: StoredObject[] = [];
+			for (const key of page) {
+				const info = await stat(objectPath(bucket, key));
+				objects.push({
+					key,
+					size: info.size,
+					lastModified: info.mtime,
+					etag: null,
+				});
+			}
+			return {
+				objects,
+				nextCursor: keys.length > limit ? (page.at(-1) ?? null) : null,
+			};
+		},
+
+		async copy(sourceKey, targetKey) {
+			const target = objectPath(bucket, targetKey);
+			await mkdir(dirname(target), { recursive: true });
+			await copyFile(objectPath(bucket, sourceKey), target);
+		},
+
+		async createMultipartUpload() {
+			const uploadId = randomUUID();
+			await mkdir(uploadPath(uploadId), { recursive: true });
+			return uploadId;
+		},
+
+		presignPart({ key, uploadId, partNumber, expiresIn }) {
+			return {
+				url: signedUrl({
+					method: "PUT",
+					bucket,
+					key,
+					expires: expiresAt(expiresIn),
+					uploadId,
+					partNumber: String(partNumber),
+				}),
+				headers: {},
+			};
+		},
+
+		async listParts(_key, uploadId) {
+			const dir = uploadPath(uploadId);
+			const parts: UploadedPart[] = [];
+			for (const name of await listFiles(dir)) {
+				const body = await readFile(join(dir, name));
+				parts.push({
+					partNumber: Number(name),
+					etag: etagOf(body),
+					size: body.byteLength,
+				});
+			}
+			return parts.sort((a, b) => a.partNumber - b.partNumber);
+		},
+
+		async completeMultipartUpload(key, uploadId, parts) {
+			const dir = uploadPath(uploadId);
+			const target = objectPath(bucket, key);
+			await mkdir(dirname(target), { recursive: true });
+			await writeFile(target, new Uint8Array());
+			for (const part of [...parts].sort(
+				(a, b) => a.partNumber - b.partNumber,
+			)) {
+				const body = await readFile(join(dir, String(part.partNumber)));
+				if (etagOf(body) !== part.etag) {
+					await rm(target, { force: true });
+					throw new Error(`Part ${part.partNumber} does not match its ETag`);
+				}
+				await appendFile(target, body);
+			}
+			await rm(dir, { recursive: true, force: true });
+		},
+
+		async abortMultipartUpload(_key, uploadId) {
+			try {
+				await rm(uploadPath(uploadId), { recursive: true, force: true });
+			} catch (error) {
+				console.error("Failed to abort multipart upload", error);
+			}
+		},
+	};
+}
+
+function verifySignature(target: SignedTarget, signature: string) {
+	const expected = Buffer.from(sign(target), "hex");
+	const actual = Buffer.from(signature, "hex");
+	return (
+		expected.byteLength === actual.byteLength &&
+		timingSafeEqual(expected, actual)
+	);
+}
+
+/**
+ * Serves signed GET/HEAD requests and accepts signed PUT uploads (whole
+ * objects or multipart parts) for the local driver. Mounted by the server on
+ * `/storage/*`.
+ */
+export async function handleLocalStorageRequest(request: Request) {
+	const url = new URL(request.url);
+	const path = url.pathname.slice(
+		url.pathname.indexOf(ROUTE_PREFIX) + ROUTE_PREFIX.length,
+	);
+	const [rawBucket = "", ...rawKey] = path.split("/");
+	const method = request.method === "PUT" ? "PUT" : "GET";
+	const target: SignedTarget = {
+		method,
+		bucket: decodeURIComponent(rawBucket),
+		key: rawKey.map(decodeURIComponent).join("/"),
+		expires: Number(url.searchParams.get("expires")),
+		uploadId: url.searchParams.get("uploadId") ?? undefined,
+		partNumber: url.searchParams.get("partNumber") ?? undefined,
+	};
+	const signature = url.searchParams.get("signature") ?? "";
+	if (
+		!Number.isFinite(target.expires) ||
+		target.expires < Date.now() / 1000 ||
+		!verifySignature(target, signature)
+	) {
+		return new Response("Invalid or expired signature", { status: 403 });
+	}
+
+	try {
+		if (method === "PUT") {
+			const body = new Uint8Array(await request.arrayBuffer());
+			if (target.uploadId && target.partNumber) {
+				// Parts of an aborted or completed upload have nowhere to go.
+				const dir = uploadPath(target.uploadId);
+				await stat(dir);
+				await writeFile(join(dir, String(Number(target.partNumber))), body);
+			} else {
+				const file = objectPath(target.bucket, target.key);
+				await mkdir(dirname(file), { recursive: true });
+				await writeFile(file, body);
+			}
+			return new Response(null, {
+				status: 200,
+				headers: { ETag: etagOf(body) },
+			});
+		}
+
+		const file = objectPath(target.bucket, target.key);
+		const info = await stat(file);
+		const headers = {
+			"Content-Type": contentTypeFor(target.key),
+			"Content-Length": String(info.size),
+			"Cache-Control": `private, max-age=${Math.max(0, Math.floor(target.expires - Date.now() / 1000))}`,
+			"Last-Modified": info.mtime.toUTCString(),
+			"X-Content-Type-Options": "nosniff",
+		};
+		if (request.method === "HEAD") {
+			return new Response(null, { headers });
+		}
+		return new Response(await readFile(file), { headers });
+	} catch (error) {
+		if (isMissing(error)) {
+			return new Response("Not found", { status: 404 });
+		}
+		if (error instanceof Error && error.message.startsWith("Invalid")) {
+			return new Response(error.message, { status: 400 });
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,547 @@
+import { createHash, createHmac } from "node:crypto";
+import type {
+	PresignedRequest,
+	StorageDriver,
+	StoredObject,
+	UploadedPart,
+} from "./types";
+
+const AWS_ALGORITHM = "AWS4-HMAC-SHA256";
+const SERVICE = "s3";
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+type StorageConfig = {
+	accessKeyId: string;
+	secretAccessKey: string;
+	bucket: string;
+	region: string;
+	endpoint: string;
+	forcePathStyle: boolean;
+};
+
+let cachedConfig: StorageConfig | null = null;
+
+function normalizeEndpoint(endpoint: string) {
+	const trimmed = endpoint.trim();
+	const withScheme = /^https?:\/\//i.test(trimmed)
+		? trimmed
+		: `https://${trimmed}`;
+	return withScheme.replace(/\/$/, "");
+}
+
+function getStorageConfig(): StorageConfig {
+	if (cachedConfig) {
+		return cachedConfig;
+	}
+
+	const accessKeyId = env.S3_ACCESS_KEY_ID;
+	const secretAccessKey = env.S3_SECRET_ACCESS_KEY;
+	const bucket = env.S3_BUCKET;
+	const region = env.S3_REGION;
+	const endpointValue =
+		env.S3_ENDPOINT ||
+		(region ? `https://s3.${region}.amazonaws.com` : undefined);
+
+	if (
+		!accessKeyId ||
+		!secretAccessKey ||
+		!bucket ||
+		!region ||
+		!endpointValue
+	) {
+		throw new Error(
+			"S3 storage is not configured. Please set S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_BUCKET, S3_REGION and S3_ENDPOINT.",
+		);
+	}
+
+	cachedConfig = {
+		accessKeyId,
+		secretAccessKey,
+		bucket,
+		region,
+		endpoint: normalizeEndpoint(endpointValue),
+		forcePathStyle: env.S3_FORCE_PATH_STYLE === "true",
+	};
+
+	return cachedConfig;
+}
+
+function toAmzDate(date: Date) {
+	return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+function toDateStamp(date: Date) {
+	return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function encodeRfc3986(value: string) {
+	return encodeURIComponent(value).replace(
+		/[!'()*]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+	);
+}
+
+function hashSha256(value: string) {
+	return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+function hmacSha256(key: Buffer | string, value: string | Buffer) {
+	return createHmac("sha256", key).update(value).digest();
+}
+
+function signHex(key: Buffer, value: string) {
+	return createHmac("sha256", key).update(value).digest("hex");
+}
+
+function getSignatureKey(secret: string, dateStamp: string, region: string) {
+	const kDate = hmacSha256(`AWS4${secret}`, dateStamp);
+	const kRegion = hmacSha256(kDate, region);
+	const kService = hmacSha256(kRegion, SERVICE);
+	return hmacSha256(kService, "aws4_request");
+}
+
+function encodeKey(key: string) {
+	return key
+		.split("/")
+		.map((segment) => encodeRfc3986(segment))
+		.join("/");
+}
+
+function joinUriSegments(...segments: Array<string | undefined>) {
+	const parts = segments
+		.filter((segment): segment is string =>
+			Boolean(segment && segment.trim().length > 0),
+		)
+		.map((segment) => segment.replace(/^\/+|\/+$/g, ""));
+	if (parts.length === 0) {
+		return "/";
+	}
+	return `/${parts.join("/")}`;
+}
+
+function resolveObjectLocation(config: StorageConfig, key: string) {
+	const endpointUrl = new URL(config.endpoint);
+	const pathPrefix = endpointUrl.pathname === "/" ? "" : endpointUrl.pathname;
+	const encodedKey = encodeKey(key);
+
+	if (config.forcePathStyle) {
+		const canonicalUri = joinUriSegments(pathPrefix, config.bucket, encodedKey);
+		return {
+			host: endpointUrl.host,
+			canonicalUri,
+			baseUrl: `${endpointUrl.origin}${canonicalUri}`,
+		};
+	}
+
+	const canonicalUri = joinUriSegments(pathPrefix, encodedKey);
+	const virtualHost = `${config.bucket}.${endpointUrl.host}`;
+
+	return {
+		host: virtualHost,
+		canonicalUri,
+		baseUrl: `${endpointUrl.protocol}//${virtualHost}${canonicalUri}`,
+	};
+}
+
+/** The bucket `S3_BUCKET` names; datasets on the S3 driver all store here. */
+export function getDefaultS3Bucket() {
+	return getStorageConfig().bucket;
+}
+
+type PresignParams = {
+	key: string;
+	method?: "PUT" | "GET" | "HEAD" | "DELETE" | "POST";
+	contentType?: string;
+	expiresIn?: number;
+	/** Extra S3 sub-resource parameters, e.g. `uploadId` and `partNumber`. */
+	query?: Record<string, string>;
+	/** Extra `x-amz-*` headers to sign, e.g. `x-amz-copy-source`. */
+	headers?: Record<string, string>;
+	/** Signing time; `X-Amz-Expires` counts from here. Defaults to now. */
+	signedAt?: Date;
+};
+
+function createPresignedRequest(
+	config: StorageConfig,
+	{
+		key,
+		method = "PUT",
+		contentType,
+		expiresIn = 900,
+		query = {},
+		headers = {},
+		signedAt,
+	}: PresignParams,
+): PresignedRequest {
+	const location = resolveObjectLocation(config, key);
+	const now = signedAt ?? new Date();
+	const amzDate = toAmzDate(now);
+	const dateStamp = toDateStamp(now);
+	const credentialScope = `${dateStamp}/${config.region}/${SERVICE}/aws4_request`;
+	const canonicalUri = location.canonicalUri;
+
+	const requestHeaders: Record<string, string> = {
+		...(contentType ? { "Content-Type": contentType } : {}),
+		...headers,
+	};
+	const signed = [
+		["host", location.host],
+		...Object.entries(requestHeaders).map(([name, value]) => [
+			name.toLowerCase(),
+			value.trim(),
+		]),
+	].sort(([a = ""], [b = ""]) => a.localeCompare(b));
+	const signedHeaders = signed.map(([name]) => name).join(";");
+	const canonicalHeaders = signed
+		.map(([name, value]) => `${name}:${value}\n`)
+		.join("");
+	const payloadHash =
+		method === "PUT" || method === "POST" ? "UNSIGNED-PAYLOAD" : hashSha256("");
+
+	const credential = `${config.accessKeyId}/${credentialScope}`;
+	const queryParams: Array<[string, string]> = [
+		["X-Amz-Algorithm", AWS_ALGORITHM],
+		["X-Amz-Credential", credential],
+		["X-Amz-Date", amzDate],
+		["X-Amz-Expires", String(expiresIn)],
+		["X-Amz-SignedHeaders", signedHeaders],
+		...Object.entries(query),
+	];
+
+	const canonicalQuerystring = queryParams
+		.map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+		.sort()
+		.join("&");
+
+	const canonicalRequest = [
+		method,
+		canonicalUri,
+		canonicalQuerystring,
+		canonicalHeaders,
+		signedHeaders,
+		payloadHash,
+	].join("\n");
+
+	const stringToSign = [
+		AWS_ALGORITHM,
+		amzDate,
+		credentialScope,
+		hashSha256(canonicalRequest),
+	].join("\n");
+
+	const signingKey = getSignatureKey(
+		config.secretAccessKey,
+		dateStamp,
+		config.region,
+	);
+	const signature = signHex(signingKey, stringToSign);
+
+	const presignedUrl = `${location.baseUrl}?${canonicalQuerystring}&X-Amz-Signature=${signature}`;
+
+	return {
+		url: presignedUrl,
+		headers: requestHeaders,
+	};
+}
+
+function decodeXml(value: string) {
+	return value
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&amp;/g, "&");
+}
+
+function escapeXml(value: string) {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function readXmlTag(xml: string, tag: string) {
+	const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+	return match?.[1] === undefined ? undefined : decodeXml(match[1]);
+}
+
+/**
+ * S3-compatible driver signing requests with SigV4. With
+ * `S3_PRIVATE_BUCKET=true` objects get no public URL and are only reachable
+ * through signed GETs.
+ */
+export function createS3Driver(bucket: string): StorageDriver {
+	const config = () => ({ ...getStorageConfig(), bucket });
+	const presign = (params: PresignParams) =>
+		createPresignedRequest(config(), params);
+	const isPrivate = env.S3_PRIVATE_BUCKET === "true";
+
+	return {
+		kind: "s3",
+		bucket,
+		isPrivate,
+
+		publicUrl(key) {
+			if (isPrivate) {
+				return null;
+			}
+			const customBase = env.ASSET_PUBLIC_URL?.trim().replace(/\/$/, "");
+			if (customBase) {
+				return `${customBase}/${encodeKey(key)}`;
+			}
+			return resolveObjectLocation(config(), key).baseUrl;
+		},
+
+		presignUpload(params) {
+			return presign({ ...params, method: "PUT" });
+		},
+
+		presignGet(key, { expiresIn, signedAt }) {
+			return presign({ key, method: "GET", expiresIn, signedAt }).url;
+		},
+
+		async head(key) {
+			const request = presign({ key, method: "HEAD", expiresIn: 60 });
+			const response = await fetch(request.url, {
+				method: "HEAD",
+				headers: request.headers,
+			});
+			if (response.status === 404) {
+				return null;
+			}
+			if (!response.ok) {
+				throw new Error(`S3 head error ${response.status}`);
+			}
+			const lastModified = response.headers.get("last-modified");
+			return {
+				key,
+				size: Number(response.headers.get("content-length") ?? 0),
+				lastModified: lastModified ? new Date(lastModified) : null,
+				etag: response.headers.get("etag"),
+			};
+		},
+
+		async get(key) {
+			const request = presign({ key, method: "GET", expiresIn: 300 });
+			const response = await fetch(request.url, { headers: request.headers });
+			if (!response.ok) {
+				throw new Error(
+					`S3 download error ${response.status}: ${await response.text()}`,
+				);
+			}
+			return new Uint8Array(await response.arrayBuffer());
+		},
+
+		async put(key, body, contentType) {
+			const request = presign({
+				key,
+				method: "PUT",
+				contentType,
+				expiresIn: 300,
+			});
+			const response = await fetch(request.url, {
+				method: "PUT",
+				headers: request.headers,
+				body,
+			});
+			if (!response.ok) {
+				throw new Error(
+					`S3 upload error ${response.status}: ${await response.text()}`,
+				);
+			}
+		},
+
+		async delete(key) {
+			try {
+				const request = presign({ key, method: "DELETE", expiresIn: 60 });
+				const response = await fetch(request.url, {
+					method: "DELETE",
+					headers: request.headers,
+				});
+				if (!response.ok) {
+					console.error("S3 delete error", await response.text());
+				}
+			} catch (error) {
+				console.error("Failed to delete storage object", error);
+			}
+		},
+
+		async list(prefix, { cursor, limit = 1000 } = {}) {
+			const request = presign({
+				key: "",
+				method: "GET",
+				expiresIn: 60,
+				query: {
+					"list-type": "2",
+					prefix,
+					"max-keys": String(limit),
+					...(cursor ? { "continuation-token": cursor } : {}),
+				},
+			});
+			const response = await fetch(request.url, { headers: request.headers });
+			const body = await response.text();
+			if (!response.ok) {
+				throw new Error(`S3 list error ${response.status}: ${body}`);
+			}
+			const objects: StoredObject[] = [];
+			for (const [, entry = ""] of body.matchAll(
+				/<Contents>([\s\S]*?)<\/Contents>/g,
+			)) {
+				const lastModified = readXmlTag(entry, "LastModified");
+				objects.push({
+					key: readXmlTag(entry, "Key") ?? "",
+					size: Number(readXmlTag(entry, "Size") ?? 0),
+					lastModified: lastModified ? new Date(lastModified) : null,
+					etag: readXmlTag(entry, "ETag") ?? null,
+				});
+			}
+			return {
+				objects,
+				nextCursor:
+					readXmlTag(body, "IsTruncated") === "true"
+						? (readXmlTag(body, "NextContinuationToken") ?? null)
+						: null,
+			};
+		},
+
+		async copy(sourceKey, targetKey) {
+			const request = presign({
+				key: targetKey,
+				method: "PUT",
+				expiresIn: 60,
+				headers: { "x-amz-copy-source": `/${bucket}/${encodeKey(sourceKey)}` },
+			});
+			const response = await fetch(request.url, {
+				method: "PUT",
+				headers: request.headers,
+			});
+			const body = await response.text();
+			// Like multipart completion, a copy can fail with a 200 status.
+			if (!response.ok || body.includes("<Error>")) {
+				throw new Error(`S3 copy error ${response.status}: ${body}`);
+			}
+		},
+
+		async createMultipartUpload(params) {
+			const request = presign({
+				...params,
+				method: "POST",
+				expiresIn: 60,
+				query: { uploads: "" },
+			});
+			const response = await fetch(request.url, {
+				method: "POST",
+				headers: request.headers,
+			});
+			const body = await response.text();
+			if (!response.ok) {
+				throw new Error(
+					`S3 multipart initiate error ${response.status}: ${body}`,
+				);
+			}
+			const uploadId = readXmlTag(body, "UploadId");
+			if (!uploadId) {
+				throw new Error("S3 multipart initiate returned no UploadId");
+			}
+			return uploadId;
+		},
+
+		presignPart(params) {
+			return presign({
+				key: params.key,
+				method: "PUT",
+				expiresIn: params.expiresIn,
+				query: {
+					partNumber: String(params.partNumber),
+					uploadId: params.uploadId,
+				},
+			});
+		},
+
+		async listParts(key, uploadId) {
+			const parts: UploadedPart[] = [];
+			let marker = "0";
+			for (;;) {
+				const request = presign({
+					key,
+					method: "GET",
+					expiresIn: 60,
+					query: { uploadId, "part-number-marker": marker },
+				});
+				const response = await fetch(request.url, {
+					headers: request.headers,
+				});
+				const body = await response.text();
+				if (!response.ok) {
+					throw new Error(`S3 list parts error ${response.status}: ${body}`);
+				}
+				for (const [, part = ""] of body.matchAll(
+					/<Part>([\s\S]*?)<\/Part>/g,
+				)) {
+					parts.push({
+						partNumber: Number(readXmlTag(part, "PartNumber")),
+						etag: readXmlTag(part, "ETag") ?? "",
+						size: Number(readXmlTag(part, "Size") ?? 0),
+					});
+				}
+				const next = readXmlTag(body, "NextPartNumberMarker");
+				if (readXmlTag(body, "IsTruncated") !== "true" || !next) {
+					return parts;
+				}
+				marker = next;
+			}
+		},
+
+		async completeMultipartUpload(key, uploadId, parts) {
+			const request = presign({
+				key,
+				method: "POST",
+				contentType: "application/xml",
+				expiresIn: 60,
+				query: { uploadId },
+			});
+			const xml = `<CompleteMultipartUpload>${[...parts]
+				.sort((a, b) => a.partNumber - b.partNumber)
+				.map(
+					(part) =>
+						`<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag></Part>`,
+				)
+				.join("")}</CompleteMultipartUpload>`;
+			const response = await fetch(request.url, {
+				method: "POST",
+				headers: request.headers,
+				body: xml,
+			});
+			const body = await response.text();
+			// S3 can answer 200 and still report a failure in the body.
+			if (!response.ok || body.includes("<Error>")) {
+				throw new Error(
+					`S3 multipart complete error ${response.status}: ${body}`,
+				);
+			}
+		},
+
+		async abortMultipartUpload(key, uploadId) {
+			try {
+				const request = presign({
+					key,
+					method: "DELETE",
+					expiresIn: 60,
+					query: { uploadId },
+				});
+				const response = await fetch(request.url, {
+					method: "DELETE",
+					headers: request.headers,
+				});
+				if (!response.ok && response.status !== 404) {
+					console.error("S3 multipart abort error", await response.text());
+				}
+			} catch (error) {
+				console.error("Failed to abort multipart upload", error);
+			}
+		},
+	};
+}
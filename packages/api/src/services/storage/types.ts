@@ -0,0 +1,67 @@
+export type PresignedRequest = {
+	url: string;
+	headers: Record<string, string>;
+};
+
+export type StoredObject = {
+	key: string;
+	size: number;
+	lastModified: Date | null;
+	/** As reported by the backend; `null` where it has none (local disk). */
+	etag: string | null;
+};
+
+export type UploadedPart = { partNumber: number; etag: string; size: number };
+
+export type StorageDriver = {
+	kind: "s3" | "local";
+	bucket: string;
+	/** Whether objects are only reachable through signed URLs. */
+	isPrivate: boolean;
+	/** Permanent URL for `key`, or `null` when objects are only reachable signed. */
+	publicUrl(key: string): string | null;
+	presignUpload(params: {
+		key: string;
+		contentType: string;
+		expiresIn?: number;
+	}): PresignedRequest;
+	/** GET URL valid for `expiresIn` seconds counted from `signedAt`. */
+	presignGet(
+		key: string,
+		params: { expiresIn: number; signedAt?: Date },
+	): string;
+	/** `null` when the object does not exist. */
+	head(key: string): Promise<StoredObject | null>;
+	get(key: string): Promise<Uint8Array<ArrayBuffer>>;
+	put(
+		key: string,
+		body: Uint8Array<ArrayBuffer>,
+		contentType: string,
+	): Promise<void>;
+	/** Best effort: failures are logged, missing objects are ignored. */
+	delete(key: string): Promise<void>;
+	/** One page of objects under `prefix`, ordered by key. */
+	list(
+		prefix: string,
+		params?: { cursor?: string | null; limit?: number },
+	): Promise<{ objects: StoredObject[]; nextCursor: string | null }>;
+	copy(sourceKey: string, targetKey: string): Promise<void>;
+	createMultipartUpload(params: {
+		key: string;
+		contentType: string;
+	}): Promise<string>;
+	presignPart(params: {
+		key: string;
+		uploadId: string;
+		partNumber: number;
+		expiresIn?: number;
+	}): PresignedRequest;
+	listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+	completeMultipartUpload(
+		key: string,
+		uploadId: string,
+		parts: Array<{ partNumber: number; etag: string }>,
+	): Promise<void>;
+	/** Best effort, like `delete`. */
+	abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+};
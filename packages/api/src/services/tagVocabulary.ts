@@ -0,0 +1,321 @@
+import { db } from "@cyop/db";
+import {
+	type AnyColumn,
+	and,
+	eq,
+	inArray,
+	ne,
+	sql,
+} from "@cyop/db/drizzle-orm";
+import {
+	datasets,
+	datasetTags,
+	mediaAssetTags,
+	requirements,
+	tagAliases,
+	tagVocabulary,
+} from "@cyop/db/schema/platform";
+
+type VocabularyTag = typeof tagVocabulary.$inferSelect;
+
+export function cleanTagLabel(label: string) {
+	return label.trim().replace(/\s+/g, " ");
+}
+
+export function tagKey(label: string) {
+	return cleanTagLabel(label).toLowerCase();
+}
+
+function lowerIn(column: AnyColumn, keys: string[]) {
+	return inArray(sql`lower(${column})`, keys);
+}
+
+/**
+ * Loads the vocabulary once and returns a function mapping any spelling
+ * (canonical label or alias, case-insensitive) to its canonical label. Labels
+ * outside the vocabulary are only cleaned.
+ */
+export async function loadTagNormalizer() {
+	const [tags, aliases] = await Promise.all([
+		db
+			.select({ id: tagVocabulary.id, label: tagVocabulary.label })
+			.from(tagVocabulary),
+		db
+			.select({ tagId: tagAliases.tagId, alias: tagAliases.alias })
+			.from(tagAliases),
+	]);
+
+	const labelById = new Map(tags.map((tag) => [tag.id, tag.label]));
+	const index = new Map<string, string>();
+	for (const tag of tags) {
+		index.set(tagKey(tag.label), tag.label);
+	}
+	for (const alias of aliases) {
+		const label = labelById.get(alias.tagId);
+		if (label && !index.has(alias.alias)) {
+			index.set(alias.alias, label);
+		}
+	}
+
+	return (label: string) => {
+		const cleaned = cleanTagLabel(label);
+		return index.get(cleaned.toLowerCase()) ?? cleaned;
+	};
+}
+
+/** Canonicalizes and de-duplicates a free-form tag list before it is stored. */
+export async function normalizeTagLabels(labels: string[]) {
+	if (!labels.length) {
+		return [];
+	}
+	const canonical = await loadTagNormalizer();
+	const byKey = new Map<string, string>();
+	for (const label of labels) {
+		const normalized = canonical(label);
+		if (normalized && !byKey.has(normalized.toLowerCase())) {
+			byKey.set(normalized.toLowerCase(), normalized);
+		}
+	}
+	return [...byKey.values()];
+}
+
+/** Returns the key already used by a canonical label or alias, if any. */
+export async function findTagKeyConflict(key: string, exceptTagId?: number) {
+	const [[tag], [alias]] = await Promise.all([
+		db
+			.select({ id: tagVocabulary.id, label: tagVocabulary.label })
+			.from(tagVocabulary)
+			.where(
+				and(
+					eq(sql`lower(${tagVocabulary.label})`, key),
+					exceptTagId ? ne(tagVocabulary.id, exceptTagId) : undefined,
+				),
+			)
+			.limit(1),
+		db
+			.select({ tagId: tagAliases.tagId })
+			.from(tagAliases)
+			.where(
+				and(
+					eq(tagAliases.alias, key),
+					exceptTagId ? ne(tagAliases.tagId, exceptTagId) : undefined,
+				),
+			)
+			.limit(1),
+	]);
+	return tag ? `label "${tag.label}"` : alias ? "an alias" : null;
+}
+
+/** True when making `parentId` the parent of `tagId` would create a cycle. */
+export async function wouldCreateCycle(tagId: number, parentId: number) {
+	const rows = await db
+		.select({ id: tagVocabulary.id, parentId: tagVocabulary.parentId })
+		.from(tagVocabulary);
+	const parentOf = new Map(rows.map((row) => [row.id, row.parentId]));
+
+	let current: number | null | undefined = parentId;
+	const seen = new Set<number>();
+	while (current && !seen.has(current)) {
+		if (current === tagId) {
+			return true;
+		}
+		seen.add(current);
+		current = parentOf.get(current);
+	}
+	return false;
+}
+
+function rewriteList(list: string[], keys: Set<string>, label: string) {
+	const byKey = new Map<string, string>();
+	for (const item of list) {
+		const next = keys.has(tagKey(item)) ? label : item;
+		if (!byKey.has(tagKey(next))) {
+			byKey.set(tagKey(next), next);
+		}
+	}
+	return [...byKey.values()];
+}
+
+/**
+ * Rewrites every stored usage of the given spellings to `label`: asset tags,
+ * dataset tags, requirement tag hints and dataset focus tags. Rows that would
+ * collide with an existing `label` usage are folded into it. Callers should
+ * recompute the returned datasets' tag stats afterwards.
+ */
+export async function rewriteTagUsages(keys: string[], label: string) {
+	// Case variants of `label` itself are rewritten to its exact spelling too.
+	const allKeys = [...new Set([...keys, tagKey(label)])].filter(Boolean);
+	const now = new Date();
+
+	// Asset tags: one row per (asset, source); prefer the row already on `label`.
+	const assetRows = await db
+		.select({
+			id: mediaAssetTags.id,
+			mediaAssetId: mediaAssetTags.mediaAssetId,
+			datasetId: mediaAssetTags.datasetId,
+			source: mediaAssetTags.source,
+			label: mediaAssetTags.label,
+		})
+		.from(mediaAssetTags)
+		.where(lowerIn(mediaAssetTags.label, allKeys));
+	const keptAsset = new Map<string, (typeof assetRows)[number]>();
+	const assetDeletes: number[] = [];
+	for (const row of [...assetRows].sort(
+		(a, b) => Number(b.label === label) - Number(a.label === label),
+	)) {
+		const slot = `${row.mediaAssetId}:${row.source}`;
+		if (keptAsset.has(slot)) {
+			assetDeletes.push(row.id);
+		} else {
+			keptAsset.set(slot, row);
+		}
+	}
+	const assetRenames = [...keptAsset.values()]
+		.filter((row) => row.label !== label)
+		.map((row) => row.id);
+
+	// Dataset tags: one row per dataset; prefer manual rows, then `label`.
+	const datasetTagRows = await db
+		.select({
+			id: datasetTags.id,
+			datasetId: datasetTags.datasetId,
+			label: datasetTags.label,
+			autoGenerated: datasetTags.autoGenerated,
+		})
+		.from(datasetTags)
+		.where(lowerIn(datasetTags.label, allKeys));
+	const keptDatasetTag = new Map<number, (typeof datasetTagRows)[number]>();
+	const datasetTagDeletes: number[] = [];
+	for (const row of [...datasetTagRows].sort(
+		(a, b) =>
+			Number(a.autoGenerated) - Number(b.autoGenerated) ||
+			Number(b.label === label) - Number(a.label === label),
+	)) {
+		if (keptDatasetTag.has(row.datasetId)) {
+			datasetTagDeletes.push(row.id);
+		} else {
+			keptDatasetTag.set(row.datasetId, row);
+		}
+	}
+	const datasetTagRenames = [...keptDatasetTag.values()]
+		.filter((row) => row.label !== label)
+		.map((row) => row.id);
+
+	if (assetDeletes.length) {
+		await db
+			.delete(mediaAssetTags)
+			.where(inArray(mediaAssetTags.id, assetDeletes));
+	}
+	if (assetRenames.length) {
+		await db
+			.update(mediaAssetTags)
+			.set({ label })
+			.where(inArray(mediaAssetTags.id, assetRenames));
+	}
+	if (datasetTagDeletes.length) {
+		await db
+			.delete(datasetTags)
+			.where(inArray(datasetTags.id, datasetTagDeletes));
+	}
+	if (datasetTagRenames.length) {
+		await db
+			.update(datasetTags)
+			.set({ label })
+			.where(inArray(datasetTags.id, datasetTagRenames));
+	}
+
+	const keySet = new Set(allKeys);
+	const keyList = sql.join(
+		allKeys.map((key) => sql`${key}`),
+		sql`, `,
+	);
+	const [requirementRows, datasetRows] = await Promise.all([
+		db
+			.select({ id: requirements.id, tagHints: requirements.tagHints })
+			.from(requirements)
+			.where(
+				sql`exists (select 1 from unnest(${requirements.tagHints}) as hint where lower(hint) in (${keyList}))`,
+			),
+		db
+			.select({ id: datasets.id, focusTags: datasets.focusTags })
+			.from(datasets)
+			.where(
+				sql`exists (select 1 from unnest(${datasets.focusTags}) as tag where lower(tag) in (${keyList}))`,
+			),
+	]);
+	await Promise.all([
+		...requirementRows.map((row) =>
+			db
+				.update(requirements)
+				.set({
+					tagHints: rewriteList(row.tagHints, keySet, label),
+					updatedAt: now,
+				})
+				.where(eq(requirements.id, row.id)),
+		),
+		...datasetRows.map((row) =>
+			db
+				.update(datasets)
+				.set({
+					focusTags: rewriteList(row.focusTags, keySet, label),
+					updatedAt: now,
+				})
+				.where(eq(datasets.id, row.id)),
+		),
+	]);
+
+	return {
+		assetTags: assetDeletes.length + assetRenames.length,
+		datasetTags: datasetTagDeletes.length + datasetTagRenames.length,
+		requirements: requirementRows.length,
+		datasets: datasetRows.length,
+		datasetIds: [
+			...new Set([
+				...assetRows.map((row) => row.datasetId),
+				...datasetTagRows.map((row) => row.datasetId),
+			]),
+		],
+	};
+}
+
+/**
+ * Folds `source` into `target`: the source label and its aliases become
+ * aliases of the target, children move to the target, every usage is
+ * rewritten and the source entry is deleted.
+ */
+export async function mergeTags(source: VocabularyTag, target: VocabularyTag) {
+	const aliases = await db
+		.select({ alias: tagAliases.alias })
+		.from(tagAliases)
+		.where(eq(tagAliases.tagId, source.id));
+	const keys = [tagKey(source.label), ...aliases.map((row) => row.alias)];
+	const now = new Date();
+
+	await db
+		.update(tagAliases)
+		.set({ tagId: target.id })
+		.where(eq(tagAliases.tagId, source.id));
+	await db
+		.update(tagVocabulary)
+		.set({ parentId: target.id, updatedAt: now })
+		.where(
+			and(
+				eq(tagVocabulary.parentId, source.id),
+				ne(tagVocabulary.id, target.id),
+			),
+		);
+	if (target.parentId === source.id) {
+		await db
+			.update(tagVocabulary)
+			.set({ parentId: source.parentId, updatedAt: now })
+			.where(eq(tagVocabulary.id, target.id));
+	}
+	await db.delete(tagVocabulary).where(eq(tagVocabulary.id, source.id));
+	await db
+		.insert(tagAliases)
+		.values({ tagId: target.id, alias: tagKey(source.label) })
+		.onConflictDoNothing();
+
+	const rewritten = await rewriteTagUsages(keys, target.label);
+	return { mergedAliases: keys.length, ...rewritten };
+}
@@ -0,0 +1,221 @@
+import { db } from "@cyop/db";
+import {
+	and,
+	eq,
+	gte,
+	inArray,
+	isNotNull,
+	isNull,
+	lt,
+} from "@cyop/db/drizzle-orm";
+import { datasets, mediaAssets } from "@cyop/db/schema/platform";
+import { recomputeDatasetTags } from "./datasetTags";
+import { releaseStorageObjects } from "./duplicates";
+import { deleteIngestSources } from "./ingest";
+
+const env = ((
+	globalThis as { process?: { env?: Record<string, string | undefined> } }
+).process?.env ?? {}) as Record<string, string | undefined>;
+
+export const TRASH_RETENTION_DAYS = Math.max(
+	1,
+	Number(env.TRASH_RETENTION_DAYS) || 30,
+);
+
+const PURGE_BATCH_SIZE = 500;
+
+/** When an item trashed at `deletedAt` is purged for good. */
+export function trashExpiresAt(deletedAt: Date) {
+	return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 86_400_000);
+}
+
+/** Items trashed before this are past the retention window. */
+export function trashCutoff(now = new Date()) {
+	return new Date(now.getTime() - TRASH_RETENTION_DAYS * 86_400_000);
+}
+
+async function recomputeTagsFor(rows: Array<{ datasetId: number }>) {
+	for (const datasetId of new Set(rows.map((row) => row.datasetId))) {
+		await recomputeDatasetTags(datasetId);
+	}
+}
+
+/**
+ * Moves assets to the trash. Rows, captions, tags and stored objects stay
+ * untouched until the retention window runs out.
+ */
+export async function trashAssets(assetIds: number[]) {
+	if (!assetIds.length) {
+		return [];
+	}
+	const trashed = await db
+		.update(mediaAssets)
+		.set({ deletedAt: new Date() })
+		.where(
+			and(inArray(mediaAssets.id, assetIds), isNull(mediaAssets.deletedAt)),
+		)
+		.returning({ id: mediaAssets.id, datasetId: mediaAssets.datasetId });
+	await recomputeTagsFor(trashed);
+	return trashed.map((row) => row.id);
+}
+
+/**
+ * Takes assets out of the trash. Assets past the retention window or whose
+ * dataset is itself in the trash are left alone.
+ */
+export async function restoreAssets(assetIds: number[]) {
+	if (!assetIds.length) {
+		return [];
+	}
+	const restorable = await db
+		.select({ id: mediaAssets.id })
+		.from(mediaAssets)
+		.innerJoin(datasets, eq(mediaAssets.datasetId, datasets.id))
+		.where(
+			and(
+				inArray(mediaAssets.id, assetIds),
+				gte(mediaAssets.deletedAt, trashCutoff()),
+				isNull(datasets.deletedAt),
+			),
+		);
+	if (!restorable.length) {
+		return [];
+	}
+	const restored = await db
+		.update(mediaAssets)
+		.set({ deletedAt: null })
+		.where(
+			inArray(
+				mediaAssets.id,
+				restorable.map((row) => row.id),
+			),
+		)
+		.returning({ id: mediaAssets.id, datasetId: mediaAssets.datasetId });
+	await recomputeTagsFor(restored);
+	return restored.map((row) => row.id);
+}
+
+/**
+ * Moves a dataset and its live assets to the trash under one timestamp, so
+ * restoring the dataset brings back exactly those assets and leaves the ones
+ * trashed earlier in the trash.
+ */
+export async function trashDataset(datasetId: number) {
+	const deletedAt = new Date();
+	const [dataset] = await db
+		.update(datasets)
+		.set({ deletedAt })
+		.where(and(eq(datasets.id, datasetId), isNull(datasets.deletedAt)))
+		.returning();
+	if (!dataset) {
+		return null;
+	}
+	const assets = await db
+		.update(mediaAssets)
+		.set({ deletedAt })
+		.where(
+			and(eq(mediaAssets.datasetId, datasetId), isNull(mediaAssets.deletedAt)),
+		)
+		.returning({ id: mediaAssets.id });
+	return { dataset, trashedAssets: assets.length };
+}
+
+/** Restores a trashed dataset along with the assets trashed with it. */
+export async function restoreDataset(datasetId: number) {
+	const [current] = await db
+		.select({ deletedAt: datasets.deletedAt })
+		.from(datasets)
+		.where(
+			and(eq(datasets.id, datasetId), gte(datasets.deletedAt, trashCutoff())),
+		)
+		.limit(1);
+	if (!current?.deletedAt) {
+		return null;
+	}
+	const [dataset] = await db
+		.update(datasets)
+		.set({ deletedAt: null, updatedAt: new Date() })
+		.where(eq(datasets.id, datasetId))
+		.returning();
+	const assets = await db
+		.update(mediaAssets)
+		.set({ deletedAt: null })
+		.where(
+			and(
+				eq(mediaAssets.datasetId, datasetId),
+				eq(mediaAssets.deletedAt, current.deletedAt),
+			),
+		)
+		.returning({ id: mediaAssets.id });
+	return dataset ? { dataset, restoredAssets: assets.length } : null;
+}
+
+/**
+ * Deletes trashed assets for good (captions and tags cascade) and releases
+ * their stored objects unless another row still points at them.
+ */
+async function purgeAssets(assetIds: number[]) {
+	if (!assetIds.length) {
+		return { purged: 0, releasedObjects: 0 };
+	}
+	const purged = await db
+		.delete(mediaAssets)
+		.where(
+			and(inArray(mediaAssets.id, assetIds), isNotNull(mediaAssets.deletedAt)),
+		)
+		.returning({
+			storageBucket: mediaAssets.storageBucket,
+			storageKey: mediaAssets.storageKey,
+		});
+	return {
+		purged: purged.length,
+		releasedObjects: await releaseStorageObjects(purged),
+	};
+}
+
+/** Purges every dataset and asset whose retention window has run out. */
+export async function purgeTrash(now = new Date()) {
+	const cutoff = trashCutoff(now);
+	const result = { datasets: 0, assets: 0, releasedObjects: 0 };
+
+	const expiredDatasets = await db
+		.select({ id: datasets.id, storageBucket: datasets.storageBucket })
+		.from(datasets)
+		.where(lt(datasets.deletedAt, cutoff));
+	for (const { id, storageBucket } of expiredDatasets) {
+		const objects = await db
+			.select({
+				storageBucket: mediaAssets.storageBucket,
+				storageKey: mediaAssets.storageKey,
+			})
+			.from(mediaAssets)
+			.where(eq(mediaAssets.datasetId, id));
+		await db.delete(datasets).where(eq(datasets.id, id));
+		result.datasets++;
+		result.assets += objects.length;
+		result.releasedObjects += await releaseStorageObjects(objects);
+		result.releasedObjects += await deleteIngestSources({
+			id,
+			storageBucket,
+		});
+	}
+
+	for (;;) {
+		const expired = await db
+			.select({ id: mediaAssets.id })
+			.from(mediaAssets)
+			.where(lt(mediaAssets.deletedAt, cutoff))
+			.limit(PURGE_BATCH_SIZE);
+		if (!expired.length) {
+			break;
+		}
+		const batch = await purgeAssets(expired.map((row) => row.id));
+		result.assets += batch.purged;
+		result.releasedObjects += batch.releasedObjects;
+		if (expired.length < PURGE_BATCH_SIZE) {
+			break;
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,135 @@
+import { db } from "@cyop/db";
+import { eq, sql } from "@cyop/db/drizzle-orm";
+import {
+	type aiModels,
+	datasets,
+	modelUsageEvents,
+	requirements,
+} from "@cyop/db/schema/platform";
+import { TRPCError } from "@trpc/server";
+import { ProviderError, type ProviderUsage } from "./providers";
+
+type PricedModel = Pick<
+	typeof aiModels.$inferSelect,
+	"id" | "inputPricePer1kMicros" | "outputPricePer1kMicros"
+>;
+
+type UsageRecord = {
+	model: PricedModel;
+	modelName: string;
+	usage: ProviderUsage;
+	source: "worker" | "api";
+	datasetId?: number | null;
+	captionJobId?: number | null;
+	captionId?: number | null;
+	requestedBy?: string | null;
+};
+
+export function computeCostMicros(model: PricedModel, usage: ProviderUsage) {
+	const input =
+		(usage.promptTokens * (model.inputPricePer1kMicros ?? 0)) / 1000;
+	const output =
+		(usage.completionTokens * (model.outputPricePer1kMicros ?? 0)) / 1000;
+	return Math.round(input + output);
+}
+
+async function findRequirementId(datasetId?: number | null) {
+	if (!datasetId) {
+		return null;
+	}
+	const [dataset] = await db
+		.select({ requirementId: datasets.requirementId })
+		.from(datasets)
+		.where(eq(datasets.id, datasetId))
+		.limit(1);
+	return dataset?.requirementId ?? null;
+}
+
+export async function recordModelUsage({
+	model,
+	modelName,
+	usage,
+	source,
+	datasetId,
+	captionJobId,
+	captionId,
+	requestedBy,
+}: UsageRecord) {
+	const costMicros = computeCostMicros(model, usage);
+	await db.insert(modelUsageEvents).values({
+		modelId: model.id || null,
+		modelName,
+		datasetId: datasetId ?? null,
+		requirementId: await findRequirementId(datasetId),
+		captionJobId: captionJobId ?? null,
+		captionId: captionId ?? null,
+		requestedBy: requestedBy ?? null,
+		source,
+		promptTokens: usage.promptTokens,
+		completionTokens: usage.completionTokens,
+		totalTokens: usage.totalTokens,
+		costMicros,
+	});
+	return costMicros;
+}
+
+/**
+ * Records the tokens a failed call had already been billed for, then
+ * rethrows the error.
+ */
+export async function recordFailedUsage(
+	error: unknown,
+	record: Omit<UsageRecord, "usage" | "modelName" | "model"> & {
+		model: PricedModel & Pick<typeof aiModels.$inferSelect, "modelName">;
+	},
+): Promise<never> {
+	if (error instanceof ProviderError && error.usage?.totalTokens) {
+		await recordModelUsage({
+			...record,
+			modelName: error.model ?? record.model.modelName,
+			usage: error.usage,
+		});
+	}
+	throw error;
+}
+
+export async function getRequirementSpend(requirementId: number) {
+	const [row] = await db
+		.select({
+			spentMicros:
+				sql<number>`coalesce(sum(${modelUsageEvents.costMicros}), 0)::bigint`.mapWith(
+					Number,
+				),
+		})
+		.from(modelUsageEvents)
+		.where(eq(modelUsageEvents.requirementId, requirementId));
+	return row?.spentMicros ?? 0;
+}
+
+/**
+ * Blocks new caption work for a dataset whose requirement has spent its
+ * budget. Requirements without `budgetMicros` are unlimited.
+ */
+export async function assertDatasetBudget(datasetId: number) {
+	const [row] = await db
+		.select({
+			requirementId: requirements.id,
+			budgetMicros: requirements.budgetMicros,
+		})
+		.from(datasets)
+		.innerJoin(requirements, eq(datasets.requirementId, requirements.id))
+		.where(eq(datasets.id, datasetId))
+		.limit(1);
+
+	if (!row || row.budgetMicros === null) {
+		return;
+	}
+
+	const spentMicros = await getRequirementSpend(row.requirementId);
+	if (spentMicros >= row.budgetMicros) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "该需求的模型预算已用完，请提高预算后再创建任务",
+		});
+	}
+}
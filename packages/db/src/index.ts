@@ -1,5 +1,6 @@
-import { neon, neonConfig } from "@neondatabase/serverless";
+import { neon, neonConfig, Pool } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
+import { drizzle as drizzlePool } from "drizzle-orm/neon-serverless";
 import ws from "ws";
 
 neonConfig.webSocketConstructor = ws;
@@ -11,4 +12,12 @@ const env = ((
 const sql = neon(env.DATABASE_URL || "");
 export const db = drizzle(sql);
 
+/**
+ * WebSocket-backed client for the few writes that need an interactive
+ * transaction (row locks); the HTTP driver cannot hold one open.
+ */
+export const txDb = drizzlePool(
+	new Pool({ connectionString: env.DATABASE_URL || "" }),
+);
+
 export * from "./schema/platform";
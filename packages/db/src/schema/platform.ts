@@ -1,6 +1,10 @@
 import { sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
+	bigint,
 	boolean,
+	doublePrecision,
+	index,
 	integer,
 	jsonb,
 	pgEnum,
@@ -8,6 +12,8 @@ import {
 	serial,
 	text,
 	timestamp,
+	unique,
+	vector,
 } from "drizzle-orm/pg-core";
 
 export const requirementPriorityValues = [
@@ -68,6 +74,7 @@ export const requirements = pgTable("requirements", {
 	tagHints: text("tag_hints").array().notNull().default(sql`ARRAY[]::text[]`),
 	briefUrl: text("brief_url"),
 	dueDate: timestamp("due_date"),
+	budgetMicros: bigint("budget_micros", { mode: "number" }), // model spend cap, millionths of a currency unit
 	metadata: jsonb("metadata")
 		.$type<Record<string, unknown>>()
 		.notNull()
@@ -91,6 +98,8 @@ export const datasets = pgTable("datasets", {
 	reviewCoverage: integer("review_coverage").notNull().default(0),
 	focusTags: text("focus_tags").array().notNull().default(sql`ARRAY[]::text[]`),
 	lastRunAt: timestamp("last_run_at"),
+	/** Set while the dataset sits in the trash; purged after the retention window. */
+	deletedAt: timestamp("deleted_at"),
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -127,6 +136,28 @@ export const datasetTags = pgTable("dataset_tags", {
 	lastUsedAt: timestamp("last_used_at"),
 });
 
+export const tagVocabulary = pgTable("tag_vocabulary", {
+	id: serial("id").primaryKey(),
+	label: text("label").notNull().unique(), // canonical spelling
+	description: text("description"),
+	parentId: integer("parent_id").references(
+		(): AnyPgColumn => tagVocabulary.id,
+		{ onDelete: "set null" },
+	),
+	createdBy: text("created_by"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const tagAliases = pgTable("tag_aliases", {
+	id: serial("id").primaryKey(),
+	tagId: integer("tag_id")
+		.notNull()
+		.references(() => tagVocabulary.id, { onDelete: "cascade" }),
+	alias: text("alias").notNull().unique(), // lowercased
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const mediaStatusValues = [
 	"pending_upload",
 	"uploading",
@@ -151,32 +182,84 @@ export const captionJobStatusEnum = pgEnum(
 	captionJobStatusValues,
 );
 
-export const mediaAssets = pgTable("media_assets", {
-	id: serial("id").primaryKey(),
-	datasetId: integer("dataset_id")
-		.notNull()
-		.references(() => datasets.id, { onDelete: "cascade" }),
-	requirementId: integer("requirement_id").references(() => requirements.id, {
-		onDelete: "set null",
-	}),
-	originalName: text("original_name").notNull(),
-	mimeType: text("mime_type").notNull(),
-	size: integer("size").notNull().default(0),
-	width: integer("width"),
-	height: integer("height"),
-	storageBucket: text("storage_bucket").notNull(),
-	storageKey: text("storage_key").notNull(),
-	publicUrl: text("public_url"),
-	checksum: text("checksum"),
-	status: mediaStatusEnum("status").notNull().default("pending_upload"),
-	uploadedAt: timestamp("uploaded_at"),
-	metadata: jsonb("metadata")
-		.$type<Record<string, unknown>>()
-		.notNull()
-		.default(sql`'{}'::jsonb`),
-	createdAt: timestamp("created_at").defaultNow().notNull(),
-	updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const captionJobTypeValues = [
+	"caption",
+	"tag",
+	"embed",
+	"process",
+	"ingest",
+] as const;
+export const captionJobTypeEnum = pgEnum(
+	"caption_job_type",
+	captionJobTypeValues,
+);
+
+export const captionFailureCategoryValues = [
+	"rate_limit",
+	"server",
+	"network",
+	"timeout",
+	"auth",
+	"bad_request",
+	"content_policy",
+	"empty_response",
+	"invalid_output",
+	"unknown",
+] as const;
+export const captionFailureCategoryEnum = pgEnum(
+	"caption_failure_category",
+	captionFailureCategoryValues,
+);
+
+export type MediaThumbnail = {
+	key: string;
+	/** `null` in private-bucket mode; sign `key` instead. */
+	url: string | null;
+	width: number;
+	height: number;
+};
+
+export const mediaAssets = pgTable(
+	"media_assets",
+	{
+		id: serial("id").primaryKey(),
+		datasetId: integer("dataset_id")
+			.notNull()
+			.references(() => datasets.id, { onDelete: "cascade" }),
+		requirementId: integer("requirement_id").references(() => requirements.id, {
+			onDelete: "set null",
+		}),
+		originalName: text("original_name").notNull(),
+		mimeType: text("mime_type").notNull(),
+		size: integer("size").notNull().default(0),
+		width: integer("width"),
+		height: integer("height"),
+		storageBucket: text("storage_bucket").notNull(),
+		storageKey: text("storage_key").notNull(),
+		publicUrl: text("public_url"),
+		checksum: text("checksum"),
+		/** 64-bit dHash as 16 hex chars, compared by Hamming distance. */
+		perceptualHash: text("perceptual_hash"),
+		thumbnails: jsonb("thumbnails")
+			.$type<Record<string, MediaThumbnail>>()
+			.notNull()
+			.default(sql`'{}'::jsonb`),
+		status: mediaStatusEnum("status").notNull().default("pending_upload"),
+		uploadedAt: timestamp("uploaded_at"),
+		metadata: jsonb("metadata")
+			.$type<Record<string, unknown>>()
+			.notNull()
+			.default(sql`'{}'::jsonb`),
+		/** Set while the asset sits in the trash; purged after the retention window. */
+		deletedAt: timestamp("deleted_at"),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [
+		index("media_assets_checksum_idx").on(table.checksum),
+		index("media_assets_deleted_at_idx").on(table.deletedAt),
+	],
+);
 
 export const captionStatusValues = [
 	"pending",
@@ -187,6 +270,17 @@ export const captionStatusValues = [
 ] as const;
 export const captionStatusEnum = pgEnum("caption_status", captionStatusValues);
 
+export const confidenceStrategyValues = [
+	"auto",
+	"logprobs",
+	"self_consistency",
+	"heuristic",
+] as const;
+export const confidenceStrategyEnum = pgEnum(
+	"confidence_strategy",
+	confidenceStrategyValues,
+);
+
 export const promptTemplates = pgTable("prompt_templates", {
 	id: serial("id").primaryKey(),
 	name: text("name").notNull(),
@@ -196,12 +290,41 @@ export const promptTemplates = pgTable("prompt_templates", {
 	model: text("model").notNull().default("gpt-4o"),
 	temperature: integer("temperature").notNull().default(70), // stored as 0-100, divide by 100 for API
 	maxTokens: integer("max_tokens").notNull().default(300),
+	confidenceStrategy: confidenceStrategyEnum("confidence_strategy")
+		.notNull()
+		.default("auto"),
+	consistencySamples: integer("consistency_samples").notNull().default(3),
+	outputSchema: jsonb("output_schema").$type<Record<string, unknown>>(), // JSON schema subset; null means free text
+	activeRevisionId: integer("active_revision_id"), // prompt_template_revisions.id mirrored in the columns above
 	isDefault: boolean("is_default").notNull().default(false),
 	isActive: boolean("is_active").notNull().default(true),
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const promptTemplateRevisions = pgTable(
+	"prompt_template_revisions",
+	{
+		id: serial("id").primaryKey(),
+		templateId: integer("template_id")
+			.notNull()
+			.references(() => promptTemplates.id, { onDelete: "cascade" }),
+		revision: integer("revision").notNull(),
+		systemPrompt: text("system_prompt").notNull(),
+		userPromptTemplate: text("user_prompt_template").notNull(),
+		model: text("model").notNull(),
+		temperature: integer("temperature").notNull(),
+		maxTokens: integer("max_tokens").notNull(),
+		confidenceStrategy: confidenceStrategyEnum("confidence_strategy").notNull(),
+		consistencySamples: integer("consistency_samples").notNull(),
+		outputSchema: jsonb("output_schema").$type<Record<string, unknown>>(),
+		note: text("note"),
+		createdBy: text("created_by"),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => [unique().on(table.templateId, table.revision)],
+);
+
 export const captions = pgTable("captions", {
 	id: serial("id").primaryKey(),
 	mediaAssetId: integer("media_asset_id")
@@ -211,6 +334,17 @@ export const captions = pgTable("captions", {
 		() => promptTemplates.id,
 		{ onDelete: "set null" },
 	),
+	promptRevisionId: integer("prompt_revision_id").references(
+		() => promptTemplateRevisions.id,
+		{ onDelete: "set null" },
+	),
+	modelId: integer("model_id").references(() => aiModels.id, {
+		onDelete: "set null",
+	}),
+	experimentArmId: integer("experiment_arm_id").references(
+		() => experimentArms.id,
+		{ onDelete: "cascade" },
+	),
 	status: captionStatusEnum("status").notNull().default("pending"),
 	aiCaption: text("ai_caption"),
 	manualCaption: text("manual_caption"),
@@ -225,6 +359,8 @@ export const captions = pgTable("captions", {
 	reviewedBy: text("reviewed_by"),
 	reviewedAt: timestamp("reviewed_at"),
 	processingError: text("processing_error"),
+	failureCategory: captionFailureCategoryEnum("failure_category"),
+	attempts: integer("attempts").notNull().default(0),
 	metadata: jsonb("metadata")
 		.$type<Record<string, unknown>>()
 		.notNull()
@@ -243,6 +379,11 @@ export const aiModels = pgTable("ai_models", {
 	apiKeyEnv: text("api_key_env"),
 	defaultModel: boolean("default_model").notNull().default(false),
 	enabled: boolean("enabled").notNull().default(true),
+	requestsPerMinute: integer("requests_per_minute"),
+	tokensPerMinute: integer("tokens_per_minute"),
+	maxConcurrency: integer("max_concurrency"),
+	inputPricePer1kMicros: integer("input_price_per_1k_micros"),
+	outputPricePer1kMicros: integer("output_price_per_1k_micros"),
 	metadata: jsonb("metadata")
 		.$type<Record<string, unknown>>()
 		.notNull()
@@ -251,6 +392,21 @@ export const aiModels = pgTable("ai_models", {
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const modelRateLimits = pgTable("model_rate_limits", {
+	modelId: integer("model_id")
+		.primaryKey()
+		.references(() => aiModels.id, { onDelete: "cascade" }),
+	requestAllowance: doublePrecision("request_allowance").notNull().default(0),
+	tokenAllowance: doublePrecision("token_allowance").notNull().default(0),
+	refilledAtMs: bigint("refilled_at_ms", { mode: "number" }).notNull(),
+	// In-flight call slots: slot id -> lease expiry (epoch ms).
+	slots: jsonb("slots")
+		.$type<Record<string, number>>()
+		.notNull()
+		.default(sql`'{}'::jsonb`),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const captionJobs = pgTable("caption_jobs", {
 	id: serial("id").primaryKey(),
 	datasetId: integer("dataset_id").references(() => datasets.id, {
@@ -262,11 +418,34 @@ export const captionJobs = pgTable("caption_jobs", {
 	modelId: integer("model_id").references(() => aiModels.id, {
 		onDelete: "set null",
 	}),
+	captionId: integer("caption_id").references(() => captions.id, {
+		onDelete: "cascade",
+	}),
+	promptTemplateId: integer("prompt_template_id").references(
+		() => promptTemplates.id,
+		{ onDelete: "set null" },
+	),
+	promptRevisionId: integer("prompt_revision_id").references(
+		() => promptTemplateRevisions.id,
+		{ onDelete: "set null" },
+	),
+	jobType: captionJobTypeEnum("job_type").notNull().default("caption"),
 	imageUrl: text("image_url"),
 	prompt: text("prompt"),
 	caption: text("caption"),
 	error: text("error"),
+	failureCategory: captionFailureCategoryEnum("failure_category"),
 	status: captionJobStatusEnum("status").notNull().default("queued"),
+	attempts: integer("attempts").notNull().default(0),
+	maxAttempts: integer("max_attempts").notNull().default(3),
+	availableAt: timestamp("available_at"),
+	requestedBy: text("requested_by"),
+	promptTokens: integer("prompt_tokens"),
+	completionTokens: integer("completion_tokens"),
+	costMicros: integer("cost_micros"),
+	leaseOwner: text("lease_owner"),
+	leaseExpiresAt: timestamp("lease_expires_at"),
+	heartbeatAt: timestamp("heartbeat_at"),
 	metadata: jsonb("metadata")
 		.$type<Record<string, unknown>>()
 		.notNull()
@@ -276,3 +455,201 @@ export const captionJobs = pgTable("caption_jobs", {
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
+
+export const assetTagSourceValues = ["manual", "model", "caption"] as const;
+export const assetTagSourceEnum = pgEnum(
+	"asset_tag_source",
+	assetTagSourceValues,
+);
+
+export const mediaAssetTags = pgTable(
+	"media_asset_tags",
+	{
+		id: serial("id").primaryKey(),
+		mediaAssetId: integer("media_asset_id")
+			.notNull()
+			.references(() => mediaAssets.id, { onDelete: "cascade" }),
+		datasetId: integer("dataset_id")
+			.notNull()
+			.references(() => datasets.id, { onDelete: "cascade" }),
+		label: text("label").notNull(),
+		source: assetTagSourceEnum("source").notNull(),
+		score: integer("score"), // 0-100 when the model reports one
+		modelId: integer("model_id").references(() => aiModels.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => [unique().on(table.mediaAssetId, table.source, table.label)],
+);
+
+// Requires the pgvector extension (`create extension if not exists vector`).
+// Embedding models must be able to return vectors of this size.
+export const EMBEDDING_DIMENSIONS = 1024;
+
+export const embeddingKindValues = ["image", "caption"] as const;
+export const embeddingKindEnum = pgEnum("embedding_kind", embeddingKindValues);
+
+export const mediaEmbeddings = pgTable(
+	"media_embeddings",
+	{
+		id: serial("id").primaryKey(),
+		mediaAssetId: integer("media_asset_id")
+			.notNull()
+			.references(() => mediaAssets.id, { onDelete: "cascade" }),
+		datasetId: integer("dataset_id")
+			.notNull()
+			.references(() => datasets.id, { onDelete: "cascade" }),
+		modelId: integer("model_id")
+			.notNull()
+			.references(() => aiModels.id, { onDelete: "cascade" }),
+		kind: embeddingKindEnum("kind").notNull(),
+		captionId: integer("caption_id").references(() => captions.id, {
+			onDelete: "set null",
+		}),
+		// Hash of the embedded content, so unchanged inputs are not re-embedded.
+		contentHash: text("content_hash").notNull(),
+		embedding: vector("embedding", {
+			dimensions: EMBEDDING_DIMENSIONS,
+		}).notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [
+		unique().on(table.mediaAssetId, table.modelId, table.kind),
+		index("media_embeddings_embedding_idx").using(
+			"hnsw",
+			table.embedding.op("vector_cosine_ops"),
+		),
+	],
+);
+
+export const autoApprovalRules = pgTable("auto_approval_rules", {
+	id: serial("id").primaryKey(),
+	datasetId: integer("dataset_id")
+		.notNull()
+		.unique()
+		.references(() => datasets.id, { onDelete: "cascade" }),
+	enabled: boolean("enabled").notNull().default(false),
+	minConfidence: integer("min_confidence"),
+	maxLength: integer("max_length"),
+	requireFocusTags: boolean("require_focus_tags").notNull().default(false),
+	bannedWords: text("banned_words")
+		.array()
+		.notNull()
+		.default(sql`ARRAY[]::text[]`),
+	updatedBy: text("updated_by"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const experimentStatusValues = [
+	"running",
+	"completed",
+	"cancelled",
+] as const;
+export const experimentStatusEnum = pgEnum(
+	"experiment_status",
+	experimentStatusValues,
+);
+
+export const promptExperiments = pgTable("prompt_experiments", {
+	id: serial("id").primaryKey(),
+	datasetId: integer("dataset_id")
+		.notNull()
+		.references(() => datasets.id, { onDelete: "cascade" }),
+	name: text("name").notNull(),
+	status: experimentStatusEnum("status").notNull().default("running"),
+	sampleSize: integer("sample_size").notNull(),
+	assetIds: integer("asset_ids")
+		.array()
+		.notNull()
+		.default(sql`ARRAY[]::integer[]`),
+	createdBy: text("created_by"),
+	completedAt: timestamp("completed_at"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const experimentArms = pgTable("experiment_arms", {
+	id: serial("id").primaryKey(),
+	experimentId: integer("experiment_id")
+		.notNull()
+		.references(() => promptExperiments.id, { onDelete: "cascade" }),
+	label: text("label").notNull(),
+	promptTemplateId: integer("prompt_template_id").references(
+		() => promptTemplates.id,
+		{ onDelete: "set null" },
+	),
+	promptRevisionId: integer("prompt_revision_id").references(
+		() => promptTemplateRevisions.id,
+		{ onDelete: "set null" },
+	),
+	modelId: integer("model_id").references(() => aiModels.id, {
+		onDelete: "set null",
+	}),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const experimentVotes = pgTable(
+	"experiment_votes",
+	{
+		id: serial("id").primaryKey(),
+		experimentId: integer("experiment_id")
+			.notNull()
+			.references(() => promptExperiments.id, { onDelete: "cascade" }),
+		mediaAssetId: integer("media_asset_id")
+			.notNull()
+			.references(() => mediaAssets.id, { onDelete: "cascade" }),
+		winnerArmId: integer("winner_arm_id").references(() => experimentArms.id, {
+			onDelete: "set null",
+		}), // null records a tie
+		approvedCaptionIds: integer("approved_caption_ids")
+			.array()
+			.notNull()
+			.default(sql`ARRAY[]::integer[]`),
+		reviewer: text("reviewer").notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [
+		unique().on(table.experimentId, table.mediaAssetId, table.reviewer),
+	],
+);
+
+export const modelUsageEvents = pgTable("model_usage_events", {
+	id: serial("id").primaryKey(),
+	modelId: integer("model_id").references(() => aiModels.id, {
+		onDelete: "set null",
+	}),
+	modelName: text("model_name").notNull(),
+	datasetId: integer("dataset_id").references(() => datasets.id, {
+		onDelete: "set null",
+	}),
+	requirementId: integer("requirement_id").references(() => requirements.id, {
+		onDelete: "set null",
+	}),
+	captionJobId: integer("caption_job_id").references(() => captionJobs.id, {
+		onDelete: "set null",
+	}),
+	captionId: integer("caption_id").references(() => captions.id, {
+		onDelete: "set null",
+	}),
+	requestedBy: text("requested_by"),
+	source: text("source").notNull(),
+	promptTokens: integer("prompt_tokens").notNull().default(0),
+	completionTokens: integer("completion_tokens").notNull().default(0),
+	totalTokens: integer("total_tokens").notNull().default(0),
+	costMicros: integer("cost_micros").notNull().default(0),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const queueWorkers = pgTable("queue_workers", {
+	id: text("id").primaryKey(),
+	hostname: text("hostname"),
+	concurrency: integer("concurrency").notNull().default(1),
+	activeCount: integer("active_count").notNull().default(0),
+	startedAt: timestamp("started_at").defaultNow().notNull(),
+	heartbeatAt: timestamp("heartbeat_at").defaultNow().notNull(),
+	stoppedAt: timestamp("stopped_at"),
+});